@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "DataSourceHealthCheck" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "dataSourceId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "latency" INTEGER,
+    "error" TEXT,
+    "errorCategory" TEXT,
+    "checkedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DataSourceHealthCheck_dataSourceId_fkey" FOREIGN KEY ("dataSourceId") REFERENCES "DataSource" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DataSourceHealthCheck_dataSourceId_checkedAt_idx" ON "DataSourceHealthCheck"("dataSourceId", "checkedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DataSourceEndpoint" ADD COLUMN "cacheEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "DataSourceEndpoint" ADD COLUMN "cacheTTL" INTEGER;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "DataSourceFile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "dataSourceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "encoding" TEXT,
+    "delimiter" TEXT,
+    "tables" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DataSourceFile_dataSourceId_fkey" FOREIGN KEY ("dataSourceId") REFERENCES "DataSource" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataSourceFile_dataSourceId_name_version_key" ON "DataSourceFile"("dataSourceId", "name", "version");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DataSource" ADD COLUMN "networkConfig" TEXT;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "DataSource" ADD COLUMN "webhookConfig" TEXT;
+
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "dataSourceId" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "receivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WebhookEvent_dataSourceId_fkey" FOREIGN KEY ("dataSourceId") REFERENCES "DataSource" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_dataSourceId_receivedAt_idx" ON "WebhookEvent"("dataSourceId", "receivedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DataSourceEndpoint" ADD COLUMN "joinConfig" TEXT;
@@ -4,12 +4,32 @@
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/db';
 import { DataSourceForm } from '@/components/data-sources/DataSourceForm';
+import { EndpointEditor } from '@/components/data-sources/EndpointEditor';
+import { ReimportPanel } from '@/components/data-sources/ReimportPanel';
+import { FileManager } from '@/components/data-sources/FileManager';
+import { EnvironmentEditor } from '@/components/data-sources/EnvironmentEditor';
+import { WebhookPanel } from '@/components/data-sources/WebhookPanel';
+import { TrafficInspector } from '@/components/data-sources/TrafficInspector';
+import {
+  DataSourceEndpointRecord,
+  endpointFromRecord,
+} from '@/core/data-sources/EndpointRequest';
+import { listFileVersions } from '@/core/data-sources/files/FileStore';
+import { maskEnvironments } from '@/core/data-sources/Environments';
 import Link from 'next/link';
 import { ArrowLeft } from 'lucide-react';
-import { AuthConfig, DataSourceType } from '@/types/data-source';
+import {
+  AuthConfig,
+  DataSourceEnvironment,
+  DataSourceOptions,
+  DataSourceType,
+  JoinableRelationship,
+  NetworkConfig,
+} from '@/types/data-source';
 
 interface PageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ tab?: string }>;
 }
 
 export async function generateMetadata({ params }: PageProps) {
@@ -24,11 +44,15 @@ export async function generateMetadata({ params }: PageProps) {
   };
 }
 
-export default async function EditDataSourcePage({ params }: PageProps) {
+export default async function EditDataSourcePage({ params, searchParams }: PageProps) {
   const { id } = await params;
+  const { tab } = await searchParams;
 
   const dataSource = await prisma.dataSource.findUnique({
     where: { id },
+    include: {
+      endpoints: { orderBy: { name: 'asc' } },
+    },
   });
 
   if (!dataSource) {
@@ -38,6 +62,78 @@ export default async function EditDataSourcePage({ params }: PageProps) {
   // Parse auth config (masked for display)
   const authConfig = JSON.parse(dataSource.authConfig) as AuthConfig;
 
+  // Certificates and the key are not sent to the browser; the form only shows which are stored
+  const networkConfig: NetworkConfig = dataSource.networkConfig ? JSON.parse(dataSource.networkConfig) : {};
+  const { caCertificate, clientCertificate, clientKey, ...network } = networkConfig;
+  const storedNetworkSecrets = (
+    [
+      ['caCertificate', caCertificate],
+      ['clientCertificate', clientCertificate],
+      ['clientKey', clientKey],
+    ] as const
+  )
+    .filter(([, value]) => value)
+    .map(([field]) => field);
+
+  const endpoints = (dataSource.endpoints as DataSourceEndpointRecord[]).map(endpointFromRecord);
+  // Remount the editor when a re-import changes the endpoints
+  const endpointsVersion = endpoints
+    .map((endpoint) => `${endpoint.id}:${endpoint.updatedAt.getTime()}`)
+    .join(',');
+
+  // Relationships with a schema of this source can be joined from its endpoints, from either side
+  const schemaRelationships = await prisma.schemaRelationship.findMany({
+    where: {
+      OR: [{ sourceSchema: { dataSourceId: id } }, { targetSchema: { dataSourceId: id } }],
+    },
+    include: {
+      sourceSchema: { select: { name: true, dataSourceId: true, dataSource: { select: { name: true } } } },
+      targetSchema: { select: { name: true, dataSourceId: true, dataSource: { select: { name: true } } } },
+    },
+    orderBy: { name: 'asc' },
+  });
+  const relationships: JoinableRelationship[] = [];
+  for (const relationship of schemaRelationships) {
+    const { sourceSchema, targetSchema } = relationship;
+    if (sourceSchema.dataSourceId === id) {
+      relationships.push({
+        id: relationship.id,
+        name: relationship.name,
+        reverse: false,
+        field: relationship.sourceField,
+        relatedSchema: targetSchema.name,
+        relatedField: relationship.targetField,
+        relatedDataSource: targetSchema.dataSource.name,
+        many: relationship.type === 'many-to-many',
+      });
+    }
+    if (targetSchema.dataSourceId === id) {
+      relationships.push({
+        id: relationship.id,
+        name: relationship.name,
+        reverse: true,
+        field: relationship.targetField,
+        relatedSchema: sourceSchema.name,
+        relatedField: relationship.sourceField,
+        relatedDataSource: sourceSchema.dataSource.name,
+        many: relationship.type !== 'one-to-one',
+      });
+    }
+  }
+
+  const files = dataSource.type === 'file' ? await listFileVersions(dataSource.id) : [];
+
+  // Environments override the base URL, so only HTTP sources have them
+  const hasEnvironments =
+    dataSource.type === 'rest' || dataSource.type === 'graphql' || dataSource.type === 'prometheus';
+  const environments = maskEnvironments(
+    dataSource.environments ? (JSON.parse(dataSource.environments) as DataSourceEnvironment[]) : []
+  );
+
+  // Traffic is recorded by the REST connector
+  const hasTraffic = dataSource.type === 'rest';
+  const showTraffic = hasTraffic && tab === 'traffic';
+
   const initialData = {
     id: dataSource.id,
     name: dataSource.name,
@@ -53,8 +149,20 @@ export default async function EditDataSourcePage({ params }: PageProps) {
       apiKeyHeader: authConfig.apiKeyHeader,
       apiKeyPrefix: authConfig.apiKeyPrefix,
       username: authConfig.username,
+      tokenUrl: authConfig.tokenUrl,
+      clientId: authConfig.clientId,
+      scopes: authConfig.scopes,
+      grantType: authConfig.grantType,
     } as AuthConfig,
     healthCheckEndpoint: dataSource.healthCheckEndpoint || undefined,
+    healthCheckInterval: dataSource.healthCheckInterval ?? undefined,
+    rateLimitRequests: dataSource.rateLimitRequests || undefined,
+    rateLimitWindow: dataSource.rateLimitWindow || undefined,
+    options: dataSource.options
+      ? (JSON.parse(dataSource.options) as DataSourceOptions)
+      : undefined,
+    network,
+    storedNetworkSecrets,
   };
 
   return (
@@ -79,8 +187,79 @@ export default async function EditDataSourcePage({ params }: PageProps) {
           </p>
         </div>
 
-        {/* Form */}
-        <DataSourceForm initialData={initialData} />
+        {/* Tabs */}
+        {hasTraffic && (
+          <div className="mb-6 flex gap-6 border-b border-neutral-200">
+            {[
+              { label: 'Settings', href: `/data-sources/${id}`, active: !showTraffic },
+              { label: 'Traffic', href: `/data-sources/${id}?tab=traffic`, active: showTraffic },
+            ].map(({ label, href, active }) => (
+              <Link
+                key={label}
+                href={href}
+                className={`pb-3 -mb-px text-sm font-medium border-b-2 ${
+                  active
+                    ? 'border-neutral-900 text-neutral-900'
+                    : 'border-transparent text-neutral-500 hover:text-neutral-700'
+                }`}
+              >
+                {label}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {showTraffic ? (
+          <TrafficInspector dataSourceId={dataSource.id} />
+        ) : (
+          <>
+            {/* Form */}
+            <DataSourceForm initialData={initialData} />
+
+            {/* Environments */}
+            {hasEnvironments && (
+              <div className="mt-8">
+                <EnvironmentEditor
+                  dataSourceId={dataSource.id}
+                  baseUrl={dataSource.baseUrl || undefined}
+                  initialEnvironments={environments}
+                />
+              </div>
+            )}
+
+            {/* Files */}
+            {dataSource.type === 'file' && (
+              <div className="mt-8">
+                <FileManager dataSourceId={dataSource.id} initialFiles={files} />
+              </div>
+            )}
+
+            {/* Webhook */}
+            {dataSource.type === 'webhook' && (
+              <div className="mt-8">
+                <WebhookPanel dataSourceId={dataSource.id} />
+              </div>
+            )}
+
+            {/* Endpoints */}
+            <div className="mt-8">
+              <EndpointEditor
+                key={endpointsVersion}
+                dataSourceId={dataSource.id}
+                dataSourceType={dataSource.type as DataSourceType}
+                initialEndpoints={endpoints}
+                relationships={relationships}
+              />
+            </div>
+
+            {/* Re-import */}
+            {dataSource.type === 'rest' && (
+              <div className="mt-8">
+                <ReimportPanel dataSourceId={dataSource.id} />
+              </div>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,39 @@
+// Import Data Source Page
+// Create a data source from an API description or capture
+
+import { DataSourceImporter } from '@/components/data-sources/DataSourceImporter';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+export const metadata = {
+  title: 'Import Data Source - Admin Dashboard',
+  description: 'Create a data source from an OpenAPI, Swagger or Postman document, or a HAR capture',
+};
+
+export default function ImportDataSourcePage() {
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-3xl mx-auto px-6 py-8">
+        {/* Back Link */}
+        <Link
+          href="/data-sources"
+          className="inline-flex items-center gap-2 text-neutral-500 hover:text-neutral-700 mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Data Sources
+        </Link>
+
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-neutral-900">Import Data Source</h1>
+          <p className="text-neutral-500 mt-1">
+            Generate endpoints, schemas and auth settings from an API description
+          </p>
+        </div>
+
+        {/* Importer */}
+        <DataSourceImporter />
+      </div>
+    </div>
+  );
+}
@@ -12,10 +12,12 @@ import {
   Branding,
   BrandSetupData,
   DashboardLayout,
+  DataSourceOption,
   MenuItem,
   Widget,
   WidgetType,
 } from "@/components/ui/dashboard/types";
+import { DEFAULT_TIME_RANGE } from "@/components/ui/dashboard/timeRanges";
 
 const defaultLayout: DashboardLayout = {
   menuItems: [
@@ -45,6 +47,10 @@ const defaultBrandSettings: BrandSetupData = {
   description: "",
 };
 
+// Remembers the environment picked in the header between visits
+const ENVIRONMENT_STORAGE_KEY = "dashboard-environment";
+const TIME_RANGE_STORAGE_KEY = "dashboard-time-range";
+
 function deriveInitials(name: string) {
   const trimmed = name.trim();
   if (!trimmed) return "DB";
@@ -70,6 +76,9 @@ export default function Dashboard() {
   const [newWidgetTitle, setNewWidgetTitle] = useState("");
   const [newWidgetType, setNewWidgetType] = useState<WidgetType>("auto");
   const [newWidgetApiUrl, setNewWidgetApiUrl] = useState("");
+  const [newWidgetDataSourceId, setNewWidgetDataSourceId] = useState("");
+  const [newWidgetEndpoint, setNewWidgetEndpoint] = useState("");
+  const [dataSources, setDataSources] = useState<DataSourceOption[]>([]);
   const [isLoadingLayout, setIsLoadingLayout] = useState(true);
   const [layoutError, setLayoutError] = useState<string | null>(null);
   const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
@@ -77,6 +86,8 @@ export default function Dashboard() {
   const [editMenuLabel, setEditMenuLabel] = useState("");
   const [isBrandingModalOpen, setIsBrandingModalOpen] = useState(false);
   const [brandSettings, setBrandSettings] = useState<BrandSetupData>(defaultBrandSettings);
+  const [environment, setEnvironment] = useState("");
+  const [timeRange, setTimeRange] = useState(DEFAULT_TIME_RANGE);
 
   const accentColor = branding.accentColor || "#000000";
   const accentBorderStyle = { borderColor: accentColor, color: accentColor };
@@ -120,14 +131,17 @@ export default function Dashboard() {
 
     setWidgetSets((prev) => {
       const nextWidgets = prev[menuId] ?? [];
+      const useDataSource = newWidgetType !== "editable" && !!newWidgetDataSourceId;
       const newWidget: Widget = {
         id: Date.now(),
         title,
         type: newWidgetType,
         apiUrl:
-          newWidgetType === "editable"
+          newWidgetType === "editable" || useDataSource
             ? undefined
             : newWidgetApiUrl.trim() || undefined,
+        dataSourceId: useDataSource ? newWidgetDataSourceId : undefined,
+        endpoint: useDataSource ? newWidgetEndpoint.trim() : undefined,
       };
 
       return { ...prev, [menuId]: [...nextWidgets, newWidget] };
@@ -135,6 +149,21 @@ export default function Dashboard() {
 
     setNewWidgetTitle("");
     setNewWidgetApiUrl("");
+    setNewWidgetEndpoint("");
+  };
+
+  const handleEnvironmentChange = (name: string) => {
+    setEnvironment(name);
+    if (name) {
+      localStorage.setItem(ENVIRONMENT_STORAGE_KEY, name);
+    } else {
+      localStorage.removeItem(ENVIRONMENT_STORAGE_KEY);
+    }
+  };
+
+  const handleTimeRangeChange = (value: string) => {
+    setTimeRange(value);
+    localStorage.setItem(TIME_RANGE_STORAGE_KEY, value);
   };
 
   const handleBrandingChange = (key: keyof Branding, value: string) => {
@@ -254,7 +283,21 @@ export default function Dashboard() {
       }
     };
 
+    const fetchDataSources = async () => {
+      try {
+        const res = await fetch("/api/data-sources", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = (await res.json()) as { data?: DataSourceOption[] };
+        if (active) setDataSources(json.data ?? []);
+      } catch {
+        // ignore; widgets can still use a plain API URL
+      }
+    };
+
+    setEnvironment(localStorage.getItem(ENVIRONMENT_STORAGE_KEY) ?? "");
+    setTimeRange(localStorage.getItem(TIME_RANGE_STORAGE_KEY) ?? DEFAULT_TIME_RANGE);
     fetchLayout().then(fetchBrandSettings);
+    fetchDataSources();
     return () => {
       active = false;
     };
@@ -294,6 +337,26 @@ export default function Dashboard() {
 
   const widgets = widgetSets[activeMenuId] ?? [];
 
+  // Environments of the data sources bound to any widget on the dashboard
+  const boundDataSourceIds = new Set(
+    Object.values(widgetSets)
+      .flat()
+      .map((widget) => widget.dataSourceId)
+  );
+  const environments = Array.from(
+    new Set(
+      dataSources
+        .filter((source) => boundDataSourceIds.has(source.id))
+        .flatMap((source) => source.environments ?? [])
+    )
+  ).sort();
+
+  // Time-series data sources query the time range picked in the header
+  const timeSeriesSourceIds = new Set(
+    dataSources.filter((source) => source.type === "prometheus").map((source) => source.id)
+  );
+  const showTimeRange = Array.from(timeSeriesSourceIds).some((id) => boundDataSourceIds.has(id));
+
   useEffect(() => {
     if (!menuItems.find((item) => item.id === activeMenuId)) {
       setActiveMenuId(menuItems[0]?.id ?? activeMenuId);
@@ -324,6 +387,12 @@ export default function Dashboard() {
           isLoadingLayout={isLoadingLayout}
           onOpenBranding={() => setIsBrandingModalOpen(true)}
           onSaveLayout={handleSaveLayout}
+          environments={environments}
+          environment={environment}
+          onEnvironmentChange={handleEnvironmentChange}
+          showTimeRange={showTimeRange}
+          timeRange={timeRange}
+          onTimeRangeChange={handleTimeRangeChange}
         />
 
         <section className="flex-1 flex overflow-hidden">
@@ -359,7 +428,17 @@ export default function Dashboard() {
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
                 {widgets.map((widget) => (
-                  <WidgetCard key={widget.id} widget={widget} onRemove={handleRemoveWidget} />
+                  <WidgetCard
+                    key={widget.id}
+                    widget={widget}
+                    environment={environment || undefined}
+                    timeRange={
+                      widget.dataSourceId && timeSeriesSourceIds.has(widget.dataSourceId)
+                        ? timeRange || undefined
+                        : undefined
+                    }
+                    onRemove={handleRemoveWidget}
+                  />
                 ))}
               </div>
             )}
@@ -370,10 +449,15 @@ export default function Dashboard() {
             newWidgetTitle={newWidgetTitle}
             newWidgetType={newWidgetType}
             newWidgetApiUrl={newWidgetApiUrl}
+            newWidgetDataSourceId={newWidgetDataSourceId}
+            newWidgetEndpoint={newWidgetEndpoint}
+            dataSources={dataSources}
             onSubmit={handleAddWidget}
             onTitleChange={setNewWidgetTitle}
             onTypeChange={setNewWidgetType}
             onApiChange={setNewWidgetApiUrl}
+            onDataSourceChange={setNewWidgetDataSourceId}
+            onEndpointChange={setNewWidgetEndpoint}
           />
         </section>
       </main>
@@ -11,6 +11,7 @@ import {
   Save,
   Loader2,
 } from 'lucide-react';
+import { EncryptionStatus } from '@/components/admin';
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('general');
@@ -501,6 +502,8 @@ export default function SettingsPage() {
                   </button>
                 </div>
               </div>
+
+              <EncryptionStatus />
             </div>
           )}
         </div>
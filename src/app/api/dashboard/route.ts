@@ -31,6 +31,10 @@ type Widget = {
   title: string;
   type: WidgetType;
   apiUrl?: string;
+  // Widgets bound to a data source fetch through /api/data-sources/[id]/query
+  dataSourceId?: string;
+  endpointId?: string;
+  endpoint?: string;
 };
 
 type Branding = {
@@ -0,0 +1,130 @@
+// Endpoint Discovery API Route
+// Lists the endpoints a data source reports through introspection and imports them as schemas
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { SchemaDetectionService } from '@/core/schema-detection';
+import { audit } from '@/core/security/AuditLogger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/data-sources/[id]/discover
+ * List endpoints (GraphQL root fields, tables, collections) exposed by a data source
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dbDataSource = await prisma.dataSource.findUnique({
+      where: { id },
+    });
+
+    if (!dbDataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const endpoints = await DataSourceManager.listEndpoints(
+      DataSourceManager.fromRecord(dbDataSource)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: endpoints,
+    });
+  } catch (error) {
+    console.error('Error discovering endpoints:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to discover endpoints',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/data-sources/[id]/discover
+ * Save discovered endpoints (all, or those listed in `endpoints`) and detect their schemas,
+ * including relationships declared by the source such as foreign keys
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: { endpoints?: string[] } = await request.json().catch(() => ({}));
+
+    const dbDataSource = await prisma.dataSource.findUnique({
+      where: { id },
+    });
+
+    if (!dbDataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const dataSource = DataSourceManager.fromRecord(dbDataSource);
+    const discovered = (await DataSourceManager.listEndpoints(dataSource)).filter(
+      (e) => !body.endpoints || body.endpoints.includes(e.path)
+    );
+
+    // Save each discovered endpoint (table, collection, root field) as a DataSourceEndpoint
+    const endpointIds: Record<string, string> = {};
+    for (const endpoint of discovered) {
+      const saved =
+        (await prisma.dataSourceEndpoint.findFirst({
+          where: { dataSourceId: id, path: endpoint.path, method: endpoint.method },
+        })) ||
+        (await prisma.dataSourceEndpoint.create({
+          data: {
+            dataSourceId: id,
+            name: endpoint.name,
+            path: endpoint.path,
+            method: endpoint.method,
+            description: endpoint.description,
+          },
+        }));
+      endpointIds[endpoint.path] = saved.id;
+    }
+
+    const result = await new SchemaDetectionService().importFromDataSource(
+      dataSource,
+      discovered.map((e) => e.path),
+      endpointIds
+    );
+
+    await audit.create(session.user.id, 'schema', id, {
+      imported: result.schemas.map((s) => s.name),
+      relationships: result.relationships.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error importing schemas:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import schemas',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+// Individual Data Source Endpoint API Route
+// Handles GET, PUT, DELETE for a saved endpoint
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import {
+  DataSourceEndpointRecord,
+  endpointFromRecord,
+  endpointRecordData,
+  validateEndpointForm,
+} from '@/core/data-sources/EndpointRequest';
+import { DataSourceEndpointFormData } from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string; endpointId: string }>;
+}
+
+/**
+ * GET /api/data-sources/[id]/endpoints/[endpointId]
+ * Get a saved endpoint
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, endpointId } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const endpoint = await prisma.dataSourceEndpoint.findFirst({
+      where: { id: endpointId, dataSourceId: id },
+    });
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: endpointFromRecord(endpoint as DataSourceEndpointRecord),
+    });
+  } catch (error) {
+    console.error('Error fetching endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch endpoint' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/data-sources/[id]/endpoints/[endpointId]
+ * Update a saved endpoint
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, endpointId } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: DataSourceEndpointFormData = await request.json();
+
+    const validationError = validateEndpointForm(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (
+      body.join &&
+      !(await prisma.schemaRelationship.findUnique({ where: { id: body.join.relationshipId }, select: { id: true } }))
+    ) {
+      return NextResponse.json({ error: 'Join relationship not found' }, { status: 400 });
+    }
+
+    const existing = await prisma.dataSourceEndpoint.findFirst({
+      where: { id: endpointId, dataSourceId: id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 });
+    }
+
+    const endpoint = await prisma.dataSourceEndpoint.update({
+      where: { id: endpointId },
+      data: endpointRecordData(body),
+    });
+    DataSourceManager.clearJoinCache(endpointId);
+
+    // Audit log
+    await audit.update(session.user.id, 'data_source', id, {
+      endpointId,
+      endpoint: endpoint.name,
+      path: endpoint.path,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: endpointFromRecord(endpoint as DataSourceEndpointRecord),
+    });
+  } catch (error) {
+    console.error('Error updating endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to update endpoint' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/data-sources/[id]/endpoints/[endpointId]
+ * Delete a saved endpoint
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, endpointId } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.dataSourceEndpoint.findFirst({
+      where: { id: endpointId, dataSourceId: id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 });
+    }
+
+    await prisma.dataSourceEndpoint.delete({
+      where: { id: endpointId },
+    });
+    DataSourceManager.clearJoinCache(endpointId);
+
+    // Audit log
+    await audit.delete(session.user.id, 'data_source', id, {
+      endpointId,
+      endpoint: existing.name,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Endpoint deleted',
+    });
+  } catch (error) {
+    console.error('Error deleting endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete endpoint' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// Data Source Endpoints API Route
+// Handles GET (list) and POST (create) for a data source's saved endpoints
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { audit } from '@/core/security/AuditLogger';
+import {
+  DataSourceEndpointRecord,
+  endpointFromRecord,
+  endpointRecordData,
+  validateEndpointForm,
+} from '@/core/data-sources/EndpointRequest';
+import { DataSourceEndpointFormData } from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/data-sources/[id]/endpoints
+ * List saved endpoints for a data source
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const endpoints = await prisma.dataSourceEndpoint.findMany({
+      where: { dataSourceId: id },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: (endpoints as DataSourceEndpointRecord[]).map(endpointFromRecord),
+    });
+  } catch (error) {
+    console.error('Error fetching endpoints:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch endpoints' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/data-sources/[id]/endpoints
+ * Create a saved endpoint
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: DataSourceEndpointFormData = await request.json();
+
+    const validationError = validateEndpointForm(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (
+      body.join &&
+      !(await prisma.schemaRelationship.findUnique({ where: { id: body.join.relationshipId }, select: { id: true } }))
+    ) {
+      return NextResponse.json({ error: 'Join relationship not found' }, { status: 400 });
+    }
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const endpoint = await prisma.dataSourceEndpoint.create({
+      data: {
+        ...endpointRecordData(body),
+        dataSourceId: id,
+      },
+    });
+
+    // Audit log
+    await audit.create(session.user.id, 'data_source', id, {
+      endpointId: endpoint.id,
+      endpoint: endpoint.name,
+      path: endpoint.path,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: endpointFromRecord(endpoint as DataSourceEndpointRecord),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to create endpoint' },
+      { status: 500 }
+    );
+  }
+}
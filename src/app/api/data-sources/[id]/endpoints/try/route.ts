@@ -0,0 +1,132 @@
+// Endpoint Try-It API Route
+// Sends a draft endpoint to the data source and returns the resolved request and raw response
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { requirePermission } from '@/core/security/RbacService';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import {
+  buildEndpointRequest,
+  endpointFromRecord,
+  endpointRecordData,
+  validateEndpointForm,
+} from '@/core/data-sources/EndpointRequest';
+import { buildTemplateContext } from '@/core/data-sources/RequestTemplate';
+import { getErrorCategory } from '@/core/data-sources/errors';
+import {
+  DataQueryRequest,
+  DataSourceEndpointFormData,
+  EndpointTryResponse,
+} from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface TryRequestBody {
+  endpoint: DataSourceEndpointFormData;
+  request?: DataQueryRequest;   // Template variables, filters and paging to resolve with
+}
+
+/**
+ * POST /api/data-sources/[id]/endpoints/try
+ * Resolve an endpoint's templates and send it (the endpoint doesn't need to be saved)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: TryRequestBody = await request.json();
+
+    const validationError = validateEndpointForm(body.endpoint || {});
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const dbDataSource = await prisma.dataSource.findUnique({
+      where: { id },
+    });
+
+    if (!dbDataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    // Trying an endpoint calls the upstream API, which may change data
+    try {
+      await requirePermission(session.user.id, 'data_source', 'execute', id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const dataSource = DataSourceManager.fromRecord(dbDataSource);
+    const endpoint = endpointFromRecord({
+      ...endpointRecordData(body.endpoint),
+      id: 'draft',
+      dataSourceId: id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    // The query's own path would replace the endpoint's
+    const query: DataQueryRequest = { ...body.request, path: undefined };
+    const context = buildTemplateContext(query, {
+      id: session.user.id,
+      email: session.user.email,
+      name: session.user.name,
+    });
+
+    const { path, options } = buildEndpointRequest(dataSource, endpoint, query, context);
+    const preview = buildEndpointRequest(dataSource, endpoint, query, context, { maskSecrets: true });
+
+    const result: EndpointTryResponse = {
+      request: {
+        method: preview.options.method || 'GET',
+        path: preview.path,
+        headers: preview.options.headers,
+        params: preview.options.params,
+        body: preview.options.body,
+        query: preview.options.query,
+        variables: preview.options.variables,
+      },
+    };
+
+    try {
+      // Always go upstream so the panel shows the live response
+      const response = await DataSourceManager.fetch(dataSource, path, {
+        ...options,
+        cache: undefined,
+        trigger: { userId: session.user.id, userName: session.user.name || session.user.email || undefined },
+      });
+      result.response = {
+        status: response.status,
+        headers: response.headers,
+        data: response.data,
+        latency: response.latency,
+      };
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Request failed';
+      result.errorCategory = getErrorCategory(error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error trying endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to try endpoint' },
+      { status: 500 }
+    );
+  }
+}
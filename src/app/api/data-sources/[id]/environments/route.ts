@@ -0,0 +1,121 @@
+// Data Source Environments API Route
+// Handles GET (list) and PUT (replace) for a data source's named environments
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import {
+  encryptEnvironments,
+  maskEnvironments,
+  validateEnvironments,
+} from '@/core/data-sources/Environments';
+import { DataSourceEnvironment } from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/data-sources/[id]/environments
+ * List a data source's environments (auth secrets are not returned)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { environments: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const environments: DataSourceEnvironment[] = dataSource.environments
+      ? JSON.parse(dataSource.environments)
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      data: maskEnvironments(environments),
+    });
+  } catch (error) {
+    console.error('Error fetching environments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch environments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/data-sources/[id]/environments
+ * Replace a data source's environments. Blank auth secrets keep the values stored
+ * for the environment of the same name.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: { environments: DataSourceEnvironment[] } = await request.json();
+
+    const validationError = validateEnvironments(body.environments);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const existing = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { environments: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const environments = encryptEnvironments(
+      body.environments,
+      existing.environments ? (JSON.parse(existing.environments) as DataSourceEnvironment[]) : []
+    );
+
+    await prisma.dataSource.update({
+      where: { id },
+      data: {
+        environments: environments.length > 0 ? JSON.stringify(environments) : null,
+      },
+    });
+
+    // Clear cached connectors of every environment
+    DataSourceManager.removeConnector(id);
+
+    // Audit log
+    await audit.update(session.user.id, 'data_source', id, {
+      environments: environments.map((environment) => environment.name),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: maskEnvironments(environments),
+    });
+  } catch (error) {
+    console.error('Error updating environments:', error);
+    return NextResponse.json(
+      { error: 'Failed to update environments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+// Data Source File API Route
+// Deletes a file, with all of its versions, from a file data source
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { requirePermission } from '@/core/security/RbacService';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { deleteFile, toFileName } from '@/core/data-sources/files/FileStore';
+
+interface RouteParams {
+  params: Promise<{ id: string; name: string }>;
+}
+
+/**
+ * DELETE /api/data-sources/[id]/files/[name]
+ * Delete every version of a file and its endpoints. Schemas are kept for widgets using them.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, name } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { type: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    if (dataSource.type !== 'file') {
+      return NextResponse.json({ error: 'Files can only be deleted from file data sources' }, { status: 400 });
+    }
+
+    try {
+      await requirePermission(session.user.id, 'data_source', 'update', id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // Stored names are always endpoint-safe, so anything else (e.g. "..") can't be a file
+    if (name !== toFileName(name)) {
+      return NextResponse.json({ error: 'Invalid file name' }, { status: 400 });
+    }
+
+    const versions = await deleteFile(id, name);
+
+    if (versions === 0) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    await prisma.dataSourceEndpoint.deleteMany({
+      where: {
+        dataSourceId: id,
+        OR: [{ path: name }, { path: { startsWith: `${name}/` } }],
+      },
+    });
+
+    DataSourceManager.removeConnector(id);
+
+    await audit.update(session.user.id, 'data_source', id, {
+      deletedFile: name,
+      versions,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'File deleted',
+    });
+  } catch (error) {
+    console.error('Error deleting file:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete file' },
+      { status: 500 }
+    );
+  }
+}
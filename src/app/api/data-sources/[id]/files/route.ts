@@ -0,0 +1,143 @@
+// Data Source Files API Route
+// Lists and uploads the files behind a file data source
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { requirePermission } from '@/core/security/RbacService';
+import { audit } from '@/core/security/AuditLogger';
+import { FileParseError } from '@/core/data-sources/files/FileParser';
+import { listFileVersions } from '@/core/data-sources/files/FileStore';
+import { uploadFile } from '@/core/data-sources/files/FileUploads';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Largest accepted upload
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+/**
+ * GET /api/data-sources/[id]/files
+ * List every version of the data source's files, newest version first within each file
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      await requirePermission(session.user.id, 'data_source', 'read', id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const files = await listFileVersions(id);
+
+    return NextResponse.json({
+      success: true,
+      data: files,
+    });
+  } catch (error) {
+    console.error('Error fetching data source files:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch files' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/data-sources/[id]/files
+ * Upload a file (multipart `file`). Uploading a file with the same name, or passing `name`,
+ * adds a new version; its endpoints and schemas are updated in place.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { type: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    if (dataSource.type !== 'file') {
+      return NextResponse.json({ error: 'Files can only be uploaded to file data sources' }, { status: 400 });
+    }
+
+    try {
+      await requirePermission(session.user.id, 'data_source', 'update', id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    const name = form.get('name');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json(
+        { error: `Files can be at most ${MAX_UPLOAD_SIZE / 1024 / 1024} MB` },
+        { status: 413 }
+      );
+    }
+
+    const result = await uploadFile(
+      id,
+      {
+        fileName: file.name,
+        content: Buffer.from(await file.arrayBuffer()),
+        name: typeof name === 'string' && name ? name : undefined,
+      },
+      session.user.id
+    );
+
+    await audit.update(session.user.id, 'data_source', id, {
+      file: result.file.name,
+      version: result.file.version,
+      fileName: result.file.fileName,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof FileParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error uploading file:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+// Health History API Route
+// Returns recorded health checks for a data source
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Upper bound on returned checks
+const MAX_CHECKS = 1000;
+
+/**
+ * GET /api/data-sources/[id]/health
+ * List health checks from the last `hours` hours (default 24), oldest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { id: true, healthStatus: true, lastHealthCheck: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const hours = Math.min(Number(request.nextUrl.searchParams.get('hours')) || 24, 24 * 7);
+
+    const checks = await prisma.dataSourceHealthCheck.findMany({
+      where: {
+        dataSourceId: id,
+        checkedAt: { gte: new Date(Date.now() - hours * 60 * 60 * 1000) },
+      },
+      orderBy: { checkedAt: 'desc' },
+      take: MAX_CHECKS,
+      select: {
+        status: true,
+        latency: true,
+        error: true,
+        errorCategory: true,
+        checkedAt: true,
+      },
+    });
+
+    const healthy = checks.filter(
+      (check: (typeof checks)[number]) => check.status === 'healthy'
+    ).length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...dataSource,
+        uptime: checks.length > 0 ? healthy / checks.length : null,
+        checks: checks.reverse(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching health history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch health history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// Data Source Re-import API Route
+// Diffs a data source against an API description or capture and applies the changes
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { audit } from '@/core/security/AuditLogger';
+import { ImportError, diffImport, importDataSource } from '@/core/data-sources/importers';
+import { applyImport, loadImportTarget } from '@/core/data-sources/importers/ImportApplier';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ReimportRequestBody {
+  content: string;            // OpenAPI/Swagger (JSON or YAML), Postman v2.1 or HAR document
+  apply?: boolean;            // Apply the changes; otherwise only return the diff
+  removeMissing?: boolean;    // Also delete endpoints and schemas the document no longer describes
+}
+
+/**
+ * POST /api/data-sources/[id]/import
+ * Show what re-importing a document would change, or apply it
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: ReimportRequestBody = await request.json();
+
+    if (!body.content) {
+      return NextResponse.json({ error: 'A document is required' }, { status: 400 });
+    }
+
+    const target = await loadImportTarget(id);
+
+    if (!target) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    // Recorded URLs under the data source's base URL become endpoint paths
+    const imported = importDataSource(body.content, { baseUrl: target.baseUrl });
+    const diff = diffImport(target, imported);
+
+    if (!body.apply) {
+      return NextResponse.json({
+        success: true,
+        data: { import: imported, diff },
+      });
+    }
+
+    const result = await applyImport(id, target, imported, {
+      removeMissing: body.removeMissing,
+    });
+
+    await audit.update(session.user.id, 'data_source', id, {
+      importedFrom: imported.format,
+      endpoints: result.endpoints,
+      schemas: result.schemas,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { diff, result },
+    });
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error re-importing data source:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-import data source' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+// Data Query API Route
+// Proxies widget data requests through the data source's connector so credentials stay server-side
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { requirePermission } from '@/core/security/RbacService';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { buildEndpointRequest, endpointFromRecord } from '@/core/data-sources/EndpointRequest';
+import { buildTemplateContext } from '@/core/data-sources/RequestTemplate';
+import { isReadRequest, schemaCacheTags } from '@/core/data-sources/ResponseCache';
+import { CircuitOpenError, DataSourceError } from '@/core/data-sources/errors';
+import { RateLimitExceededError } from '@/core/data-sources/RateLimiter';
+import { DataQueryRequest } from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/data-sources/[id]/query
+ * Fetch data from a data source, optionally through a saved endpoint
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as DataQueryRequest;
+
+    const dbDataSource = await prisma.dataSource.findUnique({
+      where: { id },
+    });
+
+    if (!dbDataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const dbEndpoint = body.endpointId
+      ? await prisma.dataSourceEndpoint.findFirst({
+          where: { id: body.endpointId, dataSourceId: id },
+        })
+      : null;
+
+    if (body.endpointId && !dbEndpoint) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 });
+    }
+
+    const endpoint = dbEndpoint ? endpointFromRecord(dbEndpoint) : undefined;
+    const dataSource = DataSourceManager.fromRecord(dbDataSource);
+    const context = buildTemplateContext(body, {
+      id: session.user.id,
+      email: session.user.email,
+      name: session.user.name,
+    });
+
+    // Reads need read access; anything that may change upstream data (GraphQL mutations
+    // included, whatever the method) needs execute
+    const { options } = buildEndpointRequest(dataSource, endpoint, body, context);
+    const method = options.method || 'GET';
+    const isRead = isReadRequest(options);
+
+    // A join also reads from the related schema's data source
+    const join = endpoint?.join && isRead ? await DataSourceManager.resolveJoin(endpoint.join) : undefined;
+
+    try {
+      await requirePermission(session.user.id, 'data_source', isRead ? 'read' : 'execute', id);
+      if (join && join.dataSource.id !== id) {
+        await requirePermission(session.user.id, 'data_source', 'read', join.dataSource.id);
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // Cached reads are tagged with the schemas they belong to, so CRUD writes to a schema clear them
+    const schemas = await prisma.schema.findMany({
+      where: { dataSourceId: id },
+      select: { id: true, endpointId: true, crudEndpoints: true },
+    });
+    const cacheTags = schemaCacheTags(id, schemas, body.path ?? endpoint?.path ?? '', endpoint?.id);
+
+    const result = await DataSourceManager.query(
+      dataSource,
+      endpoint,
+      body,
+      context,
+      cacheTags
+    );
+
+    // Not awaited so the audit write doesn't delay widget data
+    audit
+      .access(session.user.id, 'data_source', id, {
+        method,
+        path: body.path ?? endpoint?.path,
+        endpointId: endpoint?.id,
+        environment: result.environment ?? 'default',
+      })
+      .catch((error) => console.error('Error logging data source query:', error));
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(error.retryAfter / 1000)) } }
+      );
+    }
+
+    if (error instanceof DataSourceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          category: error.category,
+          upstreamStatus: error.status,
+        },
+        { status: error instanceof CircuitOpenError ? 503 : 502 }
+      );
+    }
+
+    console.error('Error querying data source:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to query data source',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,8 +7,11 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import { encrypt, decrypt } from '@/lib/encryption';
 import { audit } from '@/core/security/AuditLogger';
-import { DataSourceFormData, AuthConfig } from '@/types/data-source';
+import { DataSourceFormData, AuthConfig, NetworkConfig, DataSourceEnvironment } from '@/types/data-source';
 import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { NETWORK_SECRET_FIELDS, encryptNetworkConfig } from '@/core/data-sources/NetworkClient';
+import { maskEnvironments } from '@/core/data-sources/Environments';
+import { deleteDataSourceFiles } from '@/core/data-sources/files/FileStore';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -55,8 +58,21 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       success: true,
       data: {
         ...dataSource,
+        connectionString: dataSource.connectionString ? '********' : null,
+        options: dataSource.options ? JSON.parse(dataSource.options) : null,
+        networkConfig: undefined,
+        network: dataSource.networkConfig
+          ? maskNetworkConfig(JSON.parse(dataSource.networkConfig) as NetworkConfig)
+          : null,
+        environments: dataSource.environments
+          ? maskEnvironments(JSON.parse(dataSource.environments) as DataSourceEnvironment[])
+          : [],
+        // Webhook status (URL, secret, retention) comes from /api/data-sources/[id]/webhook
+        webhookConfig: undefined,
         authConfig: undefined,
         auth: maskedAuth,
+        rateLimit: DataSourceManager.getRateLimitStats(dataSource.id),
+        circuit: DataSourceManager.getCircuitStats(dataSource.id),
       },
     });
   } catch (error) {
@@ -103,12 +119,26 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         description: body.description,
         type: body.type,
         baseUrl: body.baseUrl,
+        // Keep the stored connection string unless a new one is provided
+        connectionString: body.connectionString ? encrypt(body.connectionString) : undefined,
         host: body.host,
         port: body.port,
         database: body.database,
         authConfig: JSON.stringify(encryptedAuth),
         healthCheckEndpoint: body.healthCheckEndpoint,
         healthCheckInterval: body.healthCheckInterval,
+        rateLimitRequests: body.rateLimitRequests,
+        rateLimitWindow: body.rateLimitWindow,
+        options: body.options ? JSON.stringify(body.options) : undefined,
+        // Certificates and the key left blank keep their stored values
+        networkConfig: body.network
+          ? JSON.stringify(
+              encryptNetworkConfig(
+                body.network,
+                existing.networkConfig ? (JSON.parse(existing.networkConfig) as NetworkConfig) : undefined
+              )
+            )
+          : undefined,
       },
     });
 
@@ -193,6 +223,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // Clear cached connector
     DataSourceManager.removeConnector(id);
 
+    if (existing.type === 'file') {
+      await deleteDataSourceFiles(id);
+    }
+
     // Audit log
     await audit.delete(session.user.id, 'data_source', id, {
       name: existing.name,
@@ -229,6 +263,9 @@ function encryptAuthConfig(auth: AuthConfig): AuthConfig {
   if (auth.clientSecret) {
     encrypted.clientSecret = encrypt(auth.clientSecret);
   }
+  if (auth.refreshToken) {
+    encrypted.refreshToken = encrypt(auth.refreshToken);
+  }
 
   return encrypted;
 }
@@ -252,6 +289,24 @@ function maskAuthConfig(auth: AuthConfig): AuthConfig {
   if (auth.clientSecret) {
     masked.clientSecret = maskValue(auth.clientSecret);
   }
+  if (auth.refreshToken) {
+    masked.refreshToken = maskValue(auth.refreshToken);
+  }
+
+  return masked;
+}
+
+/**
+ * Mask the certificates and key in network settings for display
+ */
+function maskNetworkConfig(network: NetworkConfig): NetworkConfig {
+  const masked = { ...network };
+
+  for (const field of NETWORK_SECRET_FIELDS) {
+    if (network[field]) {
+      masked[field] = '********';
+    }
+  }
 
   return masked;
 }
@@ -5,9 +5,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
-import { decrypt } from '@/lib/encryption';
 import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
-import { AuthConfig, DataSource } from '@/types/data-source';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -35,40 +33,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
     }
 
-    // Parse and decrypt auth config
-    const authConfig = JSON.parse(dbDataSource.authConfig) as AuthConfig;
-    const decryptedAuth = decryptAuthConfig(authConfig);
+    // Test connection; credentials are decrypted when the connector is created; a key that can't decrypt
+    // them fails the test naming the field
+    const result = await DataSourceManager.testConnection(DataSourceManager.fromRecord(dbDataSource));
 
-    // Build data source object
-    const dataSource: DataSource = {
-      id: dbDataSource.id,
-      name: dbDataSource.name,
-      description: dbDataSource.description || undefined,
-      type: dbDataSource.type as DataSource['type'],
-      baseUrl: dbDataSource.baseUrl || undefined,
-      host: dbDataSource.host || undefined,
-      port: dbDataSource.port || undefined,
-      database: dbDataSource.database || undefined,
-      auth: decryptedAuth,
-      healthCheckEndpoint: dbDataSource.healthCheckEndpoint || undefined,
-      healthCheckInterval: dbDataSource.healthCheckInterval || undefined,
-      healthStatus: dbDataSource.healthStatus as DataSource['healthStatus'],
-      createdAt: dbDataSource.createdAt,
-      updatedAt: dbDataSource.updatedAt,
-      createdById: dbDataSource.createdById,
-      credentialsEncrypted: false, // Already decrypted
-    };
-
-    // Test connection
-    const result = await DataSourceManager.testConnection(dataSource);
-
-    // Update health status in database
-    await prisma.dataSource.update({
-      where: { id },
-      data: {
-        healthStatus: result.success ? 'healthy' : 'unhealthy',
-        lastHealthCheck: new Date(),
-      },
+    // Update health status and history
+    await DataSourceManager.recordHealth(id, {
+      dataSourceId: id,
+      isConnected: result.success,
+      latency: result.latency,
+      lastError: result.error,
+      errorCategory: result.errorCategory,
+      lastChecked: new Date(),
     });
 
     return NextResponse.json({
@@ -89,30 +65,3 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
-
-/**
- * Decrypt sensitive fields in auth config
- */
-function decryptAuthConfig(auth: AuthConfig): AuthConfig {
-  const decrypted = { ...auth };
-
-  try {
-    if (auth.apiKey) {
-      decrypted.apiKey = decrypt(auth.apiKey);
-    }
-    if (auth.password) {
-      decrypted.password = decrypt(auth.password);
-    }
-    if (auth.token) {
-      decrypted.token = decrypt(auth.token);
-    }
-    if (auth.clientSecret) {
-      decrypted.clientSecret = decrypt(auth.clientSecret);
-    }
-  } catch {
-    // If decryption fails, return original
-    return auth;
-  }
-
-  return decrypted;
-}
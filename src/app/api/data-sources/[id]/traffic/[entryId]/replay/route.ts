@@ -0,0 +1,92 @@
+// Traffic Replay API Route
+// Sends a recorded request to the data source again
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { requirePermission } from '@/core/security/RbacService';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { CircuitOpenError, DataSourceError } from '@/core/data-sources/errors';
+import { RateLimitExceededError } from '@/core/data-sources/RateLimiter';
+
+interface RouteParams {
+  params: Promise<{ id: string; entryId: string }>;
+}
+
+/**
+ * POST /api/data-sources/[id]/traffic/[entryId]/replay
+ * Replay a recorded request with the current credentials; returns the new recording
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, entryId } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dbDataSource = await prisma.dataSource.findUnique({
+      where: { id },
+    });
+
+    if (!dbDataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    // Replaying calls the upstream API, which may change data
+    try {
+      await requirePermission(session.user.id, 'data_source', 'execute', id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const entry = await DataSourceManager.replayTraffic(
+      DataSourceManager.fromRecord(dbDataSource),
+      entryId,
+      { userId: session.user.id, userName: session.user.name || session.user.email || undefined }
+    );
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Recorded request not found' }, { status: 404 });
+    }
+
+    // Audit log
+    await audit.access(session.user.id, 'data_source', id, {
+      method: entry.method,
+      url: entry.url,
+      replayOf: entryId,
+      environment: entry.environment ?? 'default',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(error.retryAfter / 1000)) } }
+      );
+    }
+
+    if (error instanceof DataSourceError) {
+      return NextResponse.json(
+        { success: false, error: error.message, category: error.category },
+        { status: error instanceof CircuitOpenError ? 503 : 502 }
+      );
+    }
+
+    console.error('Error replaying request:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay request' },
+      { status: 500 }
+    );
+  }
+}
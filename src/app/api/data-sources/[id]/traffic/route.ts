@@ -0,0 +1,123 @@
+// Data Source Traffic API Route
+// Handles GET (recorded requests) and DELETE (clear) for the traffic inspector
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { requirePermission } from '@/core/security/RbacService';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { DataSourceOptions, TrafficFilter } from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const OUTCOMES: NonNullable<TrafficFilter['outcome']>[] = ['success', 'client_error', 'server_error', 'failed'];
+
+/**
+ * GET /api/data-sources/[id]/traffic
+ * Recorded requests, newest first. Filters: method, outcome, search (URL) and widgetId.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = await checkAccess(session.user.id, id);
+    if (denied) return denied;
+
+    const dataSource = await prisma.dataSource.findUnique({
+      where: { id },
+      select: { options: true },
+    });
+
+    if (!dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const outcome = searchParams.get('outcome') as TrafficFilter['outcome'];
+
+    if (outcome && !OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { error: `outcome must be one of ${OUTCOMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const options: DataSourceOptions = dataSource.options ? JSON.parse(dataSource.options) : {};
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        enabled: !!options.traffic?.enabled,
+        entries: DataSourceManager.getTraffic(id, {
+          method: searchParams.get('method') || undefined,
+          outcome: outcome || undefined,
+          search: searchParams.get('search') || undefined,
+          widgetId: searchParams.get('widgetId') || undefined,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching data source traffic:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch traffic' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/data-sources/[id]/traffic
+ * Delete every recorded request
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = await checkAccess(session.user.id, id);
+    if (denied) return denied;
+
+    DataSourceManager.clearTraffic(id);
+
+    // Audit log
+    await audit.update(session.user.id, 'data_source', id, {
+      traffic: 'cleared',
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing data source traffic:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear traffic' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Recorded responses may hold any user's data, so the inspector needs update access
+ */
+async function checkAccess(userId: string, dataSourceId: string): Promise<NextResponse | undefined> {
+  try {
+    await requirePermission(userId, 'data_source', 'update', dataSourceId);
+    return undefined;
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Forbidden' },
+      { status: 403 }
+    );
+  }
+}
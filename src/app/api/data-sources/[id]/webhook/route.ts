@@ -0,0 +1,210 @@
+// Data Source Webhook API Route
+// Handles GET (status), PUT (settings) and DELETE (stored events) for a webhook data source
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { decrypt, generateSecureToken } from '@/lib/encryption';
+import { audit } from '@/core/security/AuditLogger';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  encryptWebhookConfig,
+  validateWebhookConfig,
+  webhookPath,
+} from '@/core/data-sources/webhooks/WebhookIngestion';
+import {
+  DEFAULT_MAX_EVENTS,
+  DEFAULT_RETENTION_DAYS,
+  clearEvents,
+  getEventStats,
+  pruneEvents,
+} from '@/core/data-sources/webhooks/WebhookStore';
+import { WebhookConfig, WebhookStatus } from '@/types/data-source';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface WebhookSettings {
+  secret?: string | null;     // Blank keeps the stored secret; null removes it
+  signatureHeader?: string;
+  retentionDays?: number;
+  maxEvents?: number;
+  regenerateUrl?: boolean;    // Replace the signing key; the old URL stops working
+}
+
+/**
+ * GET /api/data-sources/[id]/webhook
+ * Ingestion URL, settings and stored event count (the shared secret is not returned)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const config = await findWebhookConfig(id);
+    if (!config) {
+      return NextResponse.json({ error: 'Webhook data source not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getStatus(request, id, config),
+    });
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/data-sources/[id]/webhook
+ * Update the shared secret, signature header and retention limits, or regenerate the URL
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: WebhookSettings = await request.json();
+
+    const stored = await findWebhookConfig(id);
+    if (!stored) {
+      return NextResponse.json({ error: 'Webhook data source not found' }, { status: 404 });
+    }
+
+    const settings: WebhookConfig = {
+      signatureHeader: body.signatureHeader?.trim() || undefined,
+      retentionDays: body.retentionDays ?? undefined,
+      maxEvents: body.maxEvents ?? undefined,
+    };
+
+    const validationError = validateWebhookConfig(settings);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const config = encryptWebhookConfig(
+      {
+        ...settings,
+        secret: body.secret as string | undefined,   // null removes the stored secret
+        signingKey: body.regenerateUrl ? generateSecureToken() : undefined,
+      },
+      stored
+    );
+
+    await prisma.dataSource.update({
+      where: { id },
+      data: { webhookConfig: JSON.stringify(config) },
+    });
+
+    // Apply lowered limits right away
+    if ((await pruneEvents(id, config)) > 0) {
+      DataSourceManager.invalidateCache([`datasource:${id}`]);
+    }
+
+    // Audit log
+    await audit.update(session.user.id, 'data_source', id, {
+      webhook: {
+        secret: body.secret === null ? 'removed' : body.secret ? 'changed' : 'unchanged',
+        regeneratedUrl: !!body.regenerateUrl,
+        retentionDays: config.retentionDays,
+        maxEvents: config.maxEvents,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await getStatus(request, id, config),
+    });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/data-sources/[id]/webhook
+ * Delete every stored event
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const config = await findWebhookConfig(id);
+    if (!config) {
+      return NextResponse.json({ error: 'Webhook data source not found' }, { status: 404 });
+    }
+
+    const deleted = await clearEvents(id);
+    DataSourceManager.invalidateCache([`datasource:${id}`]);
+
+    // Audit log
+    await audit.update(session.user.id, 'data_source', id, {
+      webhook: { clearedEvents: deleted },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: await getStatus(request, id, config),
+    });
+  } catch (error) {
+    console.error('Error clearing webhook events:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear webhook events' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stored settings of a webhook data source, or undefined for other data sources
+ */
+async function findWebhookConfig(id: string): Promise<WebhookConfig | undefined> {
+  const dataSource = await prisma.dataSource.findUnique({
+    where: { id },
+    select: { type: true, webhookConfig: true },
+  });
+
+  if (dataSource?.type !== 'webhook') {
+    return undefined;
+  }
+  return dataSource.webhookConfig ? (JSON.parse(dataSource.webhookConfig) as WebhookConfig) : {};
+}
+
+async function getStatus(request: NextRequest, id: string, config: WebhookConfig): Promise<WebhookStatus> {
+  const stats = await getEventStats(id);
+
+  return {
+    url: config.signingKey
+      ? `${request.nextUrl.origin}${webhookPath(id, decrypt(config.signingKey))}`
+      : '',
+    hasSecret: !!config.secret,
+    signatureHeader: config.signatureHeader || DEFAULT_SIGNATURE_HEADER,
+    retentionDays: config.retentionDays || DEFAULT_RETENTION_DAYS,
+    maxEvents: config.maxEvents || DEFAULT_MAX_EVENTS,
+    eventCount: stats.count,
+    lastReceivedAt: stats.lastReceivedAt?.toISOString(),
+  };
+}
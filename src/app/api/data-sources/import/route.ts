@@ -0,0 +1,75 @@
+// Data Source Import API Route
+// Previews an API description or capture and creates a data source with its endpoints and schemas
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { audit } from '@/core/security/AuditLogger';
+import { ImportError, importDataSource } from '@/core/data-sources/importers';
+import { createDataSourceFromImport } from '@/core/data-sources/importers/ImportApplier';
+
+interface ImportRequestBody {
+  content: string;            // OpenAPI/Swagger (JSON or YAML), Postman v2.1 or HAR document
+  create?: boolean;           // Save the data source; otherwise only preview it
+  name?: string;              // Overrides for the imported connection settings
+  baseUrl?: string;
+}
+
+/**
+ * POST /api/data-sources/import
+ * Preview an imported document, or create a data source from it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: ImportRequestBody = await request.json();
+
+    if (!body.content) {
+      return NextResponse.json({ error: 'A document is required' }, { status: 400 });
+    }
+
+    const imported = importDataSource(body.content);
+    if (body.name?.trim()) imported.dataSource.name = body.name.trim();
+    if (body.baseUrl?.trim()) imported.dataSource.baseUrl = body.baseUrl.trim();
+
+    if (!body.create) {
+      return NextResponse.json({
+        success: true,
+        data: { import: imported },
+      });
+    }
+
+    const id = await createDataSourceFromImport(imported, session.user.id);
+
+    await audit.create(session.user.id, 'data_source', id, {
+      name: imported.dataSource.name,
+      type: imported.dataSource.type,
+      importedFrom: imported.format,
+      endpoints: imported.endpoints.length,
+      schemas: imported.schemas.length,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id, import: imported },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error importing data source:', error);
+    return NextResponse.json(
+      { error: 'Failed to import data source' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,9 +5,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
-import { encrypt } from '@/lib/encryption';
+import { encrypt, generateSecureToken } from '@/lib/encryption';
 import { audit } from '@/core/security/AuditLogger';
-import { DataSourceFormData, AuthConfig } from '@/types/data-source';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
+import { encryptNetworkConfig } from '@/core/data-sources/NetworkClient';
+import { encryptWebhookConfig } from '@/core/data-sources/webhooks/WebhookIngestion';
+import { WEBHOOK_EVENTS_ENDPOINT } from '@/core/data-sources/connectors/WebhookConnector';
+import { DataSourceFormData, AuthConfig, DataSourceEnvironment } from '@/types/data-source';
 
 /**
  * GET /api/data-sources
@@ -31,6 +35,7 @@ export async function GET() {
         baseUrl: true,
         healthStatus: true,
         lastHealthCheck: true,
+        environments: true,
         createdAt: true,
         updatedAt: true,
         createdBy: {
@@ -48,9 +53,22 @@ export async function GET() {
       },
     });
 
+    const health = await DataSourceManager.getHealthSummaries(
+      dataSources.map((ds: (typeof dataSources)[number]) => ds.id)
+    );
+
     return NextResponse.json({
       success: true,
-      data: dataSources,
+      data: dataSources.map((ds: (typeof dataSources)[number]) => ({
+        ...ds,
+        // Names only; environment settings include credentials
+        environments: ds.environments
+          ? (JSON.parse(ds.environments) as DataSourceEnvironment[]).map((env) => env.name)
+          : [],
+        rateLimit: DataSourceManager.getRateLimitStats(ds.id),
+        circuit: DataSourceManager.getCircuitStats(ds.id),
+        health: health[ds.id],
+      })),
     });
   } catch (error) {
     console.error('Error fetching data sources:', error);
@@ -93,16 +111,38 @@ export async function POST(request: NextRequest) {
         description: body.description,
         type: body.type,
         baseUrl: body.baseUrl,
+        connectionString: body.connectionString ? encrypt(body.connectionString) : undefined,
         host: body.host,
         port: body.port,
         database: body.database,
         authConfig: JSON.stringify(encryptedAuth),
         healthCheckEndpoint: body.healthCheckEndpoint,
         healthCheckInterval: body.healthCheckInterval,
+        rateLimitRequests: body.rateLimitRequests,
+        rateLimitWindow: body.rateLimitWindow,
+        options: body.options ? JSON.stringify(body.options) : undefined,
+        networkConfig: body.network ? JSON.stringify(encryptNetworkConfig(body.network)) : undefined,
+        // Webhooks get a key signing their ingestion URL
+        webhookConfig:
+          body.type === 'webhook'
+            ? JSON.stringify(encryptWebhookConfig({ signingKey: generateSecureToken() }))
+            : undefined,
         createdById: session.user.id,
       },
     });
 
+    if (body.type === 'webhook') {
+      await prisma.dataSourceEndpoint.create({
+        data: {
+          dataSourceId: dataSource.id,
+          name: 'Events',
+          path: WEBHOOK_EVENTS_ENDPOINT,
+          method: 'GET',
+          description: 'Payloads received by the webhook',
+        },
+      });
+    }
+
     // Audit log
     await audit.create(session.user.id, 'data_source', dataSource.id, {
       name: body.name,
@@ -147,6 +187,9 @@ function encryptAuthConfig(auth: AuthConfig): AuthConfig {
   if (auth.clientSecret) {
     encrypted.clientSecret = encrypt(auth.clientSecret);
   }
+  if (auth.refreshToken) {
+    encrypted.refreshToken = encrypt(auth.refreshToken);
+  }
 
   return encrypted;
 }
@@ -22,16 +22,24 @@ export async function POST(request: NextRequest) {
     const body: DataSourceFormData = await request.json();
 
     // Validate required fields
-    if (!body.baseUrl && !body.host) {
+    if (!body.baseUrl && !body.host && !body.connectionString && !body.database) {
       return NextResponse.json(
-        { error: 'Base URL or host is required' },
+        { error: 'Base URL, host, connection string or database is required' },
         { status: 400 }
       );
     }
 
+    const isHttp = body.type === 'rest' || body.type === 'graphql';
+
     // Test connection without encryption (credentials are in plain text)
     const result = await DataSourceManager.testConnection({
-      baseUrl: body.baseUrl || `http://${body.host}:${body.port || 80}`,
+      baseUrl: body.baseUrl || (isHttp ? `http://${body.host}:${body.port || 80}` : undefined),
+      connectionString: body.connectionString,
+      host: body.host,
+      port: body.port,
+      database: body.database,
+      options: body.options,
+      network: body.network,
       auth: body.auth,
       healthCheckEndpoint: body.healthCheckEndpoint,
       type: body.type,
@@ -0,0 +1,99 @@
+// Realtime Events API Route
+// Streams server events to the browser as Server-Sent Events
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { subscribeServerEvents } from '@/lib/realtime/server';
+import { requirePermission } from '@/core/security/RbacService';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_INTERVAL = 25000;
+
+// How long a connection reuses a data source permission check
+const PERMISSION_CHECK_TTL = 60000;
+
+/**
+ * GET /api/realtime
+ * Open an event stream of realtime events
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const userId = session.user.id;
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+
+  // Data source events can carry upstream records (webhook payloads, stream messages),
+  // so they only reach users allowed to read that data source
+  const permissions = new Map<string, { allowed: Promise<boolean>; expiresAt: number }>();
+  const canReadDataSource = (dataSourceId: string): Promise<boolean> => {
+    const cached = permissions.get(dataSourceId);
+    if (cached && Date.now() < cached.expiresAt) return cached.allowed;
+
+    const allowed = requirePermission(userId, 'data_source', 'read', dataSourceId).then(
+      () => true,
+      () => false
+    );
+    permissions.set(dataSourceId, { allowed, expiresAt: Date.now() + PERMISSION_CHECK_TTL });
+    return allowed;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      // Events are sent in order, each after its permission check
+      let queue = Promise.resolve();
+      const unsubscribe = subscribeServerEvents((event) => {
+        queue = queue.then(async () => {
+          if (event.resource === 'data-source' && !(event.resourceId && (await canReadDataSource(event.resourceId)))) {
+            return;
+          }
+          send(`data: ${JSON.stringify(event)}\n\n`);
+        });
+      });
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(keepalive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
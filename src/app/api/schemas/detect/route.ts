@@ -6,12 +6,13 @@ import {
 } from '@/core/schema-detection';
 import { successResponse, errorResponse, ERROR_CODES } from '@/types/api';
 import { Schema } from '@/types/schema';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
 
 const schemaService = new SchemaDetectionService();
 
 /**
  * POST /api/schemas/detect
- * Detect schema from sample data
+ * Detect schema from sample data, or by fetching `endpoint` from the data source
  */
 export async function POST(request: NextRequest) {
   try {
@@ -19,6 +20,7 @@ export async function POST(request: NextRequest) {
     const {
       dataSourceId,
       endpointId,
+      endpoint,
       sampleData,
       detectRelationships = false,
       detectPagination = true,
@@ -35,11 +37,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!sampleData) {
+    if (!sampleData && !endpoint) {
       return NextResponse.json(
         errorResponse(
           ERROR_CODES.MISSING_REQUIRED_FIELD,
-          'sampleData is required'
+          'sampleData or endpoint is required'
         ),
         { status: 400 }
       );
@@ -83,14 +85,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Detect schema
-    const result = await schemaService.detectSchema({
-      dataSourceId,
-      endpointId,
-      sampleData,
-      existingSchemas,
-      detectRelationships,
-      detectPagination,
-    });
+    const result = sampleData
+      ? await schemaService.detectSchema({
+          dataSourceId,
+          endpointId,
+          sampleData,
+          existingSchemas,
+          detectRelationships,
+          detectPagination,
+        })
+      : await schemaService.detectFromEndpoint(
+          DataSourceManager.fromRecord(dataSource),
+          endpoint,
+          {
+            endpointId,
+            existingSchemas,
+            detectRelationships,
+            detectPagination,
+          }
+        );
 
     return NextResponse.json(successResponse(result));
   } catch (error) {
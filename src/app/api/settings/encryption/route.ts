@@ -0,0 +1,81 @@
+// Encryption Settings API Route
+// Reports which keys stored credentials are encrypted with, and re-encrypts them with the newest key
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/core/security/RbacService';
+import { CredentialRotation } from '@/core/security/CredentialRotation';
+
+/**
+ * GET /api/settings/encryption
+ * Key versions, stored credentials per key version and the last rotation
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      await requirePermission(session.user.id, 'settings', 'read');
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const status = await CredentialRotation.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    console.error('Error fetching encryption status:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch encryption status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/encryption
+ * Re-encrypt stored credentials with the newest key
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      await requirePermission(session.user.id, 'settings', 'manage');
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const run = await CredentialRotation.rotate(session.user.id);
+    const status = await CredentialRotation.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      data: { ...status, lastRun: run },
+    });
+  } catch (error) {
+    console.error('Error rotating credentials:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rotate credentials' },
+      { status: 500 }
+    );
+  }
+}
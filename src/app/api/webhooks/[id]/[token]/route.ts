@@ -0,0 +1,60 @@
+// Webhook Ingestion API Route
+// Receives events pushed to webhook data sources; authenticated by the signed URL, not a session
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MAX_PAYLOAD_SIZE,
+  WebhookError,
+  receiveWebhook,
+} from '@/core/data-sources/webhooks/WebhookIngestion';
+
+interface RouteParams {
+  params: Promise<{ id: string; token: string }>;
+}
+
+/**
+ * POST /api/webhooks/[id]/[token]
+ * Store a pushed JSON (or form-encoded) payload; a JSON array is stored as one event per
+ * item. When the data source has a shared secret, the body must be signed with it.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, token } = await params;
+
+    if (Number(request.headers.get('content-length')) > MAX_PAYLOAD_SIZE) {
+      return payloadTooLarge();
+    }
+
+    const body = await request.text();
+    if (Buffer.byteLength(body) > MAX_PAYLOAD_SIZE) {
+      return payloadTooLarge();
+    }
+
+    const received = await receiveWebhook(id, token, body, request.headers);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { received },
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error receiving webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to receive webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+function payloadTooLarge() {
+  return NextResponse.json(
+    { error: `Payloads can be at most ${MAX_PAYLOAD_SIZE / 1024 / 1024} MB` },
+    { status: 413 }
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+// Encryption Status Component
+// Shows which keys stored credentials are encrypted with and re-encrypts them with the newest key
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, KeyRound, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import type { CredentialRotationStatus } from '@/core/security/CredentialRotation';
+
+export function EncryptionStatus() {
+  const [status, setStatus] = useState<CredentialRotationStatus>();
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/settings/encryption');
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load encryption status');
+        }
+        setStatus(data.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load encryption status');
+      }
+    };
+
+    load();
+  }, []);
+
+  const handleRotate = async () => {
+    setIsRotating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/settings/encryption', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to re-encrypt credentials');
+      }
+      setStatus(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-encrypt credentials');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const lastRun = status?.lastRun;
+
+  return (
+    <div className="pt-6 border-t border-neutral-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-neutral-900 flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Credential Encryption
+          </p>
+          <p className="text-sm text-neutral-500">
+            Data source credentials are re-encrypted with the newest key in ENCRYPTION_KEYS
+          </p>
+        </div>
+        <button
+          onClick={handleRotate}
+          disabled={!status || isRotating || status.running}
+          className="px-3 py-2 border border-neutral-200 rounded-lg text-sm font-medium
+                   text-neutral-700 hover:bg-neutral-50 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isRotating || status?.running ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4" />
+          )}
+          Re-encrypt Now
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!status && !error && <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />}
+
+      {status && (
+        <div className="space-y-2 text-sm text-neutral-700">
+          <p>
+            Current key: <span className="font-medium">version {status.keyring.currentVersion}</span>
+            {status.keyring.versions.length > 1 && (
+              <span className="text-neutral-500">
+                {' '}· also decrypting with version{status.keyring.versions.length > 2 ? 's' : ''}{' '}
+                {status.keyring.versions.slice(1).join(', ')}
+              </span>
+            )}
+          </p>
+
+          <p>
+            Stored values:{' '}
+            {Object.keys(status.values).length === 0
+              ? 'none'
+              : Object.entries(status.values)
+                  .sort(([a], [b]) => Number(b) - Number(a))
+                  .map(([version, count]) => `${count} on version ${version}`)
+                  .join(', ')}
+          </p>
+
+          {status.pending > 0 ? (
+            <p className="text-amber-700">
+              {status.pending} value{status.pending === 1 ? '' : 's'} still use an older key
+            </p>
+          ) : (
+            <p className="text-green-700 flex items-center gap-1.5">
+              <CheckCircle className="w-4 h-4" />
+              All credentials use the current key
+            </p>
+          )}
+
+          {status.undecryptable.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-lg space-y-1">
+              <p className="font-medium text-red-700">Credentials that cannot be decrypted</p>
+              {status.undecryptable.map((failure) => (
+                <p key={failure.dataSourceId} className="text-red-600">
+                  {failure.dataSourceName}: {failure.error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {lastRun && (
+            <p className="text-neutral-500">
+              Last re-encryption {new Date(lastRun.finishedAt).toLocaleString()}: {lastRun.rotated}{' '}
+              data source{lastRun.rotated === 1 ? '' : 's'} updated
+              {lastRun.skipped > 0 && `, ${lastRun.skipped} edited during the run`}
+              {lastRun.failures.length > 0 && `, ${lastRun.failures.length} failed`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,3 @@
 // Admin Components
 export { AdminLayout } from './AdminLayout';
+export { EncryptionStatus } from './EncryptionStatus';
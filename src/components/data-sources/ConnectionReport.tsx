@@ -0,0 +1,117 @@
+'use client';
+
+// Connection Report Component
+// Shows the steps of a connection test, the request and response, and the detected data shape
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, MinusCircle, XCircle } from 'lucide-react';
+import {
+  ConnectionDiagnostics,
+  DiagnosticStageName,
+  DiagnosticStageStatus,
+} from '@/types/data-source';
+
+interface ConnectionReportProps {
+  diagnostics: ConnectionDiagnostics;
+}
+
+const STAGE_LABELS: Record<DiagnosticStageName, string> = {
+  dns: 'DNS lookup',
+  tcp: 'TCP connect',
+  tls: 'TLS handshake',
+  auth: 'Authentication',
+  http: 'HTTP response',
+  parse: 'Response body',
+  connect: 'Connect',
+  sample: 'Sample records',
+};
+
+const STATUS_ICONS: Record<DiagnosticStageStatus, React.ReactNode> = {
+  passed: <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />,
+  warning: <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />,
+  failed: <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />,
+  skipped: <MinusCircle className="w-4 h-4 text-neutral-300 flex-shrink-0" />,
+};
+
+export function ConnectionReport({ diagnostics }: ConnectionReportProps) {
+  const [showExchange, setShowExchange] = useState(false);
+  const { request, response, structure } = diagnostics;
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {diagnostics.stages.map((stage) => (
+          <li key={stage.name} className="flex items-start gap-2 text-sm">
+            {STATUS_ICONS[stage.status]}
+            <div className="flex-1 min-w-0">
+              <p className={stage.status === 'skipped' ? 'text-neutral-400' : 'text-neutral-800'}>
+                <span className="font-medium">{STAGE_LABELS[stage.name]}</span>
+                {stage.duration !== undefined && (
+                  <span className="text-neutral-400"> · {stage.duration}ms</span>
+                )}
+                {stage.detail && <span className="text-neutral-500"> — {stage.detail}</span>}
+              </p>
+              {stage.error && <p className="text-red-600">{stage.error}</p>}
+              {stage.hint && <p className="text-neutral-500 text-xs">{stage.hint}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {structure && (
+        <div className="text-xs text-neutral-600 p-3 bg-white border border-neutral-200 rounded-lg space-y-1">
+          <p>
+            <span className="font-medium">Data:</span>{' '}
+            {structure.isArray
+              ? `list of ${structure.itemCount} records`
+              : structure.isWrapped
+              ? `${structure.itemCount} records at "${structure.dataPath}"`
+              : 'single object'}
+            , {structure.structure.replace('_', ' ')}
+            {structure.metaPaths.length > 0 && ` · metadata at ${structure.metaPaths.join(', ')}`}
+          </p>
+          {structure.fields.length > 0 && (
+            <p>
+              <span className="font-medium">Fields:</span> {structure.fields.join(', ')}
+            </p>
+          )}
+          <p>
+            <span className="font-medium">Pagination:</span>{' '}
+            {structure.pagination.detected
+              ? `${structure.pagination.type} (${Math.round(structure.pagination.confidence * 100)}% confidence)`
+              : 'none detected'}
+          </p>
+        </div>
+      )}
+
+      {(request || response) && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowExchange((shown) => !shown)}
+            className="flex items-center gap-1 text-xs font-medium text-neutral-600 hover:text-neutral-900"
+          >
+            {showExchange ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            Request and response headers
+          </button>
+
+          {showExchange && (
+            <pre className="mt-2 p-3 bg-white border border-neutral-200 rounded-lg text-[11px] text-neutral-700 overflow-auto max-h-64">
+              {request && formatHeaders(`${request.method} ${request.url}`, request.headers)}
+              {request && response && '\n\n'}
+              {response &&
+                formatHeaders(
+                  `${response.status} ${response.statusText} · ${response.contentType || 'no content type'} · ${response.size} bytes`,
+                  response.headers
+                )}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatHeaders(firstLine: string, headers: Record<string, string>): string {
+  return [firstLine, ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`)].join('\n');
+}
@@ -0,0 +1,240 @@
+'use client';
+
+// Data Source Importer Component
+// Create a data source, its endpoints and schemas from an API description or capture
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, Loader2, XCircle } from 'lucide-react';
+import { DataSourceImport } from '@/types/data-source';
+import { ImportDocumentInput } from './ImportDocumentInput';
+import { methodColors } from './EndpointEditor';
+
+const inputClassName = `w-full px-4 py-2.5 border border-neutral-200 rounded-lg
+                       focus:outline-none focus:ring-2 focus:ring-neutral-900`;
+
+export function DataSourceImporter() {
+  const router = useRouter();
+
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string>();
+  const [preview, setPreview] = useState<DataSourceImport | null>(null);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const sendImport = async (create: boolean) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/data-sources/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          content,
+          create,
+          name: create ? name : undefined,
+          baseUrl: create ? baseUrl : undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import document');
+      }
+
+      if (create) {
+        // Secrets aren't part of the document, so continue on the edit page
+        router.push(`/data-sources/${data.data.id}`);
+        return;
+      }
+
+      const imported = data.data.import as DataSourceImport;
+      setPreview(imported);
+      setName(imported.dataSource.name);
+      setBaseUrl(imported.dataSource.baseUrl || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleContentChange = (value: string) => {
+    setContent(value);
+    setPreview(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Error Message */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-100 rounded-xl flex items-center gap-3">
+          <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Document */}
+      <div className="bg-white rounded-xl border border-neutral-200 p-6">
+        <h3 className="text-lg font-semibold text-neutral-900 mb-1">API Description</h3>
+        <p className="text-sm text-neutral-500 mb-4">
+          OpenAPI 3.x or Swagger 2.0 (JSON or YAML), a Postman v2.1 collection or a HAR capture
+        </p>
+
+        <ImportDocumentInput
+          value={content}
+          onChange={handleContentChange}
+          fileName={fileName}
+          onFileNameChange={setFileName}
+        />
+
+        <div className="flex justify-end mt-4">
+          <button
+            type="button"
+            onClick={() => sendImport(false)}
+            disabled={!content.trim() || isLoading}
+            className="px-4 py-2.5 border border-neutral-200 rounded-lg font-medium text-neutral-700
+                     hover:bg-neutral-50 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isLoading && !preview && <Loader2 className="w-4 h-4 animate-spin" />}
+            Preview
+          </button>
+        </div>
+      </div>
+
+      {preview && (
+        <>
+          {/* Connection */}
+          <div className="bg-white rounded-xl border border-neutral-200 p-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">Connection</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">Base URL</label>
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  className={inputClassName}
+                  placeholder="https://api.example.com"
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-neutral-500 mt-4">
+              Authentication: <span className="font-medium text-neutral-700">{preview.dataSource.auth.type}</span>
+              {preview.dataSource.auth.type !== 'none' &&
+                ' — enter the credentials on the next page'}
+            </p>
+          </div>
+
+          {/* Warnings */}
+          {preview.warnings.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4 text-amber-600" />
+                <p className="text-sm font-medium text-amber-800">Review before importing</p>
+              </div>
+              <ul className="list-disc list-inside space-y-1">
+                {preview.warnings.map((warning) => (
+                  <li key={warning} className="text-sm text-amber-700">{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Endpoints */}
+          <div className="bg-white rounded-xl border border-neutral-200 p-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              Endpoints ({preview.endpoints.length})
+            </h3>
+            <div className="divide-y divide-neutral-100">
+              {preview.endpoints.map((endpoint) => (
+                <div key={`${endpoint.method} ${endpoint.path}`} className="flex items-center gap-3 py-2">
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded ${methodColors[endpoint.method]}`}>
+                    {endpoint.method}
+                  </span>
+                  <span className="font-mono text-sm text-neutral-900 truncate">{endpoint.path}</span>
+                  <span className="text-sm text-neutral-500 truncate">{endpoint.name}</span>
+                  {endpoint.pagination && endpoint.pagination.type !== 'none' && (
+                    <span className="ml-auto px-2 py-0.5 text-xs rounded bg-neutral-100 text-neutral-600">
+                      {endpoint.pagination.type} pagination
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Schemas */}
+          <div className="bg-white rounded-xl border border-neutral-200 p-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              Schemas ({preview.schemas.length + (preview.samples?.length || 0)})
+            </h3>
+            {preview.schemas.length === 0 && !preview.samples?.length ? (
+              <p className="text-sm text-neutral-500">
+                No response schemas found. Schemas can be detected from sample data later.
+              </p>
+            ) : (
+              <div className="divide-y divide-neutral-100">
+                {preview.schemas.map((schema) => {
+                  const operations = Object.entries(schema.crudEndpoints || {})
+                    .filter(([, path]) => path)
+                    .map(([operation]) => operation);
+
+                  return (
+                    <div key={schema.name} className="py-2">
+                      <p className="text-sm font-medium text-neutral-900">
+                        {schema.name}
+                        <span className="font-normal text-neutral-500"> · {schema.fields.length} fields</span>
+                      </p>
+                      {operations.length > 0 && (
+                        <p className="text-xs text-neutral-500 mt-0.5">CRUD: {operations.join(', ')}</p>
+                      )}
+                    </div>
+                  );
+                })}
+                {preview.samples?.map((sample) => (
+                  <div key={sample.schemaName} className="py-2">
+                    <p className="text-sm font-medium text-neutral-900">
+                      {sample.schemaName}
+                      <span className="font-normal text-neutral-500"> · detected from a recorded response</span>
+                    </p>
+                    <p className="text-xs text-neutral-500 mt-0.5 font-mono">{sample.endpointKey}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => sendImport(true)}
+              disabled={!name.trim() || isLoading}
+              className="px-6 py-2.5 bg-neutral-900 text-white rounded-lg font-medium
+                       hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create Data Source
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
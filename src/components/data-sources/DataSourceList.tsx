@@ -18,7 +18,18 @@ import {
   Trash2,
   Edit,
   Loader2,
+  Gauge,
+  ZapOff,
+  FileUp,
 } from 'lucide-react';
+import {
+  DATA_SOURCE_ERROR_HINTS,
+  DataSourceErrorCategory,
+  DataSourceHealthEvent,
+  DataSourceHealthSummary,
+} from '@/types/data-source';
+import { useRealtimeEvent } from '@/lib/realtime';
+import { HealthSparklines } from './HealthSparklines';
 
 interface DataSource {
   id: string;
@@ -28,6 +39,21 @@ interface DataSource {
   baseUrl?: string;
   healthStatus: string;
   lastHealthCheck?: string;
+  rateLimit?: {
+    limit?: number;
+    windowMs?: number;
+    queued: number;
+    rejected: number;
+    pausedUntil?: string;
+    upstreamRemaining?: number;
+  };
+  circuit?: {
+    state: 'closed' | 'open' | 'half_open';
+    lastError?: string;
+    lastErrorCategory?: DataSourceErrorCategory;
+    retryAt?: string;
+  };
+  health?: DataSourceHealthSummary;
   createdAt: string;
   createdBy: { id: string; name: string };
   _count: { schemas: number; widgets: number };
@@ -45,6 +71,25 @@ export function DataSourceList() {
     fetchDataSources();
   }, []);
 
+  // Live status from the background health checks
+  useRealtimeEvent<DataSourceHealthEvent>('datasource:health', (event) => {
+    const { dataSourceId, status, latency, checkedAt } = event.data;
+
+    setDataSources((prev) =>
+      prev.map((ds) => {
+        if (ds.id !== dataSourceId) return ds;
+
+        const checks = [...(ds.health?.checks || []), { status, latency, checkedAt }].slice(-30);
+        return {
+          ...ds,
+          healthStatus: status,
+          lastHealthCheck: checkedAt,
+          health: { ...ds.health, checks },
+        };
+      })
+    );
+  });
+
   const fetchDataSources = async () => {
     try {
       const response = await fetch('/api/data-sources');
@@ -70,7 +115,7 @@ export function DataSourceList() {
       });
       const data = await response.json();
 
-      // Update the data source in the list
+      // Update the data source in the list (the history arrives as a datasource:health event)
       setDataSources((prev) =>
         prev.map((ds) =>
           ds.id === id
@@ -151,6 +196,56 @@ export function DataSourceList() {
     );
   };
 
+  const getRateLimitBadge = (rateLimit: DataSource['rateLimit']) => {
+    if (!rateLimit) return null;
+
+    const paused = rateLimit.pausedUntil && new Date(rateLimit.pausedUntil) > new Date();
+    if (!paused && !rateLimit.queued && !rateLimit.limit) return null;
+
+    let label: string;
+    if (paused) {
+      label = `Throttled until ${new Date(rateLimit.pausedUntil!).toLocaleTimeString()}`;
+    } else if (rateLimit.queued) {
+      label = `${rateLimit.queued} queued`;
+    } else {
+      label = `${rateLimit.limit}/${Math.round((rateLimit.windowMs || 0) / 1000)}s`;
+    }
+
+    return (
+      <span
+        className={`inline-flex items-center gap-1 text-xs ${
+          paused || rateLimit.queued ? 'text-orange-600' : 'text-neutral-500'
+        }`}
+        title={`Rejected: ${rateLimit.rejected}${
+          rateLimit.upstreamRemaining !== undefined
+            ? ` · Upstream remaining: ${rateLimit.upstreamRemaining}`
+            : ''
+        }`}
+      >
+        <Gauge className="w-3.5 h-3.5" />
+        {label}
+      </span>
+    );
+  };
+
+  const getCircuitBadge = (circuit: DataSource['circuit']) => {
+    if (!circuit || circuit.state === 'closed') return null;
+
+    const hint = circuit.lastErrorCategory ? DATA_SOURCE_ERROR_HINTS[circuit.lastErrorCategory] : '';
+
+    return (
+      <span
+        className="inline-flex items-center gap-1 text-xs text-red-600"
+        title={[circuit.lastError, hint].filter(Boolean).join('\n')}
+      >
+        <ZapOff className="w-3.5 h-3.5" />
+        {circuit.state === 'open' && circuit.retryAt
+          ? `Paused until ${new Date(circuit.retryAt).toLocaleTimeString()}`
+          : 'Retrying'}
+      </span>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -183,14 +278,24 @@ export function DataSourceList() {
             Connect to APIs, databases, and other data sources
           </p>
         </div>
-        <Link
-          href="/data-sources/new"
-          className="px-4 py-2.5 bg-neutral-900 text-white rounded-lg font-medium
-                   hover:bg-neutral-800 flex items-center gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Add Data Source
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/data-sources/import"
+            className="px-4 py-2.5 border border-neutral-200 text-neutral-700 rounded-lg font-medium
+                     hover:bg-neutral-50 flex items-center gap-2"
+          >
+            <FileUp className="w-4 h-4" />
+            Import
+          </Link>
+          <Link
+            href="/data-sources/new"
+            className="px-4 py-2.5 bg-neutral-900 text-white rounded-lg font-medium
+                     hover:bg-neutral-800 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Data Source
+          </Link>
+        </div>
       </div>
 
       {/* Empty State */}
@@ -290,9 +395,18 @@ export function DataSourceList() {
                 <span>{ds._count.widgets} widgets</span>
               </div>
 
+              {/* Health */}
+              <div className="mb-4">
+                <HealthSparklines health={ds.health} />
+              </div>
+
               {/* Footer */}
               <div className="flex items-center justify-between pt-4 border-t border-neutral-100">
-                {getStatusBadge(ds.healthStatus)}
+                <div className="flex items-center gap-2">
+                  {getStatusBadge(ds.healthStatus)}
+                  {getCircuitBadge(ds.circuit)}
+                  {getRateLimitBadge(ds.rateLimit)}
+                </div>
 
                 <button
                   onClick={() => handleTestConnection(ds.id)}
@@ -0,0 +1,644 @@
+'use client';
+
+// Endpoint Editor Component
+// List, create, edit and delete a data source's saved endpoints
+
+import { useState } from 'react';
+import { Loader2, Pencil, Plus, Trash2, XCircle, Route, X, Link2 } from 'lucide-react';
+import {
+  DataSourceEndpoint,
+  DataSourceEndpointFormData,
+  DataSourceType,
+  EndpointJoin,
+  JoinableRelationship,
+  JoinType,
+  PaginationConfig,
+} from '@/types/data-source';
+import { DEFAULT_CACHE_TTL } from '@/core/data-sources/ResponseCache';
+import { DEFAULT_JOIN_CACHE_TTL } from '@/core/data-sources/JoinedRows';
+import { EndpointTryPanel } from './EndpointTryPanel';
+
+interface EndpointEditorProps {
+  dataSourceId: string;
+  dataSourceType: DataSourceType;
+  initialEndpoints: DataSourceEndpoint[];
+  relationships?: JoinableRelationship[];
+}
+
+type EditingEndpoint = DataSourceEndpointFormData & { id?: string };
+
+const METHODS: DataSourceEndpoint['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const EMPTY_ENDPOINT: EditingEndpoint = {
+  name: '',
+  path: '',
+  method: 'GET',
+  pagination: { type: 'none' },
+};
+
+export const methodColors: Record<DataSourceEndpoint['method'], string> = {
+  GET: 'bg-green-100 text-green-700',
+  POST: 'bg-blue-100 text-blue-700',
+  PUT: 'bg-amber-100 text-amber-700',
+  PATCH: 'bg-amber-100 text-amber-700',
+  DELETE: 'bg-red-100 text-red-700',
+};
+
+const inputClassName = `w-full px-4 py-2.5 border border-neutral-200 rounded-lg
+                       focus:outline-none focus:ring-2 focus:ring-neutral-900`;
+
+// Select value of a relationship, which can be joined from either side
+const relationshipKey = (relationshipId: string, reverse?: boolean) =>
+  `${relationshipId}${reverse ? ':reverse' : ''}`;
+
+export function EndpointEditor({
+  dataSourceId,
+  dataSourceType,
+  initialEndpoints,
+  relationships = [],
+}: EndpointEditorProps) {
+  const [endpoints, setEndpoints] = useState(initialEndpoints);
+  const [editing, setEditing] = useState<EditingEndpoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const isGraphQL = dataSourceType === 'graphql';
+
+  const startEditing = (endpoint?: DataSourceEndpoint) => {
+    setError('');
+    setEditing(
+      endpoint
+        ? {
+            id: endpoint.id,
+            name: endpoint.name,
+            path: endpoint.path,
+            method: endpoint.method,
+            description: endpoint.description,
+            headers: endpoint.headers,
+            queryParams: endpoint.queryParams,
+            bodyTemplate: endpoint.bodyTemplate,
+            pagination: endpoint.pagination || { type: 'none' },
+            cacheEnabled: endpoint.cacheEnabled,
+            cacheTTL: endpoint.cacheTTL,
+            join: endpoint.join,
+          }
+        : EMPTY_ENDPOINT
+    );
+  };
+
+  const updateEditing = (updates: Partial<EditingEndpoint>) => {
+    setEditing((prev) => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const updatePagination = (updates: Partial<PaginationConfig>) => {
+    setEditing((prev) =>
+      prev
+        ? { ...prev, pagination: { ...(prev.pagination || { type: 'none' }), ...updates } }
+        : prev
+    );
+  };
+
+  const updateJoin = (updates: Partial<EndpointJoin>) => {
+    setEditing((prev) =>
+      prev?.join ? { ...prev, join: { ...prev.join, ...updates } } : prev
+    );
+  };
+
+  const selectRelationship = (key: string) => {
+    const relationship = relationships.find((item) => relationshipKey(item.id, item.reverse) === key);
+    setEditing((prev) =>
+      prev
+        ? {
+            ...prev,
+            join: relationship
+              ? {
+                  ...prev.join,
+                  relationshipId: relationship.id,
+                  reverse: relationship.reverse || undefined,
+                  as: prev.join?.as || relationship.relatedSchema.toLowerCase().replace(/\W+/g, '_'),
+                }
+              : undefined,
+          }
+        : prev
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const { id, ...formData } = editing;
+      const response = await fetch(
+        id
+          ? `/api/data-sources/${dataSourceId}/endpoints/${id}`
+          : `/api/data-sources/${dataSourceId}/endpoints`,
+        {
+          method: id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save endpoint');
+      }
+
+      const saved = data.data as DataSourceEndpoint;
+      setEndpoints((prev) =>
+        id
+          ? prev.map((endpoint) => (endpoint.id === id ? saved : endpoint))
+          : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (endpoint: DataSourceEndpoint) => {
+    if (!confirm(`Delete endpoint "${endpoint.name}"? Schemas built from it are kept.`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      const response = await fetch(`/api/data-sources/${dataSourceId}/endpoints/${endpoint.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete endpoint');
+      }
+
+      setEndpoints((prev) => prev.filter((item) => item.id !== endpoint.id));
+      if (editing?.id === endpoint.id) setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-neutral-900 flex items-center gap-2">
+          <Route className="w-5 h-5" />
+          Endpoints
+        </h3>
+        {!editing && (
+          <button
+            type="button"
+            onClick={() => startEditing()}
+            className="px-3 py-1.5 text-sm bg-neutral-900 text-white rounded-lg hover:bg-neutral-800
+                     flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Endpoint
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-100 rounded-xl flex items-center gap-3">
+          <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Endpoint List */}
+      {endpoints.length === 0 && !editing ? (
+        <p className="text-sm text-neutral-500">
+          No saved endpoints yet. Endpoints hold a path, headers, query parameters and a body
+          template that widgets and schemas can reuse.
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-100">
+          {endpoints.map((endpoint) => (
+            <li key={endpoint.id} className="py-3 flex items-center gap-3">
+              <span
+                className={`px-2 py-0.5 text-xs font-semibold rounded ${methodColors[endpoint.method]}`}
+              >
+                {endpoint.method}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-neutral-900">{endpoint.name}</p>
+                <p className="text-xs text-neutral-500 font-mono truncate">{endpoint.path}</p>
+              </div>
+              {endpoint.cacheEnabled && (
+                <span className="text-xs text-neutral-500" title="Responses are cached on the server">
+                  Cached {endpoint.cacheTTL ?? DEFAULT_CACHE_TTL}s
+                </span>
+              )}
+              {endpoint.join && (
+                <span
+                  className="text-xs text-neutral-500 flex items-center gap-1"
+                  title="Rows are enriched from a related endpoint"
+                >
+                  <Link2 className="w-3 h-3" />
+                  {endpoint.join.as}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => startEditing(endpoint)}
+                className="p-2 text-neutral-400 hover:text-neutral-700 rounded-lg hover:bg-neutral-100"
+                title="Edit"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(endpoint)}
+                className="p-2 text-neutral-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Endpoint Form */}
+      {editing && (
+        <div key={editing.id ?? 'new'} className="border border-neutral-200 rounded-xl p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-neutral-900">
+              {editing.id ? `Edit ${editing.name || 'Endpoint'}` : 'New Endpoint'}
+            </h4>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="p-1 text-neutral-400 hover:text-neutral-700"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Name *</label>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => updateEditing({ name: e.target.value })}
+                className={inputClassName}
+                placeholder="Open orders"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <div className="w-32">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">Method</label>
+                <select
+                  value={editing.method}
+                  onChange={(e) =>
+                    updateEditing({ method: e.target.value as DataSourceEndpoint['method'] })
+                  }
+                  className={inputClassName}
+                >
+                  {METHODS.map((method) => (
+                    <option key={method} value={method}>
+                      {method}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">Path *</label>
+                <input
+                  type="text"
+                  value={editing.path}
+                  onChange={(e) => updateEditing({ path: e.target.value })}
+                  className={`${inputClassName} font-mono text-sm`}
+                  placeholder="/users/{{user.id}}/orders"
+                />
+              </div>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Description</label>
+              <input
+                type="text"
+                value={editing.description || ''}
+                onChange={(e) => updateEditing({ description: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <KeyValueEditor
+            label="Headers"
+            value={editing.headers}
+            onChange={(headers) => updateEditing({ headers })}
+            keyPlaceholder="X-Tenant"
+            valuePlaceholder="{{env.DATA_SOURCE_TENANT_ID}}"
+          />
+
+          <KeyValueEditor
+            label="Query Parameters"
+            value={editing.queryParams}
+            onChange={(queryParams) => updateEditing({ queryParams })}
+            keyPlaceholder="status"
+            valuePlaceholder="{{filter.status}}"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">
+              {isGraphQL ? 'GraphQL Operation' : 'Body Template'}
+            </label>
+            <textarea
+              value={editing.bodyTemplate || ''}
+              onChange={(e) => updateEditing({ bodyTemplate: e.target.value })}
+              rows={5}
+              className={`${inputClassName} font-mono text-sm`}
+              placeholder={
+                isGraphQL
+                  ? '{ "query": "query Orders($page: Int) { orders(page: $page) { id } }", "variables": { "page": "{{page}}" } }'
+                  : '{ "page": "{{page}}", "status": "{{filter.status}}" }'
+              }
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              Use <code>{'{{page}}'}</code>, <code>{'{{filter.status}}'}</code>,{' '}
+              <code>{'{{user.id}}'}</code> or <code>{'{{env.DATA_SOURCE_*}}'}</code> anywhere in the
+              path, headers, query parameters or body. Values are filled in when the request is sent.
+            </p>
+          </div>
+
+          {/* Pagination & Response */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Pagination</label>
+              <select
+                value={editing.pagination?.type || 'none'}
+                onChange={(e) => updatePagination({ type: e.target.value as PaginationConfig['type'] })}
+                className={inputClassName}
+              >
+                <option value="none">None</option>
+                <option value="offset">Offset</option>
+                <option value="page">Page</option>
+                <option value="cursor">Cursor</option>
+              </select>
+            </div>
+
+            {editing.pagination?.type === 'offset' && (
+              <>
+                <PaginationField label="Limit Param" field="limitParam" placeholder="limit" editing={editing} onChange={updatePagination} />
+                <PaginationField label="Offset Param" field="offsetParam" placeholder="offset" editing={editing} onChange={updatePagination} />
+              </>
+            )}
+            {editing.pagination?.type === 'page' && (
+              <>
+                <PaginationField label="Page Param" field="pageParam" placeholder="page" editing={editing} onChange={updatePagination} />
+                <PaginationField label="Page Size Param" field="pageSizeParam" placeholder="per_page" editing={editing} onChange={updatePagination} />
+              </>
+            )}
+            {editing.pagination?.type === 'cursor' && (
+              <>
+                <PaginationField label="Cursor Param" field="cursorParam" placeholder="after" editing={editing} onChange={updatePagination} />
+                <PaginationField label="Next Cursor Path" field="nextCursorPath" placeholder="meta.next" editing={editing} onChange={updatePagination} />
+              </>
+            )}
+
+            <PaginationField label="Data Path" field="dataPath" placeholder="data.items" editing={editing} onChange={updatePagination} />
+            <PaginationField label="Total Path" field="totalPath" placeholder="meta.total" editing={editing} onChange={updatePagination} />
+            <PaginationField label="Has More Path" field="hasMorePath" placeholder="meta.has_more" editing={editing} onChange={updatePagination} />
+          </div>
+
+          {/* Response Cache */}
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={!!editing.cacheEnabled}
+                onChange={(e) => updateEditing({ cacheEnabled: e.target.checked })}
+                className="w-4 h-4 rounded border-neutral-300"
+              />
+              <span className="text-sm text-neutral-700">Cache responses on the server</span>
+            </label>
+            {editing.cacheEnabled && (
+              <label className="flex items-center gap-2 text-sm text-neutral-700">
+                for
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.cacheTTL ?? ''}
+                  onChange={(e) =>
+                    updateEditing({ cacheTTL: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  className="w-24 px-3 py-1.5 border border-neutral-200 rounded-lg
+                           focus:outline-none focus:ring-2 focus:ring-neutral-900"
+                  placeholder={String(DEFAULT_CACHE_TTL)}
+                />
+                seconds
+              </label>
+            )}
+          </div>
+
+          {/* Join */}
+          {relationships.length > 0 && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-2">Join</label>
+                  <select
+                    value={editing.join ? relationshipKey(editing.join.relationshipId, editing.join.reverse) : ''}
+                    onChange={(e) => selectRelationship(e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">No join</option>
+                    {relationships.map((relationship) => (
+                      <option
+                        key={relationshipKey(relationship.id, relationship.reverse)}
+                        value={relationshipKey(relationship.id, relationship.reverse)}
+                      >
+                        {relationship.field} → {relationship.relatedSchema}.{relationship.relatedField} (
+                        {relationship.relatedDataSource}
+                        {relationship.many ? ', list' : ''})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {editing.join && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-neutral-700 mb-2">Add As</label>
+                      <input
+                        type="text"
+                        value={editing.join.as}
+                        onChange={(e) => updateJoin({ as: e.target.value })}
+                        className={`${inputClassName} font-mono text-sm`}
+                        placeholder="customer"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-neutral-700 mb-2">Rows Without a Match</label>
+                      <select
+                        value={editing.join.type || 'left'}
+                        onChange={(e) => updateJoin({ type: e.target.value as JoinType })}
+                        className={inputClassName}
+                      >
+                        <option value="left">Keep (left join)</option>
+                        <option value="inner">Drop (inner join)</option>
+                      </select>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {editing.join && (
+                <>
+                  <label className="flex items-center gap-2 text-sm text-neutral-700">
+                    Keep related rows for
+                    <input
+                      type="number"
+                      min={0}
+                      value={editing.join.cacheTTL ?? ''}
+                      onChange={(e) =>
+                        updateJoin({ cacheTTL: e.target.value ? Number(e.target.value) : undefined })
+                      }
+                      className="w-24 px-3 py-1.5 border border-neutral-200 rounded-lg
+                               focus:outline-none focus:ring-2 focus:ring-neutral-900"
+                      placeholder={String(DEFAULT_JOIN_CACHE_TTL)}
+                    />
+                    seconds
+                  </label>
+                  <p className="text-xs text-neutral-500">
+                    Related rows are looked up in batches by key. SQL, MongoDB and file sources are
+                    filtered directly; a REST or GraphQL endpoint using <code>{'{{join.keys}}'}</code> gets
+                    the comma-separated keys, otherwise its full list is read and matched.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-sm text-neutral-700 font-medium hover:bg-neutral-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm bg-neutral-900 text-white font-medium rounded-lg
+                       hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed
+                       flex items-center gap-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editing.id ? 'Save Endpoint' : 'Create Endpoint'}
+            </button>
+          </div>
+
+          <EndpointTryPanel dataSourceId={dataSourceId} endpoint={editing} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface KeyValueEditorProps {
+  label: string;
+  value?: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+}
+
+/**
+ * Editable list of name/value pairs
+ */
+function KeyValueEditor({ label, value, onChange, keyPlaceholder, valuePlaceholder }: KeyValueEditorProps) {
+  // Rows are kept separately so a half-typed row with an empty name isn't dropped
+  const [rows, setRows] = useState<[string, string][]>(() => Object.entries(value || {}));
+
+  const updateRows = (next: [string, string][]) => {
+    setRows(next);
+    onChange(Object.fromEntries(next.filter(([key]) => key.trim())));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-neutral-700">{label}</label>
+        <button
+          type="button"
+          onClick={() => updateRows([...rows, ['', '']])}
+          className="text-xs text-neutral-500 hover:text-neutral-900 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+      <div className="space-y-2">
+        {rows.map(([key, item], index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={key}
+              onChange={(e) =>
+                updateRows(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))
+              }
+              className={`${inputClassName} font-mono text-sm`}
+              placeholder={keyPlaceholder}
+            />
+            <input
+              type="text"
+              value={item}
+              onChange={(e) =>
+                updateRows(rows.map((row, i) => (i === index ? [row[0], e.target.value] : row)))
+              }
+              className={`${inputClassName} font-mono text-sm`}
+              placeholder={valuePlaceholder}
+            />
+            <button
+              type="button"
+              onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+              className="p-2 text-neutral-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface PaginationFieldProps {
+  label: string;
+  field: Exclude<keyof PaginationConfig, 'type'>;
+  placeholder: string;
+  editing: EditingEndpoint;
+  onChange: (updates: Partial<PaginationConfig>) => void;
+}
+
+function PaginationField({ label, field, placeholder, editing, onChange }: PaginationFieldProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-neutral-700 mb-2">{label}</label>
+      <input
+        type="text"
+        value={editing.pagination?.[field] || ''}
+        onChange={(e) => onChange({ [field]: e.target.value || undefined })}
+        className={`${inputClassName} font-mono text-sm`}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+}
+
+export default EndpointEditor;
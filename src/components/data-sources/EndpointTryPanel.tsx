@@ -0,0 +1,197 @@
+'use client';
+
+// Endpoint Try-It Panel
+// Fills in an endpoint's template variables, sends it and shows the resolved request and raw response
+
+import { useMemo, useState } from 'react';
+import { Loader2, Play, XCircle } from 'lucide-react';
+import {
+  DataQueryRequest,
+  DataSourceEndpointFormData,
+  DATA_SOURCE_ERROR_HINTS,
+  EndpointTryResponse,
+} from '@/types/data-source';
+import { DataFilter } from '@/types/widget';
+import { listTemplateVariables } from '@/core/data-sources/RequestTemplate';
+
+interface EndpointTryPanelProps {
+  dataSourceId: string;
+  endpoint: DataSourceEndpointFormData;
+}
+
+// Filled in on the server, so they have no input
+const SERVER_VARIABLE_PREFIXES = ['env.', 'user.'];
+
+export function EndpointTryPanel({ dataSourceId, endpoint }: EndpointTryPanelProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<EndpointTryResponse | null>(null);
+  const [error, setError] = useState('');
+
+  const variables = useMemo(
+    () =>
+      listTemplateVariables(endpoint).filter(
+        (name) => !SERVER_VARIABLE_PREFIXES.some((prefix) => name.startsWith(prefix))
+      ),
+    [endpoint]
+  );
+
+  const handleTry = async () => {
+    setIsRunning(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch(`/api/data-sources/${dataSourceId}/endpoints/try`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint, request: toQueryRequest(variables, values) }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to try endpoint');
+      }
+
+      setResult(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to try endpoint');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-neutral-200 pt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-neutral-900">Try It</h4>
+        <button
+          type="button"
+          onClick={handleTry}
+          disabled={isRunning || !endpoint.path}
+          className="px-3 py-1.5 text-sm border border-neutral-200 rounded-lg hover:bg-neutral-50
+                   disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          Send
+        </button>
+      </div>
+
+      {/* Template Variables */}
+      {variables.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {variables.map((name) => (
+            <div key={name}>
+              <label className="block text-xs font-medium text-neutral-500 mb-1 font-mono">
+                {`{{${name}}}`}
+              </label>
+              <input
+                type="text"
+                value={values[name] || ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="w-full px-3 py-1.5 text-sm border border-neutral-200 rounded-lg
+                         focus:outline-none focus:ring-2 focus:ring-neutral-900"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Resolved Request */}
+          <div>
+            <p className="text-xs font-medium text-neutral-500 mb-1">
+              Request <span className="font-mono">{result.request.method} {result.request.path}</span>
+            </p>
+            <pre className="text-xs bg-neutral-50 border border-neutral-200 rounded-lg p-3 overflow-auto max-h-80">
+              {JSON.stringify(
+                {
+                  headers: result.request.headers,
+                  params: result.request.params,
+                  body: result.request.body,
+                  query: result.request.query,
+                  variables: result.request.variables,
+                },
+                null,
+                2
+              )}
+            </pre>
+          </div>
+
+          {/* Raw Response */}
+          <div>
+            {result.response ? (
+              <>
+                <p className="text-xs font-medium text-neutral-500 mb-1">
+                  Response{' '}
+                  <span
+                    className={result.response.status < 400 ? 'text-green-600' : 'text-red-600'}
+                  >
+                    {result.response.status}
+                  </span>{' '}
+                  · {result.response.latency}ms
+                </p>
+                <pre className="text-xs bg-neutral-50 border border-neutral-200 rounded-lg p-3 overflow-auto max-h-80">
+                  {JSON.stringify(result.response.data, null, 2)}
+                </pre>
+              </>
+            ) : (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-lg">
+                <p className="text-sm text-red-600">{result.error}</p>
+                {result.errorCategory && (
+                  <p className="text-xs text-red-500 mt-1">
+                    {DATA_SOURCE_ERROR_HINTS[result.errorCategory]}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Turn variable inputs into a data query: paging fields and `filter.*` map to the
+ * matching request fields, everything else becomes a template variable
+ */
+function toQueryRequest(names: string[], values: Record<string, string>): DataQueryRequest {
+  const request: DataQueryRequest = {};
+  const variables: Record<string, unknown> = {};
+  const filters: DataFilter[] = [];
+
+  for (const name of names) {
+    const value = values[name];
+    if (value === undefined || value === '') continue;
+
+    if (name === 'page' || name === 'limit' || name === 'offset') {
+      request[name] = Number(value);
+    } else if (name === 'cursor') {
+      request.cursor = value;
+    } else if (name.startsWith('filter.')) {
+      filters.push({ field: name.slice(7), operator: 'eq', value });
+    } else {
+      // Dotted names become nested objects so `{{a.b}}` resolves
+      const parts = name.split('.');
+      let target = variables;
+      for (const part of parts.slice(0, -1)) {
+        target = (target[part] ??= {}) as Record<string, unknown>;
+      }
+      target[parts[parts.length - 1]] = value;
+    }
+  }
+
+  return { ...request, variables, filters };
+}
+
+export default EndpointTryPanel;
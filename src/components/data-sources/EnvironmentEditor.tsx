@@ -0,0 +1,348 @@
+'use client';
+
+// Environment Editor Component
+// Manage a data source's named environments (dev, staging, prod) and their overrides
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CheckCircle, Layers, Loader2, Plus, Save, Trash2, XCircle } from 'lucide-react';
+import {
+  AUTH_SECRET_FIELDS,
+  AuthConfig,
+  AuthenticationType,
+  DataSourceEnvironment,
+  DataSourceEnvironmentView,
+} from '@/types/data-source';
+
+interface EnvironmentEditorProps {
+  dataSourceId: string;
+  baseUrl?: string;
+  initialEnvironments: DataSourceEnvironmentView[];
+}
+
+// 'inherit' uses the data source's own auth
+type AuthMode = 'inherit' | Exclude<AuthenticationType, 'custom_header'>;
+
+interface EnvironmentDraft {
+  key: number;
+  name: string;
+  baseUrl: string;
+  authMode: AuthMode;
+  auth: AuthConfig;             // Secrets are blank unless re-entered
+  headers: string;              // `Name: value` lines
+  storedSecrets: string[];
+}
+
+const AUTH_MODES: { value: AuthMode; label: string }[] = [
+  { value: 'inherit', label: 'Same as data source' },
+  { value: 'none', label: 'None' },
+  { value: 'api_key', label: 'API Key' },
+  { value: 'bearer', label: 'Bearer Token' },
+  { value: 'basic', label: 'Basic Auth' },
+  { value: 'oauth2', label: 'OAuth2 (client credentials)' },
+];
+
+// Secrets each auth type uses; the others are removed on save
+const SECRETS_BY_MODE: Record<AuthMode, string[]> = {
+  inherit: [],
+  none: [],
+  api_key: ['apiKey'],
+  bearer: ['token'],
+  basic: ['password'],
+  oauth2: ['clientSecret'],
+};
+
+const inputClass = `w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm
+                    focus:outline-none focus:ring-2 focus:ring-neutral-900`;
+
+export function EnvironmentEditor({ dataSourceId, baseUrl, initialEnvironments }: EnvironmentEditorProps) {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState<EnvironmentDraft[]>(initialEnvironments.map(toDraft));
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const update = (key: number, changes: Partial<EnvironmentDraft>) => {
+    setDrafts((current) => current.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const updateAuth = (draft: EnvironmentDraft, field: keyof AuthConfig, value: string) => {
+    update(draft.key, { auth: { ...draft.auth, [field]: value } });
+  };
+
+  const handleAdd = () => {
+    setDrafts((current) => [
+      ...current,
+      toDraft({ name: current.length === 0 ? 'staging' : '', storedSecrets: [] }),
+    ]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/data-sources/${dataSourceId}/environments`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ environments: drafts.map(toEnvironment) }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save environments');
+      }
+
+      setDrafts((data.data as DataSourceEnvironmentView[]).map(toDraft));
+      setMessage('Environments saved');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save environments');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const secretInput = (draft: EnvironmentDraft, field: keyof AuthConfig, label: string) => (
+    <div>
+      <label className="block text-xs font-medium text-neutral-700 mb-1">{label}</label>
+      <input
+        type="password"
+        value={(draft.auth[field] as string) || ''}
+        onChange={(e) => updateAuth(draft, field, e.target.value)}
+        className={inputClass}
+        placeholder={draft.storedSecrets.includes(field) ? 'Stored — leave blank to keep' : ''}
+      />
+    </div>
+  );
+
+  const textInput = (draft: EnvironmentDraft, field: keyof AuthConfig, label: string, placeholder = '') => (
+    <div>
+      <label className="block text-xs font-medium text-neutral-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={(draft.auth[field] as string) || ''}
+        onChange={(e) => updateAuth(draft, field, e.target.value)}
+        className={inputClass}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Environments
+          </h3>
+          <p className="text-sm text-neutral-500">
+            Point the same endpoints and schemas at other deployments. Dashboards switch between them
+            from the header.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-3 py-2 border border-neutral-200 rounded-lg text-sm font-medium
+                   text-neutral-700 hover:bg-neutral-50 flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Environment
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-100 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {drafts.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          No environments. Widgets use the settings above.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map((draft) => (
+            <div key={draft.key} className="p-4 border border-neutral-200 rounded-lg space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="w-40">
+                  <label className="block text-xs font-medium text-neutral-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => update(draft.key, { name: e.target.value })}
+                    className={inputClass}
+                    placeholder="staging"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-xs font-medium text-neutral-700 mb-1">Base URL</label>
+                  <input
+                    type="text"
+                    value={draft.baseUrl}
+                    onChange={(e) => update(draft.key, { baseUrl: e.target.value })}
+                    className={inputClass}
+                    placeholder={baseUrl || 'https://staging.api.example.com'}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setDrafts((current) => current.filter((d) => d.key !== draft.key))}
+                  className="p-2 text-neutral-400 hover:text-red-600"
+                  title="Remove environment"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-neutral-700 mb-1">Authentication</label>
+                <select
+                  value={draft.authMode}
+                  onChange={(e) => update(draft.key, { authMode: e.target.value as AuthMode })}
+                  className={inputClass}
+                >
+                  {AUTH_MODES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {draft.authMode === 'api_key' && (
+                <div className="grid grid-cols-3 gap-3">
+                  {secretInput(draft, 'apiKey', 'API Key')}
+                  {textInput(draft, 'apiKeyHeader', 'Header Name', 'X-API-Key')}
+                  {textInput(draft, 'apiKeyPrefix', 'Prefix', 'Bearer ')}
+                </div>
+              )}
+
+              {draft.authMode === 'bearer' && secretInput(draft, 'token', 'Token')}
+
+              {draft.authMode === 'basic' && (
+                <div className="grid grid-cols-2 gap-3">
+                  {textInput(draft, 'username', 'Username')}
+                  {secretInput(draft, 'password', 'Password')}
+                </div>
+              )}
+
+              {draft.authMode === 'oauth2' && (
+                <div className="grid grid-cols-2 gap-3">
+                  {textInput(draft, 'tokenUrl', 'Token URL', 'https://auth.example.com/oauth/token')}
+                  {textInput(draft, 'clientId', 'Client ID')}
+                  {secretInput(draft, 'clientSecret', 'Client Secret')}
+                  <div>
+                    <label className="block text-xs font-medium text-neutral-700 mb-1">Scopes</label>
+                    <input
+                      type="text"
+                      value={(draft.auth.scopes || []).join(' ')}
+                      onChange={(e) =>
+                        update(draft.key, {
+                          auth: { ...draft.auth, scopes: e.target.value.split(/\s+/).filter(Boolean) },
+                        })
+                      }
+                      className={inputClass}
+                      placeholder="read write"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-neutral-700 mb-1">Headers</label>
+                <textarea
+                  rows={2}
+                  value={draft.headers}
+                  onChange={(e) => update(draft.key, { headers: e.target.value })}
+                  className={`${inputClass} font-mono text-xs`}
+                  placeholder="X-Tenant: staging"
+                />
+                <p className="mt-1 text-xs text-neutral-500">
+                  One <code>Name: value</code> per line, sent with every request in this environment.
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(drafts.length > 0 || initialEnvironments.length > 0) && (
+        <div className="flex justify-end mt-4">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-neutral-900 text-white rounded-lg text-sm font-medium
+                     hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Environments
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+let nextKey = 0;
+
+function toDraft(environment: DataSourceEnvironmentView): EnvironmentDraft {
+  return {
+    key: nextKey++,
+    name: environment.name,
+    baseUrl: environment.baseUrl || '',
+    authMode: environment.auth ? (environment.auth.type as AuthMode) : 'inherit',
+    auth: environment.auth || { type: 'none' },
+    headers: Object.entries(environment.headers || {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n'),
+    storedSecrets: environment.storedSecrets,
+  };
+}
+
+/**
+ * Environment to save. Blank secrets keep the stored ones; secrets the chosen auth
+ * type doesn't use are removed.
+ */
+function toEnvironment(draft: EnvironmentDraft): DataSourceEnvironment {
+  const headers = Object.fromEntries(
+    draft.headers
+      .split('\n')
+      .map((line) => {
+        const separator = line.indexOf(':');
+        return separator > 0 ? [line.slice(0, separator).trim(), line.slice(separator + 1).trim()] : [];
+      })
+      .filter(([name]) => name)
+  );
+
+  let auth: AuthConfig | undefined;
+  if (draft.authMode !== 'inherit') {
+    auth = { ...draft.auth, type: draft.authMode };
+    for (const field of AUTH_SECRET_FIELDS) {
+      if (!SECRETS_BY_MODE[draft.authMode].includes(field)) {
+        (auth as unknown as Record<string, unknown>)[field] = null;
+      }
+    }
+  }
+
+  return {
+    name: draft.name.trim(),
+    baseUrl: draft.baseUrl.trim() || undefined,
+    auth,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+  };
+}
@@ -0,0 +1,240 @@
+'use client';
+
+// File Manager Component
+// Upload files to a file data source, add new versions and review version history
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  FileSpreadsheet,
+  Loader2,
+  Trash2,
+  Upload,
+  XCircle,
+} from 'lucide-react';
+import { DataSourceFile } from '@/types/data-source';
+
+interface FileManagerProps {
+  dataSourceId: string;
+  initialFiles: DataSourceFile[];   // Every version, newest first within each file
+}
+
+const ACCEPTED_FILES = '.csv,.tsv,.txt,.json,.ndjson,.jsonl,.xlsx';
+
+export function FileManager({ dataSourceId, initialFiles }: FileManagerProps) {
+  const router = useRouter();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [files, setFiles] = useState(initialFiles);
+  const [versionOf, setVersionOf] = useState<string>();
+  const [expanded, setExpanded] = useState<string>();
+  const [isUploading, setIsUploading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  // Versions grouped by file, current version first
+  const groups = files.reduce<Record<string, DataSourceFile[]>>((acc, file) => {
+    (acc[file.name] ||= []).push(file);
+    return acc;
+  }, {});
+
+  const refresh = async () => {
+    const response = await fetch(`/api/data-sources/${dataSourceId}/files`);
+    const data = await response.json();
+    if (response.ok) setFiles(data.data);
+    router.refresh();
+  };
+
+  const chooseFile = (name?: string) => {
+    setVersionOf(name);
+    fileInput.current?.click();
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      if (versionOf) body.append('name', versionOf);
+
+      const response = await fetch(`/api/data-sources/${dataSourceId}/files`, {
+        method: 'POST',
+        body,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload file');
+      }
+
+      const { file: uploaded, schemas, warnings } = data.data;
+      setMessage(
+        `${uploaded.name} version ${uploaded.version} uploaded. ` +
+          `Schemas: ${schemas.created} added, ${schemas.updated} updated.` +
+          (warnings.length > 0 ? ` ${warnings.join(' ')}` : '')
+      );
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload');
+    } finally {
+      setIsUploading(false);
+      setVersionOf(undefined);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete ${name} and all of its versions? Widgets using it will stop loading data.`)) {
+      return;
+    }
+
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch(
+        `/api/data-sources/${dataSourceId}/files/${encodeURIComponent(name)}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete file');
+      }
+
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900">Files</h3>
+          <p className="text-sm text-neutral-500">
+            CSV, JSON, NDJSON or XLSX. Each file, or workbook sheet, becomes an endpoint.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => chooseFile()}
+          disabled={isUploading}
+          className="px-4 py-2 bg-neutral-900 text-white rounded-lg text-sm font-medium
+                   hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Upload File
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPTED_FILES}
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-100 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {Object.keys(groups).length === 0 ? (
+        <p className="text-sm text-neutral-500">No files uploaded yet.</p>
+      ) : (
+        <div className="divide-y divide-neutral-100">
+          {Object.entries(groups).map(([name, versions]) => {
+            const current = versions[0];
+            const isExpanded = expanded === name;
+
+            return (
+              <div key={name} className="py-3">
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(isExpanded ? undefined : name)}
+                    className="text-neutral-400 hover:text-neutral-600"
+                  >
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </button>
+                  <FileSpreadsheet className="w-5 h-5 text-neutral-500" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-neutral-900 truncate">
+                      {name}
+                      <span className="font-normal text-neutral-500">
+                        {' '}· v{current.version} · {current.format.toUpperCase()}
+                      </span>
+                    </p>
+                    <p className="text-xs text-neutral-500 truncate">
+                      {current.tables
+                        .map((table) => `${table.path} (${table.rowCount} rows)`)
+                        .join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => chooseFile(name)}
+                    disabled={isUploading}
+                    className="px-3 py-1.5 border border-neutral-200 rounded-lg text-xs font-medium
+                             text-neutral-700 hover:bg-neutral-50 disabled:opacity-50"
+                  >
+                    New Version
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(name)}
+                    className="p-1.5 text-neutral-400 hover:text-red-600"
+                    title="Delete file"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className="ml-14 mt-2 space-y-1">
+                    {versions.map((version) => (
+                      <p key={version.id} className="text-xs text-neutral-500">
+                        <span className="font-medium text-neutral-700">v{version.version}</span>
+                        {' '}· {version.fileName} · {formatSize(version.size)}
+                        {version.encoding && ` · ${version.encoding}`}
+                        {version.delimiter && ` · delimiter ${JSON.stringify(version.delimiter)}`}
+                        {' '}· {new Date(version.createdAt).toLocaleString()}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,72 @@
+'use client';
+
+// Health Sparklines Component
+// Compact uptime strip and latency line for a data source's recent health checks
+
+import { DataSourceHealthSummary } from '@/types/data-source';
+
+interface HealthSparklinesProps {
+  health?: DataSourceHealthSummary;
+  width?: number;
+  height?: number;
+}
+
+export function HealthSparklines({ health, width = 120, height = 24 }: HealthSparklinesProps) {
+  const checks = health?.checks || [];
+
+  if (checks.length === 0) {
+    return <p className="text-xs text-neutral-400">No health checks yet</p>;
+  }
+
+  const latencies = checks.map((check) => check.latency ?? 0);
+  const maxLatency = Math.max(...latencies, 1);
+  const step = checks.length > 1 ? width / (checks.length - 1) : 0;
+  const points = latencies
+    .map((latency, i) => `${(i * step).toFixed(1)},${(height - (latency / maxLatency) * (height - 2) - 1).toFixed(1)}`)
+    .join(' ');
+
+  const latest = checks[checks.length - 1];
+  const barWidth = width / checks.length;
+
+  return (
+    <div className="flex items-center gap-4 text-xs text-neutral-500">
+      {/* Uptime */}
+      <div title={`${checks.length} most recent checks`}>
+        <svg width={width} height={8} className="block">
+          {checks.map((check, i) => (
+            <rect
+              key={check.checkedAt}
+              x={i * barWidth}
+              y={0}
+              width={Math.max(barWidth - 1, 1)}
+              height={8}
+              rx={1}
+              className={check.status === 'healthy' ? 'fill-green-400' : 'fill-red-400'}
+            />
+          ))}
+        </svg>
+        <span>
+          {health?.uptime !== undefined
+            ? `${(health.uptime * 100).toFixed(health.uptime === 1 ? 0 : 1)}% uptime (24h)`
+            : 'Uptime'}
+        </span>
+      </div>
+
+      {/* Latency */}
+      <div title={`Max ${maxLatency}ms`}>
+        <svg width={width} height={height} className="block">
+          <polyline
+            points={points}
+            fill="none"
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+            className="stroke-neutral-400"
+          />
+        </svg>
+        <span>{latest.latency !== undefined ? `${latest.latency}ms` : 'Latency'}</span>
+      </div>
+    </div>
+  );
+}
+
+export default HealthSparklines;
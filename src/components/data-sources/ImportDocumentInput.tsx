@@ -0,0 +1,66 @@
+'use client';
+
+// Import Document Input Component
+// Upload or paste an API description or capture (JSON or YAML)
+
+import { useRef } from 'react';
+import { FileUp } from 'lucide-react';
+
+interface ImportDocumentInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  fileName?: string;
+  onFileNameChange?: (fileName?: string) => void;
+}
+
+export function ImportDocumentInput({ value, onChange, fileName, onFileNameChange }: ImportDocumentInputProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    onChange(await file.text());
+    onFileNameChange?.(file.name);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="px-4 py-2 border border-neutral-200 rounded-lg text-sm font-medium
+                   text-neutral-700 hover:bg-neutral-50 flex items-center gap-2"
+        >
+          <FileUp className="w-4 h-4" />
+          Upload file
+        </button>
+        <span className="text-sm text-neutral-500">
+          {fileName || 'or paste the document below'}
+        </span>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.yaml,.yml,.har,application/json,application/yaml,text/yaml"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      <textarea
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          onFileNameChange?.(undefined);
+        }}
+        rows={12}
+        spellCheck={false}
+        className="w-full px-4 py-2.5 border border-neutral-200 rounded-lg font-mono text-xs
+                 focus:outline-none focus:ring-2 focus:ring-neutral-900"
+        placeholder={'openapi: 3.0.0\ninfo:\n  title: My API\npaths:\n  ...'}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+// Re-import Panel Component
+// Compare a data source with a newer API description or capture and apply the differences
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CheckCircle, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { DataSourceImportDiff, ImportDiffEntry } from '@/types/data-source';
+import { ImportDocumentInput } from './ImportDocumentInput';
+
+interface ReimportPanelProps {
+  dataSourceId: string;
+}
+
+const statusStyles: Record<ImportDiffEntry['status'], { symbol: string; className: string }> = {
+  added: { symbol: '+', className: 'text-green-700' },
+  changed: { symbol: '~', className: 'text-amber-700' },
+  removed: { symbol: '−', className: 'text-red-700' },
+};
+
+export function ReimportPanel({ dataSourceId }: ReimportPanelProps) {
+  const router = useRouter();
+
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string>();
+  const [diff, setDiff] = useState<DataSourceImportDiff | null>(null);
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const sendImport = async (apply: boolean) => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/data-sources/${dataSourceId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, apply, removeMissing }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to re-import document');
+      }
+
+      if (!apply) {
+        setDiff(data.data.diff);
+        return;
+      }
+
+      const { endpoints, schemas, skipped, warnings } = data.data.result;
+      setMessage(
+        `Endpoints: ${endpoints.created} added, ${endpoints.updated} updated, ${endpoints.removed} removed. ` +
+          `Schemas: ${schemas.created} added, ${schemas.updated} updated, ${schemas.removed} removed.` +
+          (skipped.length > 0 ? ` Kept ${skipped.join(', ')} (used by widgets).` : '') +
+          (warnings.length > 0 ? ` Not detected: ${warnings.join('; ')}.` : '')
+      );
+      setDiff(null);
+      setContent('');
+      setFileName(undefined);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-import');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleContentChange = (value: string) => {
+    setContent(value);
+    setDiff(null);
+  };
+
+  const hasChanges = !!diff && (diff.dataSource.length > 0 || diff.endpoints.length > 0 || diff.schemas.length > 0);
+  const hasRemovals = !!diff && [...diff.endpoints, ...diff.schemas].some((entry) => entry.status === 'removed');
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-6">
+      <h3 className="text-lg font-semibold text-neutral-900 mb-1">Re-import API Description</h3>
+      <p className="text-sm text-neutral-500 mb-4">
+        Upload a newer OpenAPI, Swagger or Postman document, or a HAR capture, to review and apply its changes
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-100 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      <ImportDocumentInput
+        value={content}
+        onChange={handleContentChange}
+        fileName={fileName}
+        onFileNameChange={setFileName}
+      />
+
+      <div className="flex justify-end mt-4">
+        <button
+          type="button"
+          onClick={() => sendImport(false)}
+          disabled={!content.trim() || isLoading}
+          className="px-4 py-2 border border-neutral-200 rounded-lg text-sm font-medium text-neutral-700
+                   hover:bg-neutral-50 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isLoading && !diff ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Compare
+        </button>
+      </div>
+
+      {diff && (
+        <div className="mt-6 space-y-4">
+          {!hasChanges && (
+            <p className="text-sm text-neutral-500">The data source already matches the document.</p>
+          )}
+
+          {diff.dataSource.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-neutral-700 mb-1">Connection</p>
+              {diff.dataSource.map((change) => (
+                <p key={change} className="text-sm text-amber-700">~ {change}</p>
+              ))}
+            </div>
+          )}
+
+          <DiffSection title="Endpoints" entries={diff.endpoints} unchanged={diff.unchanged.endpoints} />
+          <DiffSection title="Schemas" entries={diff.schemas} unchanged={diff.unchanged.schemas} />
+
+          {hasChanges && (
+            <div className="flex items-center justify-between pt-4 border-t border-neutral-100">
+              <label className="flex items-center gap-2 text-sm text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={removeMissing}
+                  onChange={(e) => setRemoveMissing(e.target.checked)}
+                  disabled={!hasRemovals}
+                  className="rounded border-neutral-300"
+                />
+                Remove endpoints and schemas missing from the document
+              </label>
+              <button
+                type="button"
+                onClick={() => sendImport(true)}
+                disabled={isLoading}
+                className="px-4 py-2 bg-neutral-900 text-white rounded-lg text-sm font-medium
+                         hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-2"
+              >
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                Apply Changes
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DiffSection({
+  title,
+  entries,
+  unchanged,
+}: {
+  title: string;
+  entries: ImportDiffEntry[];
+  unchanged: number;
+}) {
+  if (entries.length === 0 && unchanged === 0) return null;
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-neutral-700 mb-1">
+        {title}
+        {unchanged > 0 && <span className="font-normal text-neutral-500"> · {unchanged} unchanged</span>}
+      </p>
+      <div className="space-y-1">
+        {entries.map((entry) => {
+          const style = statusStyles[entry.status];
+          return (
+            <div key={`${entry.status} ${entry.key}`} className={`text-sm ${style.className}`}>
+              <span className="font-mono">
+                {style.symbol} {entry.key}
+              </span>
+              {entry.name !== entry.key && <span className="text-neutral-500"> · {entry.name}</span>}
+              {entry.changes && (
+                <ul className="ml-6 text-xs text-neutral-500">
+                  {entry.changes.map((change) => (
+                    <li key={change}>{change}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
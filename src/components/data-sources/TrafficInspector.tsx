@@ -0,0 +1,320 @@
+'use client';
+
+// Traffic Inspector Component
+// Lists the requests a data source recently sent upstream and replays them
+
+import { useEffect, useState } from 'react';
+import {
+  Activity,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { TrafficEntry, TrafficFilter } from '@/types/data-source';
+
+interface TrafficInspectorProps {
+  dataSourceId: string;
+}
+
+const inputClass = `px-3 py-2 border border-neutral-200 rounded-lg text-sm
+                    focus:outline-none focus:ring-2 focus:ring-neutral-900`;
+
+export function TrafficInspector({ dataSourceId }: TrafficInspectorProps) {
+  const [entries, setEntries] = useState<TrafficEntry[]>();
+  const [enabled, setEnabled] = useState(true);
+  const [filter, setFilter] = useState<TrafficFilter>({});
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string>();
+  const [replaying, setReplaying] = useState<string>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const query = new URLSearchParams(
+        Object.entries({ ...filter, search }).filter(([, value]) => value) as [string, string][]
+      );
+      const response = await fetch(`/api/data-sources/${dataSourceId}/traffic?${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load traffic');
+      }
+
+      setEnabled(data.data.enabled);
+      setEntries(data.data.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load traffic');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Wait for typing to pause before searching
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dataSourceId, filter, search]);
+
+  const replay = async (entry: TrafficEntry) => {
+    if (entry.method !== 'GET' && !confirm(`Send this ${entry.method} request again? It may change data.`)) {
+      return;
+    }
+
+    setReplaying(entry.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/data-sources/${dataSourceId}/traffic/${entry.id}/replay`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to replay request');
+      }
+
+      setExpanded(data.data.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay request');
+    } finally {
+      setReplaying(undefined);
+    }
+  };
+
+  const clear = async () => {
+    if (!confirm('Delete every recorded request?')) return;
+
+    const response = await fetch(`/api/data-sources/${dataSourceId}/traffic`, { method: 'DELETE' });
+    if (response.ok) {
+      setEntries([]);
+    } else {
+      setError('Failed to delete recorded requests');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 flex items-center gap-2">
+            <Activity className="w-5 h-5" />
+            Traffic
+          </h3>
+          <p className="text-sm text-neutral-500">
+            Requests sent to the API, newest first. Credentials are redacted and long bodies are cut short.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={load}
+            disabled={isLoading}
+            className="p-2 border border-neutral-200 rounded-lg text-neutral-500 hover:bg-neutral-50
+                     disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            type="button"
+            onClick={clear}
+            disabled={!entries?.length}
+            className="p-2 border border-neutral-200 rounded-lg text-red-600 hover:bg-red-50
+                     disabled:opacity-50"
+            title="Delete recorded requests"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!enabled && (
+        <p className="p-3 bg-amber-50 border border-amber-100 rounded-lg text-sm text-amber-800">
+          Traffic recording is off. Turn on &quot;Record traffic&quot; in the settings to capture new requests.
+        </p>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`${inputClass} flex-1 min-w-48`}
+          placeholder="Search URLs"
+        />
+        <select
+          value={filter.method || ''}
+          onChange={(e) => setFilter({ ...filter, method: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">All methods</option>
+          {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map((method) => (
+            <option key={method} value={method}>{method}</option>
+          ))}
+        </select>
+        <select
+          value={filter.outcome || ''}
+          onChange={(e) =>
+            setFilter({ ...filter, outcome: (e.target.value || undefined) as TrafficFilter['outcome'] })
+          }
+          className={inputClass}
+        >
+          <option value="">All responses</option>
+          <option value="success">Successful</option>
+          <option value="client_error">4xx</option>
+          <option value="server_error">5xx</option>
+          <option value="failed">No response</option>
+        </select>
+        {filter.widgetId && (
+          <button
+            type="button"
+            onClick={() => setFilter({ ...filter, widgetId: undefined })}
+            className="px-2 py-1 bg-neutral-100 rounded-lg text-xs text-neutral-700 flex items-center gap-1"
+          >
+            Widget {entries?.find((entry) => entry.trigger.widgetId === filter.widgetId)?.trigger.widgetTitle
+              || filter.widgetId}
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {/* Entries */}
+      {!entries ? (
+        !error && <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-neutral-500">No recorded requests.</p>
+      ) : (
+        <ul className="divide-y divide-neutral-100 border border-neutral-200 rounded-lg">
+          {entries.map((entry) => (
+            <li key={entry.id} className="text-sm">
+              <button
+                type="button"
+                onClick={() => setExpanded(expanded === entry.id ? undefined : entry.id)}
+                className="w-full px-3 py-2 flex items-center gap-3 text-left hover:bg-neutral-50"
+              >
+                {expanded === entry.id ? (
+                  <ChevronDown className="w-4 h-4 text-neutral-400 flex-shrink-0" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-neutral-400 flex-shrink-0" />
+                )}
+                <span className="w-14 font-mono text-xs font-medium text-neutral-700">{entry.method}</span>
+                <span className="flex-1 truncate font-mono text-xs text-neutral-600">{entry.url}</span>
+                <span className={`font-mono text-xs ${statusColor(entry)}`}>
+                  {entry.status ?? 'ERR'}
+                </span>
+                <span className="w-16 text-right text-xs text-neutral-400">{entry.latency}ms</span>
+                <span className="w-20 text-right text-xs text-neutral-400">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </button>
+
+              {expanded === entry.id && (
+                <TrafficEntryDetail
+                  entry={entry}
+                  isReplaying={replaying === entry.id}
+                  onReplay={() => replay(entry)}
+                  onFilterWidget={(widgetId) => setFilter({ ...filter, widgetId })}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface TrafficEntryDetailProps {
+  entry: TrafficEntry;
+  isReplaying: boolean;
+  onReplay: () => void;
+  onFilterWidget: (widgetId: string) => void;
+}
+
+function TrafficEntryDetail({ entry, isReplaying, onReplay, onFilterWidget }: TrafficEntryDetailProps) {
+  const { trigger } = entry;
+
+  return (
+    <div className="px-3 pb-3 space-y-3 bg-neutral-50">
+      <div className="flex items-center justify-between gap-4 pt-3 text-xs text-neutral-600">
+        <p>
+          {trigger.replayOf ? 'Replayed' : 'Sent'}
+          {trigger.widgetId && (
+            <>
+              {' for widget '}
+              <button
+                type="button"
+                onClick={() => onFilterWidget(trigger.widgetId!)}
+                className="font-medium underline hover:text-neutral-900"
+                title="Show this widget's requests"
+              >
+                {trigger.widgetTitle || trigger.widgetId}
+              </button>
+            </>
+          )}
+          {trigger.userName && ` by ${trigger.userName}`}
+          {entry.environment && ` in ${entry.environment}`}
+          {` at ${new Date(entry.timestamp).toLocaleString()}`}
+        </p>
+        <button
+          type="button"
+          onClick={onReplay}
+          disabled={isReplaying}
+          className="px-3 py-1.5 bg-neutral-900 text-white rounded-lg text-xs font-medium
+                   hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+        >
+          {isReplaying ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+          Replay
+        </button>
+      </div>
+
+      {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+      {entry.truncated && (
+        <p className="text-xs text-neutral-500">Bodies longer than the configured size were cut short.</p>
+      )}
+
+      <pre className="p-3 bg-white border border-neutral-200 rounded-lg text-[11px] text-neutral-700 overflow-auto max-h-64">
+        {formatMessage(`${entry.method} ${entry.url}`, entry.requestHeaders, entry.requestBody)}
+      </pre>
+      {entry.status !== undefined && (
+        <pre className="p-3 bg-white border border-neutral-200 rounded-lg text-[11px] text-neutral-700 overflow-auto max-h-96">
+          {formatMessage(
+            `${entry.status} ${entry.statusText || ''}`.trim(),
+            entry.responseHeaders || {},
+            entry.responseBody
+          )}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function statusColor(entry: TrafficEntry): string {
+  if (entry.status === undefined || entry.status >= 500) return 'text-red-600';
+  if (entry.status >= 400) return 'text-amber-600';
+  return 'text-green-600';
+}
+
+function formatMessage(firstLine: string, headers: Record<string, string>, body?: string): string {
+  const lines = [firstLine, ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`)];
+  return body ? `${lines.join('\n')}\n\n${body}` : lines.join('\n');
+}
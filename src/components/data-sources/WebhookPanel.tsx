@@ -0,0 +1,259 @@
+'use client';
+
+// Webhook Panel Component
+// Shows a webhook data source's ingestion URL and manages its secret, retention and stored events
+
+import { useEffect, useState } from 'react';
+import {
+  CheckCircle,
+  Copy,
+  Loader2,
+  RefreshCw,
+  Save,
+  Trash2,
+  Webhook,
+  XCircle,
+} from 'lucide-react';
+import { WebhookStatus } from '@/types/data-source';
+import { useRealtimeEvent } from '@/lib/realtime';
+
+interface WebhookPanelProps {
+  dataSourceId: string;
+}
+
+interface SettingsDraft {
+  secret: string;             // Blank keeps the stored secret
+  removeSecret: boolean;
+  signatureHeader: string;
+  retentionDays: string;
+  maxEvents: string;
+}
+
+const inputClass = `w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm
+                    focus:outline-none focus:ring-2 focus:ring-neutral-900`;
+
+export function WebhookPanel({ dataSourceId }: WebhookPanelProps) {
+  const [status, setStatus] = useState<WebhookStatus>();
+  const [draft, setDraft] = useState<SettingsDraft>();
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const apply = (next: WebhookStatus) => {
+    setStatus(next);
+    setDraft({
+      secret: '',
+      removeSecret: false,
+      signatureHeader: next.signatureHeader,
+      retentionDays: String(next.retentionDays),
+      maxEvents: String(next.maxEvents),
+    });
+  };
+
+  const request = async (init: RequestInit | undefined, success: string, failure: string) => {
+    setIsBusy(!!init);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/data-sources/${dataSourceId}/webhook`, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || failure);
+      }
+
+      apply(data.data);
+      setMessage(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    request(undefined, '', 'Failed to load webhook');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dataSourceId]);
+
+  // Keep the event count current as events arrive
+  useRealtimeEvent('data:created', (event) => {
+    if (event.resourceId !== dataSourceId) return;
+    fetch(`/api/data-sources/${dataSourceId}/webhook`)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((data) => data && setStatus(data.data))
+      .catch(() => undefined);
+  });
+
+  const save = (regenerateUrl = false) => {
+    if (!draft) return;
+    if (regenerateUrl && !confirm('Senders using the current URL will be rejected. Continue?')) return;
+
+    request(
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          secret: draft.removeSecret ? null : draft.secret,
+          signatureHeader: draft.signatureHeader,
+          retentionDays: Number(draft.retentionDays) || undefined,
+          maxEvents: Number(draft.maxEvents) || undefined,
+          regenerateUrl,
+        }),
+      },
+      regenerateUrl ? 'New URL generated' : 'Webhook settings saved',
+      'Failed to save webhook settings'
+    );
+  };
+
+  const clear = () => {
+    if (!confirm('Delete every stored event?')) return;
+    request({ method: 'DELETE' }, 'Stored events deleted', 'Failed to delete events');
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-neutral-900 flex items-center gap-2">
+          <Webhook className="w-5 h-5" />
+          Webhook
+        </h3>
+        <p className="text-sm text-neutral-500">
+          Systems POST JSON or form-encoded payloads to this URL. A JSON array is stored as one
+          event per item.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-100 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {!status || !draft ? (
+        !error && <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />
+      ) : (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-neutral-700 mb-1">Ingestion URL</label>
+            <div className="flex gap-2">
+              <input type="text" readOnly value={status.url} className={`${inputClass} font-mono text-xs`} />
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(status.url)}
+                className="p-2 border border-neutral-200 rounded-lg text-neutral-500 hover:bg-neutral-50"
+                title="Copy URL"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => save(true)}
+                disabled={isBusy}
+                className="p-2 border border-neutral-200 rounded-lg text-neutral-500 hover:bg-neutral-50
+                         disabled:opacity-50"
+                title="Generate a new URL"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-neutral-500">
+              {status.eventCount} event{status.eventCount === 1 ? '' : 's'} stored
+              {status.lastReceivedAt &&
+                `, last received ${new Date(status.lastReceivedAt).toLocaleString()}`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-neutral-700 mb-1">Shared Secret</label>
+              <input
+                type="password"
+                value={draft.secret}
+                disabled={draft.removeSecret}
+                onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+                className={inputClass}
+                placeholder={status.hasSecret ? 'Stored — leave blank to keep' : 'Optional'}
+              />
+              {status.hasSecret && (
+                <label className="mt-1 flex items-center gap-2 text-xs text-neutral-600">
+                  <input
+                    type="checkbox"
+                    checked={draft.removeSecret}
+                    onChange={(e) => setDraft({ ...draft, removeSecret: e.target.checked })}
+                  />
+                  Remove secret
+                </label>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-700 mb-1">Signature Header</label>
+              <input
+                type="text"
+                value={draft.signatureHeader}
+                onChange={(e) => setDraft({ ...draft, signatureHeader: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-700 mb-1">Retention (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.retentionDays}
+                onChange={(e) => setDraft({ ...draft, retentionDays: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-700 mb-1">Maximum Events</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.maxEvents}
+                onChange={(e) => setDraft({ ...draft, maxEvents: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-neutral-500">
+            With a secret, senders put the hex HMAC-SHA256 of the raw body in the signature header,
+            optionally prefixed with <code>sha256=</code>. Unsigned requests are rejected.
+          </p>
+
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={clear}
+              disabled={isBusy || status.eventCount === 0}
+              className="px-3 py-2 border border-neutral-200 rounded-lg text-sm font-medium
+                       text-red-600 hover:bg-red-50 disabled:opacity-50 flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete Events
+            </button>
+            <button
+              type="button"
+              onClick={() => save()}
+              disabled={isBusy}
+              className="px-4 py-2 bg-neutral-900 text-white rounded-lg text-sm font-medium
+                       hover:bg-neutral-800 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Settings
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,21 @@
 import React, { FormEvent } from "react";
 
-import { WidgetType } from "./types";
+import { DataSourceOption, WidgetType } from "./types";
 
 type Props = {
   accentSolidStyle: React.CSSProperties;
   newWidgetTitle: string;
   newWidgetType: WidgetType;
   newWidgetApiUrl: string;
+  newWidgetDataSourceId: string;
+  newWidgetEndpoint: string;
+  dataSources: DataSourceOption[];
   onSubmit: (e: FormEvent) => void;
   onTitleChange: (value: string) => void;
   onTypeChange: (value: WidgetType) => void;
   onApiChange: (value: string) => void;
+  onDataSourceChange: (value: string) => void;
+  onEndpointChange: (value: string) => void;
 };
 
 const labelForType = (type: WidgetType): string => {
@@ -113,11 +118,18 @@ export default function AddWidgetPanel({
   newWidgetTitle,
   newWidgetType,
   newWidgetApiUrl,
+  newWidgetDataSourceId,
+  newWidgetEndpoint,
+  dataSources,
   onSubmit,
   onTitleChange,
   onTypeChange,
   onApiChange,
+  onDataSourceChange,
+  onEndpointChange,
 }: Props) {
+  const usesDataSource = newWidgetType !== "editable" && !!newWidgetDataSourceId;
+
   return (
     <aside className="w-80 border-l border-neutral-200 h-full flex flex-col">
       <div className="px-4 py-4 border-b border-neutral-200">
@@ -176,28 +188,75 @@ export default function AddWidgetPanel({
             ))}
           </div>
 
-          <div className="space-y-1">
-            <label
-              htmlFor="widget-api"
-              className="text-[11px] font-medium text-neutral-700"
-            >
-              API source {newWidgetType === "editable" && "(ignored for editable)"}
-            </label>
-            <input
-              id="widget-api"
-              type="url"
-              value={newWidgetApiUrl}
-              onChange={(e) => onApiChange(e.target.value)}
-              placeholder={placeholderForType(newWidgetType)}
-              disabled={newWidgetType === "editable"}
-              className={`w-full border border-neutral-300 rounded-lg px-2.5 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-black ${
-                newWidgetType === "editable" ? "bg-neutral-100 text-neutral-400" : ""
-              }`}
-            />
-            <p className="text-[10px] text-neutral-500">
-              Must return JSON. The dashboard will try to format it as cards, stats, or lists instead of raw arrays.
-            </p>
-          </div>
+          {dataSources.length > 0 && (
+            <div className="space-y-1">
+              <label
+                htmlFor="widget-data-source"
+                className="text-[11px] font-medium text-neutral-700"
+              >
+                Data source
+              </label>
+              <select
+                id="widget-data-source"
+                value={newWidgetDataSourceId}
+                onChange={(e) => onDataSourceChange(e.target.value)}
+                disabled={newWidgetType === "editable"}
+                className="w-full border border-neutral-300 rounded-lg px-2.5 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-black bg-white"
+              >
+                <option value="">None (use an API URL)</option>
+                {dataSources.map((ds) => (
+                  <option key={ds.id} value={ds.id}>
+                    {ds.name} ({ds.type})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {usesDataSource ? (
+            <div className="space-y-1">
+              <label
+                htmlFor="widget-endpoint"
+                className="text-[11px] font-medium text-neutral-700"
+              >
+                Endpoint
+              </label>
+              <input
+                id="widget-endpoint"
+                type="text"
+                value={newWidgetEndpoint}
+                onChange={(e) => onEndpointChange(e.target.value)}
+                placeholder="e.g. /users, a table or a collection name"
+                className="w-full border border-neutral-300 rounded-lg px-2.5 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-black"
+              />
+              <p className="text-[10px] text-neutral-500">
+                Requests go through the server with the data source&apos;s credentials.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <label
+                htmlFor="widget-api"
+                className="text-[11px] font-medium text-neutral-700"
+              >
+                API source {newWidgetType === "editable" && "(ignored for editable)"}
+              </label>
+              <input
+                id="widget-api"
+                type="url"
+                value={newWidgetApiUrl}
+                onChange={(e) => onApiChange(e.target.value)}
+                placeholder={placeholderForType(newWidgetType)}
+                disabled={newWidgetType === "editable"}
+                className={`w-full border border-neutral-300 rounded-lg px-2.5 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-black ${
+                  newWidgetType === "editable" ? "bg-neutral-100 text-neutral-400" : ""
+                }`}
+              />
+              <p className="text-[10px] text-neutral-500">
+                Must return JSON. The dashboard will try to format it as cards, stats, or lists instead of raw arrays.
+              </p>
+            </div>
+          )}
 
           <button
             type="submit"
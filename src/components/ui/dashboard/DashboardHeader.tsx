@@ -1,6 +1,7 @@
 import React from "react";
 
 import { Branding } from "./types";
+import { TIME_RANGE_OPTIONS } from "./timeRanges";
 
 type SaveState = "idle" | "saving" | "saved" | "error";
 
@@ -11,6 +12,14 @@ type Props = {
   isLoadingLayout: boolean;
   onOpenBranding: () => void;
   onSaveLayout: () => void;
+  // Environments defined by the data sources on this dashboard ("" is each source's default)
+  environments: string[];
+  environment: string;
+  onEnvironmentChange: (environment: string) => void;
+  // Shown when a time-series data source is on this dashboard ("" queries the latest values)
+  showTimeRange: boolean;
+  timeRange: string;
+  onTimeRangeChange: (timeRange: string) => void;
 };
 
 export default function DashboardHeader({
@@ -20,6 +29,12 @@ export default function DashboardHeader({
   isLoadingLayout,
   onOpenBranding,
   onSaveLayout,
+  environments,
+  environment,
+  onEnvironmentChange,
+  showTimeRange,
+  timeRange,
+  onTimeRangeChange,
 }: Props) {
   const accentBorderStyle = { borderColor: accentColor, color: accentColor };
 
@@ -44,6 +59,42 @@ export default function DashboardHeader({
         </span>
       </div>
       <div className="flex items-center gap-3 text-xs text-neutral-500">
+        {showTimeRange && (
+          <label className="flex items-center gap-1.5">
+            Time range
+            <select
+              value={timeRange}
+              onChange={(e) => onTimeRangeChange(e.target.value)}
+              className="border rounded-full px-2 py-1 bg-white"
+              style={accentBorderStyle}
+            >
+              {TIME_RANGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+              <option value="">Latest values</option>
+            </select>
+          </label>
+        )}
+        {environments.length > 0 && (
+          <label className="flex items-center gap-1.5">
+            Environment
+            <select
+              value={environment}
+              onChange={(e) => onEnvironmentChange(e.target.value)}
+              className="border rounded-full px-2 py-1 bg-white"
+              style={accentBorderStyle}
+            >
+              <option value="">default</option>
+              {environments.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
         <button
           type="button"
           onClick={onOpenBranding}
@@ -18,6 +18,14 @@ import {
 } from "recharts";
 
 import { Widget, WidgetType } from "./types";
+import { resolveTimeRange } from "./timeRanges";
+import {
+  DATA_SOURCE_ERROR_HINTS,
+  DataSourceErrorCategory,
+  StreamUpdateEvent,
+  WebhookReceivedEvent,
+} from "@/types/data-source";
+import { useRealtimeEvent } from "@/lib/realtime";
 
 type Shape = "array" | "object" | "string" | "number" | "boolean" | "null" | "unknown";
 type Presentation = "stats" | "list" | "text" | "raw" | "table" | "cards" | "timeline" | "progress" | "gauge" | "kpi" | "lineChart" | "barChart" | "pieChart" | "areaChart" | "donutChart";
@@ -105,6 +113,19 @@ const formatDate = (value: string | Date, style: 'short' | 'medium' | 'long' | '
   return date.toLocaleDateString('en-US', options);
 };
 
+// Chart axis label for a date: the time of day when the points span less than two days
+const formatDateTick = (value: unknown, items: Record<string, unknown>[], field: string): string => {
+  if (typeof value !== 'string' || !value.match(/^\d{4}-\d{2}/)) return String(value).slice(0, 10);
+
+  const span = Date.parse(String(items[items.length - 1]?.[field])) - Date.parse(String(items[0]?.[field]));
+  const date = new Date(value);
+
+  if (value.includes('T') && Math.abs(span) < 2 * 24 * 60 * 60 * 1000) {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
 const detectValueType = (value: unknown): 'currency' | 'percent' | 'date' | 'url' | 'email' | 'boolean' | 'number' | 'string' | 'object' | 'array' => {
   if (typeof value === 'boolean') return 'boolean';
   if (Array.isArray(value)) return 'array';
@@ -276,8 +297,13 @@ const renderFormattedValue = (key: string, value: unknown, compact = false): Rea
     return <span className="text-neutral-500">{value.length} items</span>;
   }
 
-  // Object rendering
+  // Object rendering; a related record (e.g. a joined customer) shows its name
   if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const name = ['name', 'title', 'label'].map((field) => record[field]).find((item) => typeof item === 'string' && item);
+    if (name) {
+      return <span className="truncate">{String(name)}</span>;
+    }
     return <span className="text-neutral-500">{Object.keys(value).length} fields</span>;
   }
 
@@ -561,12 +587,19 @@ const labelForType = (type: WidgetType): string => {
 
 type WidgetCardProps = {
   widget: Widget;
+  // Data source environment selected in the dashboard header
+  environment?: string;
+  // Time range selected in the dashboard header, for widgets on time-series data sources
+  timeRange?: string;
   onRemove: (id: number) => void;
 };
 
-export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
+export default function WidgetCard({ widget, environment, timeRange, onRemove }: WidgetCardProps) {
   const [status, setStatus] = useState<WidgetStatus>({ state: "idle" });
   const [data, setData] = useState<any>(null);
+  const [queriedEnvironment, setQueriedEnvironment] = useState<string>();
+  // Set for streaming data sources: the stream whose new records are pushed to the widget
+  const [stream, setStream] = useState<string>();
   const [editableContent, setEditableContent] = useState<string>("");
   const tone = toneFor(widget.type);
 
@@ -578,7 +611,7 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
       return;
     }
 
-    if (!widget.apiUrl) {
+    if (!widget.apiUrl && !widget.dataSourceId) {
       setStatus({ state: "error", message: "No API URL set for this widget." });
       setData(null);
       return;
@@ -587,76 +620,134 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
     setStatus({ state: "loading" });
 
     try {
-      const res = await fetch(widget.apiUrl);
+      let json: any;
 
-      if (!res.ok) {
-        setStatus({
-          state: "error",
-          message: `API responded with status ${res.status} ${res.statusText}`,
+      if (widget.dataSourceId) {
+        // Fetched server-side with the data source's credentials
+        const res = await fetch(`/api/data-sources/${widget.dataSourceId}/query`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            endpointId: widget.endpointId,
+            path: widget.endpoint,
+            environment,
+            timeRange: timeRange ? resolveTimeRange(timeRange) : undefined,
+            widgetId: String(widget.id),
+            widgetTitle: widget.title,
+          }),
         });
-        setData(null);
-        return;
-      }
-
-      let json: any;
-      try {
-        json = await res.json();
-      } catch {
-        setStatus({ state: "error", message: "Response is not valid JSON." });
-        setData(null);
-        return;
+        const body = (await res.json().catch(() => null)) as {
+          success?: boolean;
+          data?: { data: unknown; environment?: string; stream?: string };
+          error?: string;
+          category?: DataSourceErrorCategory;
+        } | null;
+
+        if (!res.ok || !body?.success) {
+          const hint = body?.category ? ` ${DATA_SOURCE_ERROR_HINTS[body.category]}` : "";
+          setStatus({
+            state: "error",
+            message: `${body?.error || `Data source query failed with status ${res.status}`}.${hint}`,
+          });
+          setData(null);
+          return;
+        }
+
+        json = body.data?.data;
+        setQueriedEnvironment(body.data?.environment);
+        setStream(body.data?.stream);
+      } else {
+        const res = await fetch(widget.apiUrl!);
+
+        if (!res.ok) {
+          setStatus({
+            state: "error",
+            message: `API responded with status ${res.status} ${res.statusText}`,
+          });
+          setData(null);
+          return;
+        }
+
+        try {
+          json = await res.json();
+        } catch {
+          setStatus({ state: "error", message: "Response is not valid JSON." });
+          setData(null);
+          return;
+        }
       }
 
-      const shape = getShape(json);
-
-      const presentation: Presentation =
-        widget.type === "auto" ||
-        [
-          "weather",
-          "stocks",
-          "exchangeRates",
-          "movies",
-          "books",
-          "aiModels",
-          "news",
-          "sports",
-          "gaming",
-        ].includes(widget.type)
-          ? inferPresentation(json)
-          : ((widget.type === "stats"
-              ? "stats"
-              : widget.type === "text"
-              ? "text"
-              : widget.type === "list"
-              ? "list"
-              : "raw") as Presentation);
-
-      setData(json);
-      setStatus({
-        state: "success",
-        shape,
-        presentation,
-        message: `Detected ${shape} data, displaying as "${presentation}".`,
-      });
+      showData(json);
     } catch {
       setStatus({
         state: "error",
-        message:
-          "Cannot reach API (network/CORS). Make sure the URL is correct and allows browser requests.",
+        message: widget.dataSourceId
+          ? "Cannot reach the dashboard server."
+          : "Cannot reach API (network/CORS). Make sure the URL is correct and allows browser requests.",
       });
       setData(null);
     }
   };
 
+  const showData = (json: unknown) => {
+    const shape = getShape(json);
+
+    const presentation: Presentation =
+      widget.type === "auto" ||
+      [
+        "weather",
+        "stocks",
+        "exchangeRates",
+        "movies",
+        "books",
+        "aiModels",
+        "news",
+        "sports",
+        "gaming",
+      ].includes(widget.type)
+        ? inferPresentation(json)
+        : ((widget.type === "stats"
+            ? "stats"
+            : widget.type === "text"
+            ? "text"
+            : widget.type === "list"
+            ? "list"
+            : "raw") as Presentation);
+
+    setData(json);
+    setStatus({
+      state: "success",
+      shape,
+      presentation,
+      message: `Detected ${shape} data, displaying as "${presentation}".`,
+    });
+  };
+
   useEffect(() => {
-    if (shouldUseApi && widget.apiUrl) {
+    if (shouldUseApi && (widget.apiUrl || widget.dataSourceId)) {
       testApi();
     } else {
       setStatus({ state: "idle" });
       setData(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [widget.apiUrl, widget.type]);
+  }, [widget.apiUrl, widget.dataSourceId, widget.endpointId, widget.endpoint, widget.type, environment, timeRange]);
+
+  // Data pushed to the widget's data source (e.g. a webhook) is shown right away
+  useRealtimeEvent<WebhookReceivedEvent | StreamUpdateEvent>("data:created", (event) => {
+    if (!shouldUseApi || !widget.dataSourceId || event.resourceId !== widget.dataSourceId) return;
+
+    if ("stream" in event.data) {
+      // Streamed records are added to what is shown: lists and charts grow (up to the
+      // stream's window), and single-record views such as KPIs show the latest record
+      const { records, windowSize } = event.data;
+      if (event.data.stream !== stream || status.state !== "success" || records.length === 0) return;
+      showData(Array.isArray(data) ? [...data, ...records].slice(-windowSize) : records[records.length - 1]);
+      return;
+    }
+
+    testApi();
+  });
 
   const renderRaw = (value: any) => (
     <pre className="mt-2 border border-dashed border-neutral-300 rounded-lg p-3 text-[10px] text-neutral-600 max-h-40 overflow-auto bg-neutral-50/50">
@@ -1058,8 +1149,8 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
       k.toLowerCase().includes('period')
     ) || keys[0];
 
-    // Find numeric fields for lines
-    const numericFields = keys.filter(k => typeof first[k] === 'number').slice(0, 4);
+    // Find numeric fields for lines (a series may have no value in the first rows)
+    const numericFields = keys.filter(k => items.some(item => typeof item[k] === 'number')).slice(0, 4);
 
     if (numericFields.length === 0) return renderTable(value);
 
@@ -1071,12 +1162,7 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
             <XAxis
               dataKey={labelField}
               tick={{ fontSize: 10 }}
-              tickFormatter={(val) => {
-                if (typeof val === 'string' && val.match(/^\d{4}-\d{2}/)) {
-                  return new Date(val).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-                }
-                return String(val).slice(0, 10);
-              }}
+              tickFormatter={(val) => formatDateTick(val, items, labelField)}
             />
             <YAxis tick={{ fontSize: 10 }} width={40} />
             <Tooltip
@@ -1246,7 +1332,7 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
     ) || keys[0];
 
     // Find numeric fields
-    const numericFields = keys.filter(k => typeof first[k] === 'number').slice(0, 3);
+    const numericFields = keys.filter(k => items.some(item => typeof item[k] === 'number')).slice(0, 3);
 
     if (numericFields.length === 0) return renderTable(value);
 
@@ -1266,7 +1352,7 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
             <XAxis
               dataKey={labelField}
               tick={{ fontSize: 10 }}
-              tickFormatter={(val) => String(val).slice(0, 10)}
+              tickFormatter={(val) => formatDateTick(val, items, labelField)}
             />
             <YAxis tick={{ fontSize: 10 }} width={40} />
             <Tooltip contentStyle={{ fontSize: 11, borderRadius: 8 }} />
@@ -1845,9 +1931,18 @@ export default function WidgetCard({ widget, onRemove }: WidgetCardProps) {
 
       <WidgetContent />
 
-      {widget.apiUrl && widget.type !== "editable" && (
+      {(widget.apiUrl || widget.dataSourceId) && widget.type !== "editable" && (
         <p className="mt-1 text-[10px] text-neutral-400 break-all">
-          Source: <span className="font-mono">{widget.apiUrl}</span>
+          Source:{" "}
+          <span className="font-mono">
+            {widget.dataSourceId ? `data source ${widget.endpoint || widget.endpointId || ""}` : widget.apiUrl}
+          </span>
+          {/* Shows when the selected environment isn't defined for this data source */}
+          {widget.dataSourceId && environment && (
+            <span className={queriedEnvironment === environment ? "" : "text-amber-600"}>
+              {" "}· {queriedEnvironment || "default"} environment
+            </span>
+          )}
         </p>
       )}
     </div>
@@ -0,0 +1,38 @@
+import { TimeRange } from "@/types/data-source";
+
+export type TimeRangeOption = {
+  value: string;
+  label: string;
+  seconds: number;
+  step: number; // Seconds between points
+};
+
+// Ranges offered in the dashboard header, ending now
+export const TIME_RANGE_OPTIONS: TimeRangeOption[] = [
+  { value: "15m", label: "Last 15 minutes", seconds: 15 * 60, step: 15 },
+  { value: "1h", label: "Last hour", seconds: 60 * 60, step: 15 },
+  { value: "6h", label: "Last 6 hours", seconds: 6 * 60 * 60, step: 60 },
+  { value: "24h", label: "Last 24 hours", seconds: 24 * 60 * 60, step: 5 * 60 },
+  { value: "7d", label: "Last 7 days", seconds: 7 * 24 * 60 * 60, step: 30 * 60 },
+  { value: "30d", label: "Last 30 days", seconds: 30 * 24 * 60 * 60, step: 3 * 60 * 60 },
+];
+
+export const DEFAULT_TIME_RANGE = "1h";
+
+/**
+ * Start, end and step for a range option, or undefined for "" (latest values).
+ * The end is rounded down to the step so refreshes within a step return the same points.
+ */
+export function resolveTimeRange(value: string): TimeRange | undefined {
+  const option = TIME_RANGE_OPTIONS.find((range) => range.value === value);
+  if (!option) return undefined;
+
+  const stepMs = option.step * 1000;
+  const end = Math.floor(Date.now() / stepMs) * stepMs;
+
+  return {
+    start: new Date(end - option.seconds * 1000).toISOString(),
+    end: new Date(end).toISOString(),
+    step: option.step,
+  };
+}
@@ -38,6 +38,17 @@ export type Widget = {
   title: string;
   type: WidgetType;
   apiUrl?: string;
+  // Widgets bound to a data source fetch through /api/data-sources/[id]/query
+  dataSourceId?: string;
+  endpointId?: string;
+  endpoint?: string;
+};
+
+export type DataSourceOption = {
+  id: string;
+  name: string;
+  type: string;
+  environments?: string[];
 };
 
 export type BrandSetupData = {
@@ -0,0 +1,140 @@
+// Circuit Breaker
+// Stops calling a failing data source for a while, then lets a single trial request through
+
+import { CircuitBreakerConfig, CircuitState, DataSourceErrorCategory } from '@/types/data-source';
+import { CircuitOpenError, DataSourceError } from './errors';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+/**
+ * Snapshot of a circuit breaker, reported alongside the health status
+ */
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorCategory?: DataSourceErrorCategory;
+  openedAt?: Date;
+  retryAt?: Date;             // When the next trial request is allowed
+}
+
+/**
+ * Called when the circuit opens or closes
+ */
+export type CircuitStateListener = (state: CircuitState, stats: CircuitBreakerStats) => void;
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastError?: DataSourceError;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+
+  constructor(
+    private readonly dataSourceId: string,
+    config: CircuitBreakerConfig = {},
+    private readonly onStateChange?: CircuitStateListener
+  ) {
+    this.failureThreshold = Math.max(1, config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+    this.resetTimeout = config.resetTimeout ?? DEFAULT_RESET_TIMEOUT;
+  }
+
+  /**
+   * Run a request through the breaker.
+   * Only upstream failures (timeouts, network errors, 5xx) count towards opening the circuit.
+   */
+  async execute<T>(request: () => Promise<T>): Promise<T> {
+    this.beforeRequest();
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (error instanceof DataSourceError && error.isUpstreamFailure) {
+        this.recordFailure(error);
+      } else if (error instanceof DataSourceError) {
+        // The upstream answered, so it is reachable
+        this.recordSuccess();
+      } else {
+        // Failed without an upstream answer (e.g. rate limit queue timeout); not counted
+        this.trialInFlight = false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current breaker state
+   */
+  getStats(): CircuitBreakerStats {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError?.message,
+      lastErrorCategory: this.lastError?.category,
+      openedAt: this.openedAt ? new Date(this.openedAt) : undefined,
+      retryAt: this.openedAt ? new Date(this.openedAt + this.resetTimeout) : undefined,
+    };
+  }
+
+  /**
+   * Fail fast while open; after the reset timeout allow one trial request (half-open)
+   */
+  private beforeRequest(): void {
+    if (this.state === 'closed') return;
+
+    const retryAt = (this.openedAt ?? 0) + this.resetTimeout;
+
+    if (this.state === 'open' && Date.now() >= retryAt) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(
+      this.dataSourceId,
+      this.lastError?.category ?? 'network',
+      new Date(retryAt)
+    );
+  }
+
+  private recordSuccess(): void {
+    const wasOpen = this.state !== 'closed';
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+
+    if (wasOpen) {
+      this.onStateChange?.('closed', this.getStats());
+    }
+  }
+
+  private recordFailure(error: DataSourceError): void {
+    this.consecutiveFailures += 1;
+    this.lastError = error;
+    this.trialInFlight = false;
+
+    // A failed trial re-opens the circuit straight away
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      const wasOpen = this.state !== 'closed';
+      this.state = 'open';
+      this.openedAt = Date.now();
+
+      if (!wasOpen) {
+        this.onStateChange?.('open', this.getStats());
+      }
+    }
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,719 @@
+// Connection Diagnostics
+// Tests a data source one step at a time (DNS, TCP, TLS, auth, HTTP, parsing) and explains failures
+
+import dns from 'dns';
+import net from 'net';
+import tls from 'tls';
+import {
+  DATA_SOURCE_ERROR_HINTS,
+  ConnectionDiagnostics,
+  DataSource,
+  DataSourceErrorCategory,
+  DiagnosticStage,
+  DiagnosticStageName,
+  NetworkConfig,
+  ResponseStructurePreview,
+  TestConnectionResponse,
+} from '@/types/data-source';
+import { StructureAnalyzer } from '@/core/schema-detection/analyzers/StructureAnalyzer';
+import { PaginationDetector } from '@/core/schema-detection/detectors/PaginationDetector';
+import { extractSamples } from '@/core/schema-detection/utils/sampling';
+import { BaseConnector, TestExchange, TestRequest } from './connectors/BaseConnector';
+import { DataSourceError, getErrorCategory, normalizeError } from './errors';
+import { redactHeaders, redactUrl } from './NetworkClient';
+
+const HTTP_STAGES: DiagnosticStageName[] = ['dns', 'tcp', 'tls', 'auth', 'http', 'parse', 'sample'];
+const OTHER_STAGES: DiagnosticStageName[] = ['connect', 'sample'];
+
+// Time allowed for each network step, and for the test request
+const STAGE_TIMEOUT = 5000;
+const REQUEST_TIMEOUT = 10000;
+
+// Certificates expiring sooner than this are reported as a warning
+const CERTIFICATE_EXPIRY_WARNING = 14 * 24 * 60 * 60 * 1000;
+
+const structureAnalyzer = new StructureAnalyzer();
+const paginationDetector = new PaginationDetector();
+
+/**
+ * Failed step of a connection test, with the error category of the failure
+ */
+interface StageFailure {
+  category: DataSourceErrorCategory;
+  stage: DiagnosticStage;
+}
+
+/**
+ * Test a connection step by step. HTTP sources are checked from DNS up to parsing the
+ * response; other sources are connected to and sampled. A step runs only when the ones
+ * before it passed; the rest are reported as skipped.
+ */
+export async function diagnoseConnection(
+  connector: BaseConnector,
+  dataSource: DataSource
+): Promise<TestConnectionResponse> {
+  const request = connector.getTestRequest();
+  return request
+    ? diagnoseHttp(connector, dataSource, request)
+    : diagnoseOther(connector);
+}
+
+/**
+ * Shape of response data and its detected pagination, for previews
+ */
+export function previewStructure(
+  data: unknown,
+  headers?: Record<string, string>
+): ResponseStructurePreview | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+
+  const structure = structureAnalyzer.analyze(data);
+  const [first] = extractSamples(data, 1).samples;
+
+  return {
+    isArray: structure.isArray,
+    isWrapped: structure.isWrapped,
+    dataPath: structure.dataPath,
+    metaPaths: structure.metaPaths,
+    itemCount: structure.itemCount,
+    structure: structure.structure,
+    fields: first && typeof first === 'object' && !Array.isArray(first) ? Object.keys(first) : [],
+    pagination: paginationDetector.detect(data, undefined, headers),
+  };
+}
+
+async function diagnoseHttp(
+  connector: BaseConnector,
+  dataSource: DataSource,
+  request: TestRequest
+): Promise<TestConnectionResponse> {
+  const diagnostics: ConnectionDiagnostics = { stages: [] };
+  const { stages } = diagnostics;
+  const network = dataSource.network || {};
+
+  let url: URL;
+  let proxy: URL | undefined;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return invalidUrl(
+      diagnostics,
+      `Invalid URL: ${request.url}`,
+      'Enter a full URL including the scheme, e.g. https://api.example.com'
+    );
+  }
+  try {
+    proxy = network.proxyUrl ? new URL(network.proxyUrl) : undefined;
+  } catch {
+    return invalidUrl(
+      diagnostics,
+      'Invalid proxy URL',
+      'Enter the proxy as a URL, e.g. http://proxy.internal:3128'
+    );
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+
+  // DNS
+  const lookup = await resolveHost(hostname, network, proxy);
+  stages.push(lookup.stage);
+  if (lookup.stage.status === 'failed') {
+    return finish(diagnostics, HTTP_STAGES, { category: 'network', stage: lookup.stage });
+  }
+
+  // TCP, to the proxy when one is configured
+  const tcp = proxy
+    ? await connectTcp(proxy.hostname, Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80), 'proxy')
+    : await connectTcp(lookup.address || hostname, port, 'server');
+  stages.push(tcp);
+  if (tcp.status === 'failed') {
+    return finish(diagnostics, HTTP_STAGES, { category: 'network', stage: tcp });
+  }
+
+  // TLS
+  const handshake =
+    url.protocol !== 'https:'
+      ? { name: 'tls' as const, status: 'skipped' as const, detail: 'Plain HTTP; the connection is not encrypted' }
+      : proxy
+      ? {
+          name: 'tls' as const,
+          status: 'skipped' as const,
+          detail: 'Negotiated through the proxy; checked by the HTTP request',
+        }
+      : await checkTls(lookup.address || hostname, port, hostname, network);
+  stages.push(handshake);
+  if (handshake.status === 'failed') {
+    return finish(diagnostics, HTTP_STAGES, { category: 'network', stage: handshake });
+  }
+
+  // Authentication
+  const auth = await checkAuth(connector, dataSource);
+  stages.push(auth);
+  if (auth.status === 'failed') {
+    return finish(diagnostics, HTTP_STAGES, { category: 'auth', stage: auth });
+  }
+
+  // HTTP request
+  const started = Date.now();
+  const exchange = (await connector.sendTestRequest(REQUEST_TIMEOUT)) as TestExchange;
+  const latency = Date.now() - started;
+
+  diagnostics.request = {
+    method: exchange.method,
+    url: redactUrl(exchange.url),
+    headers: redactHeaders(exchange.headers, exchange.credentialHeaders),
+  };
+
+  if (!exchange.response) {
+    const failure = DataSourceError.fromFetchError(exchange.error);
+    const stage: DiagnosticStage = {
+      name: 'http',
+      status: 'failed',
+      duration: latency,
+      error: failure.category === 'timeout' ? `No response within ${REQUEST_TIMEOUT / 1000} seconds` : failure.message,
+      hint: DATA_SOURCE_ERROR_HINTS[failure.category],
+    };
+    stages.push(stage);
+    return finish(diagnostics, HTTP_STAGES, { category: failure.category, stage }, latency, exchange);
+  }
+
+  const { response } = exchange;
+  const responseHeaders: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    responseHeaders[key] = value;
+  });
+
+  const http = checkStatus(response, latency);
+  stages.push(http.stage);
+
+  // Parse the body even after an error status; error bodies often say what's wrong
+  const parsed = await parseBody(response, responseHeaders, dataSource, http.stage.status === 'passed');
+  stages.push(parsed.stage);
+
+  diagnostics.response = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: redactHeaders(responseHeaders, []),
+    contentType: responseHeaders['content-type']?.split(';')[0].trim() || undefined,
+    size: parsed.size,
+  };
+
+  const failure =
+    http.failure ||
+    (parsed.stage.status === 'failed' ? { category: 'upstream_5xx' as const, stage: parsed.stage } : undefined);
+
+  if (failure) {
+    diagnostics.structure = previewStructure(parsed.data, responseHeaders);
+    return finish(diagnostics, HTTP_STAGES, failure, latency, exchange);
+  }
+
+  // Sample records, as widgets would read them
+  const sample = await sampleRecords(connector);
+  stages.push(sample.stage);
+  diagnostics.structure =
+    previewStructure(sample.data, sample.headers) || previewStructure(parsed.data, responseHeaders);
+
+  return {
+    ...finish(diagnostics, HTTP_STAGES, undefined, latency, exchange),
+    sampleData: sample.data,
+  };
+}
+
+async function diagnoseOther(connector: BaseConnector): Promise<TestConnectionResponse> {
+  const diagnostics: ConnectionDiagnostics = { stages: [] };
+  const result = await connector.testConnection();
+
+  if (!result.isConnected) {
+    const category = result.errorCategory || 'network';
+    const stage: DiagnosticStage = {
+      name: 'connect',
+      status: 'failed',
+      duration: result.latency,
+      error: result.lastError,
+      hint: DATA_SOURCE_ERROR_HINTS[category],
+    };
+    diagnostics.stages.push(stage);
+    return finish(diagnostics, OTHER_STAGES, { category, stage }, result.latency);
+  }
+
+  diagnostics.stages.push({ name: 'connect', status: 'passed', duration: result.latency, detail: 'Connected' });
+
+  const sample = await sampleRecords(connector);
+  diagnostics.stages.push(sample.stage);
+  diagnostics.structure = previewStructure(sample.data, sample.headers);
+
+  return {
+    ...finish(diagnostics, OTHER_STAGES, undefined, result.latency),
+    sampleData: sample.data,
+  };
+}
+
+function invalidUrl(diagnostics: ConnectionDiagnostics, error: string, hint: string): TestConnectionResponse {
+  const stage: DiagnosticStage = { name: 'dns', status: 'failed', error, hint };
+  diagnostics.stages.push(stage);
+  return finish(diagnostics, HTTP_STAGES, { category: 'network', stage });
+}
+
+/**
+ * Test result for the stages run so far; stages that didn't run are reported as skipped
+ */
+function finish(
+  diagnostics: ConnectionDiagnostics,
+  names: DiagnosticStageName[],
+  failure?: StageFailure,
+  latency?: number,
+  exchange?: TestExchange
+): TestConnectionResponse {
+  for (const name of names) {
+    if (!diagnostics.stages.some((stage) => stage.name === name)) {
+      diagnostics.stages.push({ name, status: 'skipped', detail: 'Not run: an earlier step failed' });
+    }
+  }
+
+  return {
+    success: !failure,
+    latency: latency ?? diagnostics.stages.reduce((total, stage) => total + (stage.duration || 0), 0),
+    error: failure?.stage.error,
+    errorCategory: failure?.category,
+    network: exchange?.network,
+    diagnostics,
+  };
+}
+
+/**
+ * Resolve the host of the URL, honouring DNS overrides. Hosts behind a proxy are resolved
+ * by the proxy, so the lookup is skipped.
+ */
+async function resolveHost(
+  hostname: string,
+  network: NetworkConfig,
+  proxy?: URL
+): Promise<{ stage: DiagnosticStage; address?: string }> {
+  if (proxy) {
+    return {
+      stage: { name: 'dns', status: 'skipped', detail: `Resolved by the proxy ${redactUrl(proxy.href)}` },
+    };
+  }
+  if (net.isIP(hostname)) {
+    return { stage: { name: 'dns', status: 'skipped', detail: `${hostname} is an IP address` }, address: hostname };
+  }
+
+  const override = Object.entries(network.dnsOverrides || {}).find(
+    ([name]) => name.toLowerCase() === hostname.toLowerCase()
+  )?.[1];
+  if (override) {
+    return {
+      stage: { name: 'dns', status: 'passed', detail: `${hostname} overridden to ${override} in the network settings` },
+      address: override,
+    };
+  }
+
+  const started = Date.now();
+  try {
+    const addresses = await withTimeout(dns.promises.lookup(hostname, { all: true }), 'ETIMEOUT');
+    return {
+      stage: {
+        name: 'dns',
+        status: 'passed',
+        duration: Date.now() - started,
+        detail: `${hostname} resolved to ${addresses.map((entry) => entry.address).join(', ')}`,
+      },
+      address: addresses[0]?.address,
+    };
+  } catch (error) {
+    const code = errorCode(error);
+    return {
+      stage: {
+        name: 'dns',
+        status: 'failed',
+        duration: Date.now() - started,
+        error: `Cannot resolve ${hostname} (${code})`,
+        hint:
+          code === 'ENOTFOUND'
+            ? 'The host name does not exist. Check the base URL for typos, or add a DNS override in the network settings for internal hosts.'
+            : 'The DNS server did not answer. Check the server\'s DNS settings, or add a DNS override in the network settings.',
+      },
+    };
+  }
+}
+
+/**
+ * Open (and close) a TCP connection
+ */
+async function connectTcp(host: string, port: number, target: 'server' | 'proxy'): Promise<DiagnosticStage> {
+  const started = Date.now();
+
+  try {
+    await withTimeout(
+      new Promise<void>((resolve, reject) => {
+        const socket = net.connect({ host, port });
+        socket.once('connect', () => {
+          socket.destroy();
+          resolve();
+        });
+        socket.once('error', reject);
+        setTimeout(() => socket.destroy(), STAGE_TIMEOUT).unref();
+      }),
+      'ETIMEDOUT'
+    );
+
+    return {
+      name: 'tcp',
+      status: 'passed',
+      duration: Date.now() - started,
+      detail: `Connected to ${target === 'proxy' ? 'the proxy at ' : ''}${host}:${port}`,
+    };
+  } catch (error) {
+    const code = errorCode(error);
+    return {
+      name: 'tcp',
+      status: 'failed',
+      duration: Date.now() - started,
+      error: `Cannot connect to ${host}:${port} (${code})`,
+      hint:
+        code === 'ECONNREFUSED'
+          ? `Nothing is accepting connections on port ${port}. Check the port and that the ${target} is running.`
+          : code === 'ETIMEDOUT'
+          ? 'The connection attempt timed out. A firewall may be dropping traffic to this host, or the host may be down.'
+          : `The ${target} could not be reached. Check the host and the network between this server and it.`,
+    };
+  }
+}
+
+/**
+ * TLS handshake with the data source's CA bundle and client certificate, reporting the
+ * server certificate and why it isn't trusted
+ */
+async function checkTls(
+  host: string,
+  port: number,
+  servername: string,
+  network: NetworkConfig
+): Promise<DiagnosticStage> {
+  const started = Date.now();
+  const verify = network.rejectUnauthorized !== false;
+
+  try {
+    const result = await withTimeout(
+      new Promise<{ authorized: boolean; error?: string; protocol: string | null; certificate: tls.PeerCertificate }>(
+        (resolve, reject) => {
+          const socket = tls.connect({
+            host,
+            port,
+            servername: net.isIP(servername) ? undefined : servername,
+            ca: network.caCertificate ? [...tls.rootCertificates, network.caCertificate] : undefined,
+            cert: network.clientCertificate || undefined,
+            key: network.clientKey || undefined,
+            // Checked below, so untrusted certificates can be described
+            rejectUnauthorized: false,
+          });
+          socket.once('secureConnect', () => {
+            resolve({
+              authorized: socket.authorized,
+              error: socket.authorizationError ? String(socket.authorizationError) : undefined,
+              protocol: socket.getProtocol(),
+              certificate: socket.getPeerCertificate(),
+            });
+            socket.destroy();
+          });
+          socket.once('error', reject);
+          setTimeout(() => socket.destroy(), STAGE_TIMEOUT).unref();
+        }
+      ),
+      'ETIMEDOUT'
+    );
+
+    const { certificate } = result;
+    const expires = certificate.valid_to ? new Date(certificate.valid_to) : undefined;
+    const detail = [
+      result.protocol,
+      certificate.subject?.CN && `certificate for ${certificate.subject.CN}`,
+      certificate.issuer?.O || certificate.issuer?.CN ? `issued by ${certificate.issuer.O || certificate.issuer.CN}` : '',
+      expires && `expires ${expires.toISOString().slice(0, 10)}`,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    if (!result.authorized) {
+      return {
+        name: 'tls',
+        status: verify ? 'failed' : 'warning',
+        duration: Date.now() - started,
+        detail,
+        error: `Certificate not trusted (${result.error})`,
+        hint: verify
+          ? certificateHint(result.error)
+          : 'Certificate verification is turned off in the network settings; only do this for staging hosts.',
+      };
+    }
+
+    if (expires && expires.getTime() - Date.now() < CERTIFICATE_EXPIRY_WARNING) {
+      return {
+        name: 'tls',
+        status: 'warning',
+        duration: Date.now() - started,
+        detail,
+        hint: 'The server certificate expires soon; requests will fail once it does.',
+      };
+    }
+
+    return { name: 'tls', status: 'passed', duration: Date.now() - started, detail };
+  } catch (error) {
+    return {
+      name: 'tls',
+      status: 'failed',
+      duration: Date.now() - started,
+      error: `TLS handshake failed (${error instanceof Error ? error.message : errorCode(error)})`,
+      hint: network.clientCertificate
+        ? 'The server rejected the handshake. Check that the client certificate and key match and are accepted by the server.'
+        : 'The server rejected the handshake. It may require a client certificate (mutual TLS), or not speak TLS on this port.',
+    };
+  }
+}
+
+/**
+ * Build the authentication headers; for OAuth2 this requests an access token
+ */
+async function checkAuth(connector: BaseConnector, dataSource: DataSource): Promise<DiagnosticStage> {
+  if (dataSource.auth.type === 'none') {
+    return { name: 'auth', status: 'skipped', detail: 'No authentication configured' };
+  }
+
+  const started = Date.now();
+  try {
+    const headers = await connector.getRequestHeaders();
+    const names = Object.keys(headers);
+
+    return {
+      name: 'auth',
+      status: names.length > 0 ? 'passed' : 'warning',
+      duration: Date.now() - started,
+      detail:
+        dataSource.auth.type === 'oauth2'
+          ? `Access token obtained from ${dataSource.auth.tokenUrl}`
+          : names.length > 0
+          ? `Sends ${names.join(', ')}`
+          : undefined,
+      hint: names.length > 0 ? undefined : 'Authentication is selected, but its credentials are blank.',
+    };
+  } catch (error) {
+    return {
+      name: 'auth',
+      status: 'failed',
+      duration: Date.now() - started,
+      error: error instanceof Error ? error.message : 'Authentication failed',
+      hint:
+        dataSource.auth.type === 'oauth2'
+          ? 'The token request failed. Check the token URL, client ID, client secret and scopes.'
+          : DATA_SOURCE_ERROR_HINTS.auth,
+    };
+  }
+}
+
+/**
+ * Explain the response status
+ */
+function checkStatus(response: Response, duration: number): { stage: DiagnosticStage; failure?: StageFailure } {
+  const detail = `${response.status} ${response.statusText}`.trim();
+
+  if (response.ok) {
+    return { stage: { name: 'http', status: 'passed', duration, detail } };
+  }
+  if (response.status < 400) {
+    return {
+      stage: {
+        name: 'http',
+        status: 'warning',
+        duration,
+        detail,
+        hint: 'The server answered with a redirect that was not followed. Use the final URL as the base URL.',
+      },
+    };
+  }
+
+  const error = DataSourceError.fromStatus(response.status, response.statusText);
+  const retryAfter = response.headers.get('retry-after');
+  const hints: Record<number, string> = {
+    401: 'The credentials were rejected. Check the key, token or password, and the header it is sent in.',
+    403: 'The credentials were accepted but are not allowed to read this URL. Check the account\'s permissions or scopes.',
+    404: 'Nothing was found at this URL. Check the base URL and the health check endpoint.',
+    405: 'The server does not accept this method at this URL. Check the base URL and the health check endpoint.',
+    429: `The server is rate limiting requests${retryAfter ? ` (retry after ${retryAfter}s)` : ''}. Lower the rate limit settings or try again later.`,
+  };
+
+  const stage: DiagnosticStage = {
+    name: 'http',
+    status: 'failed',
+    duration,
+    detail,
+    error: error.message,
+    hint: hints[response.status] || DATA_SOURCE_ERROR_HINTS[error.category],
+  };
+  return { stage, failure: { category: error.category, stage } };
+}
+
+/**
+ * Read the body and check that it is JSON (and, for GraphQL, free of errors)
+ */
+async function parseBody(
+  response: Response,
+  headers: Record<string, string>,
+  dataSource: DataSource,
+  statusPassed: boolean
+): Promise<{ stage: DiagnosticStage; data?: unknown; size: number }> {
+  const started = Date.now();
+  const contentType = headers['content-type']?.split(';')[0].trim();
+
+  let body: string;
+  try {
+    body = await response.text();
+  } catch (error) {
+    return {
+      stage: {
+        name: 'parse',
+        status: 'failed',
+        error: `The response body could not be read (${error instanceof Error ? error.message : errorCode(error)})`,
+        hint: 'The connection was closed while the body was sent. Try again; if it persists, the server may be failing.',
+      },
+      size: 0,
+    };
+  }
+
+  const size = Buffer.byteLength(body);
+  const duration = Date.now() - started;
+  const described = `${contentType || 'no content type'}, ${size} bytes`;
+
+  if (!body.trim()) {
+    return {
+      stage: {
+        name: 'parse',
+        status: response.status === 204 || !statusPassed ? 'passed' : 'warning',
+        duration,
+        detail: `Empty body (${described})`,
+        hint: response.status === 204 || !statusPassed
+          ? undefined
+          : 'Widgets need JSON data; point the health check endpoint at a URL that returns records.',
+      },
+      size,
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    const isHtml = contentType?.includes('html') || /^\s*</.test(body);
+    return {
+      stage: {
+        name: 'parse',
+        status: isHtml ? 'failed' : 'warning',
+        duration,
+        detail: described,
+        error: isHtml ? 'Received HTML instead of JSON' : 'The response is not JSON',
+        hint: isHtml
+          ? 'The URL serves a web page, such as a login or error page, rather than the API. Check the base URL, path and authentication.'
+          : 'Widgets need JSON data; point the health check endpoint at a URL that returns JSON.',
+      },
+      size,
+    };
+  }
+
+  const errors = (data as { errors?: { message?: string }[] } | null)?.errors;
+  if (dataSource.type === 'graphql' && Array.isArray(errors) && errors.length > 0) {
+    return {
+      stage: {
+        name: 'parse',
+        status: 'warning',
+        duration,
+        detail: `JSON (${described})`,
+        error: errors.map((entry) => entry.message).filter(Boolean).join('; ') || 'GraphQL errors',
+        hint: 'The server answered as GraphQL but reported errors. Check the authentication and that this is the GraphQL endpoint.',
+      },
+      data,
+      size,
+    };
+  }
+
+  return {
+    stage: {
+      name: 'parse',
+      status: 'passed',
+      duration,
+      detail: contentType?.includes('json') ? `JSON (${described})` : `JSON, labelled ${described}`,
+    },
+    data,
+    size,
+  };
+}
+
+/**
+ * Read a few records from the first endpoint, as widgets would
+ */
+async function sampleRecords(
+  connector: BaseConnector
+): Promise<{ stage: DiagnosticStage; data?: unknown; headers?: Record<string, string> }> {
+  const started = Date.now();
+
+  try {
+    const [firstEndpoint] = await connector.listEndpoints();
+    const response = await connector.fetch(firstEndpoint?.path || '', { timeout: STAGE_TIMEOUT, limit: 5 });
+    const count = Array.isArray(response.data) ? `${response.data.length} records` : 'a response';
+
+    return {
+      stage: {
+        name: 'sample',
+        status: 'passed',
+        duration: Date.now() - started,
+        detail: firstEndpoint ? `Read ${count} from ${firstEndpoint.name}` : `Read ${count}`,
+      },
+      data: response.data,
+      headers: response.headers,
+    };
+  } catch (error) {
+    const category = getErrorCategory(normalizeError(error));
+    return {
+      stage: {
+        name: 'sample',
+        status: 'warning',
+        duration: Date.now() - started,
+        error: error instanceof Error ? error.message : 'Sampling failed',
+        hint: category
+          ? DATA_SOURCE_ERROR_HINTS[category]
+          : 'The connection works, but no sample records could be read. Add an endpoint that returns records.',
+      },
+    };
+  }
+}
+
+function certificateHint(code?: string): string {
+  switch (code) {
+    case 'CERT_HAS_EXPIRED':
+      return 'The server certificate has expired. It must be renewed on the server.';
+    case 'ERR_TLS_CERT_ALTNAME_INVALID':
+      return 'The certificate is for a different host name. Use the host name the certificate was issued for.';
+    case 'DEPTH_ZERO_SELF_SIGNED_CERT':
+    case 'SELF_SIGNED_CERT_IN_CHAIN':
+    case 'UNABLE_TO_VERIFY_LEAF_SIGNATURE':
+    case 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY':
+      return 'The certificate is signed by an unknown authority. Add its CA bundle in the network settings, or turn off verification for staging hosts.';
+    default:
+      return 'Check the server certificate, or add its CA bundle in the network settings.';
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, code: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(Object.assign(new Error(`Timed out after ${STAGE_TIMEOUT / 1000} seconds`), { code })),
+      STAGE_TIMEOUT
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+function errorCode(error: unknown): string {
+  return (error as { code?: string } | null)?.code || (error instanceof Error ? error.message : 'unknown error');
+}
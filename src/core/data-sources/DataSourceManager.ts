@@ -1,10 +1,102 @@
 // Data Source Manager
 // Orchestrates data source connections, caching, and health monitoring
 
-import { DataSource, AuthConfig, DataSourceConnection, TestConnectionResponse } from '@/types/data-source';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DataSourceOptions,
+  NetworkConfig,
+  DiscoveredEndpoint,
+  DiscoveredRelationship,
+  TestConnectionResponse,
+  CircuitState,
+  DataSourceHealthEvent,
+  DataSourceHealthSummary,
+  HealthStatus,
+  DataSourceEndpoint,
+  DataQueryRequest,
+  DataQueryResponse,
+  DataSourceEnvironment,
+  EndpointJoin,
+  PaginatedResult,
+  WebhookConfig,
+  TrafficEntry,
+  TrafficFilter,
+  TrafficRecordingConfig,
+  TrafficTrigger,
+  AUTH_SECRET_FIELDS,
+} from '@/types/data-source';
 import { BaseConnector, FetchOptions, FetchResponse } from './connectors/BaseConnector';
 import { RestConnector } from './connectors/RestConnector';
-import { decrypt } from '@/lib/encryption';
+import { GraphQLConnector } from './connectors/GraphQLConnector';
+import { PostgresConnector } from './connectors/PostgresConnector';
+import { SqliteConnector } from './connectors/SqliteConnector';
+import { MySqlConnector } from './connectors/MySqlConnector';
+import { MongoConnector } from './connectors/MongoConnector';
+import { FileConnector } from './connectors/FileConnector';
+import { WebhookConnector } from './connectors/WebhookConnector';
+import { StreamConnector } from './connectors/StreamConnector';
+import { PrometheusConnector } from './connectors/PrometheusConnector';
+import { OAuth2TokenProvider } from './OAuth2TokenProvider';
+import { NETWORK_SECRET_FIELDS } from './NetworkClient';
+import { applyEnvironment, environmentKey } from './Environments';
+import { diagnoseConnection } from './ConnectionDiagnostics';
+import { TrafficLog } from './TrafficLog';
+import { RateLimiter, RateLimiterStats } from './RateLimiter';
+import { RetryPolicy } from './RetryPolicy';
+import { CircuitBreaker, CircuitBreakerStats } from './CircuitBreaker';
+import { getErrorCategory, normalizeError } from './errors';
+import { buildEndpointRequest, endpointFromRecord, normalizeResponse } from './EndpointRequest';
+import { TemplateContext, buildTemplateContext, listTemplateVariables } from './RequestTemplate';
+import {
+  DEFAULT_JOIN_CACHE_TTL,
+  JoinCache,
+  RelatedRowLookup,
+  ResolvedJoin,
+  joinRows,
+} from './JoinedRows';
+import { Page, PaginateOptions, applyPage } from './Paginator';
+import {
+  ResponseCache,
+  ResponseCacheEntry,
+  ResponseCacheOptions,
+  ResponseCacheStats,
+  isReadRequest,
+  resourceTag,
+} from './ResponseCache';
+import { EncryptionError, decrypt, encrypt } from '@/lib/encryption';
+import { prisma } from '@/lib/db';
+import { publishServerEvent } from '@/lib/realtime/server';
+
+/**
+ * Data source row as stored by Prisma (auth config is an encrypted JSON string)
+ */
+export interface DataSourceRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  baseUrl: string | null;
+  connectionString: string | null;
+  host: string | null;
+  port: number | null;
+  database: string | null;
+  authConfig: string;
+  healthCheckEndpoint: string | null;
+  healthCheckInterval: number | null;
+  lastHealthCheck: Date | null;
+  healthStatus: string;
+  rateLimitRequests: number | null;
+  rateLimitWindow: number | null;
+  options: string | null;
+  networkConfig: string | null;
+  environments: string | null;
+  webhookConfig: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  createdById: string;
+}
 
 // Cache for active connectors
 const connectorCache = new Map<string, BaseConnector>();
@@ -12,22 +104,106 @@ const connectorCache = new Map<string, BaseConnector>();
 // Cache for connection health status
 const healthCache = new Map<string, DataSourceConnection>();
 
+// Rate limiters by data source ID
+const rateLimiters = new Map<string, RateLimiter>();
+
+// Circuit breakers by data source ID
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+// Cached read responses, and background revalidations in progress by cache key
+const responseCache = new ResponseCache();
+const revalidations = new Map<string, Promise<FetchResponse>>();
+
+// Recorded upstream requests by data source ID, for sources with traffic recording on
+const trafficLogs = new Map<string, TrafficLog>();
+
+// Related rows of joined endpoints, by endpoint ID
+const joinCaches = new Map<string, JoinCache>();
+
+// Default time a call may wait in the rate limit queue
+const DEFAULT_QUEUE_TIMEOUT = 30000;
+
+// Period and number of recent checks in health summaries
+const HEALTH_SUMMARY_PERIOD = 24 * 60 * 60 * 1000;
+const HEALTH_SUMMARY_SAMPLES = 30;
+
 export class DataSourceManager {
+  /**
+   * Build a data source object from a database record.
+   * Credentials stay encrypted; they are decrypted when a connector is created.
+   */
+  static fromRecord(record: DataSourceRecord): DataSource {
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description || undefined,
+      type: record.type as DataSource['type'],
+      baseUrl: record.baseUrl || undefined,
+      connectionString: record.connectionString || undefined,
+      host: record.host || undefined,
+      port: record.port || undefined,
+      database: record.database || undefined,
+      auth: JSON.parse(record.authConfig) as AuthConfig,
+      healthCheckEndpoint: record.healthCheckEndpoint || undefined,
+      healthCheckInterval: record.healthCheckInterval || undefined,
+      lastHealthCheck: record.lastHealthCheck || undefined,
+      healthStatus: record.healthStatus as DataSource['healthStatus'],
+      rateLimitRequests: record.rateLimitRequests || undefined,
+      rateLimitWindow: record.rateLimitWindow || undefined,
+      options: record.options ? (JSON.parse(record.options) as DataSourceOptions) : undefined,
+      network: record.networkConfig ? (JSON.parse(record.networkConfig) as NetworkConfig) : undefined,
+      environments: record.environments
+        ? (JSON.parse(record.environments) as DataSourceEnvironment[])
+        : undefined,
+      webhook: record.webhookConfig ? (JSON.parse(record.webhookConfig) as WebhookConfig) : undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      createdById: record.createdById,
+      credentialsEncrypted: true,
+    };
+  }
+
   /**
    * Create a connector for a data source
    */
   static createConnector(dataSource: DataSource, decryptCredentials = true): BaseConnector {
     // Decrypt credentials if needed
     const auth = decryptCredentials
-      ? this.decryptAuthConfig(dataSource.auth)
+      ? this.decryptAuthConfig(dataSource)
       : dataSource.auth;
 
+    if (decryptCredentials && dataSource.connectionString) {
+      dataSource = {
+        ...dataSource,
+        connectionString: this.decryptValue(dataSource, 'connectionString', dataSource.connectionString),
+      };
+    }
+
+    if (decryptCredentials && dataSource.network) {
+      dataSource = { ...dataSource, network: this.decryptNetworkConfig(dataSource, dataSource.network) };
+    }
+
     switch (dataSource.type) {
       case 'rest':
         return new RestConnector(dataSource, auth);
       case 'graphql':
-        // For now, use REST connector for GraphQL (can be enhanced later)
-        return new RestConnector(dataSource, auth);
+        return new GraphQLConnector(dataSource, auth);
+      case 'postgres':
+        return new PostgresConnector(dataSource, auth);
+      case 'mysql':
+        return new MySqlConnector(dataSource, auth);
+      case 'sqlite':
+        return new SqliteConnector(dataSource, auth);
+      case 'mongodb':
+        return new MongoConnector(dataSource, auth);
+      case 'file':
+        return new FileConnector(dataSource, auth);
+      case 'webhook':
+        return new WebhookConnector(dataSource, auth);
+      case 'stream':
+        return new StreamConnector(dataSource, auth);
+      case 'prometheus':
+        return new PrometheusConnector(dataSource, auth);
       default:
         throw new Error(`Unsupported data source type: ${dataSource.type}`);
     }
@@ -37,94 +213,641 @@ export class DataSourceManager {
    * Get or create a cached connector
    */
   static getConnector(dataSource: DataSource): BaseConnector {
-    const cached = connectorCache.get(dataSource.id);
+    const key = environmentKey(dataSource);
+    const cached = connectorCache.get(key);
 
     if (cached) {
       return cached;
     }
 
     const connector = this.createConnector(dataSource);
-    connectorCache.set(dataSource.id, connector);
+    connector.onResponse((status, headers) => {
+      this.getRateLimiter(dataSource).observe(status, headers);
+    });
+    connector.onConnectionError((error) => {
+      this.recordHealth(dataSource.id, {
+        dataSourceId: dataSource.id,
+        isConnected: false,
+        lastError: error.message,
+        errorCategory: getErrorCategory(normalizeError(error)),
+        lastChecked: new Date(),
+      }).catch((recordError) => console.error(`Error recording health for ${dataSource.id}:`, recordError));
+    });
+    connector.onRefreshToken((refreshToken) => {
+      this.saveRefreshToken(dataSource, refreshToken).catch((error) =>
+        console.error(`Error saving refresh token for ${dataSource.id}:`, error)
+      );
+    });
+
+    const traffic = dataSource.options?.traffic;
+    if (traffic?.enabled) {
+      const log = this.getTrafficLog(dataSource.id, traffic);
+      connector.onExchange((exchange) => log.record(exchange, dataSource.environment));
+    } else {
+      trafficLogs.delete(dataSource.id);
+    }
+
+    connectorCache.set(key, connector);
     return connector;
   }
 
   /**
-   * Remove a connector from cache
+   * Remove a connector (and those of the data source's environments) from cache
+   * and release its connections
    */
   static removeConnector(dataSourceId: string): void {
-    connectorCache.delete(dataSourceId);
+    const keys = new Set([dataSourceId]);
+    for (const state of [connectorCache, rateLimiters, circuitBreakers]) {
+      for (const key of state.keys()) {
+        if (key.startsWith(`${dataSourceId}@`)) keys.add(key);
+      }
+    }
+
+    for (const key of keys) {
+      const connector = connectorCache.get(key);
+      connectorCache.delete(key);
+      OAuth2TokenProvider.invalidate(key);
+      rateLimiters.get(key)?.dispose();
+      rateLimiters.delete(key);
+      circuitBreakers.delete(key);
+
+      connector?.close().catch((error) => {
+        console.error(`Error closing connector for ${key}:`, error);
+      });
+    }
+
     healthCache.delete(dataSourceId);
+    responseCache.invalidateTags([`datasource:${dataSourceId}`]);
   }
 
   /**
-   * Test connection to a data source
+   * Test connection to a data source, returning a staged diagnostic report
+   * (DNS, TCP, TLS, auth, HTTP and parsing for HTTP sources).
+   * Saved data sources (`credentialsEncrypted`) have their credentials decrypted first.
    */
   static async testConnection(
-    dataSource: DataSource | Partial<DataSource> & { baseUrl: string; auth: AuthConfig }
+    dataSource: DataSource | Partial<DataSource> & { auth: AuthConfig }
   ): Promise<TestConnectionResponse> {
     const startTime = Date.now();
+    let connector: BaseConnector | undefined;
 
     try {
       // Create a temporary data source object for testing
       const testDataSource: DataSource = {
         id: 'test-connection',
-        name: 'Test Connection',
+        name: dataSource.name || 'Test Connection',
         type: (dataSource as DataSource).type || 'rest',
         baseUrl: dataSource.baseUrl,
+        connectionString: dataSource.connectionString,
+        host: dataSource.host,
+        port: dataSource.port,
+        database: dataSource.database,
+        options: dataSource.options,
+        network: dataSource.network,
         auth: dataSource.auth,
         healthStatus: 'unknown',
         healthCheckEndpoint: (dataSource as DataSource).healthCheckEndpoint,
         createdAt: new Date(),
         updatedAt: new Date(),
         createdById: 'system',
-        credentialsEncrypted: false,
+        credentialsEncrypted: !!dataSource.credentialsEncrypted,
       };
 
-      const connector = this.createConnector(testDataSource, false);
-      const result = await connector.testConnection();
-
-      if (result.isConnected) {
-        // Try to fetch some sample data
-        try {
-          const sampleResponse = await connector.fetch('', { timeout: 5000 });
-          return {
-            success: true,
-            latency: result.latency,
-            sampleData: sampleResponse.data,
-          };
-        } catch {
-          // Connection works but couldn't fetch sample data
-          return {
-            success: true,
-            latency: result.latency,
-          };
-        }
-      } else {
-        return {
-          success: false,
-          latency: result.latency,
-          error: result.lastError,
-        };
-      }
+      connector = this.createConnector(testDataSource, testDataSource.credentialsEncrypted);
+      return await diagnoseConnection(connector, testDataSource);
     } catch (error) {
       return {
         success: false,
         latency: Date.now() - startTime,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: getErrorCategory(normalizeError(error)),
       };
+    } finally {
+      await connector?.close().catch(() => undefined);
     }
   }
 
   /**
-   * Fetch data from a data source
+   * Fetch data from a data source.
+   * Reads with `options.cache` are served from the response cache when fresh (or stale
+   * while a refresh runs); successful writes invalidate cached reads of the same
+   * resource and any `options.invalidates` tags.
    */
   static async fetch<T = unknown>(
     dataSource: DataSource,
     endpoint: string,
-    options?: FetchOptions
+    options: FetchOptions = {}
   ): Promise<FetchResponse<T>> {
+    if (!isReadRequest(options)) {
+      const response = await this.send<T>(dataSource, endpoint, options);
+      responseCache.invalidateTags([
+        resourceTag(dataSource.id, endpoint),
+        ...(options.invalidates || []),
+      ]);
+      return response;
+    }
+
+    const { cache } = options;
+    if (!cache) {
+      return this.send<T>(dataSource, endpoint, options);
+    }
+
+    const key = ResponseCache.key(environmentKey(dataSource), endpoint, options);
+    const entry = responseCache.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      responseCache.record('hit');
+      return { ...(entry.response as FetchResponse<T>), cache: 'hit' };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      // Serve the stale response and refresh it in the background
+      responseCache.record('stale');
+      if (!revalidations.has(key)) {
+        const revalidation = this.revalidate(dataSource, endpoint, { ...options, cache }, key, entry)
+          .catch((error) => {
+            console.error(`Error revalidating cached response for ${dataSource.id}:`, error);
+            return entry.response;
+          })
+          .finally(() => revalidations.delete(key));
+        revalidations.set(key, revalidation);
+      }
+      return { ...(entry.response as FetchResponse<T>), cache: 'stale' };
+    }
+
+    return (await this.revalidate(dataSource, endpoint, { ...options, cache }, key, entry)) as FetchResponse<T>;
+  }
+
+  /**
+   * Get response cache counters
+   */
+  static getCacheStats(): ResponseCacheStats {
+    return responseCache.getStats();
+  }
+
+  /**
+   * Drop cached responses carrying any of the tags (e.g. `schema:<id>`, `endpoint:<id>`)
+   */
+  static invalidateCache(tags: string[]): number {
+    return responseCache.invalidateTags(tags);
+  }
+
+  /**
+   * Fetch a read and store it, sending the cached entry's validators so an
+   * unchanged upstream can answer 304 Not Modified
+   */
+  private static async revalidate(
+    dataSource: DataSource,
+    endpoint: string,
+    options: FetchOptions & { cache: ResponseCacheOptions },
+    key: string,
+    entry?: ResponseCacheEntry
+  ): Promise<FetchResponse> {
+    const { cache } = options;
+    const response = await this.send(dataSource, endpoint, {
+      ...options,
+      headers: { ...options.headers, ...(entry ? responseCache.conditionalHeaders(entry) : {}) },
+    });
+
+    if (response.status === 304 && entry) {
+      responseCache.refresh(key, cache);
+      responseCache.record('revalidated');
+      return { ...entry.response, latency: response.latency, cache: 'revalidated' };
+    }
+
+    responseCache.set(key, response, cache, ResponseCache.defaultTags(dataSource.id, endpoint));
+    responseCache.record('miss');
+    return { ...response, cache: 'miss' };
+  }
+
+  /**
+   * Send a request upstream.
+   * Each attempt waits for a rate limit token (up to `options.queueTimeout`) and goes
+   * through the circuit breaker; failed idempotent requests are retried with backoff.
+   */
+  private static async send<T = unknown>(
+    dataSource: DataSource,
+    endpoint: string,
+    options: FetchOptions
+  ): Promise<FetchResponse<T>> {
+    const connector = this.getConnector(dataSource);
+    const limiter = this.getRateLimiter(dataSource);
+    const breaker = this.getCircuitBreaker(dataSource);
+    const retry = new RetryPolicy(dataSource.options?.retry);
+
+    return retry.execute(options.method, () =>
+      breaker.execute(async () => {
+        await limiter.acquire(options.queueTimeout ?? DEFAULT_QUEUE_TIMEOUT);
+
+        try {
+          return await connector.fetch<T>(endpoint, {
+            ...options,
+            timeout: options.timeout ?? retry.timeout,
+          });
+        } catch (error) {
+          throw normalizeError(error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Iterate over every page of an endpoint through the rate limiter, retries and circuit breaker
+   */
+  static paginate<T = unknown>(
+    dataSource: DataSource,
+    endpoint: string,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<Page<T>> {
+    const connector = this.getConnector(dataSource);
+
+    return connector.paginate<T>(endpoint, options, (page, pagination) =>
+      this.fetch(dataSource, endpoint, applyPage(options, page, pagination, connector.pageParamStyle))
+    );
+  }
+
+  /**
+   * Fetch every page of an endpoint into one list (partial results when a page fails)
+   */
+  static async fetchAll<T = unknown>(
+    dataSource: DataSource,
+    endpoint: string,
+    options: PaginateOptions = {}
+  ): Promise<PaginatedResult<T>> {
+    const connector = this.getConnector(dataSource);
+
+    return connector.fetchAll<T>(endpoint, options, (page, pagination) =>
+      this.fetch(dataSource, endpoint, applyPage(options, page, pagination, connector.pageParamStyle))
+    );
+  }
+
+  /**
+   * Run a data query for the proxy: apply the saved endpoint's settings,
+   * fetch through the rate limiter, retries and circuit breaker, and normalize the result.
+   * With `request.all`, every page is fetched and templates are resolved per page.
+   * `cacheTags` (e.g. the schemas the request touches) tag cached reads and are
+   * invalidated by writes. `request.environment` selects one of the data source's environments.
+   * Reads through an endpoint with a join get each row's related rows added.
+   */
+  static async query(
+    dataSource: DataSource,
+    endpoint: DataSourceEndpoint | undefined,
+    request: DataQueryRequest,
+    context: TemplateContext = buildTemplateContext(request),
+    cacheTags: string[] = []
+  ): Promise<DataQueryResponse> {
+    dataSource = applyEnvironment(dataSource, request.environment);
+
+    const { path, options } = buildEndpointRequest(dataSource, endpoint, request, context);
+
+    let result: DataQueryResponse;
+    if (request.all) {
+      result = await this.queryAll(dataSource, endpoint, request, context, cacheTags);
+    } else {
+      const response = await this.fetch(dataSource, path, {
+        ...withCacheTags(options, cacheTags),
+        trigger: queryTrigger(request, context),
+      });
+      result = normalizeResponse(response, endpoint);
+    }
+
+    if (endpoint?.join && isReadRequest(options)) {
+      result = await this.applyJoin(endpoint, endpoint.join, result, request, context);
+    }
+
+    return { ...result, environment: dataSource.environment };
+  }
+
+  private static async queryAll(
+    dataSource: DataSource,
+    endpoint: DataSourceEndpoint | undefined,
+    request: DataQueryRequest,
+    context: TemplateContext,
+    cacheTags: string[]
+  ): Promise<DataQueryResponse> {
+    const connector = this.getConnector(dataSource);
+    const start = Date.now();
+    const { path, options } = buildEndpointRequest(dataSource, endpoint, request, context);
+
+    const result = await connector.fetchAll(
+      path,
+      {
+        ...options,
+        pagination: endpoint?.pagination,
+        pageSize: request.limit,
+        maxPages: request.maxPages,
+        maxItems: request.maxItems,
+      },
+      (page, pagination) => {
+        const pageRequest = buildEndpointRequest(dataSource, endpoint, request, {
+          ...context,
+          page: page.page,
+          offset: page.offset,
+          limit: page.limit,
+          cursor: page.cursor,
+        });
+        return this.fetch(dataSource, pageRequest.path, {
+          ...withCacheTags(applyPage(pageRequest.options, page, pagination, connector.pageParamStyle), cacheTags),
+          trigger: queryTrigger(request, context),
+        });
+      }
+    );
+
+    return {
+      data: result.items,
+      total: result.total,
+      hasMore: !result.complete,
+      status: 200,
+      latency: Date.now() - start,
+      pages: result.pages,
+      complete: result.complete,
+      error: result.error,
+    };
+  }
+
+  /**
+   * Find where a join's related rows come from: the relationship's other schema, its
+   * saved endpoint (or CRUD list path) and its data source, which may differ from the
+   * joined endpoint's
+   */
+  static async resolveJoin(join: EndpointJoin): Promise<ResolvedJoin> {
+    const relationship = await prisma.schemaRelationship.findUnique({
+      where: { id: join.relationshipId },
+      include: {
+        sourceSchema: { include: { dataSource: true, endpoint: true } },
+        targetSchema: { include: { dataSource: true, endpoint: true } },
+      },
+    });
+
+    if (!relationship) {
+      throw new Error('Join relationship not found');
+    }
+
+    const related = join.reverse ? relationship.sourceSchema : relationship.targetSchema;
+    const endpoint = related.endpoint ? endpointFromRecord(related.endpoint) : undefined;
+    const path = endpoint?.path ?? (related.crudEndpoints ? JSON.parse(related.crudEndpoints).list : undefined);
+
+    if (!path) {
+      throw new Error(`Schema "${related.name}" has no endpoint to join with`);
+    }
+
+    return {
+      plan: {
+        field: join.reverse ? relationship.targetField : relationship.sourceField,
+        relatedField: join.reverse ? relationship.sourceField : relationship.targetField,
+        as: join.as,
+        type: join.type || 'left',
+        // one-to-many is stored from the target's side: each source row has one target
+        many: relationship.type === 'many-to-many' || (relationship.type === 'one-to-many' && !!join.reverse),
+      },
+      dataSource: this.fromRecord(related.dataSource),
+      endpoint,
+      path,
+    };
+  }
+
+  /**
+   * Add the related rows of the endpoint's join to a query result (a single object is
+   * joined as one row). Totals and paging stay as the endpoint reported them, so inner
+   * joins can return short pages.
+   */
+  private static async applyJoin(
+    endpoint: DataSourceEndpoint,
+    join: EndpointJoin,
+    result: DataQueryResponse,
+    request: DataQueryRequest,
+    context: TemplateContext
+  ): Promise<DataQueryResponse> {
+    const rows = Array.isArray(result.data) ? result.data : [result.data];
+    if (!rows.every(isRow)) {
+      return result;
+    }
+
+    const resolved = await this.resolveJoin(join);
+
+    let store = joinCaches.get(endpoint.id);
+    if (!store) {
+      store = new JoinCache();
+      joinCaches.set(endpoint.id, store);
+    }
+
+    // Related requests that depend on the user are cached per user
+    const userScoped = listTemplateVariables(resolved.endpoint ?? resolved.path).some((name) =>
+      name.startsWith('user.')
+    );
+
+    const joined = await joinRows(rows, resolved.plan, this.relatedRowLookup(resolved, request, context), {
+      store,
+      ttl: join.cacheTTL ?? DEFAULT_JOIN_CACHE_TTL,
+      scope: `${request.environment ?? ''}:${userScoped ? context.user?.id ?? '' : ''}`,
+    });
+
+    return { ...result, data: Array.isArray(result.data) ? joined : joined[0] ?? null };
+  }
+
+  /**
+   * Look up related rows by key: sources that filter natively get an `in` filter, endpoints
+   * using `{{join.keys}}` get the comma-separated keys, and any other endpoint is read in
+   * full once per query and matched locally
+   */
+  private static relatedRowLookup(
+    join: ResolvedJoin,
+    request: DataQueryRequest,
+    context: TemplateContext
+  ): RelatedRowLookup {
+    // The related endpoint's own join isn't followed
+    const endpoint = join.endpoint && { ...join.endpoint, join: undefined };
+    const relatedRequest: DataQueryRequest = {
+      path: endpoint ? undefined : join.path,
+      environment: request.environment,
+      all: true,
+    };
+
+    const fetchRows = async (filters: DataQueryRequest['filters'], keys?: unknown[]) => {
+      const result = await this.query(
+        join.dataSource,
+        endpoint,
+        { ...relatedRequest, filters },
+        { filter: {}, user: context.user, ...(keys ? { join: { keys: keys.join(',') } } : {}) }
+      );
+      // Keys without rows are cached as unmatched, so a partial read fails the join instead
+      if (result.error) {
+        throw new Error(`Join lookup failed: ${result.error}`);
+      }
+      return (Array.isArray(result.data) ? result.data : []).filter(isRow);
+    };
+
+    if (this.getConnector(join.dataSource).pageParamStyle === 'native') {
+      return (keys) => fetchRows([{ field: join.plan.relatedField, operator: 'in', value: keys }]);
+    }
+
+    if (listTemplateVariables(endpoint ?? join.path).includes('join.keys')) {
+      return (keys) => fetchRows(undefined, keys);
+    }
+
+    let allRows: Promise<Record<string, unknown>[]> | undefined;
+    return () => (allRows ??= fetchRows(undefined));
+  }
+
+  /**
+   * Drop the cached related rows of a joined endpoint
+   */
+  static clearJoinCache(endpointId: string): void {
+    joinCaches.delete(endpointId);
+  }
+
+  /**
+   * Recorded requests of a data source, newest first (empty when recording is off)
+   */
+  static getTraffic(dataSourceId: string, filter: TrafficFilter = {}): TrafficEntry[] {
+    return trafficLogs.get(dataSourceId)?.list(filter) ?? [];
+  }
+
+  /**
+   * Delete a data source's recorded requests
+   */
+  static clearTraffic(dataSourceId: string): void {
+    trafficLogs.get(dataSourceId)?.clear();
+  }
+
+  /**
+   * Send a recorded request again, in the environment it was sent to, through the rate
+   * limiter, retries and circuit breaker. Returns the recording of the new request, or
+   * undefined when the entry is no longer kept. Upstream failures are recorded rather than
+   * thrown; errors that stopped the request being sent (e.g. an open circuit) are thrown.
+   */
+  static async replayTraffic(
+    dataSource: DataSource,
+    entryId: string,
+    trigger: TrafficTrigger
+  ): Promise<TrafficEntry | undefined> {
+    const record = trafficLogs.get(dataSource.id)?.get(entryId);
+    if (!record) {
+      return undefined;
+    }
+
+    const { endpoint, environment, options } = record.replay;
+    let failure: unknown;
+    try {
+      await this.send(applyEnvironment(dataSource, environment), endpoint, {
+        ...options,
+        trigger: { ...trigger, replayOf: entryId },
+      });
+    } catch (error) {
+      failure = error;
+    }
+
+    const replayed = this.getTraffic(dataSource.id).find((entry) => entry.trigger.replayOf === entryId);
+    if (!replayed && failure) {
+      throw failure;
+    }
+    return replayed;
+  }
+
+  private static getTrafficLog(dataSourceId: string, config: TrafficRecordingConfig): TrafficLog {
+    let log = trafficLogs.get(dataSourceId);
+
+    if (log) {
+      log.configure(config);
+    } else {
+      log = new TrafficLog(config);
+      trafficLogs.set(dataSourceId, log);
+    }
+
+    return log;
+  }
+
+  /**
+   * Get or create the circuit breaker for a data source
+   */
+  static getCircuitBreaker(dataSource: DataSource): CircuitBreaker {
+    const key = environmentKey(dataSource);
+    let breaker = circuitBreakers.get(key);
+
+    if (!breaker) {
+      // Health status reflects the data source's own settings, not its environments
+      breaker = new CircuitBreaker(
+        key,
+        dataSource.options?.circuitBreaker,
+        dataSource.environment
+          ? undefined
+          : (state, stats) => this.handleCircuitStateChange(dataSource.id, state, stats)
+      );
+      circuitBreakers.set(key, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Get current circuit breaker stats for a data source
+   */
+  static getCircuitStats(dataSourceId: string): CircuitBreakerStats | undefined {
+    return circuitBreakers.get(dataSourceId)?.getStats();
+  }
+
+  /**
+   * Mirror circuit breaker transitions into the health cache and stored health status
+   */
+  private static handleCircuitStateChange(
+    dataSourceId: string,
+    state: CircuitState,
+    stats: CircuitBreakerStats
+  ): void {
+    const isConnected = state === 'closed';
+
+    this.recordHealth(dataSourceId, {
+      dataSourceId,
+      isConnected,
+      lastError: isConnected ? undefined : stats.lastError,
+      errorCategory: isConnected ? undefined : stats.lastErrorCategory,
+      lastChecked: new Date(),
+    }).catch((error: unknown) => {
+      console.error(`Error updating health status for ${dataSourceId}:`, error);
+    });
+  }
+
+  /**
+   * Get or create the rate limiter for a data source
+   */
+  static getRateLimiter(dataSource: DataSource): RateLimiter {
+    const key = environmentKey(dataSource);
+    let limiter = rateLimiters.get(key);
+
+    if (!limiter) {
+      limiter = new RateLimiter(
+        key,
+        dataSource.rateLimitRequests,
+        dataSource.rateLimitWindow
+      );
+      rateLimiters.set(key, limiter);
+    }
+
+    return limiter;
+  }
+
+  /**
+   * Get current rate limiter stats for a data source
+   */
+  static getRateLimitStats(dataSourceId: string): RateLimiterStats | undefined {
+    return rateLimiters.get(dataSourceId)?.getStats();
+  }
+
+  /**
+   * List the endpoints a data source exposes (introspection-capable connectors only)
+   */
+  static async listEndpoints(dataSource: DataSource): Promise<DiscoveredEndpoint[]> {
+    const connector = this.getConnector(dataSource);
+    return connector.listEndpoints();
+  }
+
+  /**
+   * List relationships (e.g. foreign keys) between a data source's endpoints
+   */
+  static async listRelationships(dataSource: DataSource): Promise<DiscoveredRelationship[]> {
     const connector = this.getConnector(dataSource);
-    return connector.fetch<T>(endpoint, options);
+    return connector.listRelationships();
   }
 
   /**
@@ -140,45 +863,225 @@ export class DataSourceManager {
   static async checkHealth(dataSource: DataSource): Promise<DataSourceConnection> {
     const connector = this.getConnector(dataSource);
     const health = await connector.testConnection();
-    healthCache.set(dataSource.id, health);
+    await this.recordHealth(dataSource.id, health);
     return health;
   }
 
+  /**
+   * Store a health result: cache it, update the data source's status,
+   * append it to the health history and publish a `datasource:health` event
+   */
+  static async recordHealth(dataSourceId: string, health: DataSourceConnection): Promise<void> {
+    const checkedAt = health.lastChecked || new Date();
+    const status = health.isConnected ? 'healthy' : 'unhealthy';
+
+    healthCache.set(dataSourceId, health);
+
+    await prisma.dataSource.update({
+      where: { id: dataSourceId },
+      data: { healthStatus: status, lastHealthCheck: checkedAt },
+    });
+
+    await prisma.dataSourceHealthCheck.create({
+      data: {
+        dataSourceId,
+        status,
+        latency: health.latency,
+        error: health.lastError,
+        errorCategory: health.errorCategory,
+        checkedAt,
+      },
+    });
+
+    publishServerEvent<DataSourceHealthEvent>({
+      type: 'datasource:health',
+      resource: 'data-source',
+      resourceId: dataSourceId,
+      data: {
+        dataSourceId,
+        status,
+        latency: health.latency,
+        error: health.lastError,
+        errorCategory: health.errorCategory,
+        checkedAt: checkedAt.toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Uptime over the last 24 hours and the most recent checks, for each data source
+   */
+  static async getHealthSummaries(
+    dataSourceIds: string[]
+  ): Promise<Record<string, DataSourceHealthSummary>> {
+    const since = new Date(Date.now() - HEALTH_SUMMARY_PERIOD);
+
+    const counts = (await prisma.dataSourceHealthCheck.groupBy({
+      by: ['dataSourceId', 'status'],
+      where: { dataSourceId: { in: dataSourceIds }, checkedAt: { gte: since } },
+      _count: { _all: true },
+    })) as { dataSourceId: string; status: string; _count: { _all: number } }[];
+
+    const summaries: Record<string, DataSourceHealthSummary> = {};
+
+    for (const id of dataSourceIds) {
+      const recent = (await prisma.dataSourceHealthCheck.findMany({
+        where: { dataSourceId: id },
+        orderBy: { checkedAt: 'desc' },
+        take: HEALTH_SUMMARY_SAMPLES,
+        select: { status: true, latency: true, checkedAt: true },
+      })) as { status: string; latency: number | null; checkedAt: Date }[];
+
+      const total = counts
+        .filter((c) => c.dataSourceId === id)
+        .reduce((sum, c) => sum + c._count._all, 0);
+      const healthy = counts.find((c) => c.dataSourceId === id && c.status === 'healthy');
+
+      summaries[id] = {
+        uptime: total > 0 ? (healthy?._count._all ?? 0) / total : undefined,
+        checks: recent.reverse().map((check) => ({
+          status: check.status as HealthStatus,
+          latency: check.latency ?? undefined,
+          checkedAt: check.checkedAt.toISOString(),
+        })),
+      };
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Save a refresh token the OAuth2 server rotated, encrypted, to the auth config it replaces
+   * (the environment's own auth when it has one), so it is used after a restart
+   */
+  private static async saveRefreshToken(dataSource: DataSource, refreshToken: string): Promise<void> {
+    const record = await prisma.dataSource.findUnique({
+      where: { id: dataSource.id },
+      select: { authConfig: true, environments: true },
+    });
+    if (!record) return;
+
+    const environments = record.environments
+      ? (JSON.parse(record.environments) as DataSourceEnvironment[])
+      : [];
+    const environment = dataSource.environment
+      ? environments.find((env) => env.name === dataSource.environment)
+      : undefined;
+
+    if (environment?.auth) {
+      environment.auth = { ...environment.auth, refreshToken: encrypt(refreshToken) };
+      await prisma.dataSource.update({
+        where: { id: dataSource.id },
+        data: { environments: JSON.stringify(environments) },
+      });
+      return;
+    }
+
+    const auth = JSON.parse(record.authConfig) as AuthConfig;
+    await prisma.dataSource.update({
+      where: { id: dataSource.id },
+      data: { authConfig: JSON.stringify({ ...auth, refreshToken: encrypt(refreshToken) }) },
+    });
+  }
+
   /**
    * Decrypt sensitive fields in auth config
    */
-  private static decryptAuthConfig(auth: AuthConfig): AuthConfig {
-    const decrypted = { ...auth };
+  private static decryptAuthConfig(dataSource: DataSource): AuthConfig {
+    const decrypted = { ...dataSource.auth };
 
-    try {
-      if (auth.apiKey) {
-        decrypted.apiKey = decrypt(auth.apiKey);
-      }
-      if (auth.password) {
-        decrypted.password = decrypt(auth.password);
+    for (const field of AUTH_SECRET_FIELDS) {
+      const value = dataSource.auth[field];
+      if (value) {
+        decrypted[field] = this.decryptValue(dataSource, field, value);
       }
-      if (auth.token) {
-        decrypted.token = decrypt(auth.token);
-      }
-      if (auth.clientSecret) {
-        decrypted.clientSecret = decrypt(auth.clientSecret);
+    }
+
+    return decrypted;
+  }
+
+  /**
+   * Decrypt the certificates and key in network settings
+   */
+  private static decryptNetworkConfig(dataSource: DataSource, network: NetworkConfig): NetworkConfig {
+    const decrypted = { ...network };
+
+    for (const field of NETWORK_SECRET_FIELDS) {
+      const value = network[field];
+      if (value) {
+        decrypted[field] = this.decryptValue(dataSource, field, value);
       }
-    } catch {
-      // If decryption fails, credentials might not be encrypted
-      // Return original values
-      return auth;
     }
 
     return decrypted;
   }
 
+  /**
+   * Decrypt a stored secret. Failures name the data source and field rather than
+   * passing the stored (encrypted or plaintext) value on to the connector.
+   */
+  private static decryptValue(dataSource: DataSource, field: string, value: string): string {
+    try {
+      return decrypt(value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'decryption failed';
+      const environment = dataSource.environment ? ` (${dataSource.environment} environment)` : '';
+      throw new EncryptionError(
+        `Cannot decrypt ${field} of data source "${dataSource.name}"${environment}: ${reason}`,
+        error instanceof EncryptionError ? error.keyVersion : undefined
+      );
+    }
+  }
+
   /**
    * Clear all caches
    */
   static clearCaches(): void {
+    for (const connector of connectorCache.values()) {
+      connector.close().catch(() => undefined);
+    }
     connectorCache.clear();
     healthCache.clear();
+    OAuth2TokenProvider.clear();
+    for (const limiter of rateLimiters.values()) {
+      limiter.dispose();
+    }
+    rateLimiters.clear();
+    circuitBreakers.clear();
+    responseCache.clear();
+    trafficLogs.clear();
+    joinCaches.clear();
   }
 }
 
+/**
+ * Who a data query is for, as recorded by the traffic inspector
+ */
+function queryTrigger(request: DataQueryRequest, context: TemplateContext): TrafficTrigger {
+  return {
+    userId: context.user?.id,
+    userName: context.user?.name || context.user?.email,
+    widgetId: request.widgetId,
+    widgetTitle: request.widgetTitle,
+  };
+}
+
+function isRow(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Add tags to a request's cache entry (reads) or invalidation list (writes)
+ */
+function withCacheTags(options: FetchOptions, tags: string[]): FetchOptions {
+  if (tags.length === 0) return options;
+
+  return {
+    ...options,
+    cache: options.cache && { ...options.cache, tags: [...(options.cache.tags || []), ...tags] },
+    invalidates: [...(options.invalidates || []), ...tags],
+  };
+}
+
 export default DataSourceManager;
+
@@ -0,0 +1,239 @@
+// Endpoint Requests
+// Builds fetch options from saved endpoint settings and normalizes responses for the data proxy
+
+import {
+  DataSource,
+  DataSourceEndpoint,
+  DataQueryRequest,
+  DataQueryResponse,
+  DataSourceEndpointFormData,
+  JoinType,
+  PaginationConfig,
+} from '@/types/data-source';
+import { getNestedValue } from '@/core/schema-detection/utils/sampling';
+import { FetchOptions, FetchResponse } from './connectors/BaseConnector';
+import {
+  TemplateContext,
+  ResolveOptions,
+  buildTemplateContext,
+  listTemplateVariables,
+  resolveTemplate,
+  resolveTemplateRecord,
+} from './RequestTemplate';
+import { DEFAULT_CACHE_TTL, isMutation } from './ResponseCache';
+
+/**
+ * Endpoint row as stored by Prisma (JSON settings are strings)
+ */
+export interface DataSourceEndpointRecord {
+  id: string;
+  dataSourceId: string;
+  name: string;
+  path: string;
+  method: string;
+  description: string | null;
+  headers: string | null;
+  queryParams: string | null;
+  bodyTemplate: string | null;
+  paginationType: string | null;
+  paginationConfig: string | null;
+  cacheEnabled: boolean;
+  cacheTTL: number | null;
+  joinConfig: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Build an endpoint object from a database record
+ */
+export function endpointFromRecord(record: DataSourceEndpointRecord): DataSourceEndpoint {
+  return {
+    id: record.id,
+    dataSourceId: record.dataSourceId,
+    name: record.name,
+    path: record.path,
+    method: record.method as DataSourceEndpoint['method'],
+    description: record.description || undefined,
+    headers: record.headers ? JSON.parse(record.headers) : undefined,
+    queryParams: record.queryParams ? JSON.parse(record.queryParams) : undefined,
+    bodyTemplate: record.bodyTemplate || undefined,
+    pagination: record.paginationType
+      ? ({
+          ...(record.paginationConfig ? JSON.parse(record.paginationConfig) : {}),
+          type: record.paginationType,
+        } as PaginationConfig)
+      : undefined,
+    cacheEnabled: record.cacheEnabled,
+    cacheTTL: record.cacheTTL ?? undefined,
+    join: record.joinConfig ? JSON.parse(record.joinConfig) : undefined,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+const ENDPOINT_METHODS: DataSourceEndpoint['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const JOIN_TYPES: JoinType[] = ['left', 'inner'];
+
+/**
+ * Check endpoint form data, returning an error message when invalid
+ */
+export function validateEndpointForm(data: Partial<DataSourceEndpointFormData>): string | null {
+  if (!data.name?.trim()) return 'Name is required';
+  if (!data.path?.trim()) return 'Path is required';
+  if (data.method && !ENDPOINT_METHODS.includes(data.method)) {
+    return `Method must be one of ${ENDPOINT_METHODS.join(', ')}`;
+  }
+  if (data.join) {
+    if (!data.join.relationshipId) return 'Join relationship is required';
+    if (!data.join.as?.trim()) return 'Join field name is required';
+    if (data.join.type && !JOIN_TYPES.includes(data.join.type)) {
+      return `Join type must be one of ${JOIN_TYPES.join(', ')}`;
+    }
+    if (data.join.cacheTTL !== undefined && !(data.join.cacheTTL >= 0)) {
+      return 'Join cache time must be zero or more seconds';
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert endpoint form data to database columns (JSON settings are stored as strings)
+ */
+export function endpointRecordData(data: DataSourceEndpointFormData) {
+  const { type: paginationType, ...paginationConfig } = data.pagination || {};
+  const hasPaginationConfig = Object.values(paginationConfig).some(Boolean);
+
+  return {
+    name: data.name.trim(),
+    path: data.path.trim(),
+    method: data.method || 'GET',
+    description: data.description || null,
+    headers: data.headers && Object.keys(data.headers).length > 0 ? JSON.stringify(data.headers) : null,
+    queryParams:
+      data.queryParams && Object.keys(data.queryParams).length > 0
+        ? JSON.stringify(data.queryParams)
+        : null,
+    bodyTemplate: data.bodyTemplate?.trim() ? data.bodyTemplate : null,
+    // 'none' is kept when response paths are set so dataPath/totalPath still apply
+    paginationType: paginationType && (paginationType !== 'none' || hasPaginationConfig) ? paginationType : null,
+    paginationConfig: hasPaginationConfig ? JSON.stringify(paginationConfig) : null,
+    cacheEnabled: !!data.cacheEnabled,
+    cacheTTL: data.cacheTTL ?? null,
+    joinConfig: data.join ? JSON.stringify({ ...data.join, as: data.join.as.trim() }) : null,
+  };
+}
+
+/**
+ * Combine a saved endpoint (if any) with a data query into a path and fetch options.
+ * Request values win over endpoint settings: params are merged, a request body replaces the template.
+ * Placeholders in the endpoint's path, headers, query params and body template are resolved
+ * against `context` (built from the request when not given).
+ */
+export function buildEndpointRequest(
+  dataSource: DataSource,
+  endpoint: DataSourceEndpoint | undefined,
+  request: DataQueryRequest,
+  context: TemplateContext = buildTemplateContext(request),
+  resolveOptions: ResolveOptions = {}
+): { path: string; options: FetchOptions } {
+  const template = resolveBodyTemplate(endpoint?.bodyTemplate, context, resolveOptions);
+  const options: FetchOptions = {
+    method: request.method || endpoint?.method || 'GET',
+    headers: resolveTemplateRecord(endpoint?.headers, context, resolveOptions),
+    params: { ...resolveTemplateRecord(endpoint?.queryParams, context, resolveOptions), ...request.params },
+    filters: request.filters,
+    sort: request.sort,
+    limit: request.limit,
+    offset: request.offset,
+    timeRange: request.timeRange,
+  };
+
+  if (dataSource.type === 'graphql') {
+    // A GraphQL body template holds the operation: { query, variables, operationName }
+    const operation = (template || {}) as {
+      query?: string;
+      variables?: Record<string, unknown>;
+      operationName?: string;
+    };
+    options.query = request.query || operation.query;
+    options.variables = { ...operation.variables, ...request.variables };
+    options.operationName = operation.operationName;
+    // Operations are always POSTed; the method says whether it is a read, so a mutation
+    // sent as GET still needs execute access and isn't retried or cached
+    options.method = isMutation(options.query) ? 'POST' : 'GET';
+  } else if (request.body !== undefined || template !== undefined) {
+    options.body = request.body !== undefined ? request.body : template;
+  }
+
+  if (endpoint?.cacheEnabled) {
+    options.cache = {
+      ttl: endpoint.cacheTTL ?? DEFAULT_CACHE_TTL,
+      // Headers aren't part of the cache key, so requests that depend on the user are cached per user
+      scope: listTemplateVariables(endpoint).some((name) => name.startsWith('user.'))
+        ? context.user?.id
+        : undefined,
+      tags: [`endpoint:${endpoint.id}`],
+    };
+  }
+
+  const path =
+    request.path ??
+    String(resolveTemplate<unknown>(endpoint?.path ?? '', context, { ...resolveOptions, encode: true }) ?? '');
+
+  return { path, options };
+}
+
+/**
+ * Unwrap records and totals using the endpoint's pagination paths
+ */
+export function normalizeResponse(
+  response: FetchResponse,
+  endpoint?: DataSourceEndpoint
+): DataQueryResponse {
+  const pagination = endpoint?.pagination;
+  const body = response.data;
+
+  const data = pagination?.dataPath ? getNestedValue(body, pagination.dataPath) : body;
+  const total = pagination?.totalPath
+    ? Number(getNestedValue(body, pagination.totalPath))
+    : response.total;
+  const hasMore = pagination?.hasMorePath
+    ? Boolean(getNestedValue(body, pagination.hasMorePath))
+    : undefined;
+
+  return {
+    data: data ?? body,
+    total: total !== undefined && Number.isFinite(total) ? total : undefined,
+    hasMore,
+    status: response.status,
+    latency: response.latency,
+    cache: response.cache,
+    stream: response.stream,
+  };
+}
+
+/**
+ * Parse a body template as JSON and resolve its placeholders. Templates that are only
+ * valid JSON once resolved (e.g. `{"page": {{page}}}`) are resolved as text first.
+ */
+function resolveBodyTemplate(
+  template: string | undefined,
+  context: TemplateContext,
+  options: ResolveOptions
+): unknown {
+  if (!template?.trim()) return undefined;
+
+  try {
+    return resolveTemplate(JSON.parse(template), context, options);
+  } catch {
+    const resolved = resolveTemplate<unknown>(template, context, options);
+    if (typeof resolved !== 'string') return resolved;
+
+    try {
+      return JSON.parse(resolved);
+    } catch {
+      return resolved;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// Data Source Environments
+// Named environments (dev, staging, prod, ...) overriding a data source's base URL, auth and headers
+
+import { encrypt } from '@/lib/encryption';
+import {
+  AUTH_SECRET_FIELDS,
+  AuthConfig,
+  DataSource,
+  DataSourceEnvironment,
+  DataSourceEnvironmentView,
+} from '@/types/data-source';
+
+// Environment names: letters, digits, dashes and underscores
+const ENVIRONMENT_NAME = /^[A-Za-z0-9_-]{1,40}$/;
+
+/**
+ * Data source with a named environment's base URL, auth and headers applied.
+ * Without a name, or when the data source has no environment by that name,
+ * its own settings are used.
+ */
+export function applyEnvironment(dataSource: DataSource, name?: string): DataSource {
+  const environment = name
+    ? dataSource.environments?.find((env) => env.name === name)
+    : undefined;
+
+  if (!environment) {
+    return dataSource;
+  }
+
+  return {
+    ...dataSource,
+    baseUrl: environment.baseUrl || dataSource.baseUrl,
+    auth: environment.auth || dataSource.auth,
+    headers: { ...dataSource.headers, ...environment.headers },
+    environment: environment.name,
+  };
+}
+
+/**
+ * Key for per-source state (connectors, rate limiters, circuit breakers, cached responses,
+ * OAuth tokens). Each environment talks to its own upstream, so it gets its own state.
+ */
+export function environmentKey(dataSource: Pick<DataSource, 'id' | 'environment'>): string {
+  return dataSource.environment ? `${dataSource.id}@${dataSource.environment}` : dataSource.id;
+}
+
+/**
+ * Validate environments before saving, returning an error message if invalid
+ */
+export function validateEnvironments(environments: DataSourceEnvironment[]): string | null {
+  if (!Array.isArray(environments)) return 'Environments must be a list';
+
+  const names = new Set<string>();
+
+  for (const environment of environments) {
+    const name = environment.name?.trim() || '';
+
+    if (!ENVIRONMENT_NAME.test(name)) {
+      return `Invalid environment name "${name}": use letters, digits, dashes and underscores`;
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Environment "${name}" is listed more than once`;
+    }
+    names.add(name.toLowerCase());
+
+    if (environment.baseUrl) {
+      try {
+        new URL(environment.baseUrl);
+      } catch {
+        return `Environment "${name}" has an invalid base URL`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Encrypt auth secrets before storing. A blank secret keeps the one stored for the
+ * environment of the same name; null removes it.
+ */
+export function encryptEnvironments(
+  environments: DataSourceEnvironment[],
+  stored: DataSourceEnvironment[] = []
+): DataSourceEnvironment[] {
+  return environments.map((environment) => {
+    const name = environment.name.trim();
+    const headers = Object.entries(environment.headers || {}).filter(([key]) => key.trim());
+
+    const result: DataSourceEnvironment = {
+      name,
+      baseUrl: environment.baseUrl?.trim() || undefined,
+      headers: headers.length > 0 ? Object.fromEntries(headers) : undefined,
+    };
+
+    if (environment.auth) {
+      const storedAuth = stored.find((env) => env.name === name)?.auth;
+      result.auth = encryptAuth(environment.auth, storedAuth);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Environments for display: auth secrets removed, with the names of the stored ones
+ */
+export function maskEnvironments(environments: DataSourceEnvironment[]): DataSourceEnvironmentView[] {
+  return environments.map((environment) => {
+    if (!environment.auth) {
+      return { ...environment, storedSecrets: [] };
+    }
+
+    const auth = { ...environment.auth };
+    const storedSecrets = AUTH_SECRET_FIELDS.filter((field) => auth[field]);
+    for (const field of storedSecrets) {
+      delete auth[field];
+    }
+
+    return { ...environment, auth, storedSecrets };
+  });
+}
+
+function encryptAuth(auth: AuthConfig, stored?: AuthConfig): AuthConfig {
+  const encrypted = { ...auth };
+
+  for (const field of AUTH_SECRET_FIELDS) {
+    const value = auth[field] as string | null | undefined;
+    if (value) {
+      encrypted[field] = encrypt(value);
+    } else if (value !== null && stored?.[field]) {
+      encrypted[field] = stored[field];
+    } else {
+      delete encrypted[field];
+    }
+  }
+
+  return encrypted;
+}
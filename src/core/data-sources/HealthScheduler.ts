@@ -0,0 +1,143 @@
+// Health Check Scheduler
+// Checks every data source at its configured interval and records the results
+
+import { prisma } from '@/lib/db';
+import { DataSourceManager, DataSourceRecord } from './DataSourceManager';
+
+const DEFAULT_INTERVAL = 60000;
+const MIN_INTERVAL = 10000;
+
+// How often the list of data sources is reloaded to pick up added, edited and deleted sources
+const SYNC_INTERVAL = 60000;
+
+// Health history older than this is deleted
+const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface ScheduledCheck {
+  interval: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Scheduled checks by data source ID
+const scheduled = new Map<string, ScheduledCheck>();
+
+let syncTimer: ReturnType<typeof setInterval> | undefined;
+
+export class HealthScheduler {
+  /**
+   * Start scheduling health checks (no-op if already running)
+   */
+  static start(): void {
+    if (syncTimer) return;
+
+    syncTimer = setInterval(() => this.sync(), SYNC_INTERVAL);
+    syncTimer.unref?.();
+    this.sync();
+  }
+
+  /**
+   * Stop all scheduled checks
+   */
+  static stop(): void {
+    clearInterval(syncTimer);
+    syncTimer = undefined;
+
+    for (const check of scheduled.values()) {
+      clearTimeout(check.timer);
+    }
+    scheduled.clear();
+  }
+
+  /**
+   * Whether the scheduler is running
+   */
+  static isRunning(): boolean {
+    return !!syncTimer;
+  }
+
+  /**
+   * Align scheduled checks with the data sources in the database and prune old history
+   */
+  static async sync(): Promise<void> {
+    try {
+      const dataSources = await prisma.dataSource.findMany({
+        select: { id: true, healthCheckInterval: true },
+      });
+      const seen = new Set<string>();
+
+      for (const { id, healthCheckInterval } of dataSources as {
+        id: string;
+        healthCheckInterval: number | null;
+      }[]) {
+        const interval = this.resolveInterval(healthCheckInterval);
+        const current = scheduled.get(id);
+        seen.add(id);
+
+        if (current?.interval === interval) continue;
+
+        if (current) clearTimeout(current.timer);
+        scheduled.delete(id);
+
+        if (interval > 0) {
+          // Spread first checks over the interval so they don't all run at once
+          this.schedule(id, interval, Math.random() * Math.min(interval, SYNC_INTERVAL));
+        }
+      }
+
+      for (const [id, check] of scheduled) {
+        if (!seen.has(id)) {
+          clearTimeout(check.timer);
+          scheduled.delete(id);
+        }
+      }
+
+      await prisma.dataSourceHealthCheck.deleteMany({
+        where: { checkedAt: { lt: new Date(Date.now() - HISTORY_RETENTION_MS) } },
+      });
+    } catch (error) {
+      console.error('Error syncing health check schedule:', error);
+    }
+  }
+
+  /**
+   * Interval for a data source; 0 disables checks, short intervals are raised to the minimum
+   */
+  private static resolveInterval(interval: number | null): number {
+    if (interval === 0) return 0;
+    return Math.max(interval ?? DEFAULT_INTERVAL, MIN_INTERVAL);
+  }
+
+  /**
+   * Run a check after `delay`, then again every `interval` (the next check is
+   * scheduled when the previous one finishes, so slow checks never overlap)
+   */
+  private static schedule(id: string, interval: number, delay: number): void {
+    const timer = setTimeout(async () => {
+      await this.runCheck(id);
+
+      if (scheduled.get(id)?.timer === timer) {
+        this.schedule(id, interval, interval);
+      }
+    }, delay);
+    timer.unref?.();
+
+    scheduled.set(id, { interval, timer });
+  }
+
+  private static async runCheck(id: string): Promise<void> {
+    try {
+      const record = await prisma.dataSource.findUnique({ where: { id } });
+
+      if (!record) {
+        scheduled.delete(id);
+        return;
+      }
+
+      await DataSourceManager.checkHealth(DataSourceManager.fromRecord(record as DataSourceRecord));
+    } catch (error) {
+      console.error(`Error checking health of data source ${id}:`, error);
+    }
+  }
+}
+
+export default HealthScheduler;
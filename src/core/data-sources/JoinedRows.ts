@@ -0,0 +1,154 @@
+// Joined Rows
+// Enriches rows with the related rows that match them by key, with batched lookups and a cache per join
+
+import { DataSource, DataSourceEndpoint, JoinType } from '@/types/data-source';
+
+export const DEFAULT_JOIN_CACHE_TTL = 60;
+
+// Keys looked up per related request
+export const JOIN_BATCH_SIZE = 100;
+
+// Keys kept per join cache; the least recently used are dropped first
+const MAX_JOIN_CACHE_KEYS = 5000;
+
+/**
+ * A join with its relationship resolved: which field of each row matches which field
+ * of the related rows, and how matches are added
+ */
+export interface JoinPlan {
+  field: string;
+  relatedField: string;
+  as: string;
+  type: JoinType;
+  many: boolean;              // Add every match as an array rather than the first match
+}
+
+/**
+ * A join plan with where the related rows are read from
+ */
+export interface ResolvedJoin {
+  plan: JoinPlan;
+  dataSource: DataSource;
+  endpoint?: DataSourceEndpoint;  // The related schema's saved endpoint
+  path: string;                   // Its path, or the schema's CRUD list path when it has none
+}
+
+/**
+ * Fetch related rows for a batch of key values. Rows for other keys may be returned
+ * too (e.g. when the related endpoint can't filter); they are ignored.
+ */
+export type RelatedRowLookup = (keys: unknown[]) => Promise<Record<string, unknown>[]>;
+
+type Row = Record<string, unknown>;
+
+/**
+ * Related rows by key, for one joined endpoint
+ */
+export class JoinCache {
+  private entries = new Map<string, { rows: Row[]; expiresAt: number }>();
+
+  get(key: string): Row[] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (Date.now() > entry.expiresAt) return undefined;
+
+    this.entries.set(key, entry);
+    return entry.rows;
+  }
+
+  set(key: string, rows: Row[], ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { rows, expiresAt: Date.now() + ttl * 1000 });
+
+    while (this.entries.size > MAX_JOIN_CACHE_KEYS) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export interface JoinCacheOptions {
+  store: JoinCache;
+  ttl: number;                // Seconds; 0 skips the cache
+  scope?: string;             // Separates keys whose related rows differ, e.g. by environment
+}
+
+/**
+ * Add each row's related rows under `plan.as`. Distinct keys not in the cache are looked
+ * up in batches of JOIN_BATCH_SIZE; keys without a match are cached as well. A field
+ * holding an array of keys matches each of them and always gets an array.
+ * Inner joins drop rows without a match; left joins keep them with null (or []).
+ */
+export async function joinRows(
+  rows: Row[],
+  plan: JoinPlan,
+  lookup: RelatedRowLookup,
+  cache?: JoinCacheOptions
+): Promise<Row[]> {
+  const useCache = cache !== undefined && cache.ttl > 0;
+  const cacheKey = (key: string) => `${cache?.scope ?? ''}\u0000${key}`;
+
+  // Original values are kept for lookups, so typed sources compare numbers with numbers
+  const keys = new Map<string, unknown>();
+  for (const row of rows) {
+    for (const value of keyValues(row[plan.field])) {
+      keys.set(String(value), value);
+    }
+  }
+
+  const matches = new Map<string, Row[]>();
+  const missing: unknown[] = [];
+  for (const [key, value] of keys) {
+    const cached = useCache ? cache.store.get(cacheKey(key)) : undefined;
+    if (cached) {
+      matches.set(key, cached);
+    } else {
+      missing.push(value);
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += JOIN_BATCH_SIZE) {
+    const batch = missing.slice(i, i + JOIN_BATCH_SIZE);
+    const found = new Map<string, Row[]>(batch.map((value) => [String(value), []]));
+
+    for (const related of await lookup(batch)) {
+      for (const value of keyValues(related[plan.relatedField])) {
+        found.get(String(value))?.push(related);
+      }
+    }
+
+    for (const [key, related] of found) {
+      matches.set(key, related);
+      if (useCache) cache.store.set(cacheKey(key), related, cache.ttl);
+    }
+  }
+
+  return rows.flatMap((row) => {
+    const value = row[plan.field];
+    const related = keyValues(value).flatMap((key) => matches.get(String(key)) ?? []);
+
+    if (plan.type === 'inner' && related.length === 0) {
+      return [];
+    }
+    return [{ ...row, [plan.as]: plan.many || Array.isArray(value) ? related : related[0] ?? null }];
+  });
+}
+
+/**
+ * Key values of a field: strings, numbers and booleans, or each of them in an array
+ */
+function keyValues(value: unknown): unknown[] {
+  return (Array.isArray(value) ? value : [value]).filter(
+    (item) =>
+      (typeof item === 'string' && item !== '') ||
+      typeof item === 'number' ||
+      typeof item === 'boolean'
+  );
+}
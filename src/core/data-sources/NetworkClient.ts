@@ -0,0 +1,278 @@
+// Network Client
+// Sends HTTP requests with a data source's TLS, proxy, redirect and DNS settings
+
+import dns from 'dns';
+import net from 'net';
+import tls from 'tls';
+import {
+  Agent,
+  Dispatcher,
+  ProxyAgent,
+  WebSocket,
+  fetch as undiciFetch,
+  RequestInit as UndiciRequestInit,
+} from 'undici';
+import { NetworkConfig, NetworkSummary } from '@/types/data-source';
+import { encrypt } from '@/lib/encryption';
+import { DataSourceError } from './errors';
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Header values shown as [redacted], besides the ones carrying the source's credentials
+const SENSITIVE_HEADER = /auth|token|secret|key|password|session|cookie|signature/i;
+
+/**
+ * Network settings stored encrypted
+ */
+export const NETWORK_SECRET_FIELDS = ['caCertificate', 'clientCertificate', 'clientKey'] as const;
+
+export class NetworkClient {
+  private config: NetworkConfig;
+  private dispatcher?: Dispatcher;
+
+  constructor(config: NetworkConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Send a request. Redirects are followed up to `maxRedirects`; headers listed in
+   * `credentialHeaders` are dropped when a redirect leaves the original origin.
+   */
+  async fetch(url: string, init: RequestInit = {}, credentialHeaders: string[] = []): Promise<Response> {
+    const limit = this.config.maxRedirects;
+    if (limit === undefined) {
+      return this.send(url, init);
+    }
+
+    const origin = new URL(url).origin;
+    let request = { url, init };
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.send(request.url, { ...request.init, redirect: 'manual' });
+      const location = response.headers.get('location');
+
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        return response;
+      }
+      if (redirects >= limit) {
+        throw new DataSourceError(
+          `Too many redirects: more than ${limit} allowed for this data source`,
+          'network'
+        );
+      }
+
+      await response.body?.cancel();
+      request = nextRequest(request, response.status, new URL(location, request.url).href);
+
+      if (new URL(request.url).origin !== origin) {
+        request.init.headers = withoutHeaders(request.init.headers, credentialHeaders);
+      }
+    }
+  }
+
+  /**
+   * Open a WebSocket with the same TLS, proxy and DNS settings as HTTP requests
+   */
+  openWebSocket(url: string, headers: Record<string, string> = {}): WebSocket {
+    return new WebSocket(url, { headers, dispatcher: this.getDispatcher() });
+  }
+
+  /**
+   * Settings a request to `url` was sent with, for connection test results
+   */
+  describe(url: string, response?: Response): NetworkSummary {
+    let hostname = '';
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      // Not a valid URL; the request itself reports the error
+    }
+
+    return {
+      tlsVerified: this.config.rejectUnauthorized !== false,
+      customCa: !!this.config.caCertificate,
+      clientCertificate: !!(this.config.clientCertificate && this.config.clientKey),
+      proxy: this.config.proxyUrl ? redactUrl(this.config.proxyUrl) : undefined,
+      maxRedirects: this.config.maxRedirects,
+      dnsOverride: this.findOverride(hostname),
+      finalUrl: response?.url && response.url !== url ? response.url : undefined,
+    };
+  }
+
+  /**
+   * Close pooled connections
+   */
+  async close(): Promise<void> {
+    await this.dispatcher?.close();
+    this.dispatcher = undefined;
+  }
+
+  private send(url: string, init: RequestInit): Promise<Response> {
+    const dispatcher = this.getDispatcher();
+    if (!dispatcher) {
+      return fetch(url, init);
+    }
+
+    // undici's own fetch accepts the dispatcher; its Response matches the global one at runtime
+    return undiciFetch(url, { ...(init as UndiciRequestInit), dispatcher }) as unknown as Promise<Response>;
+  }
+
+  /**
+   * Connection pool for the configured TLS, proxy and DNS settings; none when the
+   * defaults apply, so requests go through the global fetch
+   */
+  private getDispatcher(): Dispatcher | undefined {
+    const { caCertificate, clientCertificate, clientKey, rejectUnauthorized, proxyUrl, dnsOverrides } =
+      this.config;
+
+    const hasOverrides = !!dnsOverrides && Object.keys(dnsOverrides).length > 0;
+    if (!caCertificate && !clientCertificate && rejectUnauthorized !== false && !proxyUrl && !hasOverrides) {
+      return undefined;
+    }
+
+    if (!this.dispatcher) {
+      const connect = {
+        // A custom CA is trusted in addition to the system ones
+        ca: caCertificate ? [...tls.rootCertificates, caCertificate] : undefined,
+        cert: clientCertificate || undefined,
+        key: clientKey || undefined,
+        rejectUnauthorized: rejectUnauthorized !== false,
+        lookup: hasOverrides ? this.lookup : undefined,
+      };
+
+      this.dispatcher = proxyUrl
+        ? new ProxyAgent({
+            uri: proxyUrl,
+            requestTls: connect,
+            proxyTls: { ca: connect.ca, rejectUnauthorized: connect.rejectUnauthorized, lookup: connect.lookup },
+          })
+        : new Agent({ connect });
+    }
+
+    return this.dispatcher;
+  }
+
+  /**
+   * DNS lookup that answers overridden hostnames with their configured address
+   */
+  private lookup = ((
+    hostname: string,
+    options: dns.LookupOptions,
+    callback: (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family: number) => void
+  ) => {
+    const address = this.findOverride(hostname);
+    if (!address) {
+      dns.lookup(hostname, options, callback);
+      return;
+    }
+
+    const family = net.isIPv6(address) ? 6 : 4;
+    callback(null, options.all ? [{ address, family }] : address, family);
+  }) as net.LookupFunction;
+
+  private findOverride(hostname: string): string | undefined {
+    const host = hostname.toLowerCase();
+    return Object.entries(this.config.dnsOverrides || {}).find(
+      ([name]) => name.toLowerCase() === host
+    )?.[1];
+  }
+}
+
+/**
+ * Encrypt the certificates and key in network settings before storing them.
+ * A blank value keeps the `stored` (already encrypted) one; null removes it.
+ */
+export function encryptNetworkConfig(config: NetworkConfig, stored: NetworkConfig = {}): NetworkConfig {
+  const encrypted = { ...config };
+
+  for (const field of NETWORK_SECRET_FIELDS) {
+    const value = config[field] as string | null | undefined;
+    if (value) {
+      encrypted[field] = encrypt(value);
+    } else if (value !== null && stored[field]) {
+      encrypted[field] = stored[field];
+    } else {
+      delete encrypted[field];
+    }
+  }
+
+  return encrypted;
+}
+
+/**
+ * Request for a redirect target: 303 (and 301/302 after a POST) become a GET without a body
+ */
+function nextRequest(
+  request: { url: string; init: RequestInit },
+  status: number,
+  location: string
+): { url: string; init: RequestInit } {
+  const method = (request.init.method || 'GET').toUpperCase();
+
+  if (status === 303 || ((status === 301 || status === 302) && method === 'POST')) {
+    return {
+      url: location,
+      init: {
+        ...request.init,
+        method: method === 'HEAD' ? 'HEAD' : 'GET',
+        body: undefined,
+        headers: withoutHeaders(request.init.headers, ['content-type', 'content-length']),
+      },
+    };
+  }
+
+  return { url: location, init: request.init };
+}
+
+function withoutHeaders(headers: HeadersInit | undefined, names: string[]): Record<string, string> {
+  const excluded = names.map((name) => name.toLowerCase());
+  const result: Record<string, string> = {};
+
+  new Headers(headers).forEach((value, key) => {
+    if (!excluded.includes(key)) result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * URL with its credentials removed, for display: user info, and the values of query
+ * parameters named like sensitive headers (e.g. `api_key`, `token`)
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+
+    const params = [...parsed.searchParams];
+    if (params.some(([name]) => SENSITIVE_HEADER.test(name))) {
+      parsed.search = params
+        .map(([name, value]) =>
+          `${encodeURIComponent(name)}=${SENSITIVE_HEADER.test(name) ? '[redacted]' : encodeURIComponent(value)}`
+        )
+        .join('&');
+    }
+
+    return parsed.href.replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Headers for display: values of credential and other sensitive headers are replaced,
+ * keeping the scheme of Authorization values (e.g. "Bearer [redacted]")
+ */
+export function redactHeaders(headers: Record<string, string>, credentialHeaders: string[]): Record<string, string> {
+  const credentials = new Set(credentialHeaders.map((name) => name.toLowerCase()));
+
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => {
+      if (!credentials.has(name.toLowerCase()) && !SENSITIVE_HEADER.test(name)) {
+        return [name, value];
+      }
+      const scheme = /^(Bearer|Basic|Token|Digest)\s/i.exec(value)?.[1];
+      return [name, scheme ? `${scheme} [redacted]` : '[redacted]'];
+    })
+  );
+}
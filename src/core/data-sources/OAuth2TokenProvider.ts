@@ -0,0 +1,198 @@
+// OAuth2 Token Provider
+// Obtains access tokens via client-credentials or refresh-token grants and caches them per data source
+
+import { AuthConfig } from '@/types/data-source';
+import { encrypt, decrypt, hash } from '@/lib/encryption';
+
+/**
+ * Cached token for a data source (tokens are held encrypted)
+ */
+interface CachedToken {
+  fingerprint: string;        // Identifies the auth config the token was issued for
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;         // epoch ms; undefined when the server gave no expiry
+}
+
+interface TokenResponse {
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number | string;
+  refresh_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+// Refresh tokens this long before they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const TOKEN_REQUEST_TIMEOUT_MS = 15000;
+
+// Cached tokens by data source ID
+const tokenCache = new Map<string, CachedToken>();
+
+// In-flight token requests by data source ID, so concurrent calls share one request
+const pendingRequests = new Map<string, Promise<string>>();
+
+export class OAuth2TokenProvider {
+  /**
+   * Get an access token for a data source, requesting a new one when the cached
+   * token is missing, expired, or `forceRefresh` is set (e.g. after a 401).
+   * `send` replaces the global fetch, e.g. to apply the source's network settings.
+   * `onRefreshToken` receives a refresh token the server rotated, so it can be saved.
+   */
+  static async getAccessToken(
+    dataSourceId: string,
+    auth: AuthConfig,
+    forceRefresh = false,
+    send: (url: string, init: RequestInit) => Promise<Response> = fetch,
+    onRefreshToken?: (refreshToken: string) => void
+  ): Promise<string> {
+    const fingerprint = this.fingerprint(auth);
+    const cached = tokenCache.get(dataSourceId);
+
+    if (
+      !forceRefresh &&
+      cached?.fingerprint === fingerprint &&
+      (!cached.expiresAt || cached.expiresAt - EXPIRY_MARGIN_MS > Date.now())
+    ) {
+      return decrypt(cached.accessToken);
+    }
+
+    const pending = pendingRequests.get(dataSourceId);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.requestToken(
+      dataSourceId,
+      auth,
+      fingerprint,
+      cached?.fingerprint === fingerprint ? cached : undefined,
+      send,
+      onRefreshToken
+    ).finally(() => pendingRequests.delete(dataSourceId));
+
+    pendingRequests.set(dataSourceId, request);
+    return request;
+  }
+
+  /**
+   * Drop the cached token for a data source
+   */
+  static invalidate(dataSourceId: string): void {
+    tokenCache.delete(dataSourceId);
+  }
+
+  /**
+   * Clear all cached tokens
+   */
+  static clear(): void {
+    tokenCache.clear();
+  }
+
+  /**
+   * Request a token from the token endpoint and cache it.
+   * A refresh token (configured or issued earlier) is preferred over client credentials.
+   */
+  private static async requestToken(
+    dataSourceId: string,
+    auth: AuthConfig,
+    fingerprint: string,
+    cached?: CachedToken,
+    send: (url: string, init: RequestInit) => Promise<Response> = fetch,
+    onRefreshToken?: (refreshToken: string) => void
+  ): Promise<string> {
+    if (!auth.tokenUrl) {
+      throw new Error('OAuth2 token URL is not configured');
+    }
+
+    const refreshToken = cached?.refreshToken ? decrypt(cached.refreshToken) : auth.refreshToken;
+
+    const params = new URLSearchParams();
+    if (refreshToken && (auth.grantType === 'refresh_token' || cached?.refreshToken)) {
+      params.set('grant_type', 'refresh_token');
+      params.set('refresh_token', refreshToken);
+    } else if (auth.grantType === 'refresh_token') {
+      throw new Error('OAuth2 refresh token is not configured');
+    } else {
+      params.set('grant_type', 'client_credentials');
+    }
+
+    if (auth.clientId) params.set('client_id', auth.clientId);
+    if (auth.clientSecret) params.set('client_secret', auth.clientSecret);
+    if (auth.scopes?.length) params.set('scope', auth.scopes.join(' '));
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TOKEN_REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    let body: TokenResponse;
+    try {
+      response = await send(auth.tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+        },
+        body: params.toString(),
+        signal: controller.signal,
+      });
+      body = await response.json().catch(() => ({}));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('OAuth2 token request timed out');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok || !body.access_token) {
+      tokenCache.delete(dataSourceId);
+
+      // An issued refresh token may have been revoked; fall back to client credentials
+      if (cached?.refreshToken && auth.grantType !== 'refresh_token') {
+        return this.requestToken(dataSourceId, auth, fingerprint, undefined, send, onRefreshToken);
+      }
+
+      const reason = body.error_description || body.error || `HTTP ${response.status}`;
+      throw new Error(`OAuth2 token request failed: ${reason}`);
+    }
+
+    const expiresIn = Number(body.expires_in);
+    const issuedRefreshToken = body.refresh_token || refreshToken;
+
+    tokenCache.set(dataSourceId, {
+      fingerprint,
+      accessToken: encrypt(body.access_token),
+      refreshToken: issuedRefreshToken ? encrypt(issuedRefreshToken) : undefined,
+      expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+    });
+
+    // Servers that rotate refresh tokens revoke the old one, so the configured token must follow
+    if (auth.grantType === 'refresh_token' && body.refresh_token && body.refresh_token !== refreshToken) {
+      onRefreshToken?.(body.refresh_token);
+    }
+
+    return body.access_token;
+  }
+
+  /**
+   * Hash of the settings a token depends on, so edited credentials invalidate the cache
+   */
+  private static fingerprint(auth: AuthConfig): string {
+    return hash(
+      JSON.stringify([
+        auth.tokenUrl,
+        auth.grantType,
+        auth.clientId,
+        auth.clientSecret,
+        auth.refreshToken,
+        auth.scopes,
+      ])
+    );
+  }
+}
+
+export default OAuth2TokenProvider;
@@ -0,0 +1,261 @@
+// Paginator
+// Walks every page of an endpoint using offset, page or cursor pagination
+
+import { PaginatedResult, PaginationConfig } from '@/types/data-source';
+import { PaginationDetector } from '@/core/schema-detection/detectors/PaginationDetector';
+import { getNestedValue } from '@/core/schema-detection/utils/sampling';
+import { FetchOptions, FetchResponse } from './connectors/BaseConnector';
+import { getErrorCategory } from './errors';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 50;
+export const DEFAULT_MAX_ITEMS = 10000;
+const MAX_CONCURRENCY = 5;
+
+/**
+ * Where page parameters go: URL query params (REST), GraphQL variables,
+ * or the connector's own limit/offset (databases)
+ */
+export type PageParamStyle = 'query' | 'variables' | 'native';
+
+export interface PaginateOptions extends FetchOptions {
+  pagination?: PaginationConfig;  // Detected from the first page when not set
+  pageSize?: number;
+  maxPages?: number;
+  maxItems?: number;
+  concurrency?: number;           // Parallel requests for offset/page pagination once the total is known
+}
+
+/**
+ * Position of a page request
+ */
+export interface PageRequest {
+  index: number;              // 0-based page index
+  page: number;               // 1-based page number
+  offset: number;
+  limit: number;
+  cursor?: string;
+}
+
+export interface Page<T = unknown> {
+  index: number;
+  items: T[];
+  total?: number;
+  response: FetchResponse;
+}
+
+/**
+ * Fetches one page. `pagination` is undefined for the first page while the strategy is
+ * still being detected, in which case the request is sent without page parameters.
+ */
+export type PageFetcher = (
+  page: PageRequest,
+  pagination: PaginationConfig | undefined
+) => Promise<FetchResponse>;
+
+const detector = new PaginationDetector();
+
+/**
+ * Yield every page until the source runs out of data or a page/item cap is reached.
+ * A failed page ends the walk with its error, after the pages fetched before it.
+ */
+export async function* paginate<T = unknown>(
+  fetchPage: PageFetcher,
+  options: PaginateOptions = {}
+): AsyncGenerator<Page<T>> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+  let pageSize = options.pageSize ?? options.limit ?? DEFAULT_PAGE_SIZE;
+  let pagination = options.pagination;
+  let itemCount = 0;
+
+  const request = (index: number, cursor?: string): PageRequest => ({
+    index,
+    page: index + 1,
+    offset: index * pageSize,
+    limit: pageSize,
+    cursor,
+  });
+
+  const toPage = (index: number, response: FetchResponse): Page<T> => {
+    const items = extractItems<T>(response.data, pagination).slice(0, maxItems - itemCount);
+    itemCount += items.length;
+    return { index, items, total: extractTotal(response, pagination), response };
+  };
+
+  // First page, which also tells us the strategy when none is configured
+  const firstResponse = await fetchPage(request(0), pagination);
+
+  if (!pagination) {
+    const analysis = detector.detect(firstResponse.data, options.params, firstResponse.headers);
+    if (analysis.detected && analysis.type !== 'none') {
+      pagination = { type: analysis.type, ...analysis.config };
+      // The first page used the server's default size, so later pages step by it
+      const firstItems = extractItems(firstResponse.data, pagination);
+      if (firstItems.length > 0) pageSize = firstItems.length;
+    }
+  }
+
+  let previous = toPage(0, firstResponse);
+  yield previous;
+
+  if (!pagination || pagination.type === 'none') return;
+
+  let index = 1;
+
+  while (index < maxPages && itemCount < maxItems && hasNextPage(previous, pagination, pageSize)) {
+    if (pagination.type === 'cursor') {
+      const cursor = getNestedValue(previous.response.data, pagination.nextCursorPath || '');
+      const response = await fetchPage(request(index, String(cursor)), pagination);
+      previous = toPage(index, response);
+      yield previous;
+      index++;
+      continue;
+    }
+
+    // Offset/page: fetch several pages at once when we know how many there are
+    const concurrency = previous.total !== undefined
+      ? Math.min(Math.max(options.concurrency ?? 1, 1), MAX_CONCURRENCY)
+      : 1;
+    const lastIndex = previous.total !== undefined
+      ? Math.min(maxPages, Math.ceil(previous.total / pageSize))
+      : maxPages;
+    const batch: number[] = [];
+    for (let i = index; i < Math.min(index + concurrency, lastIndex); i++) {
+      batch.push(i);
+    }
+    if (batch.length === 0) break;
+
+    const results = await Promise.allSettled(batch.map((i) => fetchPage(request(i), pagination)));
+
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === 'rejected') throw result.reason;
+
+      previous = toPage(batch[i], result.value);
+      yield previous;
+
+      if (itemCount >= maxItems || !hasNextPage(previous, pagination, pageSize)) return;
+    }
+
+    index += batch.length;
+  }
+}
+
+/**
+ * Gather every page into one list. When a later page fails, the records fetched before
+ * it are returned with `complete: false` and the error; a failing first page throws.
+ */
+export async function collectPages<T = unknown>(
+  pages: AsyncIterable<Page<T>>,
+  options: Pick<PaginateOptions, 'maxPages' | 'maxItems'> = {}
+): Promise<PaginatedResult<T>> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+  const result: PaginatedResult<T> = { items: [], pages: 0, complete: true };
+
+  try {
+    for await (const page of pages) {
+      result.items.push(...page.items);
+      result.pages++;
+      if (page.total !== undefined) result.total = page.total;
+    }
+
+    // Stopping at a cap leaves records behind unless we know we got them all
+    const capped = result.pages >= maxPages || result.items.length >= maxItems;
+    if (capped && (result.total === undefined || result.items.length < result.total)) {
+      result.complete = false;
+    }
+  } catch (error) {
+    if (result.pages === 0) throw error;
+
+    result.complete = false;
+    result.error = error instanceof Error ? error.message : 'Failed to fetch page';
+    result.errorCategory = getErrorCategory(error);
+  }
+
+  return result;
+}
+
+/**
+ * Add page parameters to a request
+ */
+export function applyPage(
+  options: FetchOptions,
+  page: PageRequest,
+  pagination: PaginationConfig | undefined,
+  style: PageParamStyle
+): FetchOptions {
+  if (!pagination || pagination.type === 'none') return options;
+
+  if (style === 'native') {
+    return { ...options, limit: page.limit, offset: page.offset };
+  }
+
+  const values: Record<string, string | number> = {};
+
+  switch (pagination.type) {
+    case 'offset':
+      values[pagination.limitParam || 'limit'] = page.limit;
+      values[pagination.offsetParam || 'offset'] = page.offset;
+      break;
+
+    case 'page':
+      values[pagination.pageParam || 'page'] = page.page;
+      if (pagination.pageSizeParam) values[pagination.pageSizeParam] = page.limit;
+      break;
+
+    case 'cursor':
+      if (page.cursor !== undefined) values[pagination.cursorParam || 'cursor'] = page.cursor;
+      if (pagination.limitParam) values[pagination.limitParam] = page.limit;
+      break;
+  }
+
+  return style === 'variables'
+    ? { ...options, variables: { ...options.variables, ...values } }
+    : { ...options, params: { ...options.params, ...values } };
+}
+
+/**
+ * Records in a page body: the value at `dataPath`, or the body itself when it's a list
+ */
+function extractItems<T>(data: unknown, pagination?: PaginationConfig): T[] {
+  const value = pagination?.dataPath ? getNestedValue(data, pagination.dataPath) : data;
+
+  if (Array.isArray(value)) return value as T[];
+  if (value === undefined || value === null) return [];
+  return [value as T];
+}
+
+function extractTotal(response: FetchResponse, pagination?: PaginationConfig): number | undefined {
+  if (pagination?.totalPath) {
+    const total = Number(getNestedValue(response.data, pagination.totalPath));
+    if (Number.isFinite(total)) return total;
+  }
+  return response.total;
+}
+
+/**
+ * Whether another page should be requested after `page`
+ */
+function hasNextPage(page: Page, pagination: PaginationConfig, pageSize: number): boolean {
+  if (page.items.length === 0) return false;
+
+  if (pagination.hasMorePath) {
+    const hasMore = getNestedValue(page.response.data, pagination.hasMorePath);
+    if (hasMore !== undefined) return Boolean(hasMore);
+  }
+
+  if (pagination.type === 'cursor') {
+    const cursor = pagination.nextCursorPath
+      ? getNestedValue(page.response.data, pagination.nextCursorPath)
+      : undefined;
+    return cursor !== undefined && cursor !== null && cursor !== '';
+  }
+
+  if (page.total !== undefined) {
+    return (page.index + 1) * pageSize < page.total;
+  }
+
+  return page.items.length >= pageSize;
+}
@@ -0,0 +1,237 @@
+// Rate Limiter
+// Token bucket per data source; queues calls until a token is free and honours upstream rate limit headers
+
+/**
+ * Snapshot of a limiter's state, reported alongside the health status
+ */
+export interface RateLimiterStats {
+  limit?: number;             // Requests allowed per window (undefined: no local limit)
+  windowMs?: number;
+  available?: number;         // Tokens currently in the bucket (undefined: no local limit)
+  queued: number;             // Calls waiting for a token
+  throttled: number;          // Calls that had to wait
+  rejected: number;           // Calls that missed their deadline
+  pausedUntil?: Date;         // Upstream asked us to back off until then
+  upstreamLimit?: number;     // From X-RateLimit-Limit
+  upstreamRemaining?: number; // From X-RateLimit-Remaining
+  upstreamReset?: Date;       // From X-RateLimit-Reset
+}
+
+/**
+ * Thrown when a queued call cannot get a token before its deadline
+ */
+export class RateLimitExceededError extends Error {
+  public readonly retryAfter: number;  // milliseconds until a token is expected
+
+  constructor(dataSourceId: string, retryAfter: number) {
+    super(`Rate limit queue deadline exceeded for data source ${dataSourceId}`);
+    this.name = 'RateLimitExceededError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Epoch-seconds values above this are absolute times rather than deltas
+const EPOCH_THRESHOLD_SECONDS = 1e9;
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private drainTimer?: ReturnType<typeof setTimeout>;
+
+  private throttled = 0;
+  private rejected = 0;
+  private upstreamLimit?: number;
+  private upstreamRemaining?: number;
+  private upstreamReset?: number;
+
+  /**
+   * @param dataSourceId - Used in error messages
+   * @param limit - Requests per window; omit to only honour upstream headers
+   * @param windowMs - Window length in milliseconds
+   */
+  constructor(
+    private readonly dataSourceId: string,
+    private readonly limit?: number,
+    private readonly windowMs?: number
+  ) {
+    this.tokens = this.isLimited() ? limit! : Infinity;
+  }
+
+  /**
+   * Wait for a token. Calls are served in order; a call still waiting when
+   * `timeoutMs` elapses is rejected with RateLimitExceededError.
+   */
+  acquire(timeoutMs: number): Promise<void> {
+    this.refill();
+
+    if (this.queue.length === 0 && this.canProceed()) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    this.throttled += 1;
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          this.rejected += 1;
+          reject(new RateLimitExceededError(this.dataSourceId, this.msUntilNextToken()));
+        }, timeoutMs),
+      };
+      this.queue.push(waiter);
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Read upstream rate limit headers (Retry-After, X-RateLimit-*) from a response
+   */
+  observe(status: number, headers: Record<string, string>): void {
+    const header = (name: string) => headers[name] ?? headers[name.toLowerCase()];
+    const now = Date.now();
+
+    const limit = Number(header('x-ratelimit-limit'));
+    const remaining = Number(header('x-ratelimit-remaining'));
+    const reset = parseResetHeader(header('x-ratelimit-reset'), now);
+
+    if (Number.isFinite(limit)) this.upstreamLimit = limit;
+    if (Number.isFinite(remaining)) this.upstreamRemaining = remaining;
+    if (reset) this.upstreamReset = reset;
+
+    // Out of upstream quota: hold calls until the reset time
+    if (remaining === 0 && reset && reset > now) {
+      this.pause(reset);
+    }
+
+    const retryAfter = parseRetryAfter(header('retry-after'), now);
+    if (retryAfter && (status === 429 || status === 503)) {
+      this.pause(retryAfter);
+    } else if (status === 429 && !reset) {
+      // Too Many Requests without a hint: back off for a second
+      this.pause(now + 1000);
+    }
+  }
+
+  /**
+   * Current limiter state
+   */
+  getStats(): RateLimiterStats {
+    this.refill();
+
+    return {
+      limit: this.limit,
+      windowMs: this.windowMs,
+      available: Number.isFinite(this.tokens) ? Math.floor(this.tokens) : undefined,
+      queued: this.queue.length,
+      throttled: this.throttled,
+      rejected: this.rejected,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : undefined,
+      upstreamLimit: this.upstreamLimit,
+      upstreamRemaining: this.upstreamRemaining,
+      upstreamReset: this.upstreamReset ? new Date(this.upstreamReset) : undefined,
+    };
+  }
+
+  /**
+   * Reject all queued calls (used when the data source is removed or reconfigured)
+   */
+  dispose(): void {
+    clearTimeout(this.drainTimer);
+    for (const waiter of this.queue) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Rate limiter was reset'));
+    }
+    this.queue = [];
+  }
+
+  private isLimited(): boolean {
+    return !!this.limit && this.limit > 0 && !!this.windowMs && this.windowMs > 0;
+  }
+
+  private canProceed(): boolean {
+    return Date.now() >= this.pausedUntil && this.tokens >= 1;
+  }
+
+  private pause(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+    this.scheduleDrain();
+  }
+
+  /**
+   * Add tokens for the time elapsed since the last refill
+   */
+  private refill(): void {
+    if (!this.isLimited()) return;
+
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.limit!, this.tokens + (elapsed * this.limit!) / this.windowMs!);
+    this.lastRefill = now;
+  }
+
+  private msUntilNextToken(): number {
+    const pause = Math.max(0, this.pausedUntil - Date.now());
+    if (!this.isLimited() || this.tokens >= 1) return pause;
+    return Math.max(pause, Math.ceil(((1 - this.tokens) * this.windowMs!) / this.limit!));
+  }
+
+  /**
+   * Release queued calls as tokens become available
+   */
+  private drain(): void {
+    this.drainTimer = undefined;
+    this.refill();
+
+    while (this.queue.length > 0 && this.canProceed()) {
+      const waiter = this.queue.shift()!;
+      clearTimeout(waiter.timer);
+      this.tokens -= 1;
+      waiter.resolve();
+    }
+
+    this.scheduleDrain();
+  }
+
+  private scheduleDrain(): void {
+    if (this.queue.length === 0 || this.drainTimer) return;
+    this.drainTimer = setTimeout(() => this.drain(), Math.max(this.msUntilNextToken(), 1));
+  }
+}
+
+/**
+ * Parse Retry-After as seconds or an HTTP date; returns an epoch ms timestamp
+ */
+function parseRetryAfter(value: string | undefined, now: number): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return now + seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Parse X-RateLimit-Reset as epoch seconds or seconds from now; returns epoch ms
+ */
+function parseResetHeader(value: string | undefined, now: number): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds)) return undefined;
+
+  return seconds > EPOCH_THRESHOLD_SECONDS ? seconds * 1000 : now + seconds * 1000;
+}
+
+export default RateLimiter;
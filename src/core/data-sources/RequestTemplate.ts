@@ -0,0 +1,196 @@
+// Request Templates
+// Resolves {{variable}} placeholders in endpoint paths, headers, query params and bodies
+
+import { DataQueryRequest } from '@/types/data-source';
+import { DataFilter } from '@/types/widget';
+
+// Only environment variables with this prefix can be read from templates,
+// so an endpoint can't leak server secrets such as NEXTAUTH_SECRET
+export const TEMPLATE_ENV_PREFIX = 'DATA_SOURCE_';
+
+const MASKED_SECRET = '********';
+
+// Shortest template secret hidden in recorded traffic
+const MIN_SECRET_LENGTH = 4;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * Values available to templates: `{{page}}`, `{{filter.status}}`, `{{user.id}}`,
+ * any request variable, and `{{env.DATA_SOURCE_*}}` secrets
+ */
+export interface TemplateContext {
+  page?: number;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  filter: Record<string, unknown>;
+  user?: {
+    id: string;
+    email?: string;
+    name?: string;
+  };
+  [key: string]: unknown;
+}
+
+export interface ResolveOptions {
+  encode?: boolean;           // URI-encode interpolated values (for paths)
+  maskSecrets?: boolean;      // Show env secrets as ******** (for previews)
+}
+
+/**
+ * Build a template context from a data query and the requesting user
+ */
+export function buildTemplateContext(
+  request: DataQueryRequest,
+  user?: TemplateContext['user']
+): TemplateContext {
+  const page =
+    request.page ??
+    (request.limit && request.offset !== undefined
+      ? Math.floor(request.offset / request.limit) + 1
+      : undefined);
+
+  return {
+    ...request.variables,
+    page,
+    limit: request.limit,
+    offset: request.offset,
+    cursor: request.cursor,
+    filter: filtersToRecord(request.filters),
+    user,
+  };
+}
+
+/**
+ * Resolve placeholders in a string, object or array.
+ * A string that is a single placeholder keeps the value's type (so `"{{page}}"` in a
+ * JSON body becomes a number); unknown variables resolve to undefined or an empty string.
+ */
+export function resolveTemplate<T>(
+  value: T,
+  context: TemplateContext,
+  options: ResolveOptions = {}
+): T {
+  if (typeof value === 'string') {
+    return resolveString(value, context, options) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplate(item, context, options)) as T;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = resolveTemplate(item, context, options);
+    }
+    return result as T;
+  }
+
+  return value;
+}
+
+/**
+ * Resolve a string-valued map, dropping entries whose placeholder has no value
+ */
+export function resolveTemplateRecord<V extends string | number | boolean>(
+  record: Record<string, V> | undefined,
+  context: TemplateContext,
+  options?: ResolveOptions
+): Record<string, V> | undefined {
+  if (!record) return undefined;
+
+  const result: Record<string, V> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const resolved = resolveTemplate<unknown>(value, context, options);
+    if (resolved !== undefined && resolved !== null && resolved !== '') {
+      result[key] = (typeof resolved === 'object' ? JSON.stringify(resolved) : resolved) as V;
+    }
+  }
+  return result;
+}
+
+/**
+ * Values of the environment variables templates can read, so recorded requests can hide them.
+ * Values shorter than MIN_SECRET_LENGTH are skipped, as hiding them would garble unrelated text.
+ */
+export function templateSecretValues(): string[] {
+  return Object.entries(process.env)
+    .filter(([key, value]) => key.startsWith(TEMPLATE_ENV_PREFIX) && value && value.length >= MIN_SECRET_LENGTH)
+    .map(([, value]) => value as string);
+}
+
+/**
+ * List the variable names used in a template
+ */
+export function listTemplateVariables(value: unknown): string[] {
+  const names = new Set<string>();
+
+  const visit = (item: unknown) => {
+    if (typeof item === 'string') {
+      for (const match of item.matchAll(PLACEHOLDER)) {
+        names.add(match[1]);
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (item && typeof item === 'object') {
+      Object.entries(item).forEach(([key, child]) => {
+        visit(key);
+        visit(child);
+      });
+    }
+  };
+
+  visit(value);
+  return Array.from(names);
+}
+
+function resolveString(template: string, context: TemplateContext, options: ResolveOptions): unknown {
+  const whole = template.match(WHOLE_PLACEHOLDER);
+  if (whole) {
+    const value = lookup(whole[1], context, options);
+    return options.encode && value !== undefined ? encodeURIComponent(String(value)) : value;
+  }
+
+  return template.replace(PLACEHOLDER, (_, name: string) => {
+    const value = lookup(name, context, options);
+    if (value === undefined || value === null) return '';
+
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return options.encode ? encodeURIComponent(text) : text;
+  });
+}
+
+function lookup(name: string, context: TemplateContext, options: ResolveOptions): unknown {
+  if (name.startsWith('env.')) {
+    const key = name.slice(4);
+    if (!key.startsWith(TEMPLATE_ENV_PREFIX)) return undefined;
+
+    const value = process.env[key];
+    return value !== undefined && options.maskSecrets ? MASKED_SECRET : value;
+  }
+
+  let current: unknown = context;
+  for (const part of name.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Map equality filters to `{ field: value }` for `{{filter.field}}`
+ */
+function filtersToRecord(filters: DataFilter[] = []): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const filter of filters) {
+    if (filter.operator === 'eq' || filter.operator === 'in' || !(filter.field in record)) {
+      record[filter.field] = filter.value;
+    }
+  }
+  return record;
+}
@@ -0,0 +1,299 @@
+// Response Cache
+// Server-side cache for data source reads with stale-while-revalidate and tag invalidation
+
+import { CrudEndpointConfig } from '@/types/schema';
+import { FetchOptions, FetchResponse } from './connectors/BaseConnector';
+
+export const DEFAULT_CACHE_TTL = 60;          // seconds
+const MAX_ENTRIES = 500;
+
+// Expired entries with an ETag or Last-Modified are kept this many TTLs for conditional revalidation
+const REVALIDATION_RETENTION_FACTOR = 10;
+
+// Trailing path segments that name a record rather than a collection: numeric IDs, UUIDs,
+// ObjectIds, and placeholders such as :id, {id} or {{id}} in configured paths
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24}|:\w+|\{+[\w.]+\}+)$/i;
+
+/**
+ * Cache settings for a read (from the endpoint's cacheEnabled / cacheTTL)
+ */
+export interface ResponseCacheOptions {
+  ttl: number;                    // seconds the response is fresh
+  staleWhileRevalidate?: number;  // seconds a stale response is served while refreshing (default: ttl)
+  scope?: string;                 // Separates entries per user when the request depends on who asks
+  tags?: string[];                // Extra invalidation tags (e.g. schema:<id>)
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'revalidated' | 'miss';
+
+export interface ResponseCacheEntry {
+  response: FetchResponse;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  expiresAt: number;
+  tags: string[];
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  staleHits: number;
+  revalidations: number;
+  misses: number;
+}
+
+export class ResponseCache {
+  // Map order doubles as LRU order: reads move entries to the end
+  private entries = new Map<string, ResponseCacheEntry>();
+  private stats = { hits: 0, staleHits: 0, revalidations: 0, misses: 0 };
+
+  /**
+   * Cache key for a request: data source, endpoint, everything that shapes the
+   * response, and the scope
+   */
+  static key(dataSourceId: string, endpoint: string, options: FetchOptions): string {
+    return [
+      dataSourceId,
+      options.method || 'GET',
+      endpoint,
+      stableStringify({
+        params: options.params,
+        body: options.body,
+        query: options.query,
+        variables: options.variables,
+        operationName: options.operationName,
+        filters: options.filters,
+        sort: options.sort,
+        limit: options.limit,
+        offset: options.offset,
+        timeRange: options.timeRange,
+      }),
+      options.cache?.scope || 'shared',
+    ].join('|');
+  }
+
+  /**
+   * Tags every entry gets: the data source and the resource collection the path belongs to
+   */
+  static defaultTags(dataSourceId: string, endpoint: string): string[] {
+    return [`datasource:${dataSourceId}`, resourceTag(dataSourceId, endpoint)];
+  }
+
+  get(key: string): ResponseCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Store a response, unless the upstream forbids it with Cache-Control: no-store
+   */
+  set(key: string, response: FetchResponse, options: ResponseCacheOptions, tags: string[]): void {
+    if (/no-store/i.test(response.headers['cache-control'] || '')) {
+      this.entries.delete(key);
+      return;
+    }
+
+    const now = Date.now();
+    const ttl = options.ttl * 1000;
+    const staleUntil = now + ttl + (options.staleWhileRevalidate ?? options.ttl) * 1000;
+    const etag = response.headers['etag'];
+    const lastModified = response.headers['last-modified'];
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      response,
+      etag,
+      lastModified,
+      storedAt: now,
+      freshUntil: now + ttl,
+      staleUntil,
+      expiresAt: etag || lastModified
+        ? Math.max(staleUntil, now + ttl * REVALIDATION_RETENTION_FACTOR)
+        : staleUntil,
+      tags: [...tags, ...(options.tags || [])],
+    });
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Mark an entry fresh again after a 304 Not Modified
+   */
+  refresh(key: string, options: ResponseCacheOptions): ResponseCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    const now = Date.now();
+    const ttl = options.ttl * 1000;
+    entry.storedAt = now;
+    entry.freshUntil = now + ttl;
+    entry.staleUntil = now + ttl + (options.staleWhileRevalidate ?? options.ttl) * 1000;
+    entry.expiresAt = Math.max(entry.staleUntil, now + ttl * REVALIDATION_RETENTION_FACTOR);
+    return entry;
+  }
+
+  /**
+   * Headers for a conditional request that revalidates `entry`
+   */
+  conditionalHeaders(entry: ResponseCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * Drop every entry carrying any of the tags; returns the number removed
+   */
+  invalidateTags(tags: string[]): number {
+    let count = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  record(status: CacheStatus): void {
+    switch (status) {
+      case 'hit':
+        this.stats.hits++;
+        break;
+      case 'stale':
+        this.stats.staleHits++;
+        break;
+      case 'revalidated':
+        this.stats.revalidations++;
+        break;
+      case 'miss':
+        this.stats.misses++;
+        break;
+    }
+  }
+
+  getStats(): ResponseCacheStats {
+    return { entries: this.entries.size, ...this.stats };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Tag for the collection a path belongs to (trailing IDs removed), so a write to
+ * `/users/42` invalidates cached reads of `/users` and `/users/42`
+ */
+export function resourceTag(dataSourceId: string, endpoint: string): string {
+  const segments = endpoint.split('?')[0].split('/').filter(Boolean);
+  while (segments.length > 1 && ID_SEGMENT.test(segments[segments.length - 1])) {
+    segments.pop();
+  }
+  return `resource:${dataSourceId}:/${segments.join('/')}`;
+}
+
+/**
+ * Tags for the schemas a request touches: schemas built from the endpoint, and schemas
+ * whose CRUD endpoints address the same resource collection as `path`
+ */
+export function schemaCacheTags(
+  dataSourceId: string,
+  schemas: { id: string; endpointId: string | null; crudEndpoints: string | null }[],
+  path: string,
+  endpointId?: string
+): string[] {
+  const resource = resourceTag(dataSourceId, path);
+
+  return schemas
+    .filter((schema) => {
+      if (endpointId && schema.endpointId === endpointId) return true;
+      if (!schema.crudEndpoints) return false;
+
+      const crudPaths = Object.values(JSON.parse(schema.crudEndpoints) as CrudEndpointConfig);
+      return crudPaths.some((crudPath) => crudPath && resourceTag(dataSourceId, crudPath) === resource);
+    })
+    .map((schema) => `schema:${schema.id}`);
+}
+
+/**
+ * Whether a request only reads data (GET requests, database reads and GraphQL queries)
+ */
+export function isReadRequest(options: FetchOptions): boolean {
+  if (options.method && options.method !== 'GET') return false;
+  return !isMutation(options.query);
+}
+
+/**
+ * Whether a GraphQL document has a mutation operation. Every top-level definition counts,
+ * since `operationName` may select any of them; comments and strings are skipped.
+ */
+export function isMutation(query: string | undefined): boolean {
+  if (!query) return false;
+
+  let depth = 0;
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+
+    if (char === '#') {
+      while (index < query.length && query[index] !== '\n' && query[index] !== '\r') index++;
+    } else if (query.startsWith('"""', index)) {
+      // Block strings end at the first """ not escaped as \"""
+      index += 3;
+      while (index < query.length && !query.startsWith('"""', index)) {
+        index += query.startsWith('\\"""', index) ? 4 : 1;
+      }
+      index += 3;
+    } else if (char === '"') {
+      index++;
+      while (index < query.length && query[index] !== '"' && query[index] !== '\n' && query[index] !== '\r') {
+        index += query[index] === '\\' ? 2 : 1;
+      }
+      index++;
+    } else if (char === '{' || char === '(') {
+      depth++;
+      index++;
+    } else if (char === '}' || char === ')') {
+      depth--;
+      index++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = query.slice(index).match(/^[A-Za-z0-9_]+/)![0];
+      if (depth <= 0 && word === 'mutation') return true;
+      index += word.length;
+    } else {
+      index++;
+    }
+  }
+  return false;
+}
+
+/**
+ * JSON with sorted object keys, so equal requests produce equal keys
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
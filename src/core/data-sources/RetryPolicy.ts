@@ -0,0 +1,70 @@
+// Retry Policy
+// Retries idempotent data source requests with exponential backoff and full jitter
+
+import { RetryPolicyConfig } from '@/types/data-source';
+import { FetchOptions } from './connectors/BaseConnector';
+import { DataSourceError } from './errors';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 500;
+const DEFAULT_MAX_DELAY = 10000;
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+// Methods that can be repeated without side effects
+const IDEMPOTENT_METHODS: FetchOptions['method'][] = ['GET', 'PUT', 'DELETE'];
+
+export class RetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  readonly timeout: number;
+
+  constructor(config: RetryPolicyConfig = {}) {
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.baseDelay = config.baseDelay ?? DEFAULT_BASE_DELAY;
+    this.maxDelay = config.maxDelay ?? DEFAULT_MAX_DELAY;
+    this.timeout = config.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+  }
+
+  /**
+   * Run `attempt` until it succeeds, the error is not retryable, or attempts run out.
+   * Non-idempotent methods get a single attempt.
+   */
+  async execute<T>(
+    method: FetchOptions['method'],
+    attempt: (attemptNumber: number) => Promise<T>
+  ): Promise<T> {
+    const maxAttempts = IDEMPOTENT_METHODS.includes(method ?? 'GET') ? this.maxAttempts : 1;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt(attemptNumber);
+      } catch (error) {
+        if (
+          attemptNumber >= maxAttempts ||
+          !(error instanceof DataSourceError) ||
+          !error.retryable
+        ) {
+          throw error;
+        }
+
+        await sleep(this.getDelay(attemptNumber));
+      }
+    }
+  }
+
+  /**
+   * Backoff before the next attempt: a random delay up to baseDelay * 2^(attempt - 1),
+   * capped at maxDelay ("full jitter", so clients that failed together spread out)
+   */
+  getDelay(attemptNumber: number): number {
+    const ceiling = Math.min(this.maxDelay, this.baseDelay * 2 ** (attemptNumber - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export default RetryPolicy;
@@ -0,0 +1,164 @@
+// Traffic Log
+// Bounded in-memory record of the requests a data source sent upstream, for the traffic inspector
+
+import { randomUUID } from 'crypto';
+import { TrafficEntry, TrafficFilter, TrafficRecordingConfig } from '@/types/data-source';
+import { FetchOptions, RecordedExchange } from './connectors/BaseConnector';
+import { DataSourceError } from './errors';
+import { redactHeaders, redactUrl } from './NetworkClient';
+import { templateSecretValues } from './RequestTemplate';
+
+export const DEFAULT_TRAFFIC_ENTRIES = 100;
+export const MAX_TRAFFIC_ENTRIES = 1000;
+export const DEFAULT_TRAFFIC_BODY_SIZE = 4096;
+
+/**
+ * What a recorded request is sent again with: its endpoint, environment and fetch options.
+ * Kept server-side only, since saved endpoint headers may carry secrets.
+ */
+export interface TrafficReplay {
+  endpoint: string;
+  environment?: string;
+  options: FetchOptions;
+}
+
+interface TrafficRecord {
+  entry: TrafficEntry;
+  replay: TrafficReplay;
+}
+
+export class TrafficLog {
+  // Ring buffer: `next` is the slot the next record overwrites
+  private slots: (TrafficRecord | undefined)[] = [];
+  private next = 0;
+  private maxBodySize = DEFAULT_TRAFFIC_BODY_SIZE;
+
+  constructor(config: TrafficRecordingConfig = {}) {
+    this.configure(config);
+  }
+
+  /**
+   * Apply recording settings. A smaller capacity keeps the newest records.
+   */
+  configure(config: TrafficRecordingConfig): void {
+    const capacity = Math.min(Math.max(config.maxEntries || DEFAULT_TRAFFIC_ENTRIES, 1), MAX_TRAFFIC_ENTRIES);
+    this.maxBodySize = Math.max(config.maxBodySize || DEFAULT_TRAFFIC_BODY_SIZE, 0);
+
+    if (capacity !== this.slots.length) {
+      const kept = this.records().slice(0, capacity).reverse();
+      this.slots = Array.from({ length: capacity }, (_, index) => kept[index]);
+      this.next = kept.length % capacity;
+    }
+  }
+
+  /**
+   * Record a request with redacted headers and truncated bodies, replacing the oldest when full.
+   * Secrets resolved from `{{env.DATA_SOURCE_*}}` templates are hidden in the request URL,
+   * headers and body.
+   */
+  record(exchange: RecordedExchange, environment?: string): TrafficEntry {
+    const secrets = templateSecretValues();
+    const hide = (text: string) => redactSecrets(text, secrets);
+
+    const requestBody = this.truncate(exchange.requestBody && hide(exchange.requestBody));
+    const responseBody = this.truncate(exchange.responseBody);
+
+    const entry: TrafficEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      environment,
+      method: exchange.method,
+      url: hide(redactUrl(exchange.url)),
+      requestHeaders: Object.fromEntries(
+        Object.entries(redactHeaders(exchange.headers, exchange.credentialHeaders)).map(([name, value]) => [
+          name,
+          hide(value),
+        ])
+      ),
+      requestBody: requestBody.text,
+      status: exchange.status,
+      statusText: exchange.statusText,
+      responseHeaders: exchange.responseHeaders && redactHeaders(exchange.responseHeaders, []),
+      responseBody: responseBody.text,
+      truncated: requestBody.truncated || responseBody.truncated,
+      latency: exchange.latency,
+      error: exchange.error === undefined ? undefined : DataSourceError.fromFetchError(exchange.error).message,
+      trigger: exchange.options.trigger || {},
+    };
+
+    // Replays go upstream again rather than to the response cache
+    const options = { ...exchange.options, cache: undefined, trigger: undefined, timeout: undefined };
+
+    this.slots[this.next] = { entry, replay: { endpoint: exchange.endpoint, environment, options } };
+    this.next = (this.next + 1) % this.slots.length;
+    return entry;
+  }
+
+  /**
+   * Recorded requests, newest first
+   */
+  list(filter: TrafficFilter = {}): TrafficEntry[] {
+    const search = filter.search?.toLowerCase();
+
+    return this.records()
+      .map((record) => record.entry)
+      .filter(
+        (entry) =>
+          (!filter.method || entry.method === filter.method.toUpperCase()) &&
+          (!filter.outcome || outcomeOf(entry) === filter.outcome) &&
+          (!filter.widgetId || entry.trigger.widgetId === filter.widgetId) &&
+          (!search || entry.url.toLowerCase().includes(search))
+      );
+  }
+
+  /**
+   * A recorded request and what replays it
+   */
+  get(id: string): TrafficRecord | undefined {
+    return this.records().find((record) => record.entry.id === id);
+  }
+
+  clear(): void {
+    this.slots = new Array(this.slots.length).fill(undefined);
+    this.next = 0;
+  }
+
+  private records(): TrafficRecord[] {
+    const records: TrafficRecord[] = [];
+    for (let offset = 1; offset <= this.slots.length; offset++) {
+      const record = this.slots[(this.next - offset + this.slots.length) % this.slots.length];
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  private truncate(text: string | undefined): { text?: string; truncated: boolean } {
+    if (text === undefined || text.length <= this.maxBodySize) {
+      return { text, truncated: false };
+    }
+    return { text: text.slice(0, this.maxBodySize), truncated: true };
+  }
+}
+
+/**
+ * Replace each secret in text, as written raw, URL-encoded or JSON-escaped
+ */
+function redactSecrets(text: string, secrets: string[]): string {
+  let result = text;
+  for (const secret of secrets) {
+    for (const form of new Set([secret, encodeURIComponent(secret), JSON.stringify(secret).slice(1, -1)])) {
+      result = result.split(form).join('[redacted]');
+    }
+  }
+  return result;
+}
+
+/**
+ * Outcome of a recorded request, as filtered on in the inspector
+ */
+function outcomeOf(entry: TrafficEntry): TrafficFilter['outcome'] {
+  if (entry.status === undefined) return 'failed';
+  if (entry.status >= 500) return 'server_error';
+  if (entry.status >= 400) return 'client_error';
+  return 'success';
+}
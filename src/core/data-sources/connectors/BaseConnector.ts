@@ -1,7 +1,32 @@
 // Base Connector Abstract Class
 // Defines the interface for all data source connectors
 
-import { DataSource, AuthConfig, DataSourceConnection } from '@/types/data-source';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+  DiscoveredRelationship,
+  NetworkSummary,
+  PaginatedResult,
+  TimeRange,
+  TrafficTrigger,
+} from '@/types/data-source';
+import { CrudEndpointConfig, FieldHint } from '@/types/schema';
+import { DataFilter, DataSort } from '@/types/widget';
+import { OAuth2TokenProvider } from '../OAuth2TokenProvider';
+import { NetworkClient } from '../NetworkClient';
+import { environmentKey } from '../Environments';
+import { CacheStatus, ResponseCacheOptions } from '../ResponseCache';
+import {
+  Page,
+  PageFetcher,
+  PageParamStyle,
+  PaginateOptions,
+  applyPage,
+  collectPages,
+  paginate,
+} from '../Paginator';
 
 export interface FetchOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
@@ -9,6 +34,30 @@ export interface FetchOptions {
   params?: Record<string, string | number | boolean>;
   body?: unknown;
   timeout?: number;
+
+  // GraphQL
+  query?: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+
+  // Database reads
+  filters?: DataFilter[];
+  sort?: DataSort[];
+  limit?: number;
+  offset?: number;
+
+  // Time-series reads
+  timeRange?: TimeRange;
+
+  // Rate limiting
+  queueTimeout?: number;      // Max wait for a rate limit token (ms)
+
+  // Response caching (reads only)
+  cache?: ResponseCacheOptions;
+  invalidates?: string[];     // Cache tags to drop after a successful write
+
+  // Traffic recording
+  trigger?: TrafficTrigger;   // Widget or user the request is made for
 }
 
 export interface FetchResponse<T = unknown> {
@@ -16,15 +65,84 @@ export interface FetchResponse<T = unknown> {
   status: number;
   headers: Record<string, string>;
   latency: number;
+  total?: number;             // Total matching rows, when the source reports it
+  cache?: CacheStatus;        // Set when the response cache was consulted
+  stream?: string;            // Set by streaming connectors: the stream the records come from
+}
+
+/**
+ * Request a connection test sends to an HTTP data source
+ */
+export interface TestRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Connection test request as sent, with the response or the error that prevented one
+ */
+export interface TestExchange {
+  method: string;
+  url: string;
+  headers: Record<string, string>;      // Including environment and authentication headers
+  credentialHeaders: string[];          // Names of the headers carrying credentials
+  response?: Response;
+  error?: unknown;
+  network: NetworkSummary;
+}
+
+/**
+ * Callback for upstream HTTP responses (status and lower-cased headers)
+ */
+export type ResponseListener = (status: number, headers: Record<string, string>) => void;
+
+/**
+ * Callback for connection errors outside a request, e.g. an idle pooled connection dropping
+ */
+export type ConnectionErrorListener = (error: Error) => void;
+
+/**
+ * Callback for a new OAuth2 refresh token issued in place of the configured one
+ */
+export type RefreshTokenListener = (refreshToken: string) => void;
+
+/**
+ * Request a connector sent upstream, with the response or the error that prevented one
+ */
+export interface RecordedExchange {
+  endpoint: string;
+  options: FetchOptions;                // As passed to fetch, so the request can be replayed
+  method: string;
+  url: string;
+  headers: Record<string, string>;      // Including environment and authentication headers
+  credentialHeaders: string[];          // Names of the headers carrying credentials
+  requestBody?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  latency: number;
+  error?: unknown;
 }
 
+/**
+ * Callback for every request a connector sends, used by the traffic inspector
+ */
+export type ExchangeListener = (exchange: RecordedExchange) => void;
+
 export abstract class BaseConnector {
   protected dataSource: DataSource;
   protected auth: AuthConfig;
+  protected network: NetworkClient;
+  private responseListener?: ResponseListener;
+  protected exchangeListener?: ExchangeListener;
+  private connectionErrorListener?: ConnectionErrorListener;
+  private refreshTokenListener?: RefreshTokenListener;
 
   constructor(dataSource: DataSource, auth: AuthConfig) {
     this.dataSource = dataSource;
     this.auth = auth;
+    this.network = new NetworkClient(dataSource.network);
   }
 
   /**
@@ -41,9 +159,188 @@ export abstract class BaseConnector {
   ): Promise<FetchResponse<T>>;
 
   /**
-   * Get authentication headers based on auth config
+   * Fetch sample records for schema detection.
+   * Defaults to the first `size` records; connectors with random sampling override this.
+   */
+  async sample(endpoint: string, size: number): Promise<unknown> {
+    const response = await this.fetch(endpoint, { limit: size });
+    return response.data;
+  }
+
+  /**
+   * Iterate over every page of an endpoint, following `options.pagination`
+   * or the strategy detected from the first page (databases always page by offset).
+   * `fetchPage` replaces the direct fetch, e.g. to go through rate limiting and retries.
+   */
+  paginate<T = unknown>(
+    endpoint: string,
+    options: PaginateOptions = {},
+    fetchPage: PageFetcher = (page, pagination) =>
+      this.fetch(endpoint, applyPage(options, page, pagination, this.pageParamStyle))
+  ): AsyncGenerator<Page<T>> {
+    const pagination =
+      options.pagination ?? (this.pageParamStyle === 'native' ? { type: 'offset' as const } : undefined);
+
+    return paginate<T>(fetchPage, { ...options, pagination });
+  }
+
+  /**
+   * Fetch every page of an endpoint into one list (partial results when a page fails)
+   */
+  async fetchAll<T = unknown>(
+    endpoint: string,
+    options: PaginateOptions = {},
+    fetchPage?: PageFetcher
+  ): Promise<PaginatedResult<T>> {
+    return collectPages(this.paginate<T>(endpoint, options, fetchPage), options);
+  }
+
+  /**
+   * Where page parameters are sent: query params for HTTP APIs, variables for GraphQL,
+   * and the connector's own limit/offset for databases
+   */
+  get pageParamStyle(): PageParamStyle {
+    switch (this.dataSource.type) {
+      case 'rest':
+        return 'query';
+      case 'graphql':
+        return 'variables';
+      default:
+        return 'native';
+    }
+  }
+
+  /**
+   * List the endpoints exposed by the data source.
+   * Connectors that can introspect their source override this.
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    return [];
+  }
+
+  /**
+   * Get field metadata the data source reports for an endpoint.
+   * Used as hints for schema detection; connectors that can't report any leave it out.
+   */
+  getFieldHints?(endpoint: string): Promise<FieldHint[]>;
+
+  /**
+   * List foreign key relationships between endpoints.
+   * Database connectors read these from the catalog; empty when not supported.
+   */
+  async listRelationships(): Promise<DiscoveredRelationship[]> {
+    return [];
+  }
+
+  /**
+   * CRUD endpoints for the records of an endpoint, when the source can write them.
+   * Applied to schemas detected from the endpoint; connectors that can't write leave it out.
+   */
+  getCrudEndpoints?(endpoint: string): Promise<CrudEndpointConfig | undefined>;
+
+  /**
+   * Request connection tests send, for connectors that speak HTTP. Connection diagnostics
+   * check DNS, TCP and TLS for its URL before sending it; other connectors return undefined.
+   */
+  getTestRequest(): TestRequest | undefined {
+    return undefined;
+  }
+
+  /**
+   * Headers sent with every request: the environment's headers and the authentication
+   * headers. For OAuth2 this obtains an access token.
    */
-  protected getAuthHeaders(): Record<string, string> {
+  async getRequestHeaders(): Promise<Record<string, string>> {
+    return { ...this.dataSource.headers, ...(await this.getAuthHeaders()) };
+  }
+
+  /**
+   * Send the connection test request. Failures are returned rather than thrown, so the
+   * request that was attempted can still be reported.
+   */
+  async sendTestRequest(timeout = 10000): Promise<TestExchange | undefined> {
+    const request = this.getTestRequest();
+    if (!request) {
+      return undefined;
+    }
+
+    const { url, init } = request;
+    const exchange: TestExchange = {
+      method: init.method || 'GET',
+      url,
+      headers: {},
+      credentialHeaders: [],
+      network: this.network.describe(url),
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const requestHeaders = await this.getRequestHeaders();
+      exchange.headers = { ...requestHeaders, ...(init.headers as Record<string, string>) };
+      exchange.credentialHeaders = Object.keys(requestHeaders);
+
+      exchange.response = await this.authorizedFetch(url, { ...init, signal: controller.signal });
+      exchange.network = this.network.describe(url, exchange.response);
+    } catch (error) {
+      exchange.error = error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    return exchange;
+  }
+
+  /**
+   * Register a callback for every upstream HTTP response (used to read rate limit headers)
+   */
+  onResponse(listener: ResponseListener): void {
+    this.responseListener = listener;
+  }
+
+  /**
+   * Register a callback for every request sent upstream, for connectors that record traffic
+   */
+  onExchange(listener: ExchangeListener): void {
+    this.exchangeListener = listener;
+  }
+
+  /**
+   * Register a callback for connection errors outside a request (used to mark the source unhealthy)
+   */
+  onConnectionError(listener: ConnectionErrorListener): void {
+    this.connectionErrorListener = listener;
+  }
+
+  /**
+   * Register a callback for rotated OAuth2 refresh tokens (used to save them to the data source)
+   */
+  onRefreshToken(listener: RefreshTokenListener): void {
+    this.refreshTokenListener = listener;
+  }
+
+  /**
+   * Log an error of an idle connection and report it to the connection error listener.
+   * Pools drop the failed connection and open a new one on the next query.
+   */
+  protected reportConnectionError(error: Error): void {
+    console.error(`Connection error in data source ${this.dataSource.id}:`, error);
+    this.connectionErrorListener?.(error);
+  }
+
+  /**
+   * Release pooled connections or other resources held by the connector
+   */
+  async close(): Promise<void> {
+    await this.network.close();
+  }
+
+  /**
+   * Get authentication headers based on auth config.
+   * `forceRefresh` requests a new OAuth2 access token instead of the cached one.
+   */
+  protected async getAuthHeaders(forceRefresh = false): Promise<Record<string, string>> {
     const headers: Record<string, string> = {};
 
     switch (this.auth.type) {
@@ -70,6 +367,18 @@ export abstract class BaseConnector {
         }
         break;
 
+      case 'oauth2': {
+        const token = await OAuth2TokenProvider.getAccessToken(
+          environmentKey(this.dataSource),
+          this.auth,
+          forceRefresh,
+          (url, init) => this.network.fetch(url, init),
+          (refreshToken) => this.refreshTokenListener?.(refreshToken)
+        );
+        headers['Authorization'] = `Bearer ${token}`;
+        break;
+      }
+
       case 'custom_header':
         if (this.auth.customHeaders) {
           Object.assign(headers, this.auth.customHeaders);
@@ -85,6 +394,47 @@ export abstract class BaseConnector {
     return headers;
   }
 
+  /**
+   * Send an HTTP request with the environment's headers, authentication headers and the
+   * source's network settings. On a 401 with OAuth2 auth, the token is refreshed and the
+   * request retried once. The headers sent are copied to `sent` when given.
+   */
+  protected async authorizedFetch(
+    url: string,
+    init: RequestInit = {},
+    sent?: Pick<RecordedExchange, 'headers' | 'credentialHeaders'>
+  ): Promise<Response> {
+    const send = async (forceRefresh: boolean) => {
+      const authHeaders = { ...this.dataSource.headers, ...(await this.getAuthHeaders(forceRefresh)) };
+      const headers = { ...authHeaders, ...(init.headers as Record<string, string>) };
+
+      if (sent) {
+        sent.headers = headers;
+        sent.credentialHeaders = Object.keys(authHeaders);
+      }
+
+      const response = await this.network.fetch(url, { ...init, headers }, Object.keys(authHeaders));
+
+      if (this.responseListener) {
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          headers[key] = value;
+        });
+        this.responseListener(response.status, headers);
+      }
+
+      return response;
+    };
+
+    const response = await send(false);
+
+    if (response.status === 401 && this.auth.type === 'oauth2') {
+      return send(true);
+    }
+
+    return response;
+  }
+
   /**
    * Build URL with query parameters
    */
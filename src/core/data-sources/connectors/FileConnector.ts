@@ -0,0 +1,137 @@
+// File Connector
+// Queries uploaded CSV, JSON, NDJSON and XLSX files; each file or sheet is an endpoint
+
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DataSourceFile,
+  DiscoveredEndpoint,
+} from '@/types/data-source';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import { ParsedFile, parseFile } from '../files/FileParser';
+import { getCurrentFile, getCurrentFiles, readFileContent } from '../files/FileStore';
+import { queryRows } from '../files/RowQuery';
+
+const FORMAT_LABELS: Record<DataSourceFile['format'], string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  xlsx: 'XLSX',
+};
+
+export class FileConnector extends BaseConnector {
+  // Parsed content of the last version read, by file name
+  private parsed = new Map<string, { fileId: string; content: Promise<ParsedFile> }>();
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+  }
+
+  /**
+   * Test the connection by checking that the current files can be read
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      for (const file of await getCurrentFiles(this.dataSource.id)) {
+        await readFileContent(file);
+      }
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read records from the current version of a file.
+   * `endpoint` is the file name, or `file/sheet` for a workbook sheet.
+   * Files are read-only; they change by uploading a new version.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const startTime = Date.now();
+
+    if (options.method && options.method !== 'GET') {
+      throw new Error('File data sources are read-only; upload a new version to change the data');
+    }
+
+    const path = endpoint.replace(/^\/+|\/+$/g, '');
+    const file = await getCurrentFile(this.dataSource.id, path.split('/')[0]);
+    const table = file?.tables.find((t) => t.path === path);
+
+    if (!file || !table) {
+      throw new Error(`File not found: ${path}`);
+    }
+
+    const parsed = await this.getParsedFile(file);
+    const rows = parsed.tables[file.tables.indexOf(table)]?.rows || [];
+
+    const { data, total } = queryRows(rows, {
+      columns: table.columns,
+      filters: options.filters,
+      sort: options.sort,
+      limit: options.limit,
+      offset: options.offset,
+    });
+
+    return {
+      data: data as T,
+      status: 200,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * List each current file (or workbook sheet) as an endpoint
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const files = await getCurrentFiles(this.dataSource.id);
+
+    return files.flatMap((file) =>
+      file.tables.map((table) => ({
+        name: file.tables.length > 1 ? `${file.name} / ${table.name}` : file.name,
+        path: table.path,
+        method: 'GET' as const,
+        description: `${FORMAT_LABELS[file.format]} file, version ${file.version}, ${table.rowCount} rows`,
+      }))
+    );
+  }
+
+  /**
+   * Drop parsed files from memory
+   */
+  async close(): Promise<void> {
+    this.parsed.clear();
+  }
+
+  /**
+   * Parse a file version on first use; a newer version replaces the cached one
+   */
+  private getParsedFile(file: DataSourceFile): Promise<ParsedFile> {
+    const cached = this.parsed.get(file.name);
+    if (cached?.fileId === file.id) return cached.content;
+
+    const content = readFileContent(file).then((buffer) => parseFile(buffer, file.format));
+    content.catch(() => this.parsed.delete(file.name));
+    this.parsed.set(file.name, { fileId: file.id, content });
+    return content;
+  }
+}
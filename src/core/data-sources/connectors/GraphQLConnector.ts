@@ -0,0 +1,527 @@
+// GraphQL Connector
+// Sends queries to GraphQL APIs and uses introspection to discover root fields and types
+
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+} from '@/types/data-source';
+import { FieldHint, FieldType } from '@/types/schema';
+import { BaseConnector, FetchOptions, FetchResponse, TestRequest } from './BaseConnector';
+import { DataSourceError } from '../errors';
+
+/**
+ * Reference to a type in an introspection result
+ */
+interface IntrospectionTypeRef {
+  kind: 'SCALAR' | 'OBJECT' | 'INTERFACE' | 'UNION' | 'ENUM' | 'INPUT_OBJECT' | 'LIST' | 'NON_NULL';
+  name: string | null;
+  ofType: IntrospectionTypeRef | null;
+}
+
+interface IntrospectionInputValue {
+  name: string;
+  type: IntrospectionTypeRef;
+}
+
+interface IntrospectionField {
+  name: string;
+  description: string | null;
+  args: IntrospectionInputValue[];
+  type: IntrospectionTypeRef;
+}
+
+interface IntrospectionType {
+  kind: IntrospectionTypeRef['kind'];
+  name: string;
+  description: string | null;
+  fields: IntrospectionField[] | null;
+  enumValues: { name: string }[] | null;
+}
+
+interface IntrospectionSchema {
+  queryType: { name: string } | null;
+  types: IntrospectionType[];
+}
+
+/**
+ * Error entry returned in a GraphQL response `errors` array
+ */
+export interface GraphQLErrorEntry {
+  message: string;
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Thrown when a GraphQL response contains errors
+ */
+export class GraphQLRequestError extends DataSourceError {
+  constructor(
+    public errors: GraphQLErrorEntry[],
+    public data?: unknown
+  ) {
+    // Servers following the Apollo conventions flag auth failures in `extensions.code`
+    const isAuthError = errors.some((e) =>
+      ['UNAUTHENTICATED', 'FORBIDDEN'].includes(String(e.extensions?.code))
+    );
+
+    super(
+      `GraphQL error: ${errors.map((e) => e.message).join('; ')}`,
+      isAuthError ? 'auth' : 'upstream_4xx'
+    );
+    this.name = 'GraphQLRequestError';
+  }
+}
+
+// Nesting depth for type references covers e.g. [[Type!]!]!
+const TYPE_REF_FRAGMENT = `
+  fragment TypeRef on __Type {
+    kind
+    name
+    ofType {
+      kind
+      name
+      ofType {
+        kind
+        name
+        ofType {
+          kind
+          name
+          ofType {
+            kind
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+const INTROSPECTION_QUERY = `
+  query IntrospectionQuery {
+    __schema {
+      queryType { name }
+      types {
+        kind
+        name
+        description
+        fields(includeDeprecated: false) {
+          name
+          description
+          args { name type { ...TypeRef } }
+          type { ...TypeRef }
+        }
+        enumValues(includeDeprecated: false) { name }
+      }
+    }
+  }
+  ${TYPE_REF_FRAGMENT}
+`;
+
+// Custom scalar names that map onto richer field types
+const SCALAR_TYPE_MAP: Record<string, FieldType> = {
+  Int: 'integer',
+  Float: 'number',
+  String: 'string',
+  Boolean: 'boolean',
+  ID: 'string',
+  Date: 'date',
+  DateTime: 'datetime',
+  Time: 'time',
+  Timestamp: 'datetime',
+  JSON: 'json',
+  JSONObject: 'json',
+  URL: 'url',
+  URI: 'url',
+  UUID: 'uuid',
+  Email: 'email',
+  EmailAddress: 'email',
+};
+
+// Smallest valid query; every schema has __typename on the root type
+const TEST_QUERY = 'query { __typename }';
+
+export class GraphQLConnector extends BaseConnector {
+  private schema: IntrospectionSchema | null = null;
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+  }
+
+  /**
+   * Test the connection by running a minimal query
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      await this.execute(TEST_QUERY, undefined, undefined, 10000);
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+        network: this.network.describe(this.dataSource.baseUrl || ''),
+      };
+    } catch (error) {
+      const failure = DataSourceError.fromFetchError(error);
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: failure.category === 'timeout' ? 'Connection timed out' : failure.message,
+        errorCategory: failure.category,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+        network: this.network.describe(this.dataSource.baseUrl || ''),
+      };
+    }
+  }
+
+  /**
+   * POST the minimal query connection tests run
+   */
+  getTestRequest(): TestRequest {
+    return {
+      url: this.dataSource.baseUrl || '',
+      init: {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query: TEST_QUERY }),
+      },
+    };
+  }
+
+  /**
+   * Run a GraphQL operation.
+   *
+   * When `options.query` is set it is sent as-is and the full `data` object is returned.
+   * Otherwise `endpoint` names a root query field; a query selecting its scalar fields is
+   * built from introspection and the field's value is returned.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const { variables, operationName, headers, timeout = 30000 } = options;
+    const rootField = endpoint.replace(/^\/+/, '');
+
+    let query = options.query;
+    if (!query) {
+      if (!rootField) {
+        throw new Error('A GraphQL query or root field name is required');
+      }
+      query = await this.buildRootFieldQuery(rootField, variables);
+    }
+
+    const response = await this.execute<Record<string, unknown>>(
+      query,
+      variables,
+      operationName,
+      timeout,
+      headers
+    );
+
+    const data = (options.query || !rootField
+      ? response.data
+      : response.data?.[rootField]) as T;
+
+    return {
+      data,
+      status: response.status,
+      headers: response.headers,
+      latency: response.latency,
+    };
+  }
+
+  /**
+   * List queryable root fields as endpoints
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const schema = await this.introspect();
+    const queryType = this.getQueryType(schema);
+
+    return (queryType?.fields || [])
+      .filter((field) => {
+        const named = this.getNamedType(field.type);
+        return named.kind === 'OBJECT' || named.kind === 'INTERFACE' || this.isListType(field.type);
+      })
+      .map((field) => ({
+        name: field.name,
+        path: field.name,
+        method: 'POST' as const,
+        description: field.description || undefined,
+      }));
+  }
+
+  /**
+   * Map the introspected type of a root field onto schema field hints
+   */
+  async getFieldHints(endpoint: string): Promise<FieldHint[]> {
+    const schema = await this.introspect();
+    const rootField = this.findRootField(schema, endpoint.replace(/^\/+/, ''));
+    if (!rootField) {
+      return [];
+    }
+
+    const objectType = this.findType(schema, this.getNamedType(rootField.type).name);
+    if (!objectType?.fields) {
+      return [];
+    }
+
+    return objectType.fields.map((field) => this.toFieldHint(schema, field));
+  }
+
+  /**
+   * Run the introspection query (cached per connector)
+   */
+  async introspect(): Promise<IntrospectionSchema> {
+    if (this.schema) {
+      return this.schema;
+    }
+
+    const response = await this.execute<{ __schema: IntrospectionSchema }>(INTROSPECTION_QUERY);
+    if (!response.data?.__schema) {
+      throw new Error('Introspection returned no schema. Is introspection disabled on this server?');
+    }
+
+    this.schema = response.data.__schema;
+    return this.schema;
+  }
+
+  /**
+   * POST a GraphQL operation and check the `errors` array
+   */
+  private async execute<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+    operationName?: string,
+    timeout = 30000,
+    headers: Record<string, string> = {}
+  ): Promise<FetchResponse<T>> {
+    const startTime = Date.now();
+    const url = this.dataSource.baseUrl || '';
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await this.authorizedFetch(url, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({ query, variables, operationName }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+
+      let body: { data?: T; errors?: GraphQLErrorEntry[] } | undefined;
+      try {
+        body = await response.json();
+      } catch {
+        body = undefined;
+      }
+
+      if (body?.errors?.length) {
+        throw new GraphQLRequestError(body.errors, body.data);
+      }
+
+      if (!response.ok) {
+        throw DataSourceError.fromStatus(response.status, response.statusText);
+      }
+
+      if (!body) {
+        throw new DataSourceError('Response is not valid JSON', 'upstream_5xx', response.status);
+      }
+
+      return {
+        data: body.data as T,
+        status: response.status,
+        headers: responseHeaders,
+        latency: Date.now() - startTime,
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+      throw DataSourceError.fromFetchError(error);
+    }
+  }
+
+  /**
+   * Build a query for a root field selecting its scalar and enum fields
+   */
+  private async buildRootFieldQuery(
+    rootFieldName: string,
+    variables?: Record<string, unknown>
+  ): Promise<string> {
+    const schema = await this.introspect();
+    const rootField = this.findRootField(schema, rootFieldName);
+
+    if (!rootField) {
+      throw new Error(`Root field '${rootFieldName}' not found in query type`);
+    }
+
+    // Only pass arguments the caller supplied a variable for
+    const args = rootField.args.filter((arg) => variables && arg.name in variables);
+    const variableDefs = args
+      .map((arg) => `$${arg.name}: ${this.printTypeRef(arg.type)}`)
+      .join(', ');
+    const argList = args.map((arg) => `${arg.name}: $${arg.name}`).join(', ');
+
+    const selection = this.buildSelection(schema, rootField.type);
+
+    return [
+      `query${variableDefs ? `(${variableDefs})` : ''} {`,
+      `  ${rootField.name}${argList ? `(${argList})` : ''}${selection}`,
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Build a one-level selection set; nested objects only select their id
+   */
+  private buildSelection(schema: IntrospectionSchema, typeRef: IntrospectionTypeRef): string {
+    const type = this.findType(schema, this.getNamedType(typeRef).name);
+    if (!type?.fields) {
+      return '';
+    }
+
+    const fields: string[] = [];
+    for (const field of type.fields) {
+      if (field.args.some((arg) => arg.type.kind === 'NON_NULL')) {
+        continue;
+      }
+
+      const named = this.getNamedType(field.type);
+      if (named.kind === 'SCALAR' || named.kind === 'ENUM') {
+        fields.push(field.name);
+      } else if (named.kind === 'OBJECT') {
+        const nested = this.findType(schema, named.name);
+        if (nested?.fields?.some((f) => f.name === 'id')) {
+          fields.push(`${field.name} { id }`);
+        }
+      }
+    }
+
+    return fields.length > 0 ? ` { ${fields.join(' ')} }` : '';
+  }
+
+  /**
+   * Convert an introspected field into a schema field hint
+   */
+  private toFieldHint(schema: IntrospectionSchema, field: IntrospectionField): FieldHint {
+    const isNonNull = field.type.kind === 'NON_NULL';
+    const named = this.getNamedType(field.type);
+    const hint: FieldHint = {
+      name: field.name,
+      type: this.mapNamedType(named),
+      isRequired: isNonNull,
+      isNullable: !isNonNull,
+      confidence: 1,
+    };
+
+    if (field.description) {
+      hint.description = field.description;
+    }
+
+    if (this.isListType(field.type)) {
+      hint.type = 'array';
+      hint.arrayItemType = this.mapNamedType(named);
+    }
+
+    if (named.kind === 'ENUM') {
+      const enumType = this.findType(schema, named.name);
+      hint.enumValues = enumType?.enumValues?.map((v) => v.name);
+    }
+
+    if (named.name === 'ID') {
+      hint.isUnique = true;
+      hint.isPrimaryKey = field.name === 'id';
+    }
+
+    return hint;
+  }
+
+  /**
+   * Map a named GraphQL type onto a schema field type
+   */
+  private mapNamedType(named: IntrospectionTypeRef): FieldType {
+    switch (named.kind) {
+      case 'SCALAR':
+        return SCALAR_TYPE_MAP[named.name || ''] || 'unknown';
+      case 'ENUM':
+        return 'enum';
+      case 'OBJECT':
+      case 'INTERFACE':
+      case 'UNION':
+        return 'object';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private getQueryType(schema: IntrospectionSchema): IntrospectionType | undefined {
+    return this.findType(schema, schema.queryType?.name || 'Query');
+  }
+
+  private findRootField(
+    schema: IntrospectionSchema,
+    name: string
+  ): IntrospectionField | undefined {
+    return this.getQueryType(schema)?.fields?.find((f) => f.name === name);
+  }
+
+  private findType(
+    schema: IntrospectionSchema,
+    name: string | null
+  ): IntrospectionType | undefined {
+    return name ? schema.types.find((t) => t.name === name) : undefined;
+  }
+
+  /**
+   * Strip LIST and NON_NULL wrappers
+   */
+  private getNamedType(typeRef: IntrospectionTypeRef): IntrospectionTypeRef {
+    let current = typeRef;
+    while ((current.kind === 'LIST' || current.kind === 'NON_NULL') && current.ofType) {
+      current = current.ofType;
+    }
+    return current;
+  }
+
+  private isListType(typeRef: IntrospectionTypeRef): boolean {
+    let current: IntrospectionTypeRef | null = typeRef;
+    while (current) {
+      if (current.kind === 'LIST') return true;
+      current = current.ofType;
+    }
+    return false;
+  }
+
+  /**
+   * Print a type reference in SDL form, e.g. [String!]!
+   */
+  private printTypeRef(typeRef: IntrospectionTypeRef): string {
+    if (typeRef.kind === 'NON_NULL' && typeRef.ofType) {
+      return `${this.printTypeRef(typeRef.ofType)}!`;
+    }
+    if (typeRef.kind === 'LIST' && typeRef.ofType) {
+      return `[${this.printTypeRef(typeRef.ofType)}]`;
+    }
+    return typeRef.name || 'String';
+  }
+}
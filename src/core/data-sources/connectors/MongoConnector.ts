@@ -0,0 +1,395 @@
+// MongoDB Connector
+// Reads collections, sampling documents with $sample for schema detection
+
+import {
+  MongoClient,
+  Db,
+  Document,
+  Filter,
+  Sort,
+  ObjectId,
+  Decimal128,
+  Long,
+  Binary,
+} from 'mongodb';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+} from '@/types/data-source';
+import { FieldHint, FieldType } from '@/types/schema';
+import { DataFilter, DataSort } from '@/types/widget';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import { getErrorCategory, normalizeError } from '../errors';
+
+// BSON types from $jsonSchema validators mapped onto schema field types
+const BSON_TYPE_MAP: Record<string, FieldType> = {
+  string: 'string',
+  int: 'integer',
+  long: 'integer',
+  double: 'number',
+  decimal: 'number',
+  bool: 'boolean',
+  date: 'datetime',
+  timestamp: 'datetime',
+  objectId: 'uuid',
+  object: 'object',
+  array: 'array',
+};
+
+export class MongoConnector extends BaseConnector {
+  private client: MongoClient;
+  private connecting?: Promise<MongoClient>;
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+
+    this.client = new MongoClient(this.buildConnectionUrl(), {
+      serverSelectionTimeoutMS: 10000,
+      maxPoolSize: 5,
+    });
+  }
+
+  /**
+   * Test the connection with a ping
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      const db = await this.getDb();
+      await db.command({ ping: 1 });
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: getErrorCategory(normalizeError(error)),
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read documents from a collection.
+   * `endpoint` is `collection`, or `collection/:id` for a single document by _id.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const { method = 'GET', timeout = 30000 } = options;
+
+    if (method !== 'GET') {
+      throw new Error('MongoDB data sources are read-only');
+    }
+
+    const startTime = Date.now();
+    const { collection: name, id } = parseCollectionPath(endpoint);
+    const collection = (await this.getDb()).collection(name);
+
+    if (id !== undefined) {
+      const document = await collection.findOne(
+        { _id: toObjectId(id) } as Filter<Document>,
+        { maxTimeMS: timeout }
+      );
+
+      if (!document) {
+        throw new Error(`Document ${id} not found in ${name}`);
+      }
+
+      return {
+        data: toPlainValue(document) as T,
+        status: 200,
+        headers: {},
+        latency: Date.now() - startTime,
+        total: 1,
+      };
+    }
+
+    const query = buildMongoFilter(options.filters);
+    let cursor = collection.find(query, { maxTimeMS: timeout });
+
+    if (options.sort?.length) cursor = cursor.sort(buildMongoSort(options.sort));
+    if (options.offset) cursor = cursor.skip(options.offset);
+    if (options.limit !== undefined) cursor = cursor.limit(options.limit);
+
+    const [documents, total] = await Promise.all([
+      cursor.toArray(),
+      collection.countDocuments(query, { maxTimeMS: timeout }),
+    ]);
+
+    return {
+      data: documents.map(toPlainValue) as T,
+      status: 200,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * Sample random documents with $sample
+   */
+  async sample(endpoint: string, size: number): Promise<unknown> {
+    const { collection } = parseCollectionPath(endpoint);
+    const documents = await (await this.getDb())
+      .collection(collection)
+      .aggregate([{ $sample: { size } }])
+      .toArray();
+
+    return documents.map(toPlainValue);
+  }
+
+  /**
+   * List collections and views as endpoints
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const collections = await (await this.getDb())
+      .listCollections({}, { nameOnly: false })
+      .toArray();
+
+    return collections
+      .filter((c) => !c.name.startsWith('system.'))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((c) => ({
+        name: c.name,
+        path: c.name,
+        method: 'GET' as const,
+        description: c.type === 'view' ? 'View' : 'Collection',
+      }));
+  }
+
+  /**
+   * Field hints for a collection: `_id` is the primary key, and a $jsonSchema
+   * validator (when present) supplies types, required fields and enums
+   */
+  async getFieldHints(endpoint: string): Promise<FieldHint[]> {
+    const { collection } = parseCollectionPath(endpoint);
+    const [info] = await (await this.getDb())
+      .listCollections({ name: collection }, { nameOnly: false })
+      .toArray();
+
+    const hints: FieldHint[] = [
+      {
+        name: '_id',
+        isPrimaryKey: true,
+        isUnique: true,
+        isRequired: true,
+        isNullable: false,
+      },
+    ];
+
+    const jsonSchema = (info && 'options' in info ? info.options?.validator?.$jsonSchema : undefined) as
+      | { required?: string[]; properties?: Record<string, Document> }
+      | undefined;
+
+    for (const [name, property] of Object.entries(jsonSchema?.properties || {})) {
+      if (name === '_id') continue;
+
+      const bsonTypes = ([] as string[]).concat(property.bsonType || []);
+      const type = bsonTypes.map((t) => BSON_TYPE_MAP[t]).find(Boolean);
+      const hint: FieldHint = {
+        name,
+        isRequired: jsonSchema?.required?.includes(name) ?? false,
+        isNullable: bsonTypes.includes('null'),
+        description: property.description,
+      };
+
+      if (Array.isArray(property.enum)) {
+        hint.type = 'enum';
+        hint.enumValues = property.enum.map(String);
+      } else if (type) {
+        hint.type = type;
+      }
+
+      hints.push(hint);
+    }
+
+    return hints;
+  }
+
+  /**
+   * Close the client and its connection pool
+   */
+  async close(): Promise<void> {
+    if (this.connecting) {
+      this.connecting = undefined;
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Connect on first use and return the configured database
+   */
+  private async getDb(): Promise<Db> {
+    if (!this.connecting) {
+      this.connecting = this.client.connect().catch((error) => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+
+    const client = await this.connecting;
+    // Without a database name the driver uses the one in the connection string
+    return client.db(this.dataSource.database || undefined);
+  }
+
+  /**
+   * Build the connection URL from the connection string or host settings
+   */
+  private buildConnectionUrl(): string {
+    if (this.dataSource.connectionString) {
+      return this.dataSource.connectionString;
+    }
+
+    const credentials =
+      this.auth.username && this.auth.password
+        ? `${encodeURIComponent(this.auth.username)}:${encodeURIComponent(this.auth.password)}@`
+        : '';
+
+    return `mongodb://${credentials}${this.dataSource.host || 'localhost'}:${this.dataSource.port || 27017}`;
+  }
+}
+
+/**
+ * Split an endpoint path into the collection name and optional document id
+ */
+function parseCollectionPath(endpoint: string): { collection: string; id?: string } {
+  const [collection, id] = endpoint.replace(/^\/+|\/+$/g, '').split('/');
+
+  if (!collection) {
+    throw new Error('A collection name is required');
+  }
+
+  return { collection, id: id ? decodeURIComponent(id) : undefined };
+}
+
+/**
+ * Convert widget filters into a MongoDB query document
+ */
+export function buildMongoFilter(filters: DataFilter[] | undefined): Filter<Document> {
+  const query: Record<string, unknown> = {};
+
+  for (const filter of filters || []) {
+    // Field names and values come from widget requests, so they must not carry query operators
+    if (filter.field.startsWith('$') || filter.field.includes('\0')) {
+      throw new Error(`Invalid filter field: ${filter.field}`);
+    }
+    if (
+      !['in', 'notIn', 'between'].includes(filter.operator) &&
+      filter.value !== null &&
+      typeof filter.value === 'object'
+    ) {
+      throw new Error(`Filter '${filter.operator}' on '${filter.field}' requires a single value`);
+    }
+
+    const value = filter.field === '_id' ? toObjectId(filter.value) : filter.value;
+    let condition: unknown;
+
+    switch (filter.operator) {
+      case 'eq':
+        condition = { $eq: value };
+        break;
+      case 'neq':
+        condition = { $ne: value };
+        break;
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        condition = { [`$${filter.operator}`]: value };
+        break;
+      case 'contains':
+        condition = { $regex: escapeRegex(String(value ?? '')), $options: 'i' };
+        break;
+      case 'startsWith':
+        condition = { $regex: `^${escapeRegex(String(value ?? ''))}`, $options: 'i' };
+        break;
+      case 'endsWith':
+        condition = { $regex: `${escapeRegex(String(value ?? ''))}$`, $options: 'i' };
+        break;
+      case 'in':
+      case 'notIn': {
+        const values = (Array.isArray(filter.value) ? filter.value : [filter.value]).map((v) =>
+          filter.field === '_id' ? toObjectId(v) : v
+        );
+        condition = { [filter.operator === 'in' ? '$in' : '$nin']: values };
+        break;
+      }
+      case 'between':
+        if (!Array.isArray(filter.value) || filter.value.length !== 2) {
+          throw new Error(`Filter 'between' on '${filter.field}' requires a [min, max] value`);
+        }
+        condition = { $gte: filter.value[0], $lte: filter.value[1] };
+        break;
+      case 'isNull':
+        condition = null;
+        break;
+      case 'isNotNull':
+        condition = { $ne: null };
+        break;
+      default:
+        throw new Error(`Unsupported filter operator: ${filter.operator}`);
+    }
+
+    // Several filters on one field are combined with $and
+    if (filter.field in query) {
+      const and = (query.$and as unknown[]) || [];
+      and.push({ [filter.field]: condition });
+      query.$and = and;
+    } else {
+      query[filter.field] = condition;
+    }
+  }
+
+  return query as Filter<Document>;
+}
+
+/**
+ * Convert widget sorting into a MongoDB sort document
+ */
+export function buildMongoSort(sort: DataSort[]): Sort {
+  return Object.fromEntries(sort.map((s) => [s.field, s.direction === 'desc' ? -1 : 1]));
+}
+
+/**
+ * Use an ObjectId for 24-character hex ids, otherwise keep the value as-is
+ */
+function toObjectId(value: unknown): unknown {
+  return typeof value === 'string' && ObjectId.isValid(value) && value.length === 24
+    ? new ObjectId(value)
+    : value;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert BSON values into JSON-friendly values
+ * (ObjectIds become hex strings, dates ISO strings)
+ */
+function toPlainValue(value: unknown): unknown {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Decimal128) return Number(value.toString());
+  if (value instanceof Long) return value.toNumber();
+  if (value instanceof Binary) return value.toString('base64');
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, toPlainValue(v)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,473 @@
+// MySQL Connector
+// Reads and writes tables in MySQL or MariaDB, introspecting columns and keys from information_schema
+
+import { createPool, Pool, PoolOptions, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+  DiscoveredRelationship,
+} from '@/types/data-source';
+import { CrudEndpointConfig, FieldHint } from '@/types/schema';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import { getErrorCategory, normalizeError } from '../errors';
+import {
+  TablePath,
+  buildSelectQuery,
+  buildInsertQuery,
+  buildUpdateQuery,
+  buildDeleteQuery,
+  mapSqlType,
+  parseTablePath,
+} from './sql';
+
+interface ColumnRow extends RowDataPacket {
+  column_name: string;
+  column_type: string;        // Full type, e.g. `int(10) unsigned` or `enum('a','b')`
+  is_nullable: 'YES' | 'NO';
+  character_maximum_length: number | null;
+  column_key: '' | 'PRI' | 'UNI' | 'MUL';
+}
+
+interface KeyRow extends RowDataPacket {
+  constraint_name: string;
+  constraint_type: 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE';
+  column_name: string;
+  referenced_table_schema: string | null;
+  referenced_table_name: string | null;
+  referenced_column_name: string | null;
+}
+
+export class MySqlConnector extends BaseConnector {
+  private pool: Pool;
+  private readOnly: boolean;
+  private databaseName?: Promise<string>;
+  private columnCache = new Map<string, ColumnRow[]>();
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+    // Writes must be enabled explicitly
+    this.readOnly = dataSource.options?.readOnly !== false;
+
+    const options: PoolOptions = {
+      connectionLimit: 5,
+      // DECIMAL columns as numbers; BIGINTs beyond Number precision stay strings
+      decimalNumbers: true,
+      supportBigNumbers: true,
+      // TINYINT(1) is MySQL's boolean
+      typeCast: (field, next) => {
+        if (field.type === 'TINY' && field.length === 1) {
+          const value = field.string();
+          return value === null ? null : value === '1';
+        }
+        return next();
+      },
+    };
+
+    this.pool = createPool(
+      dataSource.connectionString
+        ? { ...options, uri: dataSource.connectionString }
+        : {
+            ...options,
+            host: dataSource.host,
+            port: dataSource.port || 3306,
+            database: dataSource.database,
+            user: auth.username,
+            password: auth.password,
+          }
+    );
+
+    // mysql2 pools have no 'error' event: a failed idle connection (e.g. the server restarts)
+    // emits it on the connection, which the pool then drops
+    this.pool.on('connection', (connection) => {
+      connection.on('error', (error: Error) => this.reportConnectionError(error));
+    });
+  }
+
+  /**
+   * Test the connection with a trivial query
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      await this.pool.query('SELECT 1');
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: getErrorCategory(normalizeError(error)),
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read or write rows.
+   * `endpoint` is `table`, `database.table`, or `table/:id` to address a single row by primary key.
+   * POST inserts into `table`; PUT/PATCH/DELETE act on `table/:id`.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const { method = 'GET', timeout = 30000 } = options;
+    const startTime = Date.now();
+
+    if (method !== 'GET' && this.readOnly) {
+      throw new Error('Data source is read-only');
+    }
+
+    const table = await this.resolveTable(endpoint);
+    const columns = await this.getColumns(table);
+    const columnNames = columns.map((c) => c.column_name);
+
+    let data: unknown;
+    let status = 200;
+    let total: number | undefined;
+
+    switch (method) {
+      case 'GET':
+        ({ data, total } = await this.read(table, columns, options, timeout));
+        break;
+
+      case 'POST': {
+        const row = this.toRow(options.body);
+        const insert = buildInsertQuery('mysql', table, columnNames, row);
+        const [result] = await this.pool.query<ResultSetHeader>({ sql: insert.sql, timeout }, insert.params);
+
+        // Re-read the row by primary key: the value given, or the AUTO_INCREMENT id
+        const primaryKey = this.findPrimaryKey(columns);
+        const id = primaryKey ? row[primaryKey] ?? (result.insertId || undefined) : undefined;
+        data =
+          id !== undefined
+            ? (await this.read({ ...table, id: String(id) }, columns, {}, timeout)).data
+            : row;
+        status = 201;
+        break;
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        const key = this.getRowKey(table, columns);
+        const update = buildUpdateQuery('mysql', table, columnNames, key, this.toRow(options.body));
+        const [result] = await this.pool.query<ResultSetHeader>({ sql: update.sql, timeout }, update.params);
+        if (result.affectedRows === 0) {
+          throw new Error(`Row ${table.id} not found in ${table.table}`);
+        }
+        ({ data } = await this.read(table, columns, {}, timeout));
+        break;
+      }
+
+      case 'DELETE': {
+        const key = this.getRowKey(table, columns);
+        const remove = buildDeleteQuery('mysql', table, key);
+        const [result] = await this.pool.query<ResultSetHeader>({ sql: remove.sql, timeout }, remove.params);
+        if (result.affectedRows === 0) {
+          throw new Error(`Row ${table.id} not found in ${table.table}`);
+        }
+        data = null;
+        status = 204;
+        break;
+      }
+    }
+
+    return {
+      data: data as T,
+      status,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * List the tables and views of the connection's database as endpoints
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT TABLE_NAME AS table_name, TABLE_TYPE AS table_type
+         FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = DATABASE()
+        ORDER BY TABLE_NAME`
+    );
+
+    return rows.map((row) => ({
+      name: row.table_name,
+      path: row.table_name,
+      method: 'GET' as const,
+      description: row.table_type === 'VIEW' ? 'View' : 'Table',
+    }));
+  }
+
+  /**
+   * Describe the columns of a table as schema field hints, including ENUM values
+   */
+  async getFieldHints(endpoint: string): Promise<FieldHint[]> {
+    const table = await this.resolveTable(endpoint);
+    const [columns, keys] = await Promise.all([this.queryColumns(table), this.queryKeys(table)]);
+
+    // Composite keys do not make any single column unique
+    const keySizes = new Map<string, number>();
+    for (const key of keys) {
+      keySizes.set(key.constraint_name, (keySizes.get(key.constraint_name) || 0) + 1);
+    }
+
+    return Promise.all(
+      columns.map(async (column) => {
+        const columnKeys = keys.filter((k) => k.column_name === column.column_name);
+        const foreignKey = columnKeys.find((k) => k.constraint_type === 'FOREIGN KEY');
+        const isPrimaryKey = columnKeys.some((k) => k.constraint_type === 'PRIMARY KEY');
+        const isUnique = columnKeys.some(
+          (k) => k.constraint_type !== 'FOREIGN KEY' && keySizes.get(k.constraint_name) === 1
+        );
+        const enumValues = parseEnumValues(column.column_type);
+
+        const hint: FieldHint = {
+          name: column.column_name,
+          type: mapSqlType(column.column_type),
+          isRequired: column.is_nullable === 'NO',
+          isNullable: column.is_nullable === 'YES',
+          isUnique,
+          isPrimaryKey,
+          isForeignKey: !!foreignKey,
+          confidence: 1,
+        };
+
+        if (enumValues) hint.enumValues = enumValues;
+        if (column.character_maximum_length) hint.maxLength = column.character_maximum_length;
+        if (foreignKey?.referenced_table_name) {
+          hint.referenceTo = await this.toEndpointPath(
+            foreignKey.referenced_table_schema,
+            foreignKey.referenced_table_name
+          );
+          hint.referenceField = foreignKey.referenced_column_name || undefined;
+        }
+
+        return hint;
+      })
+    );
+  }
+
+  /**
+   * List foreign keys declared in the connection's database
+   */
+  async listRelationships(): Promise<DiscoveredRelationship[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT CONSTRAINT_NAME AS constraint_name, TABLE_NAME AS table_name, COLUMN_NAME AS column_name,
+              REFERENCED_TABLE_SCHEMA AS referenced_table_schema,
+              REFERENCED_TABLE_NAME AS referenced_table_name,
+              REFERENCED_COLUMN_NAME AS referenced_column_name
+         FROM information_schema.KEY_COLUMN_USAGE
+        WHERE TABLE_SCHEMA = DATABASE() AND REFERENCED_TABLE_NAME IS NOT NULL
+        ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION`
+    );
+
+    return Promise.all(
+      rows.map(async (row) => ({
+        name: row.constraint_name,
+        sourceEndpoint: row.table_name,
+        sourceField: row.column_name,
+        targetEndpoint: await this.toEndpointPath(row.referenced_table_schema, row.referenced_table_name),
+        targetField: row.referenced_column_name,
+      }))
+    );
+  }
+
+  /**
+   * Tables with a single-column primary key get CRUD endpoints when writes are enabled
+   */
+  async getCrudEndpoints(endpoint: string): Promise<CrudEndpointConfig | undefined> {
+    if (this.readOnly) return undefined;
+
+    const table = await this.resolveTable(endpoint);
+    if (!this.findPrimaryKey(await this.getColumns(table))) return undefined;
+
+    const list = endpoint.replace(/^\/+|\/+$/g, '').split('/')[0];
+    const item = `${list}/{{id}}`;
+    return { list, get: item, create: list, update: item, delete: item };
+  }
+
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * Run a paginated, filtered and sorted SELECT (or a single-row lookup by key)
+   */
+  private async read(
+    table: TablePath,
+    columns: ColumnRow[],
+    options: FetchOptions,
+    timeout: number
+  ): Promise<{ data: unknown; total: number }> {
+    const filters = [...(options.filters || [])];
+
+    if (table.id !== undefined) {
+      const key = this.getRowKey(table, columns);
+      filters.push({ field: key.field, operator: 'eq', value: key.value });
+    }
+
+    const { select, count } = buildSelectQuery({
+      dialect: 'mysql',
+      table,
+      columns: columns.map((c) => c.column_name),
+      filters,
+      sort: options.sort,
+      limit: table.id !== undefined ? 1 : options.limit,
+      offset: options.offset,
+    });
+
+    const [rows] = await this.pool.query<RowDataPacket[]>({ sql: select.sql, timeout }, select.params);
+
+    if (table.id !== undefined) {
+      if (rows.length === 0) {
+        throw new Error(`Row ${table.id} not found in ${table.table}`);
+      }
+      return { data: rows[0], total: 1 };
+    }
+
+    const [totals] = await this.pool.query<RowDataPacket[]>({ sql: count.sql, timeout }, count.params);
+    return { data: rows, total: Number(totals[0]?.total ?? 0) };
+  }
+
+  /**
+   * Key used to address `table/:id`: the single-column primary key
+   */
+  private getRowKey(table: TablePath, columns: ColumnRow[]): { field: string; value: unknown } {
+    if (table.id === undefined) {
+      throw new Error(`A row id is required, e.g. ${table.table}/1`);
+    }
+
+    const primaryKeys = columns.filter((c) => c.column_key === 'PRI');
+    if (primaryKeys.length === 0) {
+      throw new Error(`Table ${table.table} has no primary key`);
+    }
+    if (primaryKeys.length > 1) {
+      throw new Error(`Table ${table.table} has a composite primary key`);
+    }
+
+    return { field: primaryKeys[0].column_name, value: table.id };
+  }
+
+  private findPrimaryKey(columns: ColumnRow[]): string | undefined {
+    const primaryKeys = columns.filter((c) => c.column_key === 'PRI');
+    return primaryKeys.length === 1 ? primaryKeys[0].column_name : undefined;
+  }
+
+  /**
+   * Parse the endpoint and default the database to the connection's own
+   */
+  private async resolveTable(endpoint: string): Promise<TablePath> {
+    const table = parseTablePath(endpoint);
+    return { ...table, schema: table.schema || (await this.getDatabaseName()) };
+  }
+
+  /**
+   * Endpoint path for a table; tables in the connection's database are referenced by name alone
+   */
+  private async toEndpointPath(database: string | null, table: string): Promise<string> {
+    return !database || database === (await this.getDatabaseName()) ? table : `${database}.${table}`;
+  }
+
+  private getDatabaseName(): Promise<string> {
+    this.databaseName ??= this.pool
+      .query<RowDataPacket[]>('SELECT DATABASE() AS name')
+      .then(([rows]) => {
+        if (!rows[0]?.name) {
+          throw new Error('A database name is required');
+        }
+        return rows[0].name as string;
+      });
+    this.databaseName.catch(() => {
+      this.databaseName = undefined;
+    });
+    return this.databaseName;
+  }
+
+  /**
+   * Get the columns of a table (cached), used to validate filters, sorting and row keys
+   */
+  private async getColumns(table: TablePath): Promise<ColumnRow[]> {
+    const key = `${table.schema}.${table.table}`;
+    const cached = this.columnCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const columns = await this.queryColumns(table);
+    if (columns.length === 0) {
+      throw new Error(`Table not found: ${key}`);
+    }
+
+    this.columnCache.set(key, columns);
+    return columns;
+  }
+
+  private async queryColumns(table: TablePath): Promise<ColumnRow[]> {
+    const [rows] = await this.pool.query<ColumnRow[]>(
+      `SELECT COLUMN_NAME AS column_name, COLUMN_TYPE AS column_type, IS_NULLABLE AS is_nullable,
+              CHARACTER_MAXIMUM_LENGTH AS character_maximum_length, COLUMN_KEY AS column_key
+         FROM information_schema.COLUMNS
+        WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+        ORDER BY ORDINAL_POSITION`,
+      [table.schema, table.table]
+    );
+    return rows;
+  }
+
+  private async queryKeys(table: TablePath): Promise<KeyRow[]> {
+    // Every primary key is named PRIMARY, so constraints are matched per table
+    const [rows] = await this.pool.query<KeyRow[]>(
+      `SELECT tc.CONSTRAINT_NAME AS constraint_name, tc.CONSTRAINT_TYPE AS constraint_type,
+              kcu.COLUMN_NAME AS column_name,
+              kcu.REFERENCED_TABLE_SCHEMA AS referenced_table_schema,
+              kcu.REFERENCED_TABLE_NAME AS referenced_table_name,
+              kcu.REFERENCED_COLUMN_NAME AS referenced_column_name
+         FROM information_schema.TABLE_CONSTRAINTS tc
+         JOIN information_schema.KEY_COLUMN_USAGE kcu
+           ON tc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+          AND tc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+          AND tc.TABLE_NAME = kcu.TABLE_NAME
+        WHERE tc.TABLE_SCHEMA = ? AND tc.TABLE_NAME = ?
+          AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE')`,
+      [table.schema, table.table]
+    );
+    return rows;
+  }
+
+  /**
+   * Validate a request body as a single row
+   */
+  private toRow(body: unknown): Record<string, unknown> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('Request body must be an object of column values');
+    }
+    return body as Record<string, unknown>;
+  }
+}
+
+/**
+ * Values of an ENUM column from its full type, e.g. `enum('draft','it''s')`
+ */
+export function parseEnumValues(columnType: string): string[] | undefined {
+  const match = /^enum\((.*)\)$/i.exec(columnType.trim());
+  if (!match) return undefined;
+
+  return Array.from(match[1].matchAll(/'((?:[^'\\]|''|\\.)*)'/g), ([, value]) =>
+    value.replace(/''/g, "'").replace(/\\(.)/g, '$1')
+  );
+}
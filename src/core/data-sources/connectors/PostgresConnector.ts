@@ -0,0 +1,376 @@
+// PostgreSQL Connector
+// Reads tables and views, introspecting columns from information_schema and keys from pg_constraint
+
+import { Pool } from 'pg';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+  DiscoveredRelationship,
+} from '@/types/data-source';
+import { FieldHint } from '@/types/schema';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import { getErrorCategory, normalizeError } from '../errors';
+import { TablePath, buildSelectQuery, mapSqlType, parseTablePath } from './sql';
+
+interface ColumnRow {
+  column_name: string;
+  data_type: string;
+  udt_name: string;
+  is_nullable: 'YES' | 'NO';
+  character_maximum_length: number | null;
+}
+
+interface KeyRow {
+  constraint_name: string;
+  constraint_type: 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE';
+  column_name: string;
+  foreign_table_schema: string | null;
+  foreign_table_name: string | null;
+  foreign_column_name: string | null;
+}
+
+const DEFAULT_SCHEMA = 'public';
+
+// Key columns of each constraint, read from pg_constraint so foreign keys pair source and
+// target columns by position and include tables the current role doesn't own
+const CONSTRAINT_COLUMNS_QUERY = `
+  SELECT con.conname AS constraint_name,
+         CASE con.contype WHEN 'p' THEN 'PRIMARY KEY' WHEN 'f' THEN 'FOREIGN KEY' ELSE 'UNIQUE' END
+           AS constraint_type,
+         ns.nspname AS table_schema,
+         cl.relname AS table_name,
+         att.attname AS column_name,
+         fns.nspname AS foreign_table_schema,
+         fcl.relname AS foreign_table_name,
+         fatt.attname AS foreign_column_name
+    FROM pg_constraint con
+    JOIN pg_class cl ON cl.oid = con.conrelid
+    JOIN pg_namespace ns ON ns.oid = cl.relnamespace
+   CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(attnum, foreign_attnum, ord)
+    JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+    LEFT JOIN pg_class fcl ON fcl.oid = con.confrelid
+    LEFT JOIN pg_namespace fns ON fns.oid = fcl.relnamespace
+    LEFT JOIN pg_attribute fatt ON fatt.attrelid = con.confrelid AND fatt.attnum = k.foreign_attnum`;
+
+export class PostgresConnector extends BaseConnector {
+  private pool: Pool;
+  private columnCache = new Map<string, string[]>();
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+
+    this.pool = new Pool(
+      dataSource.connectionString
+        ? { connectionString: dataSource.connectionString, max: 5 }
+        : {
+            host: dataSource.host,
+            port: dataSource.port || 5432,
+            database: dataSource.database,
+            user: auth.username,
+            password: auth.password,
+            max: 5,
+          }
+    );
+
+    // Idle clients that fail (e.g. the server restarts) are removed by the pool; without a
+    // listener the error event would crash the process
+    this.pool.on('error', (error) => this.reportConnectionError(error));
+  }
+
+  /**
+   * Test the connection with a trivial query
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      await this.pool.query('SELECT 1');
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: getErrorCategory(normalizeError(error)),
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read rows from a table or view.
+   * `endpoint` is `table`, `schema.table`, or `table/:id` for a single row by primary key.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const { method = 'GET', sort, limit, offset, timeout = 30000 } = options;
+    const filters = [...(options.filters || [])];
+
+    if (method !== 'GET') {
+      throw new Error('PostgreSQL data sources are read-only');
+    }
+
+    const startTime = Date.now();
+    const table = this.resolveTable(endpoint);
+    const columns = await this.getColumns(table);
+
+    if (table.id !== undefined) {
+      const primaryKey = await this.getPrimaryKey(table);
+      if (!primaryKey) {
+        throw new Error(`Table ${table.table} has no primary key`);
+      }
+      filters.push({ field: primaryKey, operator: 'eq', value: table.id });
+    }
+
+    const { select, count } = buildSelectQuery({
+      dialect: 'postgres',
+      table,
+      columns,
+      filters,
+      sort,
+      limit: table.id !== undefined ? 1 : limit,
+      offset,
+    });
+
+    const client = await this.pool.connect();
+    let rows: { rows: unknown[]; rowCount: number | null };
+    let total: number;
+    try {
+      // SET LOCAL ends with the transaction, so the timeout doesn't stay on the pooled client
+      await client.query('BEGIN READ ONLY');
+      await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeout)}`);
+      rows = await client.query(select.sql, select.params);
+      total =
+        table.id !== undefined
+          ? rows.rowCount ?? rows.rows.length
+          : Number((await client.query(count.sql, count.params)).rows[0]?.total ?? 0);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (table.id !== undefined && rows.rows.length === 0) {
+      throw new Error(`Row ${table.id} not found in ${table.table}`);
+    }
+
+    return {
+      data: (table.id !== undefined ? rows.rows[0] : rows.rows) as T,
+      status: 200,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * List tables and views as endpoints
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const result = await this.pool.query<{
+      table_schema: string;
+      table_name: string;
+      table_type: string;
+    }>(
+      `SELECT table_schema, table_name, table_type
+         FROM information_schema.tables
+        WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+        ORDER BY table_schema, table_name`
+    );
+
+    return result.rows.map((row) => {
+      const path = this.toEndpointPath(row.table_schema, row.table_name);
+      return {
+        name: path,
+        path,
+        method: 'GET' as const,
+        description: row.table_type === 'VIEW' ? 'View' : 'Table',
+      };
+    });
+  }
+
+  /**
+   * Describe the columns of a table as schema field hints
+   */
+  async getFieldHints(endpoint: string): Promise<FieldHint[]> {
+    const table = this.resolveTable(endpoint);
+    const [columns, keys, enums] = await Promise.all([
+      this.queryColumns(table),
+      this.queryKeys(table),
+      this.queryEnumValues(),
+    ]);
+
+    // Composite keys do not make any single column unique
+    const keySizes = new Map<string, number>();
+    for (const key of keys) {
+      keySizes.set(key.constraint_name, (keySizes.get(key.constraint_name) || 0) + 1);
+    }
+
+    return columns.map((column) => {
+      const columnKeys = keys.filter((k) => k.column_name === column.column_name);
+      const foreignKey = columnKeys.find((k) => k.constraint_type === 'FOREIGN KEY');
+      const isPrimaryKey = columnKeys.some((k) => k.constraint_type === 'PRIMARY KEY');
+      const isUnique = columnKeys.some(
+        (k) => k.constraint_type !== 'FOREIGN KEY' && keySizes.get(k.constraint_name) === 1
+      );
+      const enumValues = column.data_type === 'USER-DEFINED' ? enums.get(column.udt_name) : undefined;
+      const isArray = column.data_type === 'ARRAY';
+
+      const hint: FieldHint = {
+        name: column.column_name,
+        type: enumValues ? 'enum' : isArray ? 'array' : mapSqlType(column.udt_name),
+        isRequired: column.is_nullable === 'NO',
+        isNullable: column.is_nullable === 'YES',
+        isUnique,
+        isPrimaryKey,
+        isForeignKey: !!foreignKey,
+        confidence: 1,
+      };
+
+      if (enumValues) hint.enumValues = enumValues;
+      if (isArray) hint.arrayItemType = mapSqlType(column.udt_name.replace(/^_/, ''));
+      if (column.character_maximum_length) hint.maxLength = column.character_maximum_length;
+      if (foreignKey?.foreign_table_name) {
+        hint.referenceTo = this.toEndpointPath(
+          foreignKey.foreign_table_schema || DEFAULT_SCHEMA,
+          foreignKey.foreign_table_name
+        );
+        hint.referenceField = foreignKey.foreign_column_name || undefined;
+      }
+
+      return hint;
+    });
+  }
+
+  /**
+   * List foreign keys across all user schemas
+   */
+  async listRelationships(): Promise<DiscoveredRelationship[]> {
+    const result = await this.pool.query<{
+      constraint_name: string;
+      table_schema: string;
+      table_name: string;
+      column_name: string;
+      foreign_table_schema: string;
+      foreign_table_name: string;
+      foreign_column_name: string;
+    }>(
+      `${CONSTRAINT_COLUMNS_QUERY}
+        WHERE con.contype = 'f'
+          AND ns.nspname NOT IN ('pg_catalog', 'information_schema')
+        ORDER BY ns.nspname, cl.relname, con.conname, k.ord`
+    );
+
+    return result.rows.map((row) => ({
+      name: row.constraint_name,
+      sourceEndpoint: this.toEndpointPath(row.table_schema, row.table_name),
+      sourceField: row.column_name,
+      targetEndpoint: this.toEndpointPath(row.foreign_table_schema, row.foreign_table_name),
+      targetField: row.foreign_column_name,
+    }));
+  }
+
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * Parse the endpoint and default the schema to `public`
+   */
+  private resolveTable(endpoint: string): TablePath {
+    const table = parseTablePath(endpoint);
+    return { ...table, schema: table.schema || DEFAULT_SCHEMA };
+  }
+
+  /**
+   * Endpoint path for a table; tables in `public` are referenced by name alone
+   */
+  private toEndpointPath(schema: string, table: string): string {
+    return schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+  }
+
+  /**
+   * Get column names for a table (cached), used to validate filters and sorting
+   */
+  private async getColumns(table: TablePath): Promise<string[]> {
+    const key = `${table.schema}.${table.table}`;
+    const cached = this.columnCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const columns = (await this.queryColumns(table)).map((c) => c.column_name);
+    if (columns.length === 0) {
+      throw new Error(`Table not found: ${key}`);
+    }
+
+    this.columnCache.set(key, columns);
+    return columns;
+  }
+
+  private async getPrimaryKey(table: TablePath): Promise<string | undefined> {
+    const primaryKeys = (await this.queryKeys(table)).filter((k) => k.constraint_type === 'PRIMARY KEY');
+    if (primaryKeys.length > 1) {
+      throw new Error(`Table ${table.table} has a composite primary key`);
+    }
+    return primaryKeys[0]?.column_name;
+  }
+
+  private async queryColumns(table: TablePath): Promise<ColumnRow[]> {
+    const result = await this.pool.query<ColumnRow>(
+      `SELECT column_name, data_type, udt_name, is_nullable, character_maximum_length
+         FROM information_schema.columns
+        WHERE table_schema = $1 AND table_name = $2
+        ORDER BY ordinal_position`,
+      [table.schema, table.table]
+    );
+    return result.rows;
+  }
+
+  private async queryKeys(table: TablePath): Promise<KeyRow[]> {
+    const result = await this.pool.query<KeyRow>(
+      `${CONSTRAINT_COLUMNS_QUERY}
+        WHERE ns.nspname = $1 AND cl.relname = $2
+          AND con.contype IN ('p', 'f', 'u')
+        ORDER BY con.conname, k.ord`,
+      [table.schema, table.table]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Enum labels keyed by type name (information_schema does not expose these)
+   */
+  private async queryEnumValues(): Promise<Map<string, string[]>> {
+    const result = await this.pool.query<{ typname: string; enumlabel: string }>(
+      `SELECT t.typname, e.enumlabel
+         FROM pg_type t
+         JOIN pg_enum e ON t.oid = e.enumtypid
+        ORDER BY t.typname, e.enumsortorder`
+    );
+
+    const enums = new Map<string, string[]>();
+    for (const row of result.rows) {
+      const values = enums.get(row.typname) || [];
+      values.push(row.enumlabel);
+      enums.set(row.typname, values);
+    }
+    return enums;
+  }
+}
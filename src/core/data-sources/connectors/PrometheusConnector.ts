@@ -0,0 +1,389 @@
+// Prometheus Connector
+// Runs PromQL instant and range queries and turns their results into rows for widgets
+
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+  TimeRange,
+} from '@/types/data-source';
+import { BaseConnector, FetchOptions, FetchResponse, TestRequest } from './BaseConnector';
+import { queryRows } from '../files/RowQuery';
+import { DataSourceError } from '../errors';
+
+type PrometheusLabels = Record<string, string>;
+
+// Unix time in seconds and the sample value as text ("NaN" and "+Inf" included)
+type PrometheusSample = [number, string];
+
+/**
+ * `data` of a query response, by result type
+ */
+type PrometheusQueryData =
+  | { resultType: 'matrix'; result: { metric: PrometheusLabels; values: PrometheusSample[] }[] }
+  | { resultType: 'vector'; result: { metric: PrometheusLabels; value: PrometheusSample }[] }
+  | { resultType: 'scalar' | 'string'; result: PrometheusSample };
+
+/**
+ * Envelope of every Prometheus HTTP API response
+ */
+interface PrometheusResponse<T> {
+  status: 'success' | 'error';
+  data?: T;
+  errorType?: string;
+  error?: string;
+}
+
+interface PrometheusMetricMetadata {
+  type: string;
+  help: string;
+  unit: string;
+}
+
+// Points a range query returns when the time range sets no step
+const DEFAULT_RANGE_POINTS = 250;
+
+// Prometheus rejects range queries returning more points per series
+const MAX_RANGE_POINTS = 11000;
+
+// Endpoint paths like `label_values(job)` or `label_values(up{env="prod"}, job)` list a label's values
+const LABEL_VALUES_PATTERN = /^label_values\(\s*(?:(.+?)\s*,\s*)?([a-zA-Z_][a-zA-Z0-9_]*)\s*\)$/;
+
+export class PrometheusConnector extends BaseConnector {
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+  }
+
+  /**
+   * Test the connection with the health check endpoint or the build information
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+    const { url, init } = this.getTestRequest();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    try {
+      const response = await this.authorizedFetch(url, { ...init, signal: controller.signal });
+      await response.body?.cancel();
+
+      if (!response.ok) {
+        throw DataSourceError.fromStatus(response.status, response.statusText);
+      }
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+        network: this.network.describe(url, response),
+      };
+    } catch (error) {
+      const failure = DataSourceError.fromFetchError(error);
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: failure.category === 'timeout' ? 'Connection timed out' : failure.message,
+        errorCategory: failure.category,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+        network: this.network.describe(url),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * GET the health check endpoint if there is one, otherwise the build information
+   */
+  getTestRequest(): TestRequest {
+    return {
+      url: this.buildUrl(
+        this.dataSource.baseUrl || '',
+        this.dataSource.healthCheckEndpoint || '/api/v1/status/buildinfo'
+      ),
+      init: {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      },
+    };
+  }
+
+  /**
+   * Run the PromQL expression in `endpoint` and return rows.
+   *
+   * With `options.timeRange` a range query runs and each row is a timestamp with a column
+   * per series (`{ time, "<series>": value }`), the shape line and area charts plot.
+   * Otherwise an instant query runs and each row is a series with its labels and `value`.
+   * `label_values(label)` and `label_values(selector, label)` list a label's values instead.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const startTime = Date.now();
+    const { headers, params, timeRange, timeout = 30000 } = options;
+
+    if (options.method && options.method !== 'GET') {
+      throw new Error('Prometheus data sources are read-only');
+    }
+
+    const expression = endpoint.replace(/^\/+/, '').trim();
+    if (!expression) {
+      throw new Error('A PromQL query is required');
+    }
+
+    const range = timeRange ? this.rangeParams(timeRange) : undefined;
+    let rows: Record<string, unknown>[];
+    let status: number;
+    let responseHeaders: Record<string, string>;
+
+    const labelValues = expression.match(LABEL_VALUES_PATTERN);
+    if (labelValues) {
+      const [, selector, label] = labelValues;
+      const response = await this.request<string[]>(
+        `/api/v1/label/${encodeURIComponent(label)}/values`,
+        {
+          ...(selector ? { 'match[]': selector } : {}),
+          ...(range ? { start: range.start, end: range.end } : {}),
+          ...params,
+        },
+        timeout,
+        headers
+      );
+      rows = response.data.map((value) => ({ [label]: value }));
+      ({ status, headers: responseHeaders } = response);
+    } else {
+      const response = await this.request<PrometheusQueryData>(
+        range ? '/api/v1/query_range' : '/api/v1/query',
+        { query: expression, ...range, ...params },
+        timeout,
+        headers
+      );
+      rows = this.toRows(response.data);
+      ({ status, headers: responseHeaders } = response);
+    }
+
+    const { data, total } = queryRows(rows, {
+      columns: [...new Set(rows.flatMap((row) => Object.keys(row)))],
+      filters: options.filters,
+      sort: options.sort,
+      limit: options.limit,
+      offset: options.offset,
+    });
+
+    return {
+      data: data as T,
+      status,
+      headers: responseHeaders,
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * List metric names (with their help text) and each label's values as endpoints
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const [metrics, labels, metadata] = await Promise.all([
+      this.request<string[]>('/api/v1/label/__name__/values'),
+      this.request<string[]>('/api/v1/labels'),
+      // Metric metadata needs Prometheus 2.15 or later
+      this.request<Record<string, PrometheusMetricMetadata[]>>('/api/v1/metadata').catch(() => undefined),
+    ]);
+
+    return [
+      ...metrics.data.map((metric) => {
+        const [info] = metadata?.data[metric] ?? [];
+        return {
+          name: metric,
+          path: metric,
+          method: 'GET' as const,
+          description: info ? `${info.help}${info.type !== 'unknown' ? ` (${info.type})` : ''}` : undefined,
+        };
+      }),
+      ...labels.data
+        .filter((label) => label !== '__name__')
+        .map((label) => ({
+          name: `${label} values`,
+          path: `label_values(${label})`,
+          method: 'GET' as const,
+          description: `Values of the ${label} label`,
+        })),
+    ];
+  }
+
+  /**
+   * GET a Prometheus API path and unwrap the response envelope
+   */
+  private async request<T>(
+    path: string,
+    params: Record<string, string | number | boolean> = {},
+    timeout = 30000,
+    headers: Record<string, string> = {}
+  ): Promise<FetchResponse<T>> {
+    const startTime = Date.now();
+    const url = this.buildUrl(this.dataSource.baseUrl || '', path, params);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await this.authorizedFetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          ...headers,
+        },
+        signal: controller.signal,
+      });
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+
+      let body: PrometheusResponse<T> | undefined;
+      try {
+        body = await response.json();
+      } catch {
+        body = undefined;
+      }
+
+      // Query errors come with a 400 or 422 status and the reason in `error`
+      if (!response.ok || body?.status === 'error') {
+        throw DataSourceError.fromStatus(
+          response.status,
+          body?.errorType || response.statusText,
+          body?.error
+        );
+      }
+
+      if (!body || body.data === undefined) {
+        throw new DataSourceError('Response is not a Prometheus API response', 'upstream_5xx', response.status);
+      }
+
+      return {
+        data: body.data,
+        status: response.status,
+        headers: responseHeaders,
+        latency: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw DataSourceError.fromFetchError(error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Range query parameters; without a step the range is split into about
+   * DEFAULT_RANGE_POINTS points
+   */
+  private rangeParams(range: TimeRange): { start: number; end: number; step: number } {
+    const start = toUnixSeconds(range.start);
+    const end = toUnixSeconds(range.end);
+
+    if (start === undefined || end === undefined || end < start) {
+      throw new Error(`Invalid time range: ${range.start} to ${range.end}`);
+    }
+
+    const duration = end - start;
+    const step = Math.max(
+      range.step && range.step > 0 ? range.step : Math.ceil(duration / DEFAULT_RANGE_POINTS),
+      Math.ceil(duration / MAX_RANGE_POINTS),
+      1
+    );
+
+    return { start, end, step };
+  }
+
+  private toRows(data: PrometheusQueryData): Record<string, unknown>[] {
+    switch (data.resultType) {
+      case 'matrix': {
+        // One row per timestamp; a series without a sample at that time is null there
+        const names = seriesNames(data.result.map((series) => series.metric));
+        const rows = new Map<number, Record<string, unknown>>();
+
+        data.result.forEach((series, index) => {
+          for (const [time, value] of series.values) {
+            let row = rows.get(time);
+            if (!row) {
+              row = {
+                time: new Date(time * 1000).toISOString(),
+                ...Object.fromEntries(names.map((name) => [name, null])),
+              };
+              rows.set(time, row);
+            }
+            row[names[index]] = sampleValue(value);
+          }
+        });
+
+        return [...rows.entries()].sort(([a], [b]) => a - b).map(([, row]) => row);
+      }
+      case 'vector': {
+        // One row per series
+        const names = seriesNames(data.result.map((series) => series.metric));
+
+        return data.result.map(({ metric: { __name__, ...labels }, value: [, value] }, index) => ({
+          label: names[index],
+          ...(__name__ ? { metric: __name__ } : {}),
+          ...labels,
+          value: sampleValue(value),
+        }));
+      }
+      case 'scalar':
+        return [{ time: new Date(data.result[0] * 1000).toISOString(), value: sampleValue(data.result[1]) }];
+      case 'string':
+        return [{ time: new Date(data.result[0] * 1000).toISOString(), value: data.result[1] }];
+    }
+  }
+}
+
+/**
+ * Name series by the labels that differ between them (e.g. `method=GET, code=200`).
+ * A single series is named after its metric.
+ */
+function seriesNames(labelSets: PrometheusLabels[]): string[] {
+  if (labelSets.length === 1) {
+    return [labelSets[0].__name__ || 'value'];
+  }
+
+  const keys = [...new Set(labelSets.flatMap((labels) => Object.keys(labels)))].sort();
+  const varying = keys.filter((key) => labelSets.some((labels) => labels[key] !== labelSets[0][key]));
+
+  // Series that still share a name are numbered
+  const seen = new Map<string, number>();
+  return labelSets.map((labels) => {
+    const name = varying.map((key) => `${key}=${labels[key] ?? ''}`).join(', ');
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name || 'value';
+  });
+}
+
+/**
+ * Sample value as a number; NaN and infinities become null so charts leave a gap
+ */
+function sampleValue(value: string): number | null {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parse an RFC 3339 time or Unix timestamp (seconds) into Unix seconds
+ */
+function toUnixSeconds(value: string): number | undefined {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time / 1000;
+}
@@ -2,7 +2,14 @@
 // Handles connections to REST APIs with various authentication methods
 
 import { DataSource, AuthConfig, DataSourceConnection } from '@/types/data-source';
-import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import {
+  BaseConnector,
+  FetchOptions,
+  FetchResponse,
+  RecordedExchange,
+  TestRequest,
+} from './BaseConnector';
+import { DataSourceError } from '../errors';
 
 export class RestConnector extends BaseConnector {
   constructor(dataSource: DataSource, auth: AuthConfig) {
@@ -15,22 +22,13 @@ export class RestConnector extends BaseConnector {
   async testConnection(): Promise<DataSourceConnection> {
     const startTime = Date.now();
 
-    try {
-      // Use health check endpoint if available, otherwise try base URL
-      const testEndpoint = this.dataSource.healthCheckEndpoint || '';
-      const url = this.buildUrl(this.dataSource.baseUrl || '', testEndpoint);
+    const { url, init } = this.getTestRequest();
 
+    try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000);
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          ...this.getAuthHeaders(),
-          'Accept': 'application/json',
-        },
-        signal: controller.signal,
-      });
+      const response = await this.authorizedFetch(url, { ...init, signal: controller.signal });
 
       clearTimeout(timeoutId);
 
@@ -42,40 +40,54 @@ export class RestConnector extends BaseConnector {
           isConnected: true,
           latency,
           lastChecked: new Date(),
+          network: this.network.describe(url, response),
         };
       } else {
+        const error = DataSourceError.fromStatus(response.status, response.statusText);
         return {
           dataSourceId: this.dataSource.id,
           isConnected: false,
-          lastError: `HTTP ${response.status}: ${response.statusText}`,
+          lastError: error.message,
+          errorCategory: error.category,
           latency,
           lastChecked: new Date(),
+          network: this.network.describe(url, response),
         };
       }
     } catch (error) {
       const latency = Date.now() - startTime;
-
-      let errorMessage = 'Unknown error';
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          errorMessage = 'Connection timed out';
-        } else {
-          errorMessage = error.message;
-        }
-      }
+      const failure = DataSourceError.fromFetchError(error);
 
       return {
         dataSourceId: this.dataSource.id,
         isConnected: false,
-        lastError: errorMessage,
+        lastError: failure.category === 'timeout' ? 'Connection timed out' : failure.message,
+        errorCategory: failure.category,
         latency,
         lastChecked: new Date(),
+        network: this.network.describe(url),
       };
     }
   }
 
   /**
-   * Fetch data from the REST API
+   * GET the health check endpoint if there is one, otherwise the base URL
+   */
+  getTestRequest(): TestRequest {
+    return {
+      url: this.buildUrl(this.dataSource.baseUrl || '', this.dataSource.healthCheckEndpoint || ''),
+      init: {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      },
+    };
+  }
+
+  /**
+   * Fetch data from the REST API.
+   * Each request is reported to the exchange listener when traffic is recorded.
    */
   async fetch<T = unknown>(
     endpoint: string,
@@ -92,27 +104,42 @@ export class RestConnector extends BaseConnector {
     const startTime = Date.now();
     const url = this.buildUrl(this.dataSource.baseUrl || '', endpoint, params);
 
+    const requestHeaders: Record<string, string> = {
+      'Accept': 'application/json',
+      ...headers,
+    };
+
+    // Add Content-Type for requests with body
+    if (body && !requestHeaders['Content-Type']) {
+      requestHeaders['Content-Type'] = 'application/json';
+    }
+
+    const requestBody = body ? JSON.stringify(body) : undefined;
+    const exchange: RecordedExchange = {
+      endpoint,
+      options,
+      method,
+      url,
+      headers: requestHeaders,
+      credentialHeaders: [],
+      requestBody,
+      latency: 0,
+    };
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
-      const requestHeaders: Record<string, string> = {
-        ...this.getAuthHeaders(),
-        'Accept': 'application/json',
-        ...headers,
-      };
-
-      // Add Content-Type for requests with body
-      if (body && !requestHeaders['Content-Type']) {
-        requestHeaders['Content-Type'] = 'application/json';
-      }
-
-      const response = await fetch(url, {
-        method,
-        headers: requestHeaders,
-        body: body ? JSON.stringify(body) : undefined,
-        signal: controller.signal,
-      });
+      const response = await this.authorizedFetch(
+        url,
+        {
+          method,
+          headers: requestHeaders,
+          body: requestBody,
+          signal: controller.signal,
+        },
+        exchange
+      );
 
       clearTimeout(timeoutId);
 
@@ -124,20 +151,38 @@ export class RestConnector extends BaseConnector {
         responseHeaders[key] = value;
       });
 
+      Object.assign(exchange, {
+        status: response.status,
+        statusText: response.statusText,
+        responseHeaders,
+        latency,
+      });
+
+      // Not Modified: the caller revalidated a cached response, which stays valid
+      if (response.status === 304) {
+        return {
+          data: undefined as T,
+          status: response.status,
+          headers: responseHeaders,
+          latency,
+        };
+      }
+
       // Parse response body
       let data: T;
       const contentType = response.headers.get('content-type');
+      const text = await response.text();
+      exchange.responseBody = text;
 
       if (contentType?.includes('application/json')) {
-        data = await response.json();
+        data = JSON.parse(text);
       } else {
         // For non-JSON responses, return as text wrapped in an object
-        const text = await response.text();
         data = { text, _raw: true } as T;
       }
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw DataSourceError.fromStatus(response.status, response.statusText);
       }
 
       return {
@@ -148,15 +193,11 @@ export class RestConnector extends BaseConnector {
       };
     } catch (error) {
       clearTimeout(timeoutId);
-
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Request timed out');
-        }
-        throw error;
-      }
-
-      throw new Error('Unknown error occurred');
+      exchange.error = error;
+      throw DataSourceError.fromFetchError(error);
+    } finally {
+      exchange.latency ||= Date.now() - startTime;
+      this.exchangeListener?.(exchange);
     }
   }
 
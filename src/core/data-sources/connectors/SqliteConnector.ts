@@ -0,0 +1,411 @@
+// SQLite Connector
+// Reads and writes tables in a local database file, introspected via PRAGMA statements
+
+import Database from 'better-sqlite3';
+import { realpathSync } from 'fs';
+import path from 'path';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+  DiscoveredRelationship,
+} from '@/types/data-source';
+import { FieldHint } from '@/types/schema';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import {
+  TablePath,
+  buildSelectQuery,
+  buildInsertQuery,
+  buildUpdateQuery,
+  buildDeleteQuery,
+  mapSqlType,
+  parseTablePath,
+  quoteTable,
+} from './sql';
+
+// Database files may only be opened from this directory
+const SQLITE_DATA_DIR = process.env.SQLITE_DATA_DIR || path.join(process.cwd(), 'storage', 'sqlite');
+
+interface TableInfoRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: 0 | 1;
+  dflt_value: unknown;
+  pk: number;
+}
+
+interface ForeignKeyRow {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+}
+
+interface IndexListRow {
+  name: string;
+  unique: 0 | 1;
+}
+
+export class SqliteConnector extends BaseConnector {
+  private db?: Database.Database;
+  private readOnly: boolean;
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+    // Writes must be enabled explicitly
+    this.readOnly = dataSource.options?.readOnly !== false;
+  }
+
+  /**
+   * Test the connection by opening the file and running a trivial query
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      this.getDatabase().prepare('SELECT 1').get();
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read or write rows.
+   * `endpoint` is `table`, or `table/:id` to address a single row by primary key.
+   * POST inserts into `table`; PUT/PATCH/DELETE act on `table/:id`.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const { method = 'GET' } = options;
+    const startTime = Date.now();
+    const table = parseTablePath(endpoint);
+    const columns = this.getTableInfo(table.table);
+
+    if (columns.length === 0) {
+      throw new Error(`Table not found: ${table.table}`);
+    }
+
+    const columnNames = columns.map((c) => c.name);
+
+    if (method !== 'GET' && this.readOnly) {
+      throw new Error('Data source is read-only');
+    }
+
+    let data: unknown;
+    let status = 200;
+    let total: number | undefined;
+
+    switch (method) {
+      case 'GET':
+        ({ data, total } = this.read(table, columns, options));
+        break;
+
+      case 'POST': {
+        const insert = buildInsertQuery('sqlite', table, columnNames, this.toRow(options.body));
+        const result = this.getDatabase().prepare(insert.sql).run(...insert.params);
+        data = this.getDatabase()
+          .prepare(`SELECT * FROM ${quoteTable(table, 'sqlite')} WHERE rowid = ?`)
+          .get(result.lastInsertRowid);
+        status = 201;
+        break;
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        const key = this.getRowKey(table, columns);
+        const update = buildUpdateQuery('sqlite', table, columnNames, key, this.toRow(options.body));
+        const result = this.getDatabase().prepare(update.sql).run(...update.params);
+        if (result.changes === 0) {
+          throw new Error(`Row ${table.id} not found in ${table.table}`);
+        }
+        ({ data } = this.read(table, columns, {}));
+        break;
+      }
+
+      case 'DELETE': {
+        const key = this.getRowKey(table, columns);
+        const remove = buildDeleteQuery('sqlite', table, key);
+        const result = this.getDatabase().prepare(remove.sql).run(...remove.params);
+        if (result.changes === 0) {
+          throw new Error(`Row ${table.id} not found in ${table.table}`);
+        }
+        data = null;
+        status = 204;
+        break;
+      }
+    }
+
+    return {
+      data: data as T,
+      status,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * List tables and views as endpoints
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const rows = this.getDatabase()
+      .prepare(
+        `SELECT name, type FROM sqlite_master
+          WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+          ORDER BY name`
+      )
+      .all() as { name: string; type: string }[];
+
+    return rows.map((row) => ({
+      name: row.name,
+      path: row.name,
+      method: 'GET' as const,
+      description: row.type === 'view' ? 'View' : 'Table',
+    }));
+  }
+
+  /**
+   * Describe the columns of a table as schema field hints
+   */
+  async getFieldHints(endpoint: string): Promise<FieldHint[]> {
+    const { table } = parseTablePath(endpoint);
+    const columns = this.getTableInfo(table);
+    const foreignKeys = this.getForeignKeys(table);
+    const uniqueColumns = this.getUniqueColumns(table);
+    const primaryKeys = columns.filter((c) => c.pk > 0);
+
+    return columns.map((column) => {
+      const foreignKey = foreignKeys.find((fk) => fk.from === column.name);
+      // Composite primary keys do not make any single column unique
+      const isPrimaryKey = column.pk > 0;
+      const isUnique =
+        (isPrimaryKey && primaryKeys.length === 1) || uniqueColumns.includes(column.name);
+
+      const hint: FieldHint = {
+        name: column.name,
+        type: mapSqlType(column.type),
+        isRequired: column.notnull === 1 || isPrimaryKey,
+        isNullable: column.notnull === 0 && !isPrimaryKey,
+        isUnique,
+        isPrimaryKey,
+        isForeignKey: !!foreignKey,
+        confidence: column.type ? 1 : 0.5,
+      };
+
+      if (foreignKey) {
+        hint.referenceTo = foreignKey.table;
+        hint.referenceField = foreignKey.to || this.getPrimaryKey(foreignKey.table);
+      }
+
+      return hint;
+    });
+  }
+
+  /**
+   * List foreign keys across all tables
+   */
+  async listRelationships(): Promise<DiscoveredRelationship[]> {
+    const endpoints = await this.listEndpoints();
+    const relationships: DiscoveredRelationship[] = [];
+
+    for (const { path: table } of endpoints) {
+      for (const fk of this.getForeignKeys(table)) {
+        relationships.push({
+          name: `${table}_${fk.from}_fkey`,
+          sourceEndpoint: table,
+          sourceField: fk.from,
+          targetEndpoint: fk.table,
+          targetField: fk.to || this.getPrimaryKey(fk.table),
+        });
+      }
+    }
+
+    return relationships;
+  }
+
+  /**
+   * Close the database file
+   */
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  /**
+   * Open the database file on first use
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      const filename = (this.dataSource.database || this.dataSource.connectionString || '')
+        .replace(/^file:/, '');
+
+      if (!filename) {
+        throw new Error('A database file path is required');
+      }
+
+      this.db = new Database(resolveDatabasePath(filename), {
+        readonly: this.readOnly,
+        fileMustExist: true,
+        timeout: 5000,
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a paginated, filtered and sorted SELECT (or a single-row lookup by key)
+   */
+  private read(
+    table: TablePath,
+    columns: TableInfoRow[],
+    options: FetchOptions
+  ): { data: unknown; total: number } {
+    const db = this.getDatabase();
+    const filters = [...(options.filters || [])];
+
+    if (table.id !== undefined) {
+      const key = this.getRowKey(table, columns);
+      filters.push({ field: key.field, operator: 'eq', value: key.value });
+    }
+
+    const { select, count } = buildSelectQuery({
+      dialect: 'sqlite',
+      table,
+      // rowid is addressable even though PRAGMA table_info does not list it
+      columns: [...columns.map((c) => c.name), 'rowid'],
+      filters,
+      sort: options.sort,
+      limit: table.id !== undefined ? 1 : options.limit,
+      offset: options.offset,
+    });
+
+    const rows = db.prepare(select.sql).all(...select.params);
+
+    if (table.id !== undefined) {
+      if (rows.length === 0) {
+        throw new Error(`Row ${table.id} not found in ${table.table}`);
+      }
+      return { data: rows[0], total: 1 };
+    }
+
+    const { total } = db.prepare(count.sql).get(...count.params) as { total: number };
+    return { data: rows, total };
+  }
+
+  /**
+   * Key used to address `table/:id`: the primary key, or rowid when there is none
+   */
+  private getRowKey(table: TablePath, columns: TableInfoRow[]): { field: string; value: unknown } {
+    if (table.id === undefined) {
+      throw new Error(`A row id is required, e.g. ${table.table}/1`);
+    }
+
+    const primaryKeys = columns.filter((c) => c.pk > 0);
+    if (primaryKeys.length > 1) {
+      throw new Error(`Table ${table.table} has a composite primary key`);
+    }
+
+    return { field: primaryKeys[0]?.name || 'rowid', value: table.id };
+  }
+
+  private getPrimaryKey(table: string): string {
+    return this.getTableInfo(table).find((c) => c.pk > 0)?.name || 'rowid';
+  }
+
+  private getTableInfo(table: string): TableInfoRow[] {
+    return this.getDatabase().prepare('SELECT * FROM pragma_table_info(?)').all(table) as TableInfoRow[];
+  }
+
+  private getForeignKeys(table: string): ForeignKeyRow[] {
+    return this.getDatabase()
+      .prepare('SELECT * FROM pragma_foreign_key_list(?)')
+      .all(table) as ForeignKeyRow[];
+  }
+
+  /**
+   * Columns covered by a single-column unique index or constraint
+   */
+  private getUniqueColumns(table: string): string[] {
+    const db = this.getDatabase();
+    const indexes = db
+      .prepare('SELECT * FROM pragma_index_list(?)')
+      .all(table) as IndexListRow[];
+
+    return indexes
+      .filter((index) => index.unique === 1)
+      .map((index) =>
+        db.prepare('SELECT name FROM pragma_index_info(?)').all(index.name) as { name: string }[]
+      )
+      .filter((columns) => columns.length === 1)
+      .map((columns) => columns[0].name);
+  }
+
+  /**
+   * Validate a request body as a single row
+   */
+  private toRow(body: unknown): Record<string, unknown> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('Request body must be an object of column values');
+    }
+    return body as Record<string, unknown>;
+  }
+}
+
+/**
+ * Resolve a database file under SQLITE_DATA_DIR, refusing paths (or symlinks) that leave it
+ * and the app's own database
+ */
+function resolveDatabasePath(filename: string): string {
+  const root = path.resolve(SQLITE_DATA_DIR);
+  const location = path.resolve(root, filename);
+  const realLocation = realPath(location);
+
+  if (!isInside(root, location) || !isInside(realPath(root), realLocation)) {
+    throw new Error(`Database files must be inside ${root}`);
+  }
+
+  const appDatabases = [
+    path.join(process.cwd(), 'dev.db'),
+    process.env.DATABASE_URL?.startsWith('file:')
+      ? path.resolve(process.env.DATABASE_URL.replace(/^file:/, ''))
+      : undefined,
+  ];
+  if (appDatabases.some((database) => database && realPath(database) === realLocation)) {
+    throw new Error("The application's own database cannot be used as a data source");
+  }
+
+  return location;
+}
+
+function isInside(root: string, location: string): boolean {
+  return location.startsWith(root + path.sep);
+}
+
+/**
+ * Resolve symlinks, keeping the path as given when it doesn't exist (opening it then fails)
+ */
+function realPath(location: string): string {
+  try {
+    return realpathSync(location);
+  } catch {
+    return location;
+  }
+}
@@ -0,0 +1,246 @@
+// Stream Connector
+// Subscribes to Server-Sent Events or WebSocket streams and serves their most recent records
+
+import type { WebSocket } from 'undici';
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+  StreamConfig,
+} from '@/types/data-source';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import { StreamSubscription } from '../streams/StreamSubscription';
+import { queryRows } from '../files/RowQuery';
+import { DataSourceError } from '../errors';
+
+// How long a first read waits for the stream's first records
+const FIRST_RECORDS_WAIT = 2000;
+
+// Streams kept open per data source; the least recently read is closed for a new one
+const MAX_STREAMS = 20;
+
+// Streams nobody has read for this long are closed, checked every IDLE_CHECK_INTERVAL
+const STREAM_IDLE_TIMEOUT = 10 * 60 * 1000;
+const IDLE_CHECK_INTERVAL = 60 * 1000;
+
+export class StreamConnector extends BaseConnector {
+  private config: StreamConfig;
+  // Least recently read first
+  private subscriptions = new Map<string, { subscription: StreamSubscription; lastReadAt: number }>();
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+    this.config = dataSource.options?.stream || {};
+  }
+
+  /**
+   * Test the connection by opening the health check stream (or the base URL) and closing it
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+    const url = this.streamUrl(this.dataSource.healthCheckEndpoint || '');
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    try {
+      if (this.config.protocol === 'websocket') {
+        const socket = await this.openWebSocket(url);
+        try {
+          await new Promise<void>((resolve, reject) => {
+            socket.addEventListener('open', () => resolve());
+            socket.addEventListener('error', (event) =>
+              reject(new DataSourceError(`WebSocket connection failed: ${event.message || 'unknown error'}`, 'network'))
+            );
+            controller.signal.addEventListener('abort', () =>
+              reject(new DataSourceError('Connection timed out', 'timeout'))
+            );
+          });
+        } finally {
+          socket.close();
+        }
+      } else {
+        const response = await this.openEventStream(url, undefined, controller.signal);
+        await response.body?.cancel();
+
+        if (!response.ok) {
+          throw DataSourceError.fromStatus(response.status, response.statusText);
+        }
+        if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+          throw new DataSourceError(
+            `Expected an event stream but received ${response.headers.get('content-type') || 'no content type'}`,
+            'upstream_4xx'
+          );
+        }
+      }
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      const failure = DataSourceError.fromFetchError(error);
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: failure.message,
+        errorCategory: failure.category,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Read the most recent records of a stream, oldest first. The stream is subscribed on
+   * first read and stays subscribed while it is read (see STREAM_IDLE_TIMEOUT and
+   * MAX_STREAMS); new records are published as `data:created` events. A stream that gave
+   * up reconnecting is subscribed again. Streams are read-only.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const startTime = Date.now();
+
+    if (options.method && options.method !== 'GET') {
+      throw new Error('Streaming data sources are read-only');
+    }
+
+    const stream = this.streamKey(endpoint, options.params);
+    let subscription = this.subscriptions.get(stream)?.subscription;
+    this.subscriptions.delete(stream);
+
+    if (subscription?.getState() === 'closed') {
+      subscription = undefined;
+    }
+    const isNew = !subscription;
+
+    if (!subscription) {
+      this.closeLeastRecentlyRead(MAX_STREAMS - 1);
+
+      const url = this.streamUrl(endpoint, options.params);
+      subscription = new StreamSubscription({
+        dataSourceId: this.dataSource.id,
+        stream,
+        protocol: this.config.protocol || 'sse',
+        windowSize: this.config.windowSize,
+        dataPath: this.config.dataPath,
+        subscribeMessage: this.config.subscribeMessage,
+        openEventStream: (lastEventId, signal) => this.openEventStream(url, lastEventId, signal),
+        openWebSocket: () => this.openWebSocket(url),
+      });
+    }
+
+    this.subscriptions.set(stream, { subscription, lastReadAt: Date.now() });
+    this.idleTimer ??= setInterval(() => this.closeIdleStreams(), IDLE_CHECK_INTERVAL).unref();
+
+    await subscription.start();
+    if (isNew) {
+      await subscription.waitForRecords(Math.min(options.timeout ?? FIRST_RECORDS_WAIT, FIRST_RECORDS_WAIT));
+    }
+
+    const records = subscription.getRecords();
+    const error = subscription.getError();
+    if (error && records.length === 0) {
+      throw error;
+    }
+
+    const { data, total } = queryRows(records, {
+      columns: [...new Set(records.flatMap((record) => Object.keys(record)))],
+      filters: options.filters,
+      sort: options.sort,
+      limit: options.limit,
+      offset: options.offset,
+    });
+
+    return {
+      data: data as T,
+      status: 200,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+      stream,
+    };
+  }
+
+  /**
+   * List the streams subscribed so far, or the base URL's stream before any
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const streams = this.subscriptions.size > 0 ? [...this.subscriptions.keys()] : ['/'];
+
+    return streams.map((stream) => ({
+      name: stream === '/' ? 'Stream' : stream,
+      path: stream,
+      method: 'GET',
+      description: `${this.config.protocol === 'websocket' ? 'WebSocket' : 'Server-Sent Events'} stream`,
+    }));
+  }
+
+  /**
+   * Unsubscribe from every stream and release connections
+   */
+  async close(): Promise<void> {
+    this.closeLeastRecentlyRead(0);
+    await super.close();
+  }
+
+  /**
+   * Close streams, least recently read first, until at most `keep` are left
+   */
+  private closeLeastRecentlyRead(keep: number): void {
+    for (const [stream, { subscription }] of this.subscriptions) {
+      if (this.subscriptions.size <= keep) break;
+      subscription.stop();
+      this.subscriptions.delete(stream);
+    }
+    if (this.subscriptions.size === 0) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+
+  private closeIdleStreams(): void {
+    const cutoff = Date.now() - STREAM_IDLE_TIMEOUT;
+    const idle = [...this.subscriptions.values()].filter(({ lastReadAt }) => lastReadAt < cutoff).length;
+    this.closeLeastRecentlyRead(this.subscriptions.size - idle);
+  }
+
+  private openEventStream(url: string, lastEventId: string | undefined, signal: AbortSignal): Promise<Response> {
+    return this.authorizedFetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      },
+      signal,
+    });
+  }
+
+  private async openWebSocket(url: string): Promise<WebSocket> {
+    return this.network.openWebSocket(url, await this.getRequestHeaders());
+  }
+
+  /**
+   * Stream URL; http(s) base URLs are switched to ws(s) for WebSocket streams
+   */
+  private streamUrl(endpoint: string, params?: FetchOptions['params']): string {
+    const url = this.buildUrl(this.dataSource.baseUrl || '', endpoint, params);
+    return this.config.protocol === 'websocket' ? url.replace(/^http(s?):/i, 'ws$1:') : url;
+  }
+
+  /**
+   * Identifies a stream in realtime events: its path and query, without the base URL
+   */
+  private streamKey(endpoint: string, params?: FetchOptions['params']): string {
+    return this.buildUrl('', endpoint.replace(/\/+$/, ''), params);
+  }
+}
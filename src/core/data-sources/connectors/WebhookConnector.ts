@@ -0,0 +1,112 @@
+// Webhook Connector
+// Queries the events pushed to a webhook data source through its `events` endpoint
+
+import {
+  DataSource,
+  AuthConfig,
+  DataSourceConnection,
+  DiscoveredEndpoint,
+} from '@/types/data-source';
+import { BaseConnector, FetchOptions, FetchResponse } from './BaseConnector';
+import { eventToRow, getEventStats, listEvents } from '../webhooks/WebhookStore';
+import { queryRows } from '../files/RowQuery';
+
+export const WEBHOOK_EVENTS_ENDPOINT = 'events';
+
+export class WebhookConnector extends BaseConnector {
+  constructor(dataSource: DataSource, auth: AuthConfig) {
+    super(dataSource, auth);
+  }
+
+  /**
+   * Test the connection by checking that the stored events can be read
+   */
+  async testConnection(): Promise<DataSourceConnection> {
+    const startTime = Date.now();
+
+    try {
+      await getEventStats(this.dataSource.id);
+
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: true,
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    } catch (error) {
+      return {
+        dataSourceId: this.dataSource.id,
+        isConnected: false,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        latency: Date.now() - startTime,
+        lastChecked: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read stored events, newest first. Each record has the payload's fields plus
+   * `_eventId` and `_receivedAt`. Events are read-only; they arrive by being pushed.
+   */
+  async fetch<T = unknown>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<FetchResponse<T>> {
+    const startTime = Date.now();
+
+    if (options.method && options.method !== 'GET') {
+      throw new Error('Webhook data sources are read-only; events arrive through the ingestion URL');
+    }
+
+    const path = endpoint.replace(/^\/+|\/+$/g, '');
+    if (path !== WEBHOOK_EVENTS_ENDPOINT) {
+      throw new Error(`Endpoint not found: ${path}`);
+    }
+
+    let data: Record<string, unknown>[];
+    let total: number;
+
+    if (options.filters?.length || options.sort?.length) {
+      const rows = (await listEvents(this.dataSource.id)).map(eventToRow);
+      ({ data, total } = queryRows(rows, {
+        columns: [...new Set(rows.flatMap((row) => Object.keys(row)))],
+        filters: options.filters,
+        sort: options.sort,
+        limit: options.limit,
+        offset: options.offset,
+      }));
+    } else {
+      // Without filters or sorting, only the requested page is read
+      const [records, stats] = await Promise.all([
+        listEvents(this.dataSource.id, { limit: options.limit, offset: options.offset }),
+        getEventStats(this.dataSource.id),
+      ]);
+      data = records.map(eventToRow);
+      total = stats.count;
+    }
+
+    return {
+      data: data as T,
+      status: 200,
+      headers: {},
+      latency: Date.now() - startTime,
+      total,
+    };
+  }
+
+  /**
+   * List the events endpoint
+   */
+  async listEndpoints(): Promise<DiscoveredEndpoint[]> {
+    const { count } = await getEventStats(this.dataSource.id);
+
+    return [
+      {
+        name: 'Events',
+        path: WEBHOOK_EVENTS_ENDPOINT,
+        method: 'GET',
+        description: `Payloads received by the webhook (${count} stored)`,
+      },
+    ];
+  }
+}
@@ -0,0 +1,353 @@
+// SQL query helpers shared by the database connectors
+// Builds parameterized SELECT statements from widget filters, sorting and pagination
+
+import { FieldType } from '@/types/schema';
+import { DataFilter, DataSort } from '@/types/widget';
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+/**
+ * SQL fragment with its bound parameters
+ */
+export interface SqlFragment {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * Table reference parsed from an endpoint path such as `public.orders/42`
+ */
+export interface TablePath {
+  schema?: string;
+  table: string;
+  id?: string;
+}
+
+/**
+ * Options for building a paginated SELECT
+ */
+export interface SelectQueryOptions {
+  dialect: SqlDialect;
+  table: TablePath;
+  columns: string[];          // Known columns, used to validate filter and sort fields
+  filters?: DataFilter[];
+  sort?: DataSort[];
+  limit?: number;
+  offset?: number;
+}
+
+// Escape character used for LIKE patterns; '!' avoids backslash quoting differences
+const LIKE_ESCAPE = '!';
+
+/**
+ * Quote an identifier for the given dialect
+ */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  if (dialect === 'mysql') {
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a (possibly schema-qualified) table reference
+ */
+export function quoteTable(table: TablePath, dialect: SqlDialect): string {
+  const name = quoteIdentifier(table.table, dialect);
+  return table.schema ? `${quoteIdentifier(table.schema, dialect)}.${name}` : name;
+}
+
+/**
+ * Parse an endpoint path into a table reference.
+ * Accepts `table`, `schema.table`, and an optional `/:id` suffix.
+ */
+export function parseTablePath(endpoint: string): TablePath {
+  const [tablePart, id] = endpoint.replace(/^\/+|\/+$/g, '').split('/');
+
+  if (!tablePart) {
+    throw new Error('A table name is required');
+  }
+
+  const dot = tablePart.indexOf('.');
+  if (dot > 0) {
+    return {
+      schema: tablePart.slice(0, dot),
+      table: tablePart.slice(dot + 1),
+      id: id ? decodeURIComponent(id) : undefined,
+    };
+  }
+
+  return { table: tablePart, id: id ? decodeURIComponent(id) : undefined };
+}
+
+/**
+ * Create a placeholder generator for the dialect ($1, $2 ... or ?)
+ */
+export function createPlaceholders(dialect: SqlDialect, startAt = 1): () => string {
+  let index = startAt;
+  return () => (dialect === 'postgres' ? `$${index++}` : '?');
+}
+
+/**
+ * Build a WHERE clause from widget filters
+ */
+export function buildWhereClause(
+  filters: DataFilter[] | undefined,
+  dialect: SqlDialect,
+  columns: string[],
+  placeholder: () => string = createPlaceholders(dialect)
+): SqlFragment {
+  if (!filters || filters.length === 0) {
+    return { sql: '', params: [] };
+  }
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const like = dialect === 'postgres' ? 'ILIKE' : 'LIKE';
+
+  for (const filter of filters) {
+    assertColumn(filter.field, columns);
+    const column = quoteIdentifier(filter.field, dialect);
+
+    switch (filter.operator) {
+      case 'eq':
+      case 'neq':
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte': {
+        const operators = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+        conditions.push(`${column} ${operators[filter.operator]} ${placeholder()}`);
+        params.push(toSqlValue(filter.value, dialect));
+        break;
+      }
+
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith': {
+        const escaped = escapeLike(String(filter.value ?? ''));
+        const pattern =
+          filter.operator === 'contains'
+            ? `%${escaped}%`
+            : filter.operator === 'startsWith'
+            ? `${escaped}%`
+            : `%${escaped}`;
+        conditions.push(`${column} ${like} ${placeholder()} ESCAPE '${LIKE_ESCAPE}'`);
+        params.push(pattern);
+        break;
+      }
+
+      case 'in':
+      case 'notIn': {
+        const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+        if (values.length === 0) {
+          // IN () is invalid SQL; an empty list matches nothing (or everything for NOT IN)
+          conditions.push(filter.operator === 'in' ? '1 = 0' : '1 = 1');
+          break;
+        }
+        const list = values.map(() => placeholder()).join(', ');
+        conditions.push(`${column} ${filter.operator === 'in' ? 'IN' : 'NOT IN'} (${list})`);
+        params.push(...values.map((v) => toSqlValue(v, dialect)));
+        break;
+      }
+
+      case 'between': {
+        if (!Array.isArray(filter.value) || filter.value.length !== 2) {
+          throw new Error(`Filter 'between' on '${filter.field}' requires a [min, max] value`);
+        }
+        conditions.push(`${column} BETWEEN ${placeholder()} AND ${placeholder()}`);
+        params.push(toSqlValue(filter.value[0], dialect), toSqlValue(filter.value[1], dialect));
+        break;
+      }
+
+      case 'isNull':
+        conditions.push(`${column} IS NULL`);
+        break;
+
+      case 'isNotNull':
+        conditions.push(`${column} IS NOT NULL`);
+        break;
+
+      default:
+        throw new Error(`Unsupported filter operator: ${filter.operator}`);
+    }
+  }
+
+  return { sql: ` WHERE ${conditions.join(' AND ')}`, params };
+}
+
+/**
+ * Build an ORDER BY clause from widget sorting
+ */
+export function buildOrderByClause(
+  sort: DataSort[] | undefined,
+  dialect: SqlDialect,
+  columns: string[]
+): string {
+  if (!sort || sort.length === 0) {
+    return '';
+  }
+
+  const parts = sort.map((s) => {
+    assertColumn(s.field, columns);
+    return `${quoteIdentifier(s.field, dialect)} ${s.direction === 'desc' ? 'DESC' : 'ASC'}`;
+  });
+
+  return ` ORDER BY ${parts.join(', ')}`;
+}
+
+/**
+ * Build a paginated SELECT and the matching COUNT query
+ */
+export function buildSelectQuery(options: SelectQueryOptions): {
+  select: SqlFragment;
+  count: SqlFragment;
+} {
+  const { dialect, table, columns, filters, sort, limit, offset } = options;
+  const from = quoteTable(table, dialect);
+
+  const placeholder = createPlaceholders(dialect);
+  const where = buildWhereClause(filters, dialect, columns, placeholder);
+  const orderBy = buildOrderByClause(sort, dialect, columns);
+
+  const params = [...where.params];
+  let pagination = '';
+  if (limit !== undefined) {
+    pagination += ` LIMIT ${placeholder()}`;
+    params.push(limit);
+  } else if (offset) {
+    // SQLite and MySQL only accept OFFSET after a LIMIT
+    if (dialect === 'sqlite') pagination += ' LIMIT -1';
+    if (dialect === 'mysql') pagination += ' LIMIT 18446744073709551615';
+  }
+  if (offset) {
+    pagination += ` OFFSET ${placeholder()}`;
+    params.push(offset);
+  }
+
+  return {
+    select: {
+      sql: `SELECT * FROM ${from}${where.sql}${orderBy}${pagination}`,
+      params,
+    },
+    count: {
+      sql: `SELECT COUNT(*) AS total FROM ${from}${where.sql}`,
+      params: where.params,
+    },
+  };
+}
+
+/**
+ * Map a database column type onto a schema field type
+ */
+export function mapSqlType(dataType: string): FieldType {
+  const type = dataType.toLowerCase();
+
+  if (/^(tiny)?int\(1\)$|^bool/.test(type)) return 'boolean';
+  if (/^(tiny|small|medium|big)?int(eger|[248])?\b|serial/.test(type)) return 'integer';
+  if (/numeric|decimal|real|double|float|money/.test(type)) return 'number';
+  if (type === 'uuid') return 'uuid';
+  if (/^json/.test(type)) return 'json';
+  if (/timestamp|datetime/.test(type)) return 'datetime';
+  if (type === 'date') return 'date';
+  if (/^time/.test(type)) return 'time';
+  if (/^enum/.test(type)) return 'enum';
+  if (/char|text|clob|string|citext/.test(type)) return 'string';
+  if (/\[\]$|^array/.test(type)) return 'array';
+
+  return 'unknown';
+}
+
+/**
+ * Reject filter and sort fields that are not columns of the table
+ */
+function assertColumn(field: string, columns: string[]): void {
+  if (columns.length > 0 && !columns.includes(field)) {
+    throw new Error(`Unknown column: ${field}`);
+  }
+}
+
+/**
+ * Escape LIKE wildcards in a user value
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[!%_]/g, (c) => `${LIKE_ESCAPE}${c}`);
+}
+
+/**
+ * Convert filter values into types the drivers accept
+ */
+export function toSqlValue(value: unknown, dialect: SqlDialect): unknown {
+  // better-sqlite3 cannot bind booleans
+  if (typeof value === 'boolean') return dialect === 'sqlite' ? (value ? 1 : 0) : value;
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Build an INSERT for a single row
+ */
+export function buildInsertQuery(
+  dialect: SqlDialect,
+  table: TablePath,
+  columns: string[],
+  values: Record<string, unknown>
+): SqlFragment {
+  const fields = Object.keys(values);
+  if (fields.length === 0) {
+    throw new Error('No values to insert');
+  }
+  fields.forEach((field) => assertColumn(field, columns));
+
+  const placeholder = createPlaceholders(dialect);
+  const names = fields.map((field) => quoteIdentifier(field, dialect)).join(', ');
+  const list = fields.map(() => placeholder()).join(', ');
+
+  return {
+    sql: `INSERT INTO ${quoteTable(table, dialect)} (${names}) VALUES (${list})`,
+    params: fields.map((field) => toSqlValue(values[field], dialect)),
+  };
+}
+
+/**
+ * Build an UPDATE of a single row by key
+ */
+export function buildUpdateQuery(
+  dialect: SqlDialect,
+  table: TablePath,
+  columns: string[],
+  key: { field: string; value: unknown },
+  values: Record<string, unknown>
+): SqlFragment {
+  const fields = Object.keys(values).filter((field) => field !== key.field);
+  if (fields.length === 0) {
+    throw new Error('No values to update');
+  }
+  fields.forEach((field) => assertColumn(field, columns));
+
+  const placeholder = createPlaceholders(dialect);
+  const assignments = fields
+    .map((field) => `${quoteIdentifier(field, dialect)} = ${placeholder()}`)
+    .join(', ');
+
+  return {
+    sql: `UPDATE ${quoteTable(table, dialect)} SET ${assignments} WHERE ${quoteIdentifier(key.field, dialect)} = ${placeholder()}`,
+    params: [...fields.map((field) => toSqlValue(values[field], dialect)), key.value],
+  };
+}
+
+/**
+ * Build a DELETE of a single row by key
+ */
+export function buildDeleteQuery(
+  dialect: SqlDialect,
+  table: TablePath,
+  key: { field: string; value: unknown }
+): SqlFragment {
+  const placeholder = createPlaceholders(dialect);
+  return {
+    sql: `DELETE FROM ${quoteTable(table, dialect)} WHERE ${quoteIdentifier(key.field, dialect)} = ${placeholder()}`,
+    params: [key.value],
+  };
+}
@@ -0,0 +1,137 @@
+// Data Source Errors
+// Typed errors for failed data source requests, grouped by category
+
+import { DataSourceErrorCategory } from '@/types/data-source';
+
+// Node.js socket and DNS error codes treated as network errors
+const NETWORK_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+/**
+ * Error raised by a connector request, with a category the UI can explain
+ */
+export class DataSourceError extends Error {
+  public readonly category: DataSourceErrorCategory;
+  public readonly status?: number;    // Upstream HTTP status, when there was a response
+
+  constructor(message: string, category: DataSourceErrorCategory, status?: number) {
+    super(message);
+    this.name = 'DataSourceError';
+    this.category = category;
+    this.status = status;
+  }
+
+  /**
+   * Whether retrying the same request may succeed
+   * (timeouts, network errors, 5xx and 429 responses)
+   */
+  get retryable(): boolean {
+    return (
+      this.category === 'timeout' ||
+      this.category === 'network' ||
+      this.category === 'upstream_5xx' ||
+      this.status === 429
+    );
+  }
+
+  /**
+   * Whether the error says the upstream is unhealthy (counted by the circuit breaker)
+   */
+  get isUpstreamFailure(): boolean {
+    return (
+      this.category === 'timeout' ||
+      this.category === 'network' ||
+      this.category === 'upstream_5xx'
+    );
+  }
+
+  /**
+   * Create an error for a non-2xx HTTP response
+   */
+  static fromStatus(status: number, statusText: string, detail?: string): DataSourceError {
+    const message = `HTTP ${status}: ${statusText}${detail ? ` - ${detail}` : ''}`;
+
+    if (status === 401 || status === 403) {
+      return new DataSourceError(message, 'auth', status);
+    }
+    return new DataSourceError(message, status >= 500 ? 'upstream_5xx' : 'upstream_4xx', status);
+  }
+
+  /**
+   * Create an error for a failed fetch() call or unreadable response body
+   */
+  static fromFetchError(error: unknown): DataSourceError {
+    if (error instanceof DataSourceError) {
+      return error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new DataSourceError('Request timed out', 'timeout');
+    }
+    if (error instanceof SyntaxError) {
+      // The upstream answered with a body that could not be parsed
+      return new DataSourceError(`Invalid response body: ${error.message}`, 'upstream_5xx');
+    }
+
+    // undici reports the underlying socket/DNS error as `cause`
+    const cause = error instanceof Error
+      ? (error.cause as { code?: string; message?: string } | undefined)
+      : undefined;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const detail = cause?.code || cause?.message;
+
+    return new DataSourceError(detail ? `${message} (${detail})` : message, 'network');
+  }
+}
+
+/**
+ * Thrown without contacting the data source while its circuit breaker is open.
+ * Carries the category of the failure that opened the circuit.
+ */
+export class CircuitOpenError extends DataSourceError {
+  public readonly retryAt: Date;
+
+  constructor(dataSourceId: string, category: DataSourceErrorCategory, retryAt: Date) {
+    super(
+      `Data source ${dataSourceId} is failing; requests are paused until ${retryAt.toISOString()}`,
+      category
+    );
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Categorise socket errors from database drivers (connection refused, DNS failures, ...)
+ * as network errors; other errors are returned unchanged
+ */
+export function normalizeError(error: unknown): unknown {
+  if (error instanceof DataSourceError || !(error instanceof Error)) {
+    return error;
+  }
+
+  const code = (error as { code?: string }).code;
+  if (code && NETWORK_ERROR_CODES.includes(code)) {
+    return new DataSourceError(`${error.message} (${code})`, 'network');
+  }
+
+  return error;
+}
+
+/**
+ * Category for any error thrown by a data source call, if it has one
+ */
+export function getErrorCategory(error: unknown): DataSourceErrorCategory | undefined {
+  return error instanceof DataSourceError ? error.category : undefined;
+}
@@ -0,0 +1,354 @@
+// File Parser
+// Reads uploaded CSV, JSON, NDJSON and XLSX files into rows of records
+
+import ExcelJS from 'exceljs';
+import { FileFormat } from '@/types/data-source';
+import { DATA_PATH_NAMES } from '@/core/schema-detection/utils/patterns';
+
+/**
+ * Error raised when an uploaded file can't be read
+ */
+export class FileParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileParseError';
+  }
+}
+
+/**
+ * Records read from a file, or from one sheet of a workbook
+ */
+export interface ParsedTable {
+  name: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ParsedFile {
+  format: FileFormat;
+  tables: ParsedTable[];
+  encoding?: string;
+  delimiter?: string;
+}
+
+// Delimiters tried when sniffing CSV files, in order of preference on ties
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Lines inspected when sniffing the delimiter
+const SNIFF_LINES = 20;
+
+// Numbers without leading zeros (which would drop them from codes such as "007")
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Format of an uploaded file, from its extension or (when unknown) its content
+ */
+export function detectFileFormat(fileName: string, content: Buffer): FileFormat {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+
+  switch (extension) {
+    case 'csv':
+    case 'tsv':
+    case 'txt':
+      return 'csv';
+    case 'json':
+      return 'json';
+    case 'ndjson':
+    case 'jsonl':
+      return 'ndjson';
+    case 'xlsx':
+      return 'xlsx';
+    case 'xls':
+      throw new FileParseError('Legacy .xls workbooks are not supported; save the file as .xlsx');
+  }
+
+  // XLSX files are ZIP archives
+  if (content[0] === 0x50 && content[1] === 0x4b) return 'xlsx';
+
+  const text = decodeText(content).text.trimStart();
+  if (text.startsWith('[')) return 'json';
+  if (text.startsWith('{')) {
+    const firstLine = text.split(/\r?\n/, 1)[0].trim();
+    return firstLine.endsWith('}') && text.includes('\n') ? 'ndjson' : 'json';
+  }
+  return 'csv';
+}
+
+/**
+ * Parse an uploaded file into tables of records
+ */
+export async function parseFile(content: Buffer, format: FileFormat): Promise<ParsedFile> {
+  if (format === 'xlsx') {
+    return { format, tables: await parseWorkbook(content) };
+  }
+
+  const { text, encoding } = decodeText(content);
+
+  switch (format) {
+    case 'csv': {
+      const delimiter = sniffDelimiter(text);
+      return { format, encoding, delimiter, tables: [toTable('data', parseCsv(text, delimiter))] };
+    }
+    case 'json':
+      return { format, encoding, tables: [toTable('data', parseJsonRecords(text))] };
+    case 'ndjson':
+      return { format, encoding, tables: [toTable('data', parseNdjson(text))] };
+    default:
+      throw new FileParseError(`Unsupported file format: ${format}`);
+  }
+}
+
+/**
+ * Decode text using its byte order mark, falling back from UTF-8 to Windows-1252
+ * (the usual encoding of spreadsheet exports that aren't UTF-8)
+ */
+export function decodeText(content: Buffer): { text: string; encoding: string } {
+  if (content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(content.subarray(3)), encoding: 'utf-8' };
+  }
+  if (content[0] === 0xff && content[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(content.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (content[0] === 0xfe && content[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(content.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  // UTF-16 without a BOM: ASCII text leaves every other byte zero
+  const head = content.subarray(0, 200);
+  const zeros = head.filter((byte) => byte === 0).length;
+  if (head.length > 1 && zeros > head.length / 4) {
+    const encoding = head[0] === 0 ? 'utf-16be' : 'utf-16le';
+    return { text: new TextDecoder(encoding).decode(content), encoding };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(content), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(content), encoding: 'windows-1252' };
+  }
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the same (largest) number of columns
+ */
+export function sniffDelimiter(text: string): string {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .slice(0, SNIFF_LINES);
+
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    if (counts[0] === 0) continue;
+
+    // Lines matching the header's column count, weighted by the number of columns
+    const consistent = counts.filter((count) => count === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into records keyed by the header row
+ */
+export function parseCsv(text: string, delimiter: string): Record<string, unknown>[] {
+  const rows = splitCsv(text, delimiter).filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (rows.length === 0) return [];
+
+  const headers = uniqueHeaders(rows[0]);
+
+  return rows.slice(1).map((row) =>
+    Object.fromEntries(headers.map((header, index) => [header, coerceCell(row[index])]))
+  );
+}
+
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+/**
+ * Type a CSV cell: numbers and booleans are converted, empty cells become null
+ */
+function coerceCell(value: string | undefined): unknown {
+  const trimmed = value?.trim() ?? '';
+
+  if (trimmed === '') return null;
+  if (NUMBER.test(trimmed)) return Number(trimmed);
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+  return value;
+}
+
+/**
+ * Records in a JSON file: a top-level array, or the array under a wrapper key such as `data`
+ */
+function parseJsonRecords(text: string): Record<string, unknown>[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new FileParseError(`Invalid JSON${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  if (Array.isArray(document)) return document.map(toRecord);
+
+  if (document && typeof document === 'object') {
+    const entries = Object.entries(document as Record<string, unknown>);
+    const wrapped =
+      entries.find(
+        ([key, value]) => DATA_PATH_NAMES.includes(key as (typeof DATA_PATH_NAMES)[number]) && Array.isArray(value)
+      ) ??
+      entries.find(([, value]) => Array.isArray(value));
+    if (wrapped) return (wrapped[1] as unknown[]).map(toRecord);
+  }
+
+  throw new FileParseError('JSON files must contain an array of records');
+}
+
+function parseNdjson(text: string): Record<string, unknown>[] {
+  return text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      return [toRecord(JSON.parse(line))];
+    } catch {
+      throw new FileParseError(`Invalid JSON on line ${index + 1}`);
+    }
+  });
+}
+
+/**
+ * One table per worksheet, with the first non-empty row as headers.
+ * Empty sheets are skipped.
+ */
+async function parseWorkbook(content: Buffer): Promise<ParsedTable[]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content as unknown as ArrayBuffer);
+  } catch (error) {
+    throw new FileParseError(`Invalid XLSX workbook${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  const tables: ParsedTable[] = [];
+
+  workbook.eachSheet((sheet) => {
+    const rows: unknown[][] = [];
+    sheet.eachRow((row) => {
+      // row.values is 1-based
+      const values = (row.values as ExcelJS.CellValue[]).slice(1).map(cellValue);
+      if (values.some((value) => value !== null)) rows.push(values);
+    });
+
+    if (rows.length === 0) return;
+
+    const headers = uniqueHeaders(rows[0].map((value) => (value === null ? '' : String(value))));
+    const records = rows.slice(1).map((row) =>
+      Object.fromEntries(headers.map((header, index) => [header, row[index] ?? null]))
+    );
+    tables.push(toTable(sheet.name, records));
+  });
+
+  if (tables.length === 0) {
+    throw new FileParseError('The workbook has no sheets with data');
+  }
+
+  return tables;
+}
+
+/**
+ * Plain value of a worksheet cell (formulas give their result, dates an ISO string)
+ */
+function cellValue(value: ExcelJS.CellValue | undefined): unknown {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'object') return value;
+
+  if ('result' in value) return cellValue(value.result as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('text' in value) return value.text;
+  if ('error' in value) return null;
+  return null;
+}
+
+/**
+ * Header names with blanks filled in and duplicates numbered
+ */
+function uniqueHeaders(cells: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return cells.map((cell, index) => {
+    const base = cell.trim() || `column_${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base}_${count}` : base;
+  });
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : { value };
+}
+
+function toTable(name: string, rows: Record<string, unknown>[]): ParsedTable {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return { name, columns: Array.from(columns), rows };
+}
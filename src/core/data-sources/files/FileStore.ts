@@ -0,0 +1,159 @@
+// File Store
+// Keeps uploaded file versions on local disk, with their metadata in the database
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/db';
+import { DataSourceFile, DataSourceFileTable, FileFormat } from '@/types/data-source';
+
+// Uploads are stored under <dir>/<dataSourceId>/<name>/v<version>.<format>
+const STORAGE_DIR = process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'storage', 'files');
+
+/**
+ * File version row as stored by Prisma (tables are a JSON string)
+ */
+export interface DataSourceFileRecord {
+  id: string;
+  dataSourceId: string;
+  name: string;
+  fileName: string;
+  format: string;
+  version: number;
+  size: number;
+  encoding: string | null;
+  delimiter: string | null;
+  tables: string;
+  uploadedById: string;
+  createdAt: Date;
+}
+
+/**
+ * Build a file version object from a database record
+ */
+export function fileFromRecord(record: DataSourceFileRecord): DataSourceFile {
+  return {
+    id: record.id,
+    dataSourceId: record.dataSourceId,
+    name: record.name,
+    fileName: record.fileName,
+    format: record.format as FileFormat,
+    version: record.version,
+    size: record.size,
+    encoding: record.encoding || undefined,
+    delimiter: record.delimiter || undefined,
+    tables: JSON.parse(record.tables) as DataSourceFileTable[],
+    uploadedById: record.uploadedById,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Endpoint-safe name for a file or sheet, e.g. "Sales Q1 (final).csv" becomes "sales-q1-final"
+ */
+export function toFileName(name: string): string {
+  return (
+    name
+      .replace(/\.[^.]+$/, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'file'
+  );
+}
+
+/**
+ * Every version of every file in a data source, newest version first within each file
+ */
+export async function listFileVersions(dataSourceId: string): Promise<DataSourceFile[]> {
+  const records = await prisma.dataSourceFile.findMany({
+    where: { dataSourceId },
+    orderBy: [{ name: 'asc' }, { version: 'desc' }],
+  });
+  return (records as DataSourceFileRecord[]).map(fileFromRecord);
+}
+
+/**
+ * The current (latest) version of each file in a data source
+ */
+export async function getCurrentFiles(dataSourceId: string): Promise<DataSourceFile[]> {
+  const files = await listFileVersions(dataSourceId);
+  return files.filter((file, index) => index === 0 || files[index - 1].name !== file.name);
+}
+
+/**
+ * The current version of one file, if it exists
+ */
+export async function getCurrentFile(dataSourceId: string, name: string): Promise<DataSourceFile | null> {
+  const record = await prisma.dataSourceFile.findFirst({
+    where: { dataSourceId, name },
+    orderBy: { version: 'desc' },
+  });
+  return record ? fileFromRecord(record as DataSourceFileRecord) : null;
+}
+
+/**
+ * Store the content of a new file version and record it
+ */
+export async function saveFileVersion(
+  file: Omit<DataSourceFile, 'id' | 'createdAt'>,
+  content: Buffer
+): Promise<DataSourceFile> {
+  const location = filePath(file);
+  await mkdir(path.dirname(location), { recursive: true });
+  await writeFile(location, content);
+
+  try {
+    const record = await prisma.dataSourceFile.create({
+      data: {
+        ...file,
+        tables: JSON.stringify(file.tables),
+      },
+    });
+    return fileFromRecord(record as DataSourceFileRecord);
+  } catch (error) {
+    // Don't leave content behind that no record points to
+    await rm(location, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Read the stored content of a file version
+ */
+export async function readFileContent(file: DataSourceFile): Promise<Buffer> {
+  return readFile(filePath(file));
+}
+
+/**
+ * Delete every version of a file. Nothing is removed from disk when it has no versions.
+ */
+export async function deleteFile(dataSourceId: string, name: string): Promise<number> {
+  const { count } = await prisma.dataSourceFile.deleteMany({ where: { dataSourceId, name } });
+  if (count === 0) return 0;
+
+  await rm(storagePath(dataSourceId, name), { recursive: true, force: true });
+  return count;
+}
+
+/**
+ * Delete the stored files of a data source (its records are removed with it)
+ */
+export async function deleteDataSourceFiles(dataSourceId: string): Promise<void> {
+  await rm(storagePath(dataSourceId), { recursive: true, force: true });
+}
+
+/**
+ * Resolve a directory under the storage directory, refusing paths that leave it
+ */
+function storagePath(...segments: string[]): string {
+  const root = path.resolve(STORAGE_DIR);
+  const location = path.resolve(root, ...segments);
+
+  if (!location.startsWith(root + path.sep)) {
+    throw new Error(`Invalid file storage path: ${segments.join('/')}`);
+  }
+  return location;
+}
+
+function filePath(file: Pick<DataSourceFile, 'dataSourceId' | 'name' | 'version' | 'format'>): string {
+  return path.join(STORAGE_DIR, file.dataSourceId, file.name, `v${file.version}.${file.format}`);
+}
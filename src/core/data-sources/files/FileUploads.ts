@@ -0,0 +1,174 @@
+// File Uploads
+// Saves uploaded files as new versions and keeps their endpoints and schemas in sync
+
+import { prisma } from '@/lib/db';
+import { DataSourceFile, DataSourceFileTable } from '@/types/data-source';
+import { schemaDetectionService } from '@/core/schema-detection';
+import { DataSourceManager } from '../DataSourceManager';
+import { FileParseError, ParsedTable, detectFileFormat, parseFile } from './FileParser';
+import { getCurrentFile, saveFileVersion, toFileName } from './FileStore';
+
+// Rows sampled for schema detection
+const DETECTION_SAMPLE_SIZE = 100;
+
+export interface FileUpload {
+  fileName: string;
+  content: Buffer;
+  name?: string;              // Existing file to add a version to; defaults to one named after the upload
+}
+
+interface UploadCounts {
+  created: number;
+  updated: number;
+}
+
+export interface FileUploadResult {
+  file: DataSourceFile;
+  endpoints: UploadCounts;
+  schemas: UploadCounts;
+  warnings: string[];
+}
+
+/**
+ * Store an upload as the next version of its file, then create or update an endpoint and
+ * a detected schema for the file (or each sheet). Schemas are updated in place, so widgets
+ * bound to them keep working with the new version.
+ */
+export async function uploadFile(
+  dataSourceId: string,
+  upload: FileUpload,
+  userId: string
+): Promise<FileUploadResult> {
+  const name = toFileName(upload.name || upload.fileName);
+  const current = await getCurrentFile(dataSourceId, name);
+
+  if (upload.name && !current) {
+    throw new FileParseError(`File not found: ${upload.name}`);
+  }
+
+  const format = detectFileFormat(upload.fileName, upload.content);
+  const parsed = await parseFile(upload.content, format);
+
+  if (parsed.tables.every((table) => table.rows.length === 0)) {
+    throw new FileParseError('The file has no records');
+  }
+
+  const file = await saveFileVersion(
+    {
+      dataSourceId,
+      name,
+      fileName: upload.fileName,
+      format,
+      version: (current?.version || 0) + 1,
+      size: upload.content.length,
+      encoding: parsed.encoding,
+      delimiter: parsed.delimiter,
+      tables: describeTables(name, parsed.tables, format === 'xlsx'),
+      uploadedById: userId,
+    },
+    upload.content
+  );
+
+  const result: FileUploadResult = {
+    file,
+    endpoints: { created: 0, updated: 0 },
+    schemas: { created: 0, updated: 0 },
+    warnings: [],
+  };
+
+  for (const [index, table] of file.tables.entries()) {
+    try {
+      await syncTable(dataSourceId, file, table, parsed.tables[index].rows, result);
+    } catch (error) {
+      result.warnings.push(
+        `${table.path}: ${error instanceof Error ? error.message : 'Schema detection failed'}`
+      );
+    }
+  }
+
+  const removed = (current?.tables || []).filter(
+    (table) => !file.tables.some((t) => t.path === table.path)
+  );
+  if (removed.length > 0) {
+    result.warnings.push(
+      `No longer in the file: ${removed.map((table) => table.name).join(', ')}; widgets using them will fail`
+    );
+  }
+
+  // Cached responses hold rows of the previous version
+  DataSourceManager.removeConnector(dataSourceId);
+
+  return result;
+}
+
+/**
+ * Endpoint paths and columns of each table. Workbooks get one endpoint per sheet.
+ */
+function describeTables(name: string, tables: ParsedTable[], isWorkbook: boolean): DataSourceFileTable[] {
+  const paths = new Set<string>();
+
+  return tables.map((table) => {
+    let path = isWorkbook ? `${name}/${toFileName(table.name)}` : name;
+    for (let suffix = 2; paths.has(path); suffix++) {
+      path = `${name}/${toFileName(table.name)}-${suffix}`;
+    }
+    paths.add(path);
+
+    return {
+      name: isWorkbook ? table.name : name,
+      path,
+      columns: table.columns,
+      rowCount: table.rows.length,
+    };
+  });
+}
+
+async function syncTable(
+  dataSourceId: string,
+  file: DataSourceFile,
+  table: DataSourceFileTable,
+  rows: Record<string, unknown>[],
+  result: FileUploadResult
+): Promise<void> {
+  const description = `Uploaded from ${file.fileName} (version ${file.version})`;
+  const existingEndpoint = await prisma.dataSourceEndpoint.findFirst({
+    where: { dataSourceId, path: table.path, method: 'GET' },
+  });
+
+  const endpoint = existingEndpoint
+    ? await prisma.dataSourceEndpoint.update({
+        where: { id: existingEndpoint.id },
+        data: { description },
+      })
+    : await prisma.dataSourceEndpoint.create({
+        data: { dataSourceId, name: table.name, path: table.path, method: 'GET', description },
+      });
+  result.endpoints[existingEndpoint ? 'updated' : 'created']++;
+
+  const { schema } = await schemaDetectionService.detectSchema({
+    dataSourceId,
+    endpointId: endpoint.id,
+    name: table.name,
+    sampleData: rows.slice(0, DETECTION_SAMPLE_SIZE),
+    detectPagination: false,
+  });
+
+  const existingSchema = await prisma.schema.findFirst({
+    where: { dataSourceId, endpointId: endpoint.id },
+  });
+
+  if (existingSchema) {
+    await prisma.schema.update({
+      where: { id: existingSchema.id },
+      data: {
+        fields: JSON.stringify(schema.fields),
+        sampleSize: schema.sampleSize,
+        detectedAt: schema.detectedAt,
+      },
+    });
+    result.schemas.updated++;
+  } else {
+    await schemaDetectionService.saveSchema(schema);
+    result.schemas.created++;
+  }
+}
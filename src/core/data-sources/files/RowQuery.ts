@@ -0,0 +1,138 @@
+// Row Query
+// Filters, sorts and paginates in-memory records with the same semantics as the SQL builder
+
+import { DataFilter, DataSort } from '@/types/widget';
+
+export interface RowQueryOptions {
+  columns: string[];          // Known columns, used to validate filter and sort fields
+  filters?: DataFilter[];
+  sort?: DataSort[];
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Apply widget filters, sorting and limit/offset to records; `total` counts all matches
+ */
+export function queryRows(
+  rows: Record<string, unknown>[],
+  options: RowQueryOptions
+): { data: Record<string, unknown>[]; total: number } {
+  const { columns, filters = [], sort = [], limit, offset = 0 } = options;
+
+  for (const field of [...filters.map((f) => f.field), ...sort.map((s) => s.field)]) {
+    if (!columns.includes(field)) {
+      throw new Error(`Unknown column: ${field}`);
+    }
+  }
+
+  let result = filters.length > 0 ? rows.filter((row) => filters.every((f) => matches(row[f.field], f))) : rows;
+
+  if (sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { field, direction } of sort) {
+        const order = compareValues(a[field], b[field]);
+        if (order !== 0) return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  const end = limit !== undefined ? offset + limit : undefined;
+  return { data: result.slice(offset, end), total: result.length };
+}
+
+function matches(value: unknown, filter: DataFilter): boolean {
+  switch (filter.operator) {
+    case 'eq':
+      return isEqual(value, filter.value);
+    case 'neq':
+      return !isNull(value) && !isEqual(value, filter.value);
+    case 'gt':
+      return !isNull(value) && compareValues(value, filter.value) > 0;
+    case 'gte':
+      return !isNull(value) && compareValues(value, filter.value) >= 0;
+    case 'lt':
+      return !isNull(value) && compareValues(value, filter.value) < 0;
+    case 'lte':
+      return !isNull(value) && compareValues(value, filter.value) <= 0;
+
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith': {
+      // Case-insensitive, like LIKE/ILIKE
+      if (isNull(value)) return false;
+      const text = String(value).toLowerCase();
+      const search = String(filter.value ?? '').toLowerCase();
+      return filter.operator === 'contains'
+        ? text.includes(search)
+        : filter.operator === 'startsWith'
+        ? text.startsWith(search)
+        : text.endsWith(search);
+    }
+
+    case 'in':
+    case 'notIn': {
+      const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+      const found = values.some((candidate) => isEqual(value, candidate));
+      return filter.operator === 'in' ? found : !isNull(value) && !found;
+    }
+
+    case 'between': {
+      if (!Array.isArray(filter.value) || filter.value.length !== 2) {
+        throw new Error(`Filter 'between' on '${filter.field}' requires a [min, max] value`);
+      }
+      return (
+        !isNull(value) &&
+        compareValues(value, filter.value[0]) >= 0 &&
+        compareValues(value, filter.value[1]) <= 0
+      );
+    }
+
+    case 'isNull':
+      return isNull(value);
+    case 'isNotNull':
+      return !isNull(value);
+
+    default:
+      throw new Error(`Unsupported filter operator: ${filter.operator}`);
+  }
+}
+
+function isNull(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (isNull(a) || isNull(b)) return false;
+  return compareValues(a, b) === 0;
+}
+
+/**
+ * Order two cell values: nulls first, then numerically when both are numeric
+ * (filter values often arrive as strings), otherwise as text
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (isNull(a) || isNull(b)) {
+    return isNull(a) && isNull(b) ? 0 : isNull(a) ? -1 : 1;
+  }
+
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== undefined && numberB !== undefined) {
+    return numberA === numberB ? 0 : numberA < numberB ? -1 : 1;
+  }
+
+  const textA = a instanceof Date ? a.toISOString() : String(a);
+  const textB = b instanceof Date ? b.toISOString() : String(b);
+  return textA === textB ? 0 : textA < textB ? -1 : 1;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isNaN(value) ? undefined : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
@@ -0,0 +1,223 @@
+// HAR Importer
+// Generates endpoints, auth settings and schema samples from a browser HAR capture
+
+import {
+  AuthConfig,
+  DataSourceEndpoint,
+  DataSourceEndpointFormData,
+  DataSourceImport,
+} from '@/types/data-source';
+import {
+  ImportError,
+  ImportOptions,
+  buildSamples,
+  defaultEndpointName,
+  endpointKey,
+  isPaginationParam,
+  isTemplateName,
+  mostCommon,
+  paginationFromParams,
+  parseDocument,
+  parseJsonBody,
+  splitRequestUrl,
+  templateRecordedPath,
+} from './utils';
+
+const METHODS: DataSourceEndpoint['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Request headers that carry an API key
+const API_KEY_HEADERS = ['x-api-key', 'api-key', 'apikey', 'x-auth-token', 'x-access-token'];
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    headers?: HarNameValue[];
+    queryString?: HarNameValue[];
+    postData?: { mimeType?: string; text?: string };
+  };
+  response: {
+    status: number;
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+}
+
+interface HarDocument {
+  log: {
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Whether a parsed document is a HAR capture
+ */
+export function isHarDocument(document: Record<string, unknown>): boolean {
+  const log = document.log as HarDocument['log'] | undefined;
+  return !!log && Array.isArray(log.entries);
+}
+
+/**
+ * Import the JSON API calls in a HAR capture (as text or parsed). Pages, scripts and
+ * other assets are skipped, as are calls to other hosts than the API's.
+ */
+export function importHar(content: string | object, options: ImportOptions = {}): DataSourceImport {
+  const document = parseDocument(content);
+
+  if (!isHarDocument(document)) {
+    throw new ImportError('The document is not a HAR capture');
+  }
+
+  const warnings = new Set<string>();
+  const calls = (document as unknown as HarDocument).log.entries.filter(isApiCall);
+
+  if (calls.length === 0) {
+    throw new ImportError('The capture has no JSON API requests');
+  }
+
+  const located = calls.map((entry) => ({
+    entry,
+    ...splitRequestUrl(entry.request.url, options.baseUrl),
+  }));
+  const baseUrl = options.baseUrl ?? mostCommon(located.map((call) => call.baseUrl));
+
+  const endpoints = new Map<string, DataSourceEndpointFormData>();
+  const responses: { method: string; path: string; data: unknown }[] = [];
+  const apiCalls = located.filter((call) => call.baseUrl === baseUrl);
+
+  for (const { entry, path: recordedPath } of apiCalls) {
+    const method = entry.request.method.toUpperCase() as DataSourceEndpoint['method'];
+    if (!METHODS.includes(method)) continue;
+
+    const path = templateRecordedPath(recordedPath);
+    const key = endpointKey(method, path);
+
+    const data = entry.response.status >= 200 && entry.response.status < 300
+      ? parseJsonBody(responseText(entry))
+      : undefined;
+    if (data !== undefined) {
+      responses.push({ method, path, data });
+    }
+
+    if (!endpoints.has(key)) {
+      endpoints.set(key, buildEndpoint(entry, method, path));
+    }
+  }
+
+  const otherHosts = located.length - apiCalls.length;
+  if (otherHosts > 0) {
+    warnings.add(`${otherHosts} request(s) to other hosts than ${baseUrl} were skipped`);
+  }
+
+  const auth = detectAuth(apiCalls.map((call) => call.entry), warnings);
+  const authHeader = auth.type === 'api_key' ? auth.apiKeyHeader?.toLowerCase() : undefined;
+
+  return {
+    format: 'har',
+    dataSource: {
+      name: baseUrl ? new URL(baseUrl).hostname : 'Imported capture',
+      type: 'rest',
+      baseUrl,
+      auth,
+    },
+    endpoints: Array.from(endpoints.values()).map((endpoint) => ({
+      ...endpoint,
+      headers: withoutHeader(endpoint.headers, authHeader),
+    })),
+    schemas: [],
+    samples: buildSamples(responses),
+    partial: true,
+    warnings: Array.from(warnings),
+  };
+}
+
+/**
+ * JSON requests and responses; page loads, scripts, styles and images are skipped
+ */
+function isApiCall(entry: HarEntry): boolean {
+  const responseType = entry.response?.content?.mimeType || '';
+  const requestType = entry.request?.postData?.mimeType || '';
+  return responseType.includes('json') || requestType.includes('json');
+}
+
+function buildEndpoint(
+  entry: HarEntry,
+  method: DataSourceEndpoint['method'],
+  path: string
+): DataSourceEndpointFormData {
+  const queryNames = Array.from(new Set((entry.request.queryString || []).map((item) => item.name)));
+  const pagination = method === 'GET' ? paginationFromParams(queryNames) : undefined;
+
+  // Recorded values are specific to one call, so query params become placeholders
+  const queryParams = queryNames
+    .filter((name) => isTemplateName(name) && !isPaginationParam(name, pagination))
+    .map((name) => [name, `{{${name}}}`]);
+
+  // Browser headers aren't part of the API; only custom ones are kept, as placeholders
+  const headers = (entry.request.headers || [])
+    .map((header) => header.name)
+    .filter((name) => /^x-/i.test(name) && isTemplateName(name))
+    .map((name) => [name, `{{${name}}}`]);
+
+  const postData = entry.request.postData;
+
+  return {
+    name: defaultEndpointName(method, path),
+    path,
+    method,
+    headers: headers.length > 0 ? Object.fromEntries(headers) : undefined,
+    queryParams: queryParams.length > 0 ? Object.fromEntries(queryParams) : undefined,
+    bodyTemplate: method !== 'GET' && postData?.mimeType?.includes('json') ? postData.text : undefined,
+    pagination,
+  };
+}
+
+/**
+ * Auth the captured calls used, from their Authorization or API key headers
+ */
+function detectAuth(entries: HarEntry[], warnings: Set<string>): AuthConfig {
+  const kinds = entries.map((entry) => {
+    const headers = entry.request.headers || [];
+    const authorization = headers.find((header) => header.name.toLowerCase() === 'authorization')?.value;
+
+    if (authorization && /^bearer\s/i.test(authorization)) return 'bearer';
+    if (authorization && /^basic\s/i.test(authorization)) return 'basic';
+
+    const apiKey = headers.find((header) => API_KEY_HEADERS.includes(header.name.toLowerCase()));
+    if (apiKey) return `api_key:${apiKey.name}`;
+
+    if (headers.some((header) => header.name.toLowerCase() === 'cookie')) return 'cookie';
+    return 'none';
+  });
+
+  const kind = mostCommon(kinds) || 'none';
+
+  if (kind === 'bearer') return { type: 'bearer' };
+  if (kind === 'basic') return { type: 'basic' };
+  if (kind.startsWith('api_key:')) return { type: 'api_key', apiKeyHeader: kind.slice('api_key:'.length) };
+
+  if (kind === 'cookie') {
+    warnings.add('The captured calls were authenticated with browser cookies, which data sources do not send; configure auth after importing');
+  }
+  return { type: 'none' };
+}
+
+function responseText(entry: HarEntry): string | undefined {
+  const content = entry.response.content;
+  if (!content?.text) return undefined;
+  return content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf8') : content.text;
+}
+
+function withoutHeader(
+  headers: Record<string, string> | undefined,
+  name: string | undefined
+): Record<string, string> | undefined {
+  if (!headers || !name) return headers;
+
+  const remaining = Object.entries(headers).filter(([key]) => key.toLowerCase() !== name);
+  return remaining.length > 0 ? Object.fromEntries(remaining) : undefined;
+}
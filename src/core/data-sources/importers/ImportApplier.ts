@@ -0,0 +1,265 @@
+// Import Applier
+// Saves an imported API description as a new data source, or applies a re-import to an existing one
+
+import { prisma } from '@/lib/db';
+import { AuthConfig, DataSourceImport } from '@/types/data-source';
+import { SchemaField } from '@/types/schema';
+import { schemaDetectionService } from '@/core/schema-detection';
+import { DataSourceManager } from '../DataSourceManager';
+import {
+  DataSourceEndpointRecord,
+  endpointFromRecord,
+  endpointRecordData,
+} from '../EndpointRequest';
+import { ImportTarget, connectionChanges } from './ImportDiff';
+import { endpointKey } from './utils';
+
+export interface ApplyImportOptions {
+  removeMissing?: boolean;    // Delete endpoints and imported schemas the document no longer describes
+}
+
+interface ImportCounts {
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+export interface ApplyImportResult {
+  endpoints: ImportCounts;
+  schemas: ImportCounts;
+  skipped: string[];          // Schemas kept because widgets still use them
+  warnings: string[];         // Recorded responses schemas couldn't be detected from
+}
+
+interface SchemaRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  fields: string;
+  crudEndpoints: string | null;
+  autoDetected: boolean;
+}
+
+/**
+ * Create a data source with the imported endpoints and schemas; returns its ID.
+ * Auth is saved without secrets, which the user enters afterwards.
+ */
+export async function createDataSourceFromImport(
+  imported: DataSourceImport,
+  userId: string
+): Promise<string> {
+  const { dataSource } = imported;
+
+  const created = await prisma.dataSource.create({
+    data: {
+      name: dataSource.name,
+      description: dataSource.description,
+      type: dataSource.type,
+      baseUrl: dataSource.baseUrl,
+      authConfig: JSON.stringify(dataSource.auth),
+      createdById: userId,
+    },
+  });
+
+  await syncImport(created.id, imported, { endpoints: [], schemas: [] }, {});
+  return created.id;
+}
+
+/**
+ * Load a data source in the shape a re-import is compared against
+ */
+export async function loadImportTarget(dataSourceId: string): Promise<ImportTarget | null> {
+  const dataSource = await prisma.dataSource.findUnique({
+    where: { id: dataSourceId },
+    include: { endpoints: true, schemas: true },
+  });
+
+  if (!dataSource) return null;
+
+  return {
+    baseUrl: dataSource.baseUrl || undefined,
+    auth: JSON.parse(dataSource.authConfig) as AuthConfig,
+    endpoints: (dataSource.endpoints as DataSourceEndpointRecord[]).map(endpointFromRecord),
+    schemas: (dataSource.schemas as SchemaRecord[]).map((schema) => ({
+      id: schema.id,
+      name: schema.name,
+      description: schema.description || undefined,
+      fields: JSON.parse(schema.fields) as SchemaField[],
+      crudEndpoints: schema.crudEndpoints ? JSON.parse(schema.crudEndpoints) : undefined,
+      autoDetected: schema.autoDetected,
+    })),
+  };
+}
+
+/**
+ * Apply a re-import: update connection settings, then add, update and (optionally)
+ * remove endpoints and schemas to match the document
+ */
+export async function applyImport(
+  dataSourceId: string,
+  target: ImportTarget,
+  imported: DataSourceImport,
+  options: ApplyImportOptions = {}
+): Promise<ApplyImportResult> {
+  const connection = connectionChanges(target, imported);
+
+  if (connection.baseUrl || connection.auth) {
+    await prisma.dataSource.update({
+      where: { id: dataSourceId },
+      data: {
+        baseUrl: connection.baseUrl ? imported.dataSource.baseUrl : undefined,
+        // Credentials for the old auth type don't apply to the new one
+        authConfig: connection.auth ? JSON.stringify(imported.dataSource.auth) : undefined,
+      },
+    });
+  }
+
+  const result = await syncImport(dataSourceId, imported, target, options);
+
+  // Cached connectors and responses may reflect the old settings
+  DataSourceManager.removeConnector(dataSourceId);
+
+  return result;
+}
+
+/**
+ * Create or update the imported endpoints, then the schemas that reference them
+ */
+async function syncImport(
+  dataSourceId: string,
+  imported: DataSourceImport,
+  existing: Pick<ImportTarget, 'endpoints' | 'schemas'>,
+  options: ApplyImportOptions
+): Promise<ApplyImportResult> {
+  const result: ApplyImportResult = {
+    endpoints: { created: 0, updated: 0, removed: 0 },
+    schemas: { created: 0, updated: 0, removed: 0 },
+    skipped: [],
+    warnings: [],
+  };
+
+  const currentEndpoints = new Map(
+    existing.endpoints.map((endpoint) => [endpointKey(endpoint.method, endpoint.path), endpoint])
+  );
+  const endpointIds = new Map<string, string>();
+
+  for (const form of imported.endpoints) {
+    const key = endpointKey(form.method, form.path);
+    const current = currentEndpoints.get(key);
+
+    if (current) {
+      // Keep settings the document doesn't describe
+      const data = endpointRecordData({
+        ...form,
+        bodyTemplate: current.bodyTemplate,
+        cacheEnabled: current.cacheEnabled,
+        cacheTTL: current.cacheTTL,
+        join: current.join,
+      });
+      await prisma.dataSourceEndpoint.update({ where: { id: current.id }, data });
+      endpointIds.set(key, current.id);
+      result.endpoints.updated++;
+    } else {
+      const created = await prisma.dataSourceEndpoint.create({
+        data: { ...endpointRecordData(form), dataSourceId },
+      });
+      endpointIds.set(key, created.id);
+      result.endpoints.created++;
+    }
+  }
+
+  if (options.removeMissing && !imported.partial) {
+    const removed = existing.endpoints.filter(
+      (endpoint) => !endpointIds.has(endpointKey(endpoint.method, endpoint.path))
+    );
+    if (removed.length > 0) {
+      await prisma.dataSourceEndpoint.deleteMany({
+        where: { id: { in: removed.map((endpoint) => endpoint.id) } },
+      });
+      result.endpoints.removed = removed.length;
+    }
+  }
+
+  const currentSchemas = new Map(existing.schemas.map((schema) => [schema.name, schema]));
+
+  for (const schema of imported.schemas) {
+    const data = {
+      description: schema.description,
+      endpointId: schema.endpointKey ? endpointIds.get(schema.endpointKey) : undefined,
+      fields: JSON.stringify(schema.fields),
+      crudEndpoints: schema.crudEndpoints ? JSON.stringify(schema.crudEndpoints) : null,
+    };
+    const current = currentSchemas.get(schema.name);
+
+    if (current) {
+      await prisma.schema.update({ where: { id: current.id }, data });
+      result.schemas.updated++;
+    } else {
+      // Schemas from a document are described rather than detected from samples
+      await prisma.schema.create({
+        data: { ...data, name: schema.name, dataSourceId, sampleSize: 0, autoDetected: false },
+      });
+      result.schemas.created++;
+    }
+  }
+
+  // Schemas for recorded responses are detected from the responses, without calling the API
+  const documented = new Set(imported.schemas.map((schema) => schema.name));
+
+  for (const sample of imported.samples || []) {
+    if (documented.has(sample.schemaName)) continue;
+
+    try {
+      const endpointId = endpointIds.get(sample.endpointKey);
+      const { schema } = await schemaDetectionService.detectSchema({
+        dataSourceId,
+        endpointId,
+        name: sample.schemaName,
+        sampleData: sample.data,
+      });
+      const current = currentSchemas.get(sample.schemaName);
+
+      if (current) {
+        await prisma.schema.update({
+          where: { id: current.id },
+          data: {
+            endpointId,
+            fields: JSON.stringify(schema.fields),
+            sampleSize: schema.sampleSize,
+            detectedAt: schema.detectedAt,
+          },
+        });
+        result.schemas.updated++;
+      } else {
+        await schemaDetectionService.saveSchema(schema);
+        result.schemas.created++;
+      }
+    } catch (error) {
+      result.warnings.push(
+        `${sample.schemaName}: ${error instanceof Error ? error.message : 'Detection failed'}`
+      );
+    }
+  }
+
+  if (options.removeMissing && !imported.partial) {
+    const importedNames = new Set([
+      ...documented,
+      ...(imported.samples || []).map((sample) => sample.schemaName),
+    ]);
+
+    for (const schema of existing.schemas) {
+      if (schema.autoDetected || importedNames.has(schema.name)) continue;
+
+      const widgets = await prisma.widget.count({ where: { schemaId: schema.id } });
+      if (widgets > 0) {
+        result.skipped.push(schema.name);
+        continue;
+      }
+
+      await prisma.schema.delete({ where: { id: schema.id } });
+      result.schemas.removed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,200 @@
+// Import Diff
+// Compares a data source with a re-imported API description before the changes are applied
+
+import {
+  AuthConfig,
+  DataSourceEndpoint,
+  DataSourceEndpointFormData,
+  DataSourceImport,
+  DataSourceImportDiff,
+  ImportedSchema,
+} from '@/types/data-source';
+import { CrudEndpointConfig, SchemaField } from '@/types/schema';
+import { endpointKey } from './utils';
+
+/**
+ * Schema as compared by a re-import
+ */
+export interface ImportTargetSchema {
+  id: string;
+  name: string;
+  description?: string;
+  fields: SchemaField[];
+  crudEndpoints?: CrudEndpointConfig;
+  autoDetected: boolean;      // Schemas detected from samples are never removed by a re-import
+}
+
+/**
+ * Current state of the data source being re-imported into
+ */
+export interface ImportTarget {
+  baseUrl?: string;
+  auth: AuthConfig;
+  endpoints: DataSourceEndpoint[];
+  schemas: ImportTargetSchema[];
+}
+
+/**
+ * List what applying `imported` would add, change and remove
+ */
+export function diffImport(target: ImportTarget, imported: DataSourceImport): DataSourceImportDiff {
+  const diff: DataSourceImportDiff = {
+    dataSource: [],
+    endpoints: [],
+    schemas: [],
+    unchanged: { endpoints: 0, schemas: 0 },
+  };
+
+  const connection = connectionChanges(target, imported);
+  if (connection.baseUrl) {
+    diff.dataSource.push(`Base URL: ${target.baseUrl || '(none)'} → ${imported.dataSource.baseUrl}`);
+  }
+  if (connection.auth) {
+    diff.dataSource.push(`Auth: ${target.auth.type} → ${imported.dataSource.auth.type} (credentials must be re-entered)`);
+  }
+
+  // Endpoints, matched by method and path
+  const endpoints = new Map(target.endpoints.map((endpoint) => [endpointKey(endpoint.method, endpoint.path), endpoint]));
+  const importedKeys = new Set<string>();
+
+  for (const form of imported.endpoints) {
+    const key = endpointKey(form.method, form.path);
+    importedKeys.add(key);
+
+    const existing = endpoints.get(key);
+    if (!existing) {
+      diff.endpoints.push({ key, name: form.name, status: 'added' });
+      continue;
+    }
+
+    const changes = endpointChanges(existing, form);
+    if (changes.length > 0) {
+      diff.endpoints.push({ key, name: form.name, status: 'changed', changes });
+    } else {
+      diff.unchanged.endpoints++;
+    }
+  }
+
+  for (const [key, endpoint] of endpoints) {
+    if (!imported.partial && !importedKeys.has(key)) {
+      diff.endpoints.push({ key, name: endpoint.name, status: 'removed' });
+    }
+  }
+
+  // Schemas, matched by name
+  const schemas = new Map(target.schemas.map((schema) => [schema.name, schema]));
+  const importedNames = new Set(imported.schemas.map((schema) => schema.name));
+
+  // Recorded responses are detected into schemas when the import is applied
+  for (const sample of imported.samples || []) {
+    if (importedNames.has(sample.schemaName)) continue;
+    importedNames.add(sample.schemaName);
+
+    diff.schemas.push(
+      schemas.has(sample.schemaName)
+        ? { key: sample.schemaName, name: sample.schemaName, status: 'changed', changes: ['Fields re-detected from a recorded response'] }
+        : { key: sample.schemaName, name: sample.schemaName, status: 'added', changes: ['Detected from a recorded response'] }
+    );
+  }
+
+  for (const schema of imported.schemas) {
+    const existing = schemas.get(schema.name);
+    if (!existing) {
+      diff.schemas.push({ key: schema.name, name: schema.name, status: 'added' });
+      continue;
+    }
+
+    const changes = schemaChanges(existing, schema);
+    if (changes.length > 0) {
+      diff.schemas.push({ key: schema.name, name: schema.name, status: 'changed', changes });
+    } else {
+      diff.unchanged.schemas++;
+    }
+  }
+
+  for (const schema of target.schemas) {
+    if (!imported.partial && !schema.autoDetected && !importedNames.has(schema.name)) {
+      diff.schemas.push({ key: schema.name, name: schema.name, status: 'removed' });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Connection settings a re-import would change. Documents that don't state a base URL
+ * or auth (e.g. a capture without credentials) leave the current ones alone.
+ */
+export function connectionChanges(
+  target: Pick<ImportTarget, 'baseUrl' | 'auth'>,
+  imported: DataSourceImport
+): { baseUrl: boolean; auth: boolean } {
+  const { baseUrl, auth } = imported.dataSource;
+  return {
+    baseUrl: !!baseUrl && baseUrl !== target.baseUrl,
+    auth: auth.type !== 'none' && auth.type !== target.auth.type,
+  };
+}
+
+/**
+ * Whether applying the diff would change anything
+ */
+export function hasImportChanges(diff: DataSourceImportDiff): boolean {
+  return diff.dataSource.length > 0 || diff.endpoints.length > 0 || diff.schemas.length > 0;
+}
+
+function endpointChanges(existing: DataSourceEndpoint, form: DataSourceEndpointFormData): string[] {
+  const changes: string[] = [];
+
+  if (existing.name !== form.name) changes.push(`Name: ${existing.name} → ${form.name}`);
+  if ((existing.description || '') !== (form.description || '')) changes.push('Description');
+  if (!sameValue(existing.queryParams, form.queryParams)) changes.push('Query params');
+  if (!sameValue(existing.headers, form.headers)) changes.push('Headers');
+  if (!sameValue(existing.pagination, form.pagination)) changes.push('Pagination');
+
+  return changes;
+}
+
+function schemaChanges(existing: ImportTargetSchema, schema: ImportedSchema): string[] {
+  const changes: string[] = [];
+  const fields = new Map(existing.fields.map((field) => [field.name, field]));
+  const importedFields = new Set(schema.fields.map((field) => field.name));
+
+  for (const field of schema.fields) {
+    const current = fields.get(field.name);
+    if (!current) {
+      changes.push(`Field added: ${field.name}`);
+    } else if (current.type !== field.type) {
+      changes.push(`Field type: ${field.name} (${current.type} → ${field.type})`);
+    } else if (current.isRequired !== field.isRequired || current.isNullable !== field.isNullable) {
+      changes.push(`Field constraints: ${field.name}`);
+    }
+  }
+
+  for (const field of existing.fields) {
+    if (!importedFields.has(field.name)) changes.push(`Field removed: ${field.name}`);
+  }
+
+  if ((existing.description || '') !== (schema.description || '')) changes.push('Description');
+  if (!sameValue(existing.crudEndpoints, schema.crudEndpoints)) changes.push('CRUD endpoints');
+
+  return changes;
+}
+
+/**
+ * Compare settings ignoring key order and empty values
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return normalize(a) === normalize(b);
+}
+
+function normalize(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+
+    const entries = Object.entries(item)
+      .filter(([, child]) => child !== undefined && child !== null && child !== '')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  });
+}
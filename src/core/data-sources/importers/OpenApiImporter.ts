@@ -0,0 +1,675 @@
+// OpenAPI Importer
+// Generates a data source, endpoints and schemas from an OpenAPI 3.x or Swagger 2.0 document
+
+import {
+  AuthConfig,
+  DataSourceEndpoint,
+  DataSourceEndpointFormData,
+  DataSourceImport,
+  ImportedSchema,
+} from '@/types/data-source';
+import { CrudEndpointConfig, FieldType, SchemaField } from '@/types/schema';
+import {
+  CURSOR_PATH_NAMES,
+  DATA_PATH_NAMES,
+  HAS_MORE_PATH_NAMES,
+  PRIMARY_KEY_NAME_PATTERN,
+  TOTAL_PATH_NAMES,
+} from '@/core/schema-detection/utils/patterns';
+import {
+  ImportError,
+  defaultEndpointName,
+  endpointKey,
+  isPaginationParam,
+  isTemplateName,
+  paginationFromParams,
+  parseDocument,
+  toTemplatePath,
+} from './utils';
+
+const METHODS: DataSourceEndpoint['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// $ref and allOf chains deeper than this are not followed (guards against cycles)
+const MAX_REF_DEPTH = 8;
+
+const STRING_FORMATS: Record<string, FieldType> = {
+  date: 'date',
+  'date-time': 'datetime',
+  time: 'time',
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+  uuid: 'uuid',
+};
+
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  nullable?: boolean;
+  'x-nullable'?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: 'query' | 'path' | 'header' | 'cookie' | 'body' | 'formData';
+}
+
+interface ResponseObject {
+  $ref?: string;
+  schema?: SchemaObject;                                    // Swagger 2.0
+  content?: Record<string, { schema?: SchemaObject }>;      // OpenAPI 3.x
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: ParameterObject[];
+  responses?: Record<string, ResponseObject>;
+}
+
+type PathItemObject = Partial<Record<Lowercase<DataSourceEndpoint['method']>, OperationObject>> & {
+  $ref?: string;
+  parameters?: ParameterObject[];
+};
+
+interface OAuthFlow {
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+interface SecuritySchemeObject {
+  $ref?: string;
+  type: 'apiKey' | 'http' | 'basic' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  name?: string;
+  in?: 'header' | 'query' | 'cookie';
+  scheme?: string;
+  flows?: {                                                 // OpenAPI 3.x
+    clientCredentials?: OAuthFlow;
+    authorizationCode?: OAuthFlow;
+    password?: OAuthFlow;
+    implicit?: OAuthFlow;
+  };
+  flow?: 'application' | 'accessCode' | 'password' | 'implicit';  // Swagger 2.0
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; description?: string };
+  servers?: { url: string; variables?: Record<string, { default?: string }> }[];
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  paths?: Record<string, PathItemObject>;
+  components?: {
+    schemas?: Record<string, SchemaObject>;
+    securitySchemes?: Record<string, SecuritySchemeObject>;
+  };
+  definitions?: Record<string, SchemaObject>;
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+  security?: Record<string, string[]>[];
+}
+
+/**
+ * What a GET operation returns: the component schema of its records, whether it returns
+ * a list, and where records and paging details sit in a wrapper object
+ */
+interface ResponseShape {
+  schemaName?: string;
+  isList: boolean;
+  dataPath?: string;
+  totalPath?: string;
+  hasMorePath?: string;
+  nextCursorPath?: string;
+}
+
+interface ImportedEndpoint {
+  form: DataSourceEndpointFormData;
+  response?: ResponseShape;
+}
+
+/**
+ * Whether a parsed document is an OpenAPI or Swagger description
+ */
+export function isOpenApiDocument(document: Record<string, unknown>): boolean {
+  return typeof document.openapi === 'string' || typeof document.swagger === 'string';
+}
+
+/**
+ * Import an OpenAPI 3.x or Swagger 2.0 document (JSON or YAML, as text or parsed)
+ */
+export function importOpenApi(content: string | object): DataSourceImport {
+  const document = parseDocument(content);
+
+  if (!isOpenApiDocument(document)) {
+    throw new ImportError('The document is not an OpenAPI or Swagger description');
+  }
+
+  const { openapi, swagger } = document as OpenApiDocument;
+  if (swagger !== undefined && !swagger.startsWith('2.')) {
+    throw new ImportError(`Swagger ${swagger} is not supported; use Swagger 2.0 or OpenAPI 3.x`);
+  }
+  if (openapi !== undefined && !openapi.startsWith('3.')) {
+    throw new ImportError(`OpenAPI ${openapi} is not supported; use OpenAPI 3.x`);
+  }
+
+  return new OpenApiImporter(document as OpenApiDocument).run();
+}
+
+class OpenApiImporter {
+  private readonly isSwagger: boolean;
+  private readonly warnings = new Set<string>();
+
+  constructor(private readonly document: OpenApiDocument) {
+    this.isSwagger = document.swagger !== undefined;
+  }
+
+  run(): DataSourceImport {
+    const auth = this.importAuth();
+    const endpoints = this.importEndpoints(auth);
+
+    if (endpoints.length === 0) {
+      this.warnings.add('The document describes no GET, POST, PUT, PATCH or DELETE operations');
+    }
+
+    return {
+      format: this.isSwagger ? 'swagger' : 'openapi',
+      dataSource: {
+        name: this.document.info?.title?.trim() || 'Imported API',
+        description: this.document.info?.description,
+        type: 'rest',
+        baseUrl: this.importBaseUrl(),
+        auth,
+      },
+      endpoints: endpoints.map((endpoint) => endpoint.form),
+      schemas: this.importSchemas(endpoints),
+      warnings: Array.from(this.warnings),
+    };
+  }
+
+  // ============= Connection =============
+
+  private importBaseUrl(): string | undefined {
+    if (this.isSwagger) {
+      const { host, basePath = '', schemes = [] } = this.document;
+      if (!host) {
+        this.warnings.add("The document has no host; enter the API's base URL");
+        return basePath.replace(/\/$/, '') || undefined;
+      }
+      const scheme = schemes.includes('https') ? 'https' : schemes[0] || 'https';
+      return `${scheme}://${host}${basePath}`.replace(/\/$/, '');
+    }
+
+    const servers = this.document.servers || [];
+    const server = servers[0];
+    if (!server?.url) {
+      this.warnings.add("The document lists no servers; enter the API's base URL");
+      return undefined;
+    }
+
+    const url = server.url
+      .replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match)
+      .replace(/\/$/, '');
+
+    if (!/^https?:\/\//i.test(url)) {
+      this.warnings.add(`The server URL "${url}" is relative; enter the API's full base URL`);
+    }
+    if (servers.length > 1) {
+      this.warnings.add(`The document lists ${servers.length} servers; the first (${url}) was used`);
+    }
+
+    return url;
+  }
+
+  /**
+   * Auth settings from the security scheme the API requires (or the first one defined).
+   * Secrets are left for the user to enter.
+   */
+  private importAuth(): AuthConfig {
+    const schemes =
+      (this.isSwagger ? this.document.securityDefinitions : this.document.components?.securitySchemes) || {};
+    const requirement = this.document.security?.find((item) => Object.keys(item).length > 0);
+    const name = requirement ? Object.keys(requirement)[0] : Object.keys(schemes)[0];
+
+    if (!name) return { type: 'none' };
+
+    const scheme = this.resolve(schemes[name]);
+    if (!scheme) {
+      this.warnings.add(`Security scheme "${name}" is not defined`);
+      return { type: 'none' };
+    }
+
+    if (Object.keys(schemes).length > 1) {
+      this.warnings.add(`Several security schemes are defined; auth was pre-filled from "${name}"`);
+    }
+
+    switch (scheme.type) {
+      case 'apiKey':
+        if (scheme.in === 'header' && scheme.name) {
+          return { type: 'api_key', apiKeyHeader: scheme.name };
+        }
+        this.warnings.add(
+          `API key "${name}" is sent in the ${scheme.in || 'request'}; only header API keys are supported, ` +
+            'so add it to the endpoints with {{env.DATA_SOURCE_*}}'
+        );
+        return { type: 'none' };
+
+      case 'basic':
+        return { type: 'basic' };
+
+      case 'http':
+        if (scheme.scheme?.toLowerCase() === 'basic') return { type: 'basic' };
+        if (scheme.scheme?.toLowerCase() === 'bearer') return { type: 'bearer' };
+        this.warnings.add(`HTTP auth scheme "${scheme.scheme}" is not supported`);
+        return { type: 'none' };
+
+      case 'oauth2':
+        return this.importOAuth2(name, scheme, requirement?.[name]);
+
+      case 'openIdConnect':
+        this.warnings.add(`OpenID Connect scheme "${name}" was mapped to a bearer token`);
+        return { type: 'bearer' };
+
+      default:
+        this.warnings.add(`Security scheme "${name}" (${scheme.type}) is not supported`);
+        return { type: 'none' };
+    }
+  }
+
+  private importOAuth2(name: string, scheme: SecuritySchemeObject, requiredScopes?: string[]): AuthConfig {
+    const swaggerFlow = scheme.tokenUrl ? { tokenUrl: scheme.tokenUrl, scopes: scheme.scopes } : undefined;
+    const clientCredentials = this.isSwagger
+      ? scheme.flow === 'application' ? swaggerFlow : undefined
+      : scheme.flows?.clientCredentials;
+    const userFlow = this.isSwagger
+      ? scheme.flow !== 'application' ? swaggerFlow : undefined
+      : scheme.flows?.authorizationCode || scheme.flows?.password;
+
+    const flow = clientCredentials || userFlow;
+    if (!flow?.tokenUrl) {
+      this.warnings.add(`OAuth2 scheme "${name}" has no token URL; enter a bearer token instead`);
+      return { type: 'bearer' };
+    }
+
+    // Prefer the scopes the API requires over every scope it defines
+    const scopes = requiredScopes?.length ? requiredScopes : Object.keys(flow.scopes || {});
+
+    if (!clientCredentials) {
+      this.warnings.add(`OAuth2 scheme "${name}" uses a user flow; enter a refresh token to use it`);
+    }
+
+    return {
+      type: 'oauth2',
+      grantType: clientCredentials ? 'client_credentials' : 'refresh_token',
+      tokenUrl: flow.tokenUrl,
+      scopes: scopes.length > 0 ? scopes : undefined,
+    };
+  }
+
+  // ============= Endpoints =============
+
+  private importEndpoints(auth: AuthConfig): ImportedEndpoint[] {
+    const endpoints: ImportedEndpoint[] = [];
+
+    // Headers the connector sets from the auth settings
+    const authHeaders = ['authorization', auth.apiKeyHeader?.toLowerCase()];
+
+    for (const [rawPath, item] of Object.entries(this.document.paths || {})) {
+      const pathItem = this.resolve(item);
+      if (!pathItem) continue;
+
+      const path = toTemplatePath(rawPath);
+
+      for (const method of METHODS) {
+        const operation = pathItem[method.toLowerCase() as Lowercase<typeof method>];
+        if (!operation) continue;
+
+        const parameters = this.mergeParameters(pathItem.parameters, operation.parameters);
+        const queryNames = parameters.filter((p) => p.in === 'query').map((p) => p.name);
+        const response = method === 'GET' ? this.responseShape(operation) : undefined;
+
+        let pagination = method === 'GET' ? paginationFromParams(queryNames) : undefined;
+        if (response?.dataPath || response?.totalPath) {
+          pagination = {
+            ...(pagination || { type: 'none' }),
+            dataPath: response.dataPath,
+            totalPath: response.totalPath,
+            hasMorePath: response.hasMorePath,
+            nextCursorPath: pagination?.type === 'cursor' ? response.nextCursorPath : undefined,
+          };
+        }
+
+        // Other parameters become placeholders filled from request variables
+        const queryParams = toPlaceholders(
+          queryNames.filter((name) => !isPaginationParam(name, pagination))
+        );
+        const headers = toPlaceholders(
+          parameters
+            .filter((p) => p.in === 'header' && !authHeaders.includes(p.name.toLowerCase()))
+            .map((p) => p.name)
+        );
+
+        endpoints.push({
+          form: {
+            name: operation.summary?.trim() || operation.operationId || defaultEndpointName(method, path),
+            path,
+            method,
+            description: operation.description || undefined,
+            headers,
+            queryParams,
+            pagination: pagination ? removeUndefined(pagination) : undefined,
+          },
+          response,
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Path-level parameters overridden by operation-level ones with the same name and location
+   */
+  private mergeParameters(...lists: (ParameterObject[] | undefined)[]): ParameterObject[] {
+    const merged = new Map<string, ParameterObject>();
+
+    for (const list of lists) {
+      for (const item of list || []) {
+        const parameter = this.resolve(item);
+        if (parameter?.name) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  private responseShape(operation: OperationObject): ResponseShape | undefined {
+    const responses = operation.responses || {};
+    const code =
+      Object.keys(responses).find((status) => /^2\d\d$/.test(status)) ??
+      (responses['2XX'] ? '2XX' : responses.default ? 'default' : undefined);
+    if (!code) return undefined;
+
+    const response = this.resolve(responses[code]);
+    if (!response) return undefined;
+
+    let schema = response.schema;
+    if (!this.isSwagger && response.content) {
+      const mediaType =
+        response.content['application/json'] ??
+        Object.entries(response.content).find(([type]) => type.includes('json'))?.[1];
+      schema = mediaType?.schema;
+    }
+
+    return schema ? this.describeResponse(schema) : undefined;
+  }
+
+  private describeResponse(schema: SchemaObject): ResponseShape {
+    const resolved = this.flatten(schema);
+
+    if (isArraySchema(resolved)) {
+      return { schemaName: resolved.items && this.refName(resolved.items), isList: true };
+    }
+
+    // Wrapper objects such as { data: [...], total, next_cursor }
+    const dataName = DATA_PATH_NAMES.find((name) => resolved.properties?.[name]);
+    if (dataName) {
+      const data = this.flatten(resolved.properties?.[dataName] || {});
+      const isList = isArraySchema(data);
+      const findPath = (paths: readonly string[]) => paths.find((path) => this.propertyAt(resolved, path));
+
+      return {
+        schemaName: this.refName((isList ? data.items : resolved.properties?.[dataName]) || {}),
+        isList,
+        dataPath: dataName,
+        totalPath: isList ? findPath(TOTAL_PATH_NAMES) : undefined,
+        hasMorePath: isList ? findPath(HAS_MORE_PATH_NAMES) : undefined,
+        nextCursorPath: isList ? findPath(CURSOR_PATH_NAMES) : undefined,
+      };
+    }
+
+    return { schemaName: this.refName(schema), isList: false };
+  }
+
+  private propertyAt(schema: SchemaObject, path: string): SchemaObject | undefined {
+    let current: SchemaObject | undefined = schema;
+    for (const part of path.split('.')) {
+      const property: SchemaObject | undefined = current?.properties?.[part];
+      current = property ? this.flatten(property) : undefined;
+    }
+    return current;
+  }
+
+  // ============= Schemas =============
+
+  /**
+   * One schema per component returned by a GET endpoint, with CRUD paths from the
+   * collection (`/users`) and item (`/users/{{id}}`) operations on the same resource
+   */
+  private importSchemas(endpoints: ImportedEndpoint[]): ImportedSchema[] {
+    const components = (this.isSwagger ? this.document.definitions : this.document.components?.schemas) || {};
+    const names = new Set(
+      endpoints.map((endpoint) => endpoint.response?.schemaName).filter((name): name is string => !!name)
+    );
+
+    return Array.from(names).map((name) => {
+      const reads = endpoints.filter((endpoint) => endpoint.response?.schemaName === name);
+      // The shortest path is the top-level resource rather than a nested one
+      const byPath = (a: ImportedEndpoint, b: ImportedEndpoint) => a.form.path.length - b.form.path.length;
+      const list = reads.filter((endpoint) => endpoint.response?.isList).sort(byPath)[0];
+      const get = reads
+        .filter((endpoint) => !endpoint.response?.isList)
+        .sort(byPath)
+        .find((endpoint) => !list || isItemPath(list.form.path, endpoint.form.path));
+
+      const component = components[name] || {};
+      const source = list || get;
+
+      return {
+        name,
+        description: component.description || component.title,
+        fields: this.buildFields(component),
+        endpointKey: source ? endpointKey('GET', source.form.path) : undefined,
+        crudEndpoints: this.crudEndpoints(endpoints, list?.form.path, get?.form.path),
+      };
+    });
+  }
+
+  private crudEndpoints(
+    endpoints: ImportedEndpoint[],
+    listPath: string | undefined,
+    itemPath: string | undefined
+  ): CrudEndpointConfig {
+    const collection = listPath ?? itemPath?.replace(/\/[^/]*$/, '') ?? '';
+    const item =
+      itemPath ??
+      endpoints.find(({ form }) => form.method !== 'POST' && isItemPath(collection, form.path))?.form.path;
+
+    const find = (methods: DataSourceEndpoint['method'][], path: string | undefined) =>
+      endpoints.find(({ form }) => path !== undefined && form.path === path && methods.includes(form.method))
+        ?.form.path;
+
+    const config: CrudEndpointConfig = {
+      list: listPath,
+      get: itemPath,
+      create: find(['POST'], collection || undefined),
+      update: find(['PUT', 'PATCH'], item),
+      delete: find(['DELETE'], item),
+    };
+
+    // Operations without a matching endpoint are left out rather than kept as empty paths
+    for (const operation of Object.keys(config) as (keyof CrudEndpointConfig)[]) {
+      if (config[operation] === undefined) delete config[operation];
+    }
+    return config;
+  }
+
+  private buildFields(schema: SchemaObject): SchemaField[] {
+    const object = this.flatten(schema);
+    const required = new Set(object.required || []);
+    let hasPrimaryKey = false;
+
+    return Object.entries(object.properties || {}).map(([name, property]) => {
+      const resolved = this.flatten(property);
+      const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+      const type = fieldType(resolved, types.find((item) => item !== 'null'));
+      const isPrimaryKey = !hasPrimaryKey && PRIMARY_KEY_NAME_PATTERN.test(name);
+      hasPrimaryKey ||= isPrimaryKey;
+
+      const field: SchemaField = {
+        name,
+        type,
+        isRequired: required.has(name),
+        isNullable: !!(resolved.nullable || resolved['x-nullable'] || types.includes('null')),
+        isUnique: isPrimaryKey,
+        isPrimaryKey,
+        isForeignKey: false,
+        displayName: resolved.title,
+        description: resolved.description,
+        minLength: resolved.minLength,
+        maxLength: resolved.maxLength,
+        min: resolved.minimum,
+        max: resolved.maximum,
+        pattern: resolved.pattern,
+        confidence: 1,
+      };
+
+      if (type === 'enum') {
+        field.enumValues = (resolved.enum || []).map(String);
+      }
+      if (type === 'array' && resolved.items) {
+        const items = this.flatten(resolved.items);
+        field.arrayItemType = fieldType(items, Array.isArray(items.type) ? items.type[0] : items.type);
+      }
+
+      return removeUndefined(field);
+    });
+  }
+
+  // ============= References =============
+
+  /**
+   * Follow a local `$ref` (`#/components/...`, `#/definitions/...`)
+   */
+  private resolve<T extends { $ref?: string }>(value: T | undefined, depth = 0): T | undefined {
+    if (!value?.$ref) return value;
+
+    if (!value.$ref.startsWith('#/')) {
+      this.warnings.add(`External reference "${value.$ref}" was skipped; only references within the document are followed`);
+      return undefined;
+    }
+    if (depth >= MAX_REF_DEPTH) return undefined;
+
+    let target: unknown = this.document;
+    for (const part of value.$ref.slice(2).split('/')) {
+      const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    }
+
+    if (!target) {
+      this.warnings.add(`Reference "${value.$ref}" could not be resolved`);
+      return undefined;
+    }
+
+    return this.resolve(target as T, depth + 1);
+  }
+
+  /**
+   * Resolve a schema and merge its allOf / oneOf / anyOf parts into one object schema.
+   * Only allOf parts make properties required.
+   */
+  private flatten(schema: SchemaObject, depth = 0): SchemaObject {
+    const resolved = this.resolve(schema) || {};
+    const parts = [...(resolved.allOf || []), ...(resolved.oneOf || []), ...(resolved.anyOf || [])];
+    if (parts.length === 0 || depth >= MAX_REF_DEPTH) return resolved;
+
+    const properties = { ...resolved.properties };
+    const required = [...(resolved.required || [])];
+    const merged: SchemaObject = { ...resolved, properties, required };
+
+    for (const part of parts) {
+      const flat = this.flatten(part, depth + 1);
+      merged.type ??= flat.type;
+      merged.items ??= flat.items;
+      Object.assign(properties, flat.properties);
+      if (resolved.allOf?.includes(part)) required.push(...(flat.required || []));
+    }
+
+    return merged;
+  }
+
+  /**
+   * Component name a schema refers to, e.g. "User" for `#/components/schemas/User`
+   */
+  private refName(schema: SchemaObject): string | undefined {
+    const match = schema.$ref?.match(/^#\/(?:components\/schemas|definitions)\/(.+)$/);
+    if (match) return decodeURIComponent(match[1]);
+
+    // A single-part allOf is a common way to add a description to a reference
+    if (schema.allOf?.length === 1) return this.refName(schema.allOf[0]);
+    return undefined;
+  }
+}
+
+function fieldType(schema: SchemaObject, type: string | undefined): FieldType {
+  if (schema.enum && schema.enum.length > 0) return 'enum';
+
+  switch (type) {
+    case 'string':
+      return (schema.format && STRING_FORMATS[schema.format]) || 'string';
+    case 'integer':
+      return 'integer';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'object':
+      return 'object';
+    default:
+      if (schema.properties) return 'object';
+      if (schema.items) return 'array';
+      return 'unknown';
+  }
+}
+
+function isArraySchema(schema: SchemaObject): boolean {
+  return schema.type === 'array' || (Array.isArray(schema.type) && schema.type.includes('array')) ||
+    (!schema.type && !!schema.items);
+}
+
+/**
+ * Whether `path` addresses one record of the `collection` (e.g. /users/{{id}} of /users)
+ */
+function isItemPath(collection: string, path: string): boolean {
+  return path.startsWith(`${collection}/`) && /^\/\{\{[\w.-]+\}\}$/.test(path.slice(collection.length));
+}
+
+function toPlaceholders(names: string[]): Record<string, string> | undefined {
+  const entries = names.filter(isTemplateName).map((name) => [name, `{{${name}}}`]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function removeUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
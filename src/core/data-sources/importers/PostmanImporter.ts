@@ -0,0 +1,429 @@
+// Postman Importer
+// Generates endpoints, auth settings and schema samples from a Postman v2.x collection
+
+import {
+  AuthConfig,
+  DataSourceEndpoint,
+  DataSourceEndpointFormData,
+  DataSourceImport,
+} from '@/types/data-source';
+import {
+  ImportError,
+  ImportOptions,
+  buildSamples,
+  endpointKey,
+  isPaginationParam,
+  mostCommon,
+  paginationFromParams,
+  parseDocument,
+  parseJsonBody,
+  splitRequestUrl,
+  toTemplatePath,
+} from './utils';
+
+const METHODS: DataSourceEndpoint['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Variables that hold credentials are never copied into endpoints
+const SECRET_VARIABLE = /token|secret|password|passwd|api[-_]?key|credential/i;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+interface PostmanVariable {
+  key: string;
+  value?: unknown;
+  disabled?: boolean;
+}
+
+// v2.1 lists auth settings as key/value pairs; v2.0 used a plain object
+type PostmanAuthValues = PostmanVariable[] | Record<string, unknown>;
+
+interface PostmanAuth {
+  type: string;
+  apikey?: PostmanAuthValues;
+  bearer?: PostmanAuthValues;
+  basic?: PostmanAuthValues;
+  oauth2?: PostmanAuthValues;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  path?: string | string[];
+  query?: PostmanVariable[];
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanVariable[] | string;
+  body?: {
+    mode?: 'raw' | 'urlencoded' | 'formdata' | 'graphql' | 'file';
+    raw?: string;
+    urlencoded?: PostmanVariable[];
+    formdata?: PostmanVariable[];
+  };
+  auth?: PostmanAuth;
+  description?: string | { content?: string };
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  response?: { code?: number; body?: string }[];
+  auth?: PostmanAuth;
+}
+
+interface PostmanCollection {
+  info: {
+    name?: string;
+    description?: string | { content?: string };
+    schema?: string;
+  };
+  item: PostmanItem[];
+  variable?: PostmanVariable[];
+  auth?: PostmanAuth;
+}
+
+/**
+ * A request with the folder names above it and the auth it inherits
+ */
+interface CollectedRequest {
+  name: string;
+  request: PostmanRequest;
+  responses: { code?: number; body?: string }[];
+  auth?: PostmanAuth;
+}
+
+/**
+ * Whether a parsed document is a Postman collection
+ */
+export function isPostmanCollection(document: Record<string, unknown>): boolean {
+  const info = document.info as PostmanCollection['info'] | undefined;
+  return (
+    !!info &&
+    Array.isArray(document.item) &&
+    (typeof info.schema !== 'string' || info.schema.includes('getpostman.com'))
+  );
+}
+
+/**
+ * Import a Postman v2.0/v2.1 collection (as text or parsed)
+ */
+export function importPostman(content: string | object, options: ImportOptions = {}): DataSourceImport {
+  const document = parseDocument(content);
+
+  if (!isPostmanCollection(document)) {
+    throw new ImportError('The document is not a Postman collection');
+  }
+
+  const { schema } = (document as unknown as PostmanCollection).info;
+  if (schema && /\/v1\./.test(schema)) {
+    throw new ImportError('Postman v1 collections are not supported; export the collection as v2.1');
+  }
+
+  return new PostmanImporter(document as unknown as PostmanCollection, options).run();
+}
+
+class PostmanImporter {
+  private readonly variables = new Map<string, string>();
+  private readonly warnings = new Set<string>();
+
+  constructor(
+    private readonly collection: PostmanCollection,
+    private readonly options: ImportOptions
+  ) {
+    for (const variable of collection.variable || []) {
+      if (!variable.disabled && variable.value !== undefined && variable.value !== '') {
+        this.variables.set(variable.key, String(variable.value));
+      }
+    }
+  }
+
+  run(): DataSourceImport {
+    const requests = this.collect(this.collection.item, [], this.collection.auth);
+
+    // Collection auth, or the auth most requests set themselves
+    const requestAuthType = mostCommon(requests.map((request) => request.auth?.type).filter(Boolean));
+    const authSource =
+      this.collection.auth ?? requests.find((request) => request.auth?.type === requestAuthType)?.auth;
+    const auth = this.mapAuth(authSource);
+    const located = requests.map((request) => ({ ...request, ...this.locate(request.request) }));
+    const baseUrl = this.options.baseUrl ?? mostCommon(located.map((request) => request.baseUrl).filter(Boolean));
+
+    const endpoints = new Map<string, DataSourceEndpointFormData>();
+    const responses: { method: string; path: string; data: unknown }[] = [];
+    let otherHosts = 0;
+    let otherAuth = 0;
+
+    for (const request of located) {
+      const method = (request.request.method || 'GET').toUpperCase() as DataSourceEndpoint['method'];
+      if (!METHODS.includes(method)) {
+        this.warnings.add(`${method} requests were skipped; only GET, POST, PUT, PATCH and DELETE are supported`);
+        continue;
+      }
+      if (request.baseUrl && baseUrl && request.baseUrl !== baseUrl) {
+        otherHosts++;
+        continue;
+      }
+      if (request.auth && request.auth.type !== authSource?.type) {
+        otherAuth++;
+      }
+
+      const key = endpointKey(method, request.path);
+      if (endpoints.has(key)) continue;
+
+      endpoints.set(key, this.buildEndpoint(request.name, method, request.path, request.request, auth));
+
+      // Saved examples are the recorded responses
+      const example = request.responses
+        .filter((response) => (response.code ?? 200) >= 200 && (response.code ?? 200) < 300)
+        .map((response) => parseJsonBody(response.body))
+        .find((data) => data !== undefined);
+      if (example !== undefined) {
+        responses.push({ method, path: request.path, data: example });
+      }
+    }
+
+    if (otherHosts > 0) {
+      this.warnings.add(`${otherHosts} request(s) to other hosts than ${baseUrl} were skipped`);
+    }
+    if (otherAuth > 0) {
+      this.warnings.add(`${otherAuth} request(s) set their own auth; they will use the data source's auth`);
+    }
+    if (!baseUrl) {
+      this.warnings.add("The collection doesn't define its host; enter the API's base URL");
+    }
+
+    const description = this.collection.info.description;
+
+    return {
+      format: 'postman',
+      dataSource: {
+        name: this.collection.info.name?.trim() || 'Imported collection',
+        description: typeof description === 'string' ? description : description?.content,
+        type: 'rest',
+        baseUrl,
+        auth,
+      },
+      endpoints: Array.from(endpoints.values()),
+      schemas: [],
+      samples: buildSamples(responses),
+      warnings: Array.from(this.warnings),
+    };
+  }
+
+  /**
+   * Flatten folders into requests named "Folder / Request", with inherited auth
+   */
+  private collect(items: PostmanItem[], folders: string[], inheritedAuth?: PostmanAuth): CollectedRequest[] {
+    return items.flatMap((item) => {
+      const auth = item.auth ?? inheritedAuth;
+      const path = item.name ? [...folders, item.name] : folders;
+
+      if (item.item) {
+        return this.collect(item.item, path, auth);
+      }
+      if (!item.request) return [];
+
+      const request: PostmanRequest = typeof item.request === 'string'
+        ? { method: 'GET', url: item.request }
+        : item.request;
+
+      return [{
+        name: path.join(' / ') || 'Request',
+        request,
+        responses: item.response || [],
+        auth: request.auth ?? auth,
+      }];
+    });
+  }
+
+  /**
+   * Base URL and endpoint path of a request, with collection variables resolved
+   */
+  private locate(request: PostmanRequest): { baseUrl: string; path: string } {
+    const raw = rawUrl(request.url).split(/[?#]/)[0];
+
+    // A leading variable (e.g. {{baseUrl}}) is the base; without a value it comes from an environment
+    const baseVariable = raw.match(/^\{\{\s*([\w.-]+)\s*\}\}/);
+    const baseValue = baseVariable && this.variables.get(baseVariable[1]);
+    if (baseVariable && !(baseValue && this.options.baseUrl)) {
+      const path = this.substitute(raw.slice(baseVariable[0].length)) || '/';
+      return {
+        baseUrl: baseValue ? this.substitute(baseValue).replace(/\/$/, '') : '',
+        path: toTemplatePath(path.startsWith('/') ? path : `/${path}`),
+      };
+    }
+
+    const { baseUrl, path } = splitRequestUrl(this.substitute(raw), this.options.baseUrl);
+    return { baseUrl, path: toTemplatePath(path) };
+  }
+
+  private buildEndpoint(
+    name: string,
+    method: DataSourceEndpoint['method'],
+    path: string,
+    request: PostmanRequest,
+    auth: AuthConfig
+  ): DataSourceEndpointFormData {
+    const query = queryEntries(request.url)
+      .filter((item) => !item.disabled && item.key)
+      .map((item) => ({ key: item.key, value: this.substitute(String(item.value ?? '')) }));
+    const pagination = method === 'GET' ? paginationFromParams(query.map((item) => item.key)) : undefined;
+
+    // The connector sets auth headers and doesn't forward cookies
+    const skipHeaders = ['authorization', 'cookie', auth.apiKeyHeader?.toLowerCase()];
+    const headers = (Array.isArray(request.header) ? request.header : [])
+      .filter((header) => !header.disabled && header.key && !skipHeaders.includes(header.key.toLowerCase()))
+      .map((header) => [header.key, this.substitute(String(header.value ?? ''))]);
+
+    const queryParams = query
+      .filter((item) => !isPaginationParam(item.key, pagination))
+      .map((item) => [item.key, item.value]);
+
+    const description = request.description;
+
+    return {
+      name,
+      path,
+      method,
+      description: typeof description === 'string' ? description : description?.content,
+      headers: headers.length > 0 ? Object.fromEntries(headers) : undefined,
+      queryParams: queryParams.length > 0 ? Object.fromEntries(queryParams) : undefined,
+      bodyTemplate: method !== 'GET' ? this.bodyTemplate(request) : undefined,
+      pagination,
+    };
+  }
+
+  /**
+   * Raw bodies are kept as templates ({{variables}} use the same syntax); form bodies
+   * are converted to JSON, which is what the REST connector sends
+   */
+  private bodyTemplate(request: PostmanRequest): string | undefined {
+    const body = request.body;
+    if (!body) return undefined;
+
+    if (body.mode === 'raw') {
+      return body.raw?.trim() ? this.substitute(body.raw) : undefined;
+    }
+
+    const fields = body.mode === 'urlencoded' ? body.urlencoded : body.mode === 'formdata' ? body.formdata : undefined;
+    if (fields) {
+      this.warnings.add('Form bodies were converted to JSON bodies');
+      const entries = fields
+        .filter((field) => !field.disabled)
+        .map((field) => [field.key, this.substitute(String(field.value ?? ''))]);
+      return JSON.stringify(Object.fromEntries(entries), null, 2);
+    }
+
+    if (body.mode) {
+      this.warnings.add(`${body.mode} bodies are not supported and were left out`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Auth settings without secrets. Values that are variables are resolved unless they hold credentials.
+   */
+  private mapAuth(auth: PostmanAuth | undefined): AuthConfig {
+    if (!auth || auth.type === 'noauth') return { type: 'none' };
+
+    const values = authValues(auth[auth.type as keyof Omit<PostmanAuth, 'type'>]);
+    const value = (key: string) => {
+      const resolved = values[key] !== undefined ? this.substitute(String(values[key])) : undefined;
+      return resolved && !resolved.includes('{{') ? resolved : undefined;
+    };
+
+    switch (auth.type) {
+      case 'bearer':
+        return { type: 'bearer' };
+
+      case 'basic':
+        return { type: 'basic', username: value('username') };
+
+      case 'apikey':
+        if ((value('in') || 'header') !== 'header') {
+          this.warnings.add(
+            'The collection sends its API key as a query parameter; only header API keys are supported, ' +
+              'so add it to the endpoints with {{env.DATA_SOURCE_*}}'
+          );
+          return { type: 'none' };
+        }
+        return { type: 'api_key', apiKeyHeader: value('key') || 'X-API-Key' };
+
+      case 'oauth2': {
+        const tokenUrl = value('accessTokenUrl');
+        if (!tokenUrl) {
+          this.warnings.add('The OAuth2 settings have no token URL; enter a bearer token instead');
+          return { type: 'bearer' };
+        }
+
+        const clientCredentials = value('grant_type') === 'client_credentials';
+        if (!clientCredentials) {
+          this.warnings.add('The collection uses a user OAuth2 flow; enter a refresh token to use it');
+        }
+
+        const scopes = value('scope')?.split(/[\s,]+/).filter(Boolean);
+        return {
+          type: 'oauth2',
+          grantType: clientCredentials ? 'client_credentials' : 'refresh_token',
+          tokenUrl,
+          clientId: value('clientId'),
+          scopes: scopes?.length ? scopes : undefined,
+        };
+      }
+
+      default:
+        this.warnings.add(`Postman ${auth.type} auth is not supported; configure auth after importing`);
+        return { type: 'none' };
+    }
+  }
+
+  /**
+   * Resolve collection variables. Unknown variables and credentials stay as placeholders,
+   * filled from request variables at fetch time.
+   */
+  private substitute(text: string): string {
+    return text.replace(PLACEHOLDER, (match, name: string) => {
+      if (SECRET_VARIABLE.test(name)) {
+        this.warnings.add(
+          `{{${name}}} looks like a credential and was not copied; use auth settings or {{env.DATA_SOURCE_*}}`
+        );
+        return match;
+      }
+      return this.variables.get(name) ?? match;
+    });
+  }
+}
+
+function rawUrl(url: PostmanRequest['url']): string {
+  if (!url) return '/';
+  if (typeof url === 'string') return url;
+  if (url.raw) return url.raw;
+
+  const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+  const path = Array.isArray(url.path) ? url.path.join('/') : url.path || '';
+  return `${url.protocol ? `${url.protocol}://` : ''}${host}/${path.replace(/^\//, '')}`;
+}
+
+function queryEntries(url: PostmanRequest['url']): PostmanVariable[] {
+  if (url && typeof url === 'object' && url.query) return url.query;
+
+  const query = rawUrl(url).split('?')[1]?.split('#')[0];
+  if (!query) return [];
+
+  return query.split('&').filter(Boolean).map((pair) => {
+    const [key, value = ''] = pair.split('=');
+    return { key: decodeURIComponent(key), value: decodeURIComponent(value) };
+  });
+}
+
+function authValues(values: PostmanAuthValues | undefined): Record<string, unknown> {
+  if (!values) return {};
+  if (Array.isArray(values)) {
+    return Object.fromEntries(values.map((item) => [item.key, item.value]));
+  }
+  return values;
+}
@@ -0,0 +1,36 @@
+// Data Source Importers - Public API
+
+import { DataSourceImport } from '@/types/data-source';
+import { importOpenApi, isOpenApiDocument } from './OpenApiImporter';
+import { importPostman, isPostmanCollection } from './PostmanImporter';
+import { importHar, isHarDocument } from './HarImporter';
+import { ImportError, ImportOptions, parseDocument } from './utils';
+
+/**
+ * Import an API description or capture, detecting its format
+ */
+export function importDataSource(content: string | object, options: ImportOptions = {}): DataSourceImport {
+  const document = parseDocument(content);
+
+  if (isOpenApiDocument(document)) {
+    return importOpenApi(document);
+  }
+  if (isPostmanCollection(document)) {
+    return importPostman(document, options);
+  }
+  if (isHarDocument(document)) {
+    return importHar(document, options);
+  }
+
+  throw new ImportError(
+    'Unrecognized document; upload an OpenAPI 3.x or Swagger 2.0 description, a Postman v2.1 collection or a HAR file'
+  );
+}
+
+export { importOpenApi } from './OpenApiImporter';
+export { importPostman } from './PostmanImporter';
+export { importHar } from './HarImporter';
+export { diffImport, hasImportChanges } from './ImportDiff';
+export type { ImportTarget, ImportTargetSchema } from './ImportDiff';
+export { ImportError } from './utils';
+export type { ImportOptions } from './utils';
@@ -0,0 +1,244 @@
+// Import Utilities
+// Parsing and naming helpers shared by the API description importers
+
+import { parse as parseYaml } from 'yaml';
+import { DataSourceEndpoint, ImportedSample, PaginationConfig } from '@/types/data-source';
+import { PAGINATION_PARAMS } from '@/core/schema-detection/utils/patterns';
+
+/**
+ * Error raised when a document can't be imported
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Names that templates can reference (see RequestTemplate)
+const TEMPLATE_NAME = /^[\w.-]+$/;
+
+// Recorded path segments that identify a record: numeric IDs, UUIDs and ObjectIds
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24})$/i;
+
+/**
+ * Settings from the data source a document is imported into
+ */
+export interface ImportOptions {
+  baseUrl?: string;           // Request URLs under this base become endpoint paths
+}
+
+/**
+ * Parse an uploaded or pasted document as JSON, falling back to YAML
+ */
+export function parseDocument(content: string | object): Record<string, unknown> {
+  let document: unknown = content;
+
+  if (typeof content === 'string') {
+    const text = content.trim();
+    if (!text) throw new ImportError('The document is empty');
+
+    try {
+      document = JSON.parse(text);
+    } catch {
+      try {
+        document = parseYaml(text);
+      } catch (error) {
+        throw new ImportError(
+          `The document is neither valid JSON nor YAML${error instanceof Error ? `: ${error.message}` : ''}`
+        );
+      }
+    }
+  }
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new ImportError('The document must be a JSON or YAML object');
+  }
+
+  return document as Record<string, unknown>;
+}
+
+/**
+ * Key identifying an endpoint across imports
+ */
+export function endpointKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Whether a parameter name can be used as a `{{placeholder}}`
+ */
+export function isTemplateName(name: string): boolean {
+  return TEMPLATE_NAME.test(name);
+}
+
+/**
+ * Turn path parameters (`{id}` or `:id`) into template placeholders (`{{id}}`)
+ */
+export function toTemplatePath(path: string): string {
+  return path
+    .replace(/\{+([\w.-]+)\}+/g, '{{$1}}')
+    .replace(/(^|\/):([A-Za-z_][\w-]*)/g, '$1{{$2}}');
+}
+
+/**
+ * Pagination strategy suggested by an endpoint's query parameter names
+ */
+export function paginationFromParams(names: string[]): PaginationConfig | undefined {
+  const find = (candidates: readonly string[]) => names.find((name) => candidates.includes(name));
+
+  const limitParam = find(PAGINATION_PARAMS.limit);
+  const cursorParam = find(PAGINATION_PARAMS.cursor);
+  const pageParam = find(PAGINATION_PARAMS.page);
+  const offsetParam = find(PAGINATION_PARAMS.offset);
+
+  if (cursorParam) return { type: 'cursor', cursorParam, limitParam };
+  if (pageParam) return { type: 'page', pageParam, pageSizeParam: limitParam };
+  if (offsetParam) return { type: 'offset', offsetParam, limitParam: limitParam || 'limit' };
+  return undefined;
+}
+
+/**
+ * Query parameters that carry pagination, which the paginator sets itself
+ */
+export function isPaginationParam(name: string, pagination?: PaginationConfig): boolean {
+  if (!pagination) return false;
+  return [
+    pagination.limitParam,
+    pagination.offsetParam,
+    pagination.pageParam,
+    pagination.pageSizeParam,
+    pagination.cursorParam,
+  ].includes(name);
+}
+
+/**
+ * Readable endpoint name when the document doesn't give one, e.g. "GET /users/{{id}}"
+ * becomes "Get users by id"
+ */
+export function defaultEndpointName(method: DataSourceEndpoint['method'], path: string): string {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = segment.match(/^\{\{([\w.-]+)\}\}$/);
+      return param ? `by ${param[1]}` : segment.replace(/[-_]+/g, ' ');
+    });
+
+  const verb = method.charAt(0) + method.slice(1).toLowerCase();
+  return words.length > 0 ? `${verb} ${words.join(' ')}` : `${verb} root`;
+}
+
+/**
+ * Split an absolute request URL into its origin-and-base part and the endpoint path.
+ * URLs under `baseUrl` are made relative to it; others keep their full path.
+ */
+export function splitRequestUrl(url: string, baseUrl?: string): { baseUrl: string; path: string } {
+  const base = baseUrl?.replace(/\/$/, '');
+  const withoutQuery = url.split(/[?#]/)[0];
+
+  if (base && (withoutQuery === base || withoutQuery.startsWith(`${base}/`))) {
+    return { baseUrl: base, path: withoutQuery.slice(base.length) || '/' };
+  }
+
+  const match = withoutQuery.match(/^([a-z][\w+.-]*:\/\/[^/]+)(\/.*)?$/i);
+  return match
+    ? { baseUrl: match[1], path: match[2] || '/' }
+    : { baseUrl: '', path: withoutQuery.startsWith('/') ? withoutQuery : `/${withoutQuery}` };
+}
+
+/**
+ * Replace recorded IDs in a path with placeholders, e.g. `/users/42/posts/7`
+ * becomes `/users/{{userId}}/posts/{{id}}`
+ */
+export function templateRecordedPath(path: string): string {
+  const segments = path.split('/');
+  const idIndexes = segments
+    .map((segment, index) => (ID_SEGMENT.test(segment) ? index : -1))
+    .filter((index) => index > 0);
+
+  for (const index of idIndexes) {
+    const isLast = index === idIndexes[idIndexes.length - 1];
+    const parent = segments[index - 1].replace(/ies$/, 'y').replace(/s$/, '');
+    segments[index] = isLast || !isTemplateName(parent) || ID_SEGMENT.test(parent)
+      ? '{{id}}'
+      : `{{${parent}Id}}`;
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Schema name for the records an endpoint returns, from its last path segment
+ * that isn't a placeholder (e.g. "Users" for `/users/{{id}}`)
+ */
+export function schemaNameForPath(path: string): string {
+  const segment = path
+    .split('/')
+    .filter((part) => part && !part.includes('{{'))
+    .pop();
+
+  return (segment || 'data')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .trim();
+}
+
+/**
+ * The value that occurs most often (first seen wins ties)
+ */
+export function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse a recorded JSON body, returning undefined when it isn't JSON
+ */
+export function parseJsonBody(text: string | undefined): unknown {
+  if (!text?.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One sample per schema from recorded GET responses. Collection endpoints are preferred
+ * over item endpoints of the same resource, which would otherwise share the schema name.
+ */
+export function buildSamples(
+  responses: { method: string; path: string; data: unknown }[]
+): ImportedSample[] {
+  const samples = new Map<string, ImportedSample>();
+  const isItem = (path: string) => /\/\{\{[\w.-]+\}\}$/.test(path);
+
+  const reads = responses
+    .filter((response) => response.method === 'GET' && response.data !== undefined)
+    .sort((a, b) => Number(isItem(a.path)) - Number(isItem(b.path)));
+
+  for (const response of reads) {
+    const schemaName = schemaNameForPath(response.path);
+    if (!samples.has(schemaName)) {
+      samples.set(schemaName, {
+        endpointKey: endpointKey(response.method, response.path),
+        schemaName,
+        data: response.data,
+      });
+    }
+  }
+
+  return Array.from(samples.values());
+}
@@ -0,0 +1,71 @@
+// Server-Sent Events Parser
+// Splits a text/event-stream body into messages as chunks arrive
+
+export interface SseMessage {
+  event: string;              // "message" unless the server named the event
+  data: string;
+  id?: string;
+}
+
+export class SseParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+
+  // Last event ID and reconnection delay sent by the server, kept across messages
+  lastEventId?: string;
+  retry?: number;
+
+  /**
+   * Add a chunk of the body and return the messages it completes
+   */
+  push(chunk: string): SseMessage[] {
+    this.buffer += chunk;
+    // A trailing \r is kept until the next chunk shows whether \n follows it
+    const lines = this.buffer.split(/\r\n|\r(?!$)|\n/);
+    // The last piece may be an incomplete line
+    this.buffer = lines.pop() ?? '';
+
+    const messages: SseMessage[] = [];
+    for (const line of lines) {
+      const message = this.parseLine(line);
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  private parseLine(line: string): SseMessage | undefined {
+    // A blank line dispatches the message collected so far
+    if (line === '') {
+      const message = this.data.length
+        ? { event: this.event || 'message', data: this.data.join('\n'), id: this.lastEventId }
+        : undefined;
+      this.event = '';
+      this.data = [];
+      return message;
+    }
+
+    // Comments, often sent as keep-alives
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'event':
+        this.event = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+    return undefined;
+  }
+}
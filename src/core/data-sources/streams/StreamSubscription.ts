@@ -0,0 +1,276 @@
+// Stream Subscription
+// Keeps one SSE or WebSocket stream open, holds a rolling window of its records and publishes new ones
+
+import type { WebSocket } from 'undici';
+import { StreamProtocol, StreamUpdateEvent } from '@/types/data-source';
+import { publishServerEvent } from '@/lib/realtime/server';
+import { getNestedValue } from '@/core/schema-detection/utils/sampling';
+import { DataSourceError } from '../errors';
+import { SseParser } from './SseParser';
+
+export const DEFAULT_STREAM_WINDOW = 500;
+export const MAX_STREAM_WINDOW = 10000;
+
+// Reconnection delay, doubled after each failed attempt
+const RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+// Failed attempts in a row (without a record received in between) before giving up
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+// Records are published to browsers at most this often, in batches
+const PUBLISH_INTERVAL = 250;
+
+export type StreamState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface StreamSubscriptionOptions {
+  dataSourceId: string;
+  stream: string;             // Identifies the stream in published events
+  protocol: StreamProtocol;
+  windowSize?: number;
+  dataPath?: string;
+  subscribeMessage?: string;
+
+  // Open the connection; provided by the connector so its auth and network settings apply
+  openEventStream: (lastEventId: string | undefined, signal: AbortSignal) => Promise<Response>;
+  openWebSocket: () => Promise<WebSocket>;
+}
+
+export class StreamSubscription {
+  private options: StreamSubscriptionOptions;
+  private windowSize: number;
+  private records: Record<string, unknown>[] = [];
+  private pending: Record<string, unknown>[] = [];
+  private publishTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectDelay = RECONNECT_DELAY;
+  private failures = 0;
+
+  private state: StreamState = 'closed';
+  private lastError?: DataSourceError;
+  private opened?: Promise<void>;
+
+  private waiters: (() => void)[] = [];
+
+  private controller?: AbortController;
+  private socket?: WebSocket;
+  private parser = new SseParser();
+
+  constructor(options: StreamSubscriptionOptions) {
+    this.options = options;
+    this.windowSize = Math.min(Math.max(options.windowSize || DEFAULT_STREAM_WINDOW, 1), MAX_STREAM_WINDOW);
+  }
+
+  /**
+   * Connect if not connected yet. Resolves once the first connection attempt has finished;
+   * a failed attempt, or a later drop, is retried in the background (see `getError`).
+   */
+  start(): Promise<void> {
+    this.opened ??= this.connect().catch(() => undefined);
+    return this.opened;
+  }
+
+  /**
+   * Records currently in the window, oldest first
+   */
+  getRecords(): Record<string, unknown>[] {
+    return [...this.records];
+  }
+
+  /**
+   * Wait up to `timeout` ms for the first records, when none have arrived yet
+   */
+  async waitForRecords(timeout: number): Promise<void> {
+    if (this.records.length > 0 || this.state !== 'open') return;
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, timeout);
+      this.waiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  getState(): StreamState {
+    return this.state;
+  }
+
+  /**
+   * Error of the last failed connection attempt, while reconnecting or after giving up
+   */
+  getError(): DataSourceError | undefined {
+    return this.state === 'open' ? undefined : this.lastError;
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  stop(): void {
+    this.state = 'closed';
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.publishTimer);
+    this.publishTimer = undefined;
+    this.controller?.abort();
+    this.socket?.close();
+    this.socket = undefined;
+    for (const wake of this.waiters.splice(0)) wake();
+  }
+
+  private async connect(): Promise<void> {
+    this.state = this.state === 'closed' && !this.lastError ? 'connecting' : 'reconnecting';
+
+    try {
+      if (this.options.protocol === 'websocket') {
+        await this.connectWebSocket();
+      } else {
+        await this.connectEventStream();
+      }
+      this.state = 'open';
+      this.lastError = undefined;
+      this.reconnectDelay = this.parser.retry ?? RECONNECT_DELAY;
+    } catch (error) {
+      this.handleDrop(error);
+      throw error;
+    }
+  }
+
+  private async connectEventStream(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const response = await this.options.openEventStream(this.parser.lastEventId, controller.signal);
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw DataSourceError.fromStatus(response.status, response.statusText);
+    }
+    if (!response.body) {
+      throw new DataSourceError('The stream response has no body', 'upstream_5xx');
+    }
+
+    // Read in the background; the stream ending or failing triggers a reconnect
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    (async () => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        for (const message of this.parser.push(value)) {
+          this.receive(message.data, message.event);
+        }
+      }
+      throw new DataSourceError('The stream was closed by the server', 'network');
+    })().catch((error) => {
+      if (this.controller === controller && this.state !== 'closed') this.handleDrop(error);
+    });
+  }
+
+  private async connectWebSocket(): Promise<void> {
+    const socket = await this.options.openWebSocket();
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve());
+      socket.addEventListener('error', (event) =>
+        reject(new DataSourceError(`WebSocket connection failed: ${event.message || 'unknown error'}`, 'network'))
+      );
+    });
+
+    if (this.options.subscribeMessage) {
+      socket.send(this.options.subscribeMessage);
+    }
+
+    socket.addEventListener('message', (event) => {
+      if (typeof event.data === 'string') {
+        this.receive(event.data);
+      } else if (event.data instanceof ArrayBuffer) {
+        this.receive(new TextDecoder().decode(event.data));
+      }
+    });
+    socket.addEventListener('close', (event) => {
+      if (this.socket === socket && this.state !== 'closed') {
+        this.handleDrop(new DataSourceError(`WebSocket closed (${event.code})`, 'network'));
+      }
+    });
+  }
+
+  /**
+   * Record the failure and schedule the next attempt, or stop after MAX_RECONNECT_ATTEMPTS
+   */
+  private handleDrop(error: unknown): void {
+    if (this.state === 'closed') return;
+
+    this.lastError = DataSourceError.fromFetchError(error);
+    if (++this.failures >= MAX_RECONNECT_ATTEMPTS) {
+      this.stop();
+      return;
+    }
+
+    this.state = 'reconnecting';
+    this.controller?.abort();
+    this.socket = undefined;
+
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.connect().catch(() => undefined);
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  /**
+   * Turn a message into records: JSON is parsed (text kept as `value`), `dataPath` is
+   * applied, and arrays become one record per item
+   */
+  private receive(data: string, event?: string): void {
+    let value: unknown;
+    try {
+      value = JSON.parse(data);
+    } catch {
+      value = data;
+    }
+
+    if (this.options.dataPath) {
+      value = getNestedValue(value, this.options.dataPath);
+    }
+    if (value === undefined) return;
+
+    const receivedAt = new Date().toISOString();
+    const records = (Array.isArray(value) ? value : [value]).map((item) => ({
+      ...(item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? (item as Record<string, unknown>)
+        : { value: item }),
+      _receivedAt: receivedAt,
+      ...(event && event !== 'message' ? { _event: event } : {}),
+    }));
+
+    this.failures = 0;
+    this.records.push(...records);
+    if (this.records.length > this.windowSize) {
+      this.records.splice(0, this.records.length - this.windowSize);
+    }
+
+    for (const wake of this.waiters.splice(0)) wake();
+
+    this.pending.push(...records);
+    this.publishTimer ??= setTimeout(() => this.publish(), PUBLISH_INTERVAL);
+  }
+
+  private publish(): void {
+    this.publishTimer = undefined;
+    const records = this.pending.slice(-this.windowSize);
+    this.pending = [];
+    if (records.length === 0) return;
+
+    publishServerEvent<StreamUpdateEvent>({
+      type: 'data:created',
+      resource: 'data-source',
+      resourceId: this.options.dataSourceId,
+      data: {
+        dataSourceId: this.options.dataSourceId,
+        stream: this.options.stream,
+        records,
+        windowSize: this.windowSize,
+      },
+    });
+  }
+}
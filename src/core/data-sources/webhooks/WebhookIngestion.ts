@@ -0,0 +1,166 @@
+// Webhook Ingestion
+// Signed ingestion URLs, payload signature checks and storage of events pushed to webhook data sources
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/db';
+import { decrypt, encrypt } from '@/lib/encryption';
+import { publishServerEvent } from '@/lib/realtime/server';
+import { WebhookConfig, WebhookReceivedEvent } from '@/types/data-source';
+import { DataSourceManager } from '../DataSourceManager';
+import { saveEvents } from './WebhookStore';
+
+export const WEBHOOK_SECRET_FIELDS = ['signingKey', 'secret'] as const;
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Largest accepted request body
+export const MAX_PAYLOAD_SIZE = 1024 * 1024;
+
+// Events accepted in one request (a JSON array is stored as one event per item)
+const MAX_EVENTS_PER_REQUEST = 1000;
+
+// Header names: RFC 7230 token characters
+const HEADER_NAME = /^[A-Za-z0-9!#$%&'*+.^_`|~-]{1,100}$/;
+
+/**
+ * Error raised when a pushed request is rejected, with the HTTP status to answer with
+ */
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Path of the ingestion URL. The token is an HMAC of the data source ID, so the URL
+ * can't be guessed from the ID and stops working when the signing key is replaced.
+ */
+export function webhookPath(dataSourceId: string, signingKey: string): string {
+  return `/api/webhooks/${dataSourceId}/${webhookToken(dataSourceId, signingKey)}`;
+}
+
+/**
+ * Encrypt the signing key and shared secret before storing them.
+ * A blank value keeps the `stored` (already encrypted) one; null removes it.
+ */
+export function encryptWebhookConfig(config: WebhookConfig, stored: WebhookConfig = {}): WebhookConfig {
+  const encrypted = { ...config };
+
+  for (const field of WEBHOOK_SECRET_FIELDS) {
+    const value = config[field] as string | null | undefined;
+    if (value) {
+      encrypted[field] = encrypt(value);
+    } else if (value !== null && stored[field]) {
+      encrypted[field] = stored[field];
+    } else {
+      delete encrypted[field];
+    }
+  }
+
+  return encrypted;
+}
+
+/**
+ * Validate webhook settings before saving, returning an error message if invalid
+ */
+export function validateWebhookConfig(config: WebhookConfig): string | null {
+  if (config.signatureHeader && !HEADER_NAME.test(config.signatureHeader)) {
+    return 'Invalid signature header name';
+  }
+  if (config.retentionDays !== undefined && !(Number.isInteger(config.retentionDays) && config.retentionDays >= 1)) {
+    return 'Retention must be a whole number of days';
+  }
+  if (config.maxEvents !== undefined && !(Number.isInteger(config.maxEvents) && config.maxEvents >= 1)) {
+    return 'Maximum events must be a positive whole number';
+  }
+  return null;
+}
+
+/**
+ * Check a pushed request against a webhook data source and store its payload.
+ * Returns the number of events stored.
+ */
+export async function receiveWebhook(
+  dataSourceId: string,
+  token: string,
+  body: string,
+  headers: Headers
+): Promise<number> {
+  const record = await prisma.dataSource.findUnique({
+    where: { id: dataSourceId },
+    select: { type: true, webhookConfig: true },
+  });
+
+  const config: WebhookConfig = record?.webhookConfig ? JSON.parse(record.webhookConfig) : {};
+
+  // Unknown sources and wrong tokens look the same to the sender
+  if (record?.type !== 'webhook' || !config.signingKey) {
+    throw new WebhookError('Not found', 404);
+  }
+  if (!safeEqual(token, webhookToken(dataSourceId, decrypt(config.signingKey)))) {
+    throw new WebhookError('Not found', 404);
+  }
+
+  if (config.secret) {
+    const header = config.signatureHeader || DEFAULT_SIGNATURE_HEADER;
+    const signature = headers.get(header)?.trim().replace(/^sha256=/i, '');
+    const expected = crypto.createHmac('sha256', decrypt(config.secret)).update(body).digest('hex');
+
+    if (!signature || !safeEqual(signature.toLowerCase(), expected)) {
+      throw new WebhookError(`Missing or invalid ${header} signature`, 401);
+    }
+  }
+
+  const payload = parsePayload(body, headers.get('content-type') || '');
+  const payloads = Array.isArray(payload) ? payload : [payload];
+
+  if (payloads.length > MAX_EVENTS_PER_REQUEST) {
+    throw new WebhookError(`At most ${MAX_EVENTS_PER_REQUEST} events can be sent at once`, 413);
+  }
+  if (payloads.length === 0) {
+    return 0;
+  }
+
+  await saveEvents(dataSourceId, payloads, config);
+
+  // Cached widget queries hold the previous events
+  DataSourceManager.invalidateCache([`datasource:${dataSourceId}`]);
+
+  publishServerEvent<WebhookReceivedEvent>({
+    type: 'data:created',
+    resource: 'data-source',
+    resourceId: dataSourceId,
+    data: { dataSourceId, count: payloads.length },
+  });
+
+  return payloads.length;
+}
+
+function webhookToken(dataSourceId: string, signingKey: string): string {
+  return crypto.createHmac('sha256', signingKey).update(dataSourceId).digest('base64url');
+}
+
+/**
+ * JSON bodies, or form-encoded bodies as an object of their fields
+ */
+function parsePayload(body: string, contentType: string): unknown {
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new WebhookError('The payload must be JSON or form-encoded', 415);
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
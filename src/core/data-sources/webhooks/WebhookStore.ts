@@ -0,0 +1,130 @@
+// Webhook Store
+// Keeps payloads pushed to webhook data sources in the database, within their retention limits
+
+import { prisma } from '@/lib/db';
+import { WebhookConfig } from '@/types/data-source';
+
+export const DEFAULT_RETENTION_DAYS = 30;
+export const DEFAULT_MAX_EVENTS = 10000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Newest first; events received in the same request share a timestamp
+const NEWEST_FIRST = [{ receivedAt: 'desc' as const }, { id: 'desc' as const }];
+
+/**
+ * Event row as stored by Prisma (the payload is a JSON string)
+ */
+export interface WebhookEventRecord {
+  id: string;
+  dataSourceId: string;
+  payload: string;
+  receivedAt: Date;
+}
+
+/**
+ * Record for an event: the payload's fields (or `value` for payloads that aren't
+ * objects), plus `_eventId` and `_receivedAt`
+ */
+export function eventToRow(record: WebhookEventRecord): Record<string, unknown> {
+  const payload: unknown = JSON.parse(record.payload);
+  const fields =
+    payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? (payload as Record<string, unknown>)
+      : { value: payload };
+
+  return { ...fields, _eventId: record.id, _receivedAt: record.receivedAt.toISOString() };
+}
+
+/**
+ * Store received payloads, then delete events beyond the retention limits
+ */
+export async function saveEvents(
+  dataSourceId: string,
+  payloads: unknown[],
+  config: WebhookConfig = {}
+): Promise<void> {
+  const receivedAt = new Date();
+
+  await prisma.webhookEvent.createMany({
+    data: payloads.map((payload) => ({
+      dataSourceId,
+      payload: JSON.stringify(payload),
+      receivedAt,
+    })),
+  });
+
+  await pruneEvents(dataSourceId, config);
+}
+
+/**
+ * Delete events older than the retention period and the oldest ones beyond the maximum
+ * count, returning the number deleted
+ */
+export async function pruneEvents(dataSourceId: string, config: WebhookConfig = {}): Promise<number> {
+  const retentionDays = config.retentionDays || DEFAULT_RETENTION_DAYS;
+  const maxEvents = config.maxEvents || DEFAULT_MAX_EVENTS;
+
+  const expired = await prisma.webhookEvent.deleteMany({
+    where: { dataSourceId, receivedAt: { lt: new Date(Date.now() - retentionDays * DAY) } },
+  });
+
+  const overflow = await prisma.webhookEvent.findMany({
+    where: { dataSourceId },
+    orderBy: NEWEST_FIRST,
+    skip: maxEvents,
+    select: { id: true },
+  });
+
+  if (overflow.length === 0) {
+    return expired.count;
+  }
+
+  const removed = await prisma.webhookEvent.deleteMany({
+    where: { id: { in: overflow.map((event: { id: string }) => event.id) } },
+  });
+
+  return expired.count + removed.count;
+}
+
+/**
+ * Stored events of a data source, newest first
+ */
+export async function listEvents(
+  dataSourceId: string,
+  page: { limit?: number; offset?: number } = {}
+): Promise<WebhookEventRecord[]> {
+  const records = await prisma.webhookEvent.findMany({
+    where: { dataSourceId },
+    orderBy: NEWEST_FIRST,
+    skip: page.offset,
+    take: page.limit,
+  });
+  return records as WebhookEventRecord[];
+}
+
+/**
+ * Number of stored events and when the newest was received
+ */
+export async function getEventStats(
+  dataSourceId: string
+): Promise<{ count: number; lastReceivedAt?: Date }> {
+  const [count, newest] = await Promise.all([
+    prisma.webhookEvent.count({ where: { dataSourceId } }),
+    prisma.webhookEvent.findFirst({
+      where: { dataSourceId },
+      orderBy: NEWEST_FIRST,
+      select: { receivedAt: true },
+    }),
+  ]);
+
+  return { count, lastReceivedAt: newest?.receivedAt };
+}
+
+/**
+ * Delete every stored event of a data source, returning the number deleted
+ */
+export async function clearEvents(dataSourceId: string): Promise<number> {
+  const { count } = await prisma.webhookEvent.deleteMany({ where: { dataSourceId } });
+  return count;
+}
@@ -7,8 +7,12 @@ import {
   SchemaDetectionOptions,
   PaginationAnalysis,
   FieldType,
+  FieldHint,
+  SchemaRelationship,
+  CrudEndpointConfig,
 } from '@/types/schema';
 import { DataSource } from '@/types/data-source';
+import { DataSourceManager } from '@/core/data-sources/DataSourceManager';
 import { WidgetSuggestion } from '@/types/widget';
 
 import {
@@ -21,7 +25,7 @@ import {
 
 import {
   EmptyDataError,
-  InvalidDataError,
+  DataSourceConnectionError,
   SchemaNotFoundError,
   SchemaPersistenceError,
   wrapError,
@@ -51,6 +55,9 @@ import {
 } from './utils/sampling';
 import { adjustForSampleSize } from './utils/confidence';
 
+// Sub-documents deeper than this are left as plain 'object' fields
+const MAX_NESTED_DEPTH = 3;
+
 /**
  * Schema Detection Service
  *
@@ -100,7 +107,10 @@ export class SchemaDetectionService {
         options.maxSampleSize || 100
       );
 
-      if (extraction.samples.length === 0) {
+      const fieldHints = options.fieldHints || [];
+
+      // Hints alone are enough to describe an empty table or collection
+      if (extraction.samples.length === 0 && fieldHints.length === 0) {
         throw new EmptyDataError();
       }
 
@@ -108,7 +118,7 @@ export class SchemaDetectionService {
       const responseStructure = this.structureAnalyzer.analyze(options.sampleData);
 
       // Add warning for small sample size
-      if (extraction.samples.length < 5) {
+      if (extraction.samples.length < 5 && fieldHints.length === 0) {
         warnings.push(
           `Only ${extraction.samples.length} samples available. Detection confidence may be low.`
         );
@@ -116,25 +126,30 @@ export class SchemaDetectionService {
       }
 
       // Analyze all fields
-      const fieldAnalyses = this.analyzeAllFields(extraction.samples);
-
-      // Detect primary key
-      const pkResult = this.primaryKeyDetector.detect(
-        fieldAnalyses.map((fa) => ({
-          fieldName: fa.name,
-          type: fa.type,
-          isUnique: fa.isUnique,
-          statistics: this.typeAnalyzer.collectStatistics(
-            extractFieldValues(extraction.samples, fa.name)
-          ),
-        }))
-      );
+      const fieldAnalyses = this.analyzeAllFields(extraction.samples, options.dataSourceId);
+
+      // Apply metadata reported by the data source itself
+      this.applyFieldHints(fieldAnalyses, fieldHints);
+
+      // Detect primary key unless the data source already reported one
+      if (!fieldAnalyses.some((fa) => fa.isPrimaryKey)) {
+        const pkResult = this.primaryKeyDetector.detect(
+          fieldAnalyses.map((fa) => ({
+            fieldName: fa.name,
+            type: fa.type,
+            isUnique: fa.isUnique,
+            statistics: this.typeAnalyzer.collectStatistics(
+              extractFieldValues(extraction.samples, fa.name)
+            ),
+          }))
+        );
 
-      // Mark primary key
-      if (pkResult.fieldName) {
-        const pkField = fieldAnalyses.find((f) => f.name === pkResult.fieldName);
-        if (pkField) {
-          pkField.isPrimaryKey = true;
+        // Mark primary key
+        if (pkResult.fieldName) {
+          const pkField = fieldAnalyses.find((f) => f.name === pkResult.fieldName);
+          if (pkField) {
+            pkField.isPrimaryKey = true;
+          }
         }
       }
 
@@ -182,18 +197,104 @@ export class SchemaDetectionService {
   }
 
   /**
-   * Detect schema by fetching from endpoint
+   * Detect schema by fetching from endpoint.
+   * Field hints reported by the connector (introspection, catalogs) are applied on top.
    */
   async detectFromEndpoint(
     dataSource: DataSource,
     endpoint: string,
     options?: Partial<SchemaDetectionOptions>
   ): Promise<ExtendedDetectionResult> {
-    // This would integrate with DataSourceManager to fetch data
-    // For now, throw an error indicating this requires data
-    throw new InvalidDataError(
-      'detectFromEndpoint requires DataSourceManager integration. Use detectSchema with sampleData instead.'
-    );
+    let sampleData: unknown;
+    let fieldHints: FieldHint[];
+    let crudEndpoints: CrudEndpointConfig | undefined;
+
+    try {
+      const connector = DataSourceManager.getConnector(dataSource);
+      [sampleData, fieldHints, crudEndpoints] = await Promise.all([
+        connector.sample(endpoint, options?.maxSampleSize || 100),
+        connector.getFieldHints?.(endpoint) ?? [],
+        connector.getCrudEndpoints?.(endpoint),
+      ]);
+    } catch (error) {
+      throw new DataSourceConnectionError(
+        `Failed to fetch sample data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        dataSource.id
+      );
+    }
+
+    const result = await this.detectSchema({
+      ...options,
+      dataSourceId: dataSource.id,
+      name: options?.name || this.inferSchemaName({ dataSourceId: dataSource.id, endpointId: endpoint }),
+      sampleData,
+      fieldHints: [...fieldHints, ...(options?.fieldHints || [])],
+    });
+
+    // Writable database tables can be edited through the schema
+    if (crudEndpoints) {
+      result.schema.crudEnabled = true;
+      result.schema.crudEndpoints = crudEndpoints;
+    }
+
+    return result;
+  }
+
+  /**
+   * Detect and save schemas for the endpoints a data source reports (tables, collections),
+   * then record the relationships the source declares between them (e.g. foreign keys).
+   * `endpointIds` maps endpoint paths to saved DataSourceEndpoint ids to link the schemas to.
+   */
+  async importFromDataSource(
+    dataSource: DataSource,
+    endpoints?: string[],
+    endpointIds: Record<string, string> = {}
+  ): Promise<{ schemas: Schema[]; relationships: SchemaRelationship[]; warnings: string[] }> {
+    const paths =
+      endpoints ?? (await DataSourceManager.listEndpoints(dataSource)).map((e) => e.path);
+
+    const schemas: Schema[] = [];
+    const schemaByEndpoint = new Map<string, Schema>();
+    const warnings: string[] = [];
+
+    for (const path of paths) {
+      try {
+        const result = await this.detectFromEndpoint(dataSource, path, {
+          endpointId: endpointIds[path],
+          detectPagination: false,
+        });
+        const schema = await this.saveSchema(result.schema);
+        schemas.push(schema);
+        schemaByEndpoint.set(path, schema);
+        warnings.push(...result.warnings.map((w) => `${path}: ${w}`));
+      } catch (error) {
+        warnings.push(`${path}: ${error instanceof Error ? error.message : 'Detection failed'}`);
+      }
+    }
+
+    const relationships: SchemaRelationship[] = [];
+    for (const rel of await DataSourceManager.listRelationships(dataSource)) {
+      const source = schemaByEndpoint.get(rel.sourceEndpoint);
+      const target = schemaByEndpoint.get(rel.targetEndpoint);
+      if (!source || !target) continue;
+
+      const sourceField = source.fields.find((f) => f.name === rel.sourceField);
+      relationships.push({
+        id: `rel_${source.id}_${target.id}_${rel.sourceField}`,
+        name: rel.name,
+        sourceSchemaId: source.id,
+        sourceField: rel.sourceField,
+        targetSchemaId: target.id,
+        targetField: rel.targetField,
+        type: sourceField?.isUnique ? 'one-to-one' : 'one-to-many',
+      });
+    }
+
+    if (relationships.length > 0) {
+      await prisma.schemaRelationship.createMany({ data: relationships });
+    }
+
+    return { schemas, relationships, warnings };
   }
 
   /**
@@ -460,7 +561,11 @@ export class SchemaDetectionService {
   /**
    * Analyze all fields in the samples
    */
-  private analyzeAllFields(samples: unknown[]): FieldAnalysisResult[] {
+  private analyzeAllFields(
+    samples: unknown[],
+    dataSourceId: string,
+    depth = 0
+  ): FieldAnalysisResult[] {
     if (samples.length === 0) {
       return [];
     }
@@ -471,17 +576,69 @@ export class SchemaDetectionService {
 
     for (const fieldName of fieldNames) {
       const values = extractFieldValues(samples, fieldName);
-      const analysis = this.analyzeField(fieldName, values);
+      const analysis = this.analyzeField(fieldName, values, dataSourceId, depth);
       results.push(analysis);
     }
 
     return results;
   }
 
+  /**
+   * Override inferred field properties with hints from the data source.
+   * Hinted fields missing from the samples are added.
+   */
+  private applyFieldHints(
+    fieldAnalyses: FieldAnalysisResult[],
+    hints: FieldHint[]
+  ): void {
+    for (const hint of hints) {
+      let analysis = fieldAnalyses.find((fa) => fa.name === hint.name);
+
+      if (!analysis) {
+        analysis = {
+          name: hint.name,
+          type: 'unknown',
+          confidence: 1,
+          isRequired: false,
+          isNullable: true,
+          isUnique: false,
+          isPrimaryKey: false,
+          isForeignKey: false,
+          validation: {},
+          sampleValues: [],
+          inferredFromCount: 0,
+        };
+        fieldAnalyses.push(analysis);
+      }
+
+      if (hint.type) analysis.type = hint.type;
+      if (hint.isRequired !== undefined) analysis.isRequired = hint.isRequired;
+      if (hint.isNullable !== undefined) analysis.isNullable = hint.isNullable;
+      if (hint.isUnique !== undefined) analysis.isUnique = hint.isUnique;
+      if (hint.isPrimaryKey !== undefined) analysis.isPrimaryKey = hint.isPrimaryKey;
+      if (hint.isForeignKey !== undefined) analysis.isForeignKey = hint.isForeignKey;
+      if (hint.enumValues) analysis.enumValues = hint.enumValues;
+      if (hint.arrayItemType) analysis.arrayItemType = hint.arrayItemType;
+      if (hint.nestedSchema) analysis.nestedSchema = hint.nestedSchema;
+      if (hint.referenceTo) analysis.referenceTo = hint.referenceTo;
+      if (hint.referenceField) analysis.referenceField = hint.referenceField;
+      if (hint.maxLength !== undefined) analysis.validation.maxLength = hint.maxLength;
+      if (hint.description) analysis.description = hint.description;
+
+      // Types reported by the source are authoritative
+      if (hint.type) analysis.confidence = hint.confidence ?? 1;
+    }
+  }
+
   /**
    * Analyze a single field
    */
-  private analyzeField(fieldName: string, values: unknown[]): FieldAnalysisResult {
+  private analyzeField(
+    fieldName: string,
+    values: unknown[],
+    dataSourceId: string,
+    depth: number
+  ): FieldAnalysisResult {
     // Collect statistics
     const stats = this.typeAnalyzer.collectStatistics(values);
 
@@ -509,6 +666,22 @@ export class SchemaDetectionService {
       }
     }
 
+    // Describe sub-documents with a schema of their own
+    let nestedSchema: Schema | undefined;
+    if (typeResult.type === 'object' && depth < MAX_NESTED_DEPTH) {
+      const objects = values.filter(
+        (v) => v !== null && typeof v === 'object' && !Array.isArray(v)
+      );
+      const nestedFields = this.analyzeAllFields(objects, dataSourceId, depth + 1);
+      if (nestedFields.length > 0) {
+        nestedSchema = this.buildSchema(
+          { dataSourceId, name: this.toTitleCase(fieldName) },
+          nestedFields,
+          objects.length
+        );
+      }
+    }
+
     // Detect if this looks like an ID field
     const idAnalysis = this.typeAnalyzer.isLikelyIdField(fieldName, stats);
 
@@ -535,6 +708,7 @@ export class SchemaDetectionService {
       }),
       enumValues,
       arrayItemType,
+      nestedSchema,
       validation: {
         minLength: validation.minLength,
         maxLength: validation.maxLength,
@@ -568,6 +742,10 @@ export class SchemaDetectionService {
       isForeignKey: fa.isForeignKey,
       enumValues: fa.enumValues,
       arrayItemType: fa.arrayItemType,
+      nestedSchema: fa.nestedSchema,
+      referenceTo: fa.referenceTo,
+      referenceField: fa.referenceField,
+      description: fa.description,
       minLength: fa.validation.minLength,
       maxLength: fa.validation.maxLength,
       min: fa.validation.min,
@@ -605,6 +783,9 @@ export class SchemaDetectionService {
    * Infer schema name from options
    */
   private inferSchemaName(options: SchemaDetectionOptions): string {
+    if (options.name) {
+      return options.name;
+    }
     if (options.endpointId) {
       // Extract name from endpoint path
       const parts = options.endpointId.split('/').filter(Boolean);
@@ -82,6 +82,7 @@ export interface FieldAnalysisResult {
   };
   referenceTo?: string;
   referenceField?: string;
+  description?: string;
   sampleValues: unknown[];
   inferredFromCount: number;
 }
@@ -0,0 +1,287 @@
+// Credential Rotation
+// Re-encrypts stored data source credentials with the newest encryption key
+
+import { prisma } from '@/lib/db';
+import {
+  KeyringStatus,
+  decrypt,
+  getKeyVersion,
+  getKeyringStatus,
+  needsReencryption,
+  reencrypt,
+} from '@/lib/encryption';
+import { NETWORK_SECRET_FIELDS } from '@/core/data-sources/NetworkClient';
+import { WEBHOOK_SECRET_FIELDS } from '@/core/data-sources/webhooks/WebhookIngestion';
+import { AUTH_SECRET_FIELDS, DataSourceEnvironment } from '@/types/data-source';
+import { auditLogger } from './AuditLogger';
+
+interface CredentialRecord {
+  id: string;
+  name: string;
+  authConfig: string;
+  connectionString: string | null;
+  networkConfig: string | null;
+  environments: string | null;
+  webhookConfig: string | null;
+}
+
+export interface CredentialRotationFailure {
+  dataSourceId: string;
+  dataSourceName: string;
+  error: string;
+}
+
+export interface CredentialRotationRun {
+  startedAt: string;
+  finishedAt: string;
+  rotated: number;            // Data sources whose credentials were re-encrypted
+  skipped: number;            // Data sources edited during the run; picked up by the next run
+  failures: CredentialRotationFailure[];
+}
+
+export interface CredentialRotationStatus {
+  keyring: KeyringStatus;
+  values: Record<number, number>;     // Stored encrypted values by key version
+  pending: number;                    // Values not yet encrypted with the newest key
+  undecryptable: CredentialRotationFailure[];
+  running: boolean;
+  lastRun?: CredentialRotationRun;
+}
+
+const CREDENTIAL_SELECT = {
+  id: true,
+  name: true,
+  authConfig: true,
+  connectionString: true,
+  networkConfig: true,
+  environments: true,
+  webhookConfig: true,
+};
+
+let running: Promise<CredentialRotationRun> | undefined;
+let lastRun: CredentialRotationRun | undefined;
+
+export class CredentialRotation {
+  /**
+   * Count stored credentials by key version and find the ones no configured key can decrypt
+   */
+  static async getStatus(): Promise<CredentialRotationStatus> {
+    const records = (await prisma.dataSource.findMany({
+      select: CREDENTIAL_SELECT,
+    })) as CredentialRecord[];
+
+    const values: Record<number, number> = {};
+    const undecryptable: CredentialRotationFailure[] = [];
+    let pending = 0;
+
+    for (const record of records) {
+      let failure: CredentialRotationFailure | undefined;
+
+      for (const { field, value } of this.secrets(record)) {
+        const version = getKeyVersion(value);
+        values[version] = (values[version] || 0) + 1;
+        if (needsReencryption(value)) pending++;
+
+        try {
+          decrypt(value);
+        } catch (error) {
+          failure ??= this.failure(record, error, field);
+        }
+      }
+
+      if (failure) undecryptable.push(failure);
+    }
+
+    return {
+      keyring: getKeyringStatus(),
+      values,
+      pending,
+      undecryptable,
+      running: !!running,
+      lastRun,
+    };
+  }
+
+  /**
+   * Re-encrypt every data source's credentials that use an older key. Data sources that
+   * fail are reported and left unchanged. Only one rotation runs at a time; calls made
+   * while one is running get its result.
+   */
+  static rotate(userId?: string): Promise<CredentialRotationRun> {
+    if (!running) {
+      running = this.run(userId).finally(() => {
+        running = undefined;
+      });
+    }
+    return running;
+  }
+
+  private static async run(userId?: string): Promise<CredentialRotationRun> {
+    const startedAt = new Date().toISOString();
+    const result = { rotated: 0, skipped: 0, failures: [] as CredentialRotationFailure[] };
+
+    const records = (await prisma.dataSource.findMany({
+      select: CREDENTIAL_SELECT,
+    })) as CredentialRecord[];
+
+    for (const record of records) {
+      try {
+        if (!this.secrets(record).some(({ value }) => needsReencryption(value))) continue;
+
+        // Only write if the credentials weren't changed since they were read
+        const { count } = await prisma.dataSource.updateMany({
+          where: {
+            id: record.id,
+            authConfig: record.authConfig,
+            connectionString: record.connectionString,
+            networkConfig: record.networkConfig,
+            environments: record.environments,
+            webhookConfig: record.webhookConfig,
+          },
+          data: this.reencryptRecord(record),
+        });
+
+        result[count > 0 ? 'rotated' : 'skipped']++;
+      } catch (error) {
+        result.failures.push(this.failure(record, error));
+      }
+    }
+
+    lastRun = { startedAt, finishedAt: new Date().toISOString(), ...result };
+
+    if (userId) {
+      await auditLogger.log({
+        userId,
+        action: 'rotate_credentials',
+        resource: 'settings',
+        details: {
+          keyVersion: getKeyringStatus().currentVersion,
+          rotated: result.rotated,
+          failed: result.failures.length,
+        },
+      });
+    }
+
+    return lastRun;
+  }
+
+  /**
+   * Encrypted values stored for a data source
+   */
+  private static secrets(record: CredentialRecord): { field: string; value: string }[] {
+    const secrets: { field: string; value: string }[] = [];
+    const auth = JSON.parse(record.authConfig) as Record<string, unknown>;
+    const network = record.networkConfig
+      ? (JSON.parse(record.networkConfig) as Record<string, unknown>)
+      : {};
+    const webhook = record.webhookConfig
+      ? (JSON.parse(record.webhookConfig) as Record<string, unknown>)
+      : {};
+
+    for (const field of AUTH_SECRET_FIELDS) {
+      if (typeof auth[field] === 'string' && auth[field]) {
+        secrets.push({ field, value: auth[field] as string });
+      }
+    }
+    if (record.connectionString) {
+      secrets.push({ field: 'connectionString', value: record.connectionString });
+    }
+    for (const field of NETWORK_SECRET_FIELDS) {
+      if (typeof network[field] === 'string' && network[field]) {
+        secrets.push({ field, value: network[field] as string });
+      }
+    }
+    for (const environment of this.environments(record)) {
+      for (const field of AUTH_SECRET_FIELDS) {
+        const value = environment.auth?.[field];
+        if (value) {
+          secrets.push({ field: `${environment.name}.${field}`, value });
+        }
+      }
+    }
+    for (const field of WEBHOOK_SECRET_FIELDS) {
+      if (typeof webhook[field] === 'string' && webhook[field]) {
+        secrets.push({ field: `webhook.${field}`, value: webhook[field] as string });
+      }
+    }
+
+    return secrets;
+  }
+
+  /**
+   * Column values with every secret encrypted with the newest key
+   */
+  private static reencryptRecord(record: CredentialRecord): Partial<CredentialRecord> {
+    const auth = JSON.parse(record.authConfig) as Record<string, unknown>;
+    for (const field of AUTH_SECRET_FIELDS) {
+      if (typeof auth[field] === 'string' && auth[field]) {
+        auth[field] = this.reencryptValue(field, auth[field] as string);
+      }
+    }
+
+    const data: Partial<CredentialRecord> = { authConfig: JSON.stringify(auth) };
+
+    if (record.connectionString) {
+      data.connectionString = this.reencryptValue('connectionString', record.connectionString);
+    }
+
+    if (record.networkConfig) {
+      const network = JSON.parse(record.networkConfig) as Record<string, unknown>;
+      for (const field of NETWORK_SECRET_FIELDS) {
+        if (typeof network[field] === 'string' && network[field]) {
+          network[field] = this.reencryptValue(field, network[field] as string);
+        }
+      }
+      data.networkConfig = JSON.stringify(network);
+    }
+
+    if (record.environments) {
+      const environments = this.environments(record);
+      for (const { name, auth } of environments) {
+        for (const field of AUTH_SECRET_FIELDS) {
+          if (auth?.[field]) {
+            auth[field] = this.reencryptValue(`${name}.${field}`, auth[field]);
+          }
+        }
+      }
+      data.environments = JSON.stringify(environments);
+    }
+
+    if (record.webhookConfig) {
+      const webhook = JSON.parse(record.webhookConfig) as Record<string, unknown>;
+      for (const field of WEBHOOK_SECRET_FIELDS) {
+        if (typeof webhook[field] === 'string' && webhook[field]) {
+          webhook[field] = this.reencryptValue(`webhook.${field}`, webhook[field] as string);
+        }
+      }
+      data.webhookConfig = JSON.stringify(webhook);
+    }
+
+    return data;
+  }
+
+  private static environments(record: CredentialRecord): DataSourceEnvironment[] {
+    return record.environments ? (JSON.parse(record.environments) as DataSourceEnvironment[]) : [];
+  }
+
+  private static reencryptValue(field: string, value: string): string {
+    try {
+      return reencrypt(value);
+    } catch (error) {
+      throw new Error(`${field}: ${error instanceof Error ? error.message : 'decryption failed'}`);
+    }
+  }
+
+  private static failure(
+    record: CredentialRecord,
+    error: unknown,
+    field?: string
+  ): CredentialRotationFailure {
+    const message = error instanceof Error ? error.message : 'Re-encryption failed';
+    return {
+      dataSourceId: record.id,
+      dataSourceName: record.name,
+      error: field ? `${field}: ${message}` : message,
+    };
+  }
+}
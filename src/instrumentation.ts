@@ -0,0 +1,25 @@
+// Server Instrumentation
+// Starts background jobs when the Next.js server boots
+
+export async function register() {
+  // Background jobs need Node.js APIs (Prisma, timers), so skip the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.HEALTH_CHECKS_ENABLED !== 'false') {
+    const { HealthScheduler } = await import('@/core/data-sources/HealthScheduler');
+    HealthScheduler.start();
+  }
+
+  // Re-encrypt credentials left on an older key once the new key is in the keyring
+  if (process.env.CREDENTIAL_ROTATION_ENABLED !== 'false') {
+    const { CredentialRotation } = await import('@/core/security/CredentialRotation');
+    CredentialRotation.rotate().then(
+      (run) => {
+        for (const failure of run.failures) {
+          console.error(`Credential rotation failed for ${failure.dataSourceName}: ${failure.error}`);
+        }
+      },
+      (error) => console.error('Credential rotation failed:', error)
+    );
+  }
+}
@@ -1,64 +1,185 @@
 // Encryption utilities for securing sensitive data (API keys, credentials)
-// Uses AES-256-GCM for authenticated encryption
+// Uses AES-256-GCM for authenticated encryption, with a keyring of versioned keys
 
 import crypto from 'crypto';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
 const SALT = 'headless-admin-dashboard-salt';
 
-function getEncryptionKey(): Buffer {
-  const key = process.env.ENCRYPTION_KEY;
+// Versioned ciphertext starts with "v<key version>:"; values without it predate key versioning
+const VERSION_PREFIX = /^v(\d+):/;
+
+// Key version of ciphertext written before key versioning, and of ENCRYPTION_KEY
+const LEGACY_KEY_VERSION = 1;
+
+/**
+ * Error raised when a value can't be encrypted or decrypted with the configured keys
+ */
+export class EncryptionError extends Error {
+  public readonly keyVersion?: number;
+
+  constructor(message: string, keyVersion?: number) {
+    super(message);
+    this.name = 'EncryptionError';
+    this.keyVersion = keyVersion;
+  }
+}
+
+export interface KeyringStatus {
+  currentVersion: number;     // Version new values are encrypted with
+  versions: number[];         // Every configured version, newest first
+}
+
+// Master keys by version, derived once per keyring configuration (scrypt is slow)
+let keyring: { source: string; keys: Map<number, Buffer> } | undefined;
+
+/**
+ * Master keys by version. `ENCRYPTION_KEYS` lists "version:secret" pairs separated by
+ * commas; `ENCRYPTION_KEY` is version 1. The highest version encrypts, all of them decrypt.
+ */
+function getKeyring(): Map<number, Buffer> {
+  const source = `${process.env.ENCRYPTION_KEYS || ''}\n${process.env.ENCRYPTION_KEY || ''}`;
+  if (keyring?.source === source) {
+    return keyring.keys;
+  }
+
+  const secrets = new Map<number, string>();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf(':');
+    const version = Number(entry.slice(0, separator).trim());
+    const secret = entry.slice(separator + 1).trim();
+
+    if (separator < 0 || !Number.isInteger(version) || version < 1 || !secret) {
+      throw new EncryptionError('ENCRYPTION_KEYS must be a comma-separated list of "version:secret" pairs');
+    }
+    if (secrets.has(version)) {
+      throw new EncryptionError(`ENCRYPTION_KEYS lists key version ${version} more than once`, version);
+    }
+    secrets.set(version, secret);
+  }
+
+  if (process.env.ENCRYPTION_KEY && !secrets.has(LEGACY_KEY_VERSION)) {
+    secrets.set(LEGACY_KEY_VERSION, process.env.ENCRYPTION_KEY);
+  }
+
+  if (secrets.size === 0) {
+    throw new EncryptionError('Neither ENCRYPTION_KEYS nor ENCRYPTION_KEY environment variable is set');
+  }
+
+  // Derive a 32-byte master key from each secret using scrypt
+  const keys = new Map<number, Buffer>();
+  for (const [version, secret] of secrets) {
+    keys.set(version, crypto.scryptSync(secret, SALT, 32));
+  }
+
+  keyring = { source, keys };
+  return keys;
+}
+
+function getKey(version: number): Buffer {
+  const key = getKeyring().get(version);
   if (!key) {
-    throw new Error('ENCRYPTION_KEY environment variable is not set');
+    throw new EncryptionError(
+      `Encryption key version ${version} is not configured; add it to ENCRYPTION_KEYS`,
+      version
+    );
   }
-  // Derive a 32-byte key from the environment variable using scrypt
-  return crypto.scryptSync(key, SALT, 32);
+  return key;
 }
 
 /**
- * Encrypts a string using AES-256-GCM
- * Returns a base64-encoded string containing: IV + ciphertext + auth tag
+ * Key for one value: the master key expanded with the value's random salt
+ */
+function deriveKey(master: Buffer, salt: Buffer, version: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', master, salt, `v${version}`, 32));
+}
+
+/**
+ * Versions of the configured keys
+ */
+export function getKeyringStatus(): KeyringStatus {
+  const versions = Array.from(getKeyring().keys()).sort((a, b) => b - a);
+  return { currentVersion: versions[0], versions };
+}
+
+/**
+ * Encrypts a string using AES-256-GCM with the newest key
+ * Returns "v<key version>:" followed by base64 of: salt + IV + ciphertext + auth tag
  */
 export function encrypt(text: string): string {
-  const key = getEncryptionKey();
+  const { currentVersion } = getKeyringStatus();
+  const salt = crypto.randomBytes(SALT_LENGTH);
   const iv = crypto.randomBytes(IV_LENGTH);
+  const key = deriveKey(getKey(currentVersion), salt, currentVersion);
 
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
 
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-
-  const authTag = cipher.getAuthTag();
-
-  // Combine IV + encrypted data + auth tag
-  return Buffer.concat([
-    iv,
-    Buffer.from(encrypted, 'hex'),
-    authTag,
-  ]).toString('base64');
+  return `v${currentVersion}:${Buffer.concat([salt, iv, encrypted, cipher.getAuthTag()]).toString('base64')}`;
 }
 
 /**
- * Decrypts a base64-encoded string encrypted with encrypt()
+ * Decrypts a string encrypted with encrypt(), by any configured key version
  * Returns the original plaintext string
  */
 export function decrypt(encryptedText: string): string {
-  const key = getEncryptionKey();
-  const buffer = Buffer.from(encryptedText, 'base64');
+  const version = getKeyVersion(encryptedText);
+  const master = getKey(version);
+  const versioned = VERSION_PREFIX.test(encryptedText);
+  const buffer = Buffer.from(encryptedText.replace(VERSION_PREFIX, ''), 'base64');
+
+  // Unversioned values were encrypted with the master key directly and carry no salt
+  const saltLength = versioned ? SALT_LENGTH : 0;
+  if (buffer.length < saltLength + IV_LENGTH + TAG_LENGTH) {
+    throw new EncryptionError('Value is not encrypted or is truncated', version);
+  }
 
-  const iv = buffer.subarray(0, IV_LENGTH);
+  const key = versioned ? deriveKey(master, buffer.subarray(0, saltLength), version) : master;
+  const iv = buffer.subarray(saltLength, saltLength + IV_LENGTH);
   const authTag = buffer.subarray(buffer.length - TAG_LENGTH);
-  const encrypted = buffer.subarray(IV_LENGTH, buffer.length - TAG_LENGTH);
+  const encrypted = buffer.subarray(saltLength + IV_LENGTH, buffer.length - TAG_LENGTH);
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch {
+    throw new EncryptionError(
+      `Value could not be decrypted with key version ${version}; the key may have changed or the value is not encrypted`,
+      version
+    );
+  }
+}
 
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
+/**
+ * Key version a value was encrypted with
+ */
+export function getKeyVersion(encryptedText: string): number {
+  const match = encryptedText.match(VERSION_PREFIX);
+  return match ? Number(match[1]) : LEGACY_KEY_VERSION;
+}
 
-  let decrypted = decipher.update(encrypted);
-  decrypted = Buffer.concat([decrypted, decipher.final()]);
+/**
+ * Whether a value was encrypted with an older key (or before key versioning)
+ */
+export function needsReencryption(encryptedText: string): boolean {
+  return (
+    !VERSION_PREFIX.test(encryptedText) ||
+    getKeyVersion(encryptedText) !== getKeyringStatus().currentVersion
+  );
+}
 
-  return decrypted.toString('utf8');
+/**
+ * Re-encrypts a value with the newest key; values already using it are returned as-is
+ */
+export function reencrypt(encryptedText: string): string {
+  return needsReencryption(encryptedText) ? encrypt(decrypt(encryptedText)) : encryptedText;
 }
 
 /**
@@ -83,7 +204,7 @@ export function encryptSensitiveFields<T extends Record<string, unknown>>(
 }
 
 /**
- * Decrypts an object's sensitive fields
+ * Decrypts an object's sensitive fields; throws EncryptionError if one can't be decrypted
  * @param obj - Object containing encrypted data
  * @param sensitiveFields - Array of field names to decrypt
  */
@@ -96,12 +217,7 @@ export function decryptSensitiveFields<T extends Record<string, unknown>>(
   for (const field of sensitiveFields) {
     const value = result[field];
     if (typeof value === 'string' && value.length > 0) {
-      try {
-        result[field] = decrypt(value) as T[keyof T];
-      } catch {
-        // If decryption fails, the value might not be encrypted
-        // Leave it as-is
-      }
+      result[field] = decrypt(value) as T[keyof T];
     }
   }
 
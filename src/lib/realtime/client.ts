@@ -11,7 +11,7 @@ import {
 } from './types';
 
 const DEFAULT_CONFIG: Required<RealtimeConfig> = {
-  url: '',
+  url: '/api/realtime',
   autoConnect: true,
   reconnectInterval: 3000,
   maxReconnectAttempts: 10,
@@ -24,6 +24,7 @@ export function createRealtimeClient(config: RealtimeConfig = {}): RealtimeClien
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
 
   let ws: WebSocket | null = null;
+  let eventSource: EventSource | null = null;
   let heartbeatTimer: NodeJS.Timeout | null = null;
   let reconnectTimer: NodeJS.Timeout | null = null;
   let pollingTimer: NodeJS.Timeout | null = null;
@@ -125,9 +126,47 @@ export function createRealtimeClient(config: RealtimeConfig = {}): RealtimeClien
     }, mergedConfig.reconnectInterval * Math.pow(1.5, state.retryCount));
   };
 
+  const connectEventSource = () => {
+    if (eventSource && eventSource.readyState !== EventSource.CLOSED) {
+      return;
+    }
+
+    updateState({ status: 'connecting' });
+
+    eventSource = new EventSource(mergedConfig.url);
+
+    eventSource.onopen = () => {
+      updateState({
+        status: 'connected',
+        lastConnected: new Date(),
+        retryCount: 0,
+        error: undefined,
+      });
+      stopPolling();
+    };
+
+    eventSource.onerror = () => {
+      // EventSource reconnects by itself unless the server refused the stream
+      if (eventSource?.readyState === EventSource.CLOSED) {
+        eventSource = null;
+        scheduleReconnect();
+      } else {
+        updateState({ status: 'connecting' });
+      }
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        emit(JSON.parse(event.data) as RealtimeEvent);
+      } catch (err) {
+        console.error('Failed to parse event stream message:', err);
+      }
+    };
+  };
+
   const connect = () => {
     if (!mergedConfig.url) {
-      // No WebSocket URL provided, use polling as fallback
+      // No URL provided, use polling as fallback
       if (mergedConfig.useFallbackPolling) {
         updateState({ status: 'connected' });
         startPolling();
@@ -135,6 +174,12 @@ export function createRealtimeClient(config: RealtimeConfig = {}): RealtimeClien
       return;
     }
 
+    // HTTP URLs are Server-Sent Event streams (receive only)
+    if (!/^wss?:/.test(mergedConfig.url)) {
+      connectEventSource();
+      return;
+    }
+
     if (ws?.readyState === WebSocket.OPEN) {
       return;
     }
@@ -204,6 +249,11 @@ export function createRealtimeClient(config: RealtimeConfig = {}): RealtimeClien
       ws = null;
     }
 
+    if (eventSource) {
+      eventSource.close();
+      eventSource = null;
+    }
+
     updateState({ status: 'disconnected', retryCount: 0 });
   };
 
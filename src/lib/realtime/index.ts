@@ -1,5 +1,6 @@
 // Real-time Updates Module
-// WebSocket-based real-time updates with polling fallback
+// WebSocket or Server-Sent Events real-time updates with polling fallback
+// (server code publishes through ./server, which is not re-exported here)
 
 export * from './types';
 export * from './client';
@@ -0,0 +1,44 @@
+// Real-time Server Hub
+// In-process event bus for server code; events reach browsers through /api/realtime
+
+import { RealtimeEvent, EventHandler, UnsubscribeFn } from './types';
+
+// Shared through globalThis so route handlers and instrumentation see the same hub
+const globalForRealtime = globalThis as unknown as {
+  realtimeSubscribers: Set<EventHandler> | undefined;
+};
+
+const subscribers = (globalForRealtime.realtimeSubscribers ??= new Set<EventHandler>());
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Publish an event to all connected clients
+ */
+export function publishServerEvent<T = unknown>(
+  event: Omit<RealtimeEvent<T>, 'id' | 'timestamp'>
+): void {
+  const fullEvent: RealtimeEvent<T> = {
+    ...event,
+    id: generateId(),
+    timestamp: Date.now(),
+  };
+
+  subscribers.forEach((handler) => {
+    try {
+      handler(fullEvent as RealtimeEvent);
+    } catch (err) {
+      console.error('Realtime subscriber failed:', err);
+    }
+  });
+}
+
+/**
+ * Receive every published event (used by the event stream route)
+ */
+export function subscribeServerEvents(handler: EventHandler): UnsubscribeFn {
+  subscribers.add(handler);
+  return () => {
+    subscribers.delete(handler);
+  };
+}
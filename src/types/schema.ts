@@ -81,14 +81,14 @@ export interface SchemaRelationship {
 }
 
 /**
- * CRUD endpoint configuration for a schema
+ * CRUD endpoint configuration for a schema; operations the API doesn't offer are left out
  */
 export interface CrudEndpointConfig {
-  list: string;               // GET endpoint for listing
-  get: string;                // GET endpoint for single item
-  create: string;             // POST endpoint for creating
-  update: string;             // PUT/PATCH endpoint for updating
-  delete: string;             // DELETE endpoint for deleting
+  list?: string;              // GET endpoint for listing
+  get?: string;               // GET endpoint for single item
+  create?: string;            // POST endpoint for creating
+  update?: string;            // PUT/PATCH endpoint for updating
+  delete?: string;            // DELETE endpoint for deleting
 }
 
 /**
@@ -119,13 +119,21 @@ export interface Schema {
   updatedAt: Date;
 }
 
+/**
+ * Field metadata reported by the data source itself (GraphQL introspection,
+ * database catalogs). Hints take precedence over values inferred from samples.
+ */
+export type FieldHint = Pick<SchemaField, 'name'> & Partial<Omit<SchemaField, 'name'>>;
+
 /**
  * Options for schema detection
  */
 export interface SchemaDetectionOptions {
   dataSourceId: string;
   endpointId?: string;
+  name?: string;              // Defaults to a name derived from the endpoint
   sampleData?: unknown;
+  fieldHints?: FieldHint[];
   existingSchemas?: Schema[];
   maxSampleSize?: number;
   detectRelationships?: boolean;